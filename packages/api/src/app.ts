@@ -11,6 +11,15 @@ import geofenceRoutes from './routes/geofences.js';
 import locationRoutes from './routes/location.js';
 import dashboardRoutes from './routes/dashboard.js';
 import driverRoutes from './routes/drivers.js';
+import webhookRoutes from './routes/webhooks.js';
+import realtimeRoutes from './routes/realtime.js';
+import trackingRoutes from './routes/tracking.js';
+import dispatchRoutes from './routes/dispatch.js';
+import retentionRoutes from './routes/retention.js';
+import slaRoutes from './routes/sla.js';
+import proofRoutes from './routes/proofs.js';
+import deliveryAttemptRoutes from './routes/delivery-attempts.js';
+import exportRoutes from './routes/exports.js';
 
 // Middleware
 import { authMiddleware } from './middleware/auth.js';
@@ -45,6 +54,15 @@ export function createApp(): AppType {
   app.route('/api/location', locationRoutes);
   app.route('/api/dashboard', dashboardRoutes);
   app.route('/api/drivers', driverRoutes);
+  app.route('/api/webhooks', webhookRoutes);
+  app.route('/api/realtime', realtimeRoutes);
+  app.route('/api/tracking', trackingRoutes);
+  app.route('/api/dispatch', dispatchRoutes);
+  app.route('/api/retention', retentionRoutes);
+  app.route('/api/sla', slaRoutes);
+  app.route('/api/proofs', proofRoutes);
+  app.route('/api/delivery-attempts', deliveryAttemptRoutes);
+  app.route('/api/exports', exportRoutes);
 
   // Protected suffix middleware
   app.use('/api/orders/*', authMiddleware);
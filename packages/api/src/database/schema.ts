@@ -65,6 +65,8 @@ export const createTables = () => {
       current_latitude REAL,
       current_longitude REAL,
       last_location_update DATETIME,
+      connection_status TEXT NOT NULL DEFAULT 'offline' CHECK (connection_status IN ('online', 'stale', 'offline')),
+      connection_changed_at DATETIME,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (user_id) REFERENCES users(id),
@@ -72,9 +74,22 @@ export const createTables = () => {
     )
   `);
 
+  // Backfill connection columns for existing databases
+  try {
+    const columns = db.prepare(`PRAGMA table_info(drivers)`).all() as Array<{ name: string }>;
+    const names = new Set(columns.map(c => c.name));
+    if (!names.has('connection_status')) {
+      db.exec(`ALTER TABLE drivers ADD COLUMN connection_status TEXT NOT NULL DEFAULT 'offline' CHECK (connection_status IN ('online', 'stale', 'offline'))`);
+    }
+    if (!names.has('connection_changed_at')) {
+      db.exec(`ALTER TABLE drivers ADD COLUMN connection_changed_at DATETIME`);
+    }
+  } catch (e) {
+    console.warn('Could not ensure connection columns on drivers table:', e);
+  }
+
   // Orders table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS orders (
+  const ordersColumns = `
       id TEXT PRIMARY KEY,
       tracking_code TEXT UNIQUE NOT NULL,
       business_id TEXT NOT NULL,
@@ -88,19 +103,118 @@ export const createTables = () => {
       delivery_address TEXT NOT NULL,
       delivery_latitude REAL NOT NULL,
       delivery_longitude REAL NOT NULL,
-      status TEXT NOT NULL CHECK (status IN ('pending', 'assigned', 'picked_up', 'in_transit', 'delivered', 'cancelled')),
+      status TEXT NOT NULL CHECK (status IN (
+        'pending', 'assigned', 'picked_up', 'in_transit', 'delivered', 'cancelled',
+        'failed_attempt', 'rescheduled', 'returned'
+      )),
       priority TEXT NOT NULL CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
       estimated_delivery DATETIME,
+      predicted_delivery DATETIME, -- ETA recomputed from live driver progress
+      eta_updated_at DATETIME,
+      sla_status TEXT NOT NULL DEFAULT 'ok' CHECK (sla_status IN ('ok', 'at_risk', 'breached')),
       actual_pickup DATETIME,
       actual_delivery DATETIME,
+      attempt_count INTEGER NOT NULL DEFAULT 0, -- failed delivery attempts so far
+      rescheduled_for DATETIME, -- when a rescheduled order goes back to the dispatch queue
+      pickup_ready_at DATETIME, -- when the goods can be collected
+      delivery_window_start DATETIME, -- customer-requested delivery window
+      delivery_window_end DATETIME,
+      scheduled_for DATETIME, -- a scheduled order stays hidden from dispatch until this time
+      released_at DATETIME, -- when a scheduled order was released for dispatch
+      external_ref TEXT, -- the sender's own reference; unique per business so re-imports are skipped
       notes TEXT,
       metadata TEXT, -- JSON string for additional order data
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (business_id) REFERENCES businesses(id),
       FOREIGN KEY (driver_id) REFERENCES drivers(id)
-    )
-  `);
+  `;
+  db.exec(`CREATE TABLE IF NOT EXISTS orders (${ordersColumns})`);
+
+  // Backfill ETA columns for existing databases
+  try {
+    const columns = db.prepare(`PRAGMA table_info(orders)`).all() as Array<{ name: string }>;
+    const names = new Set(columns.map(c => c.name));
+    if (!names.has('predicted_delivery')) {
+      db.exec(`ALTER TABLE orders ADD COLUMN predicted_delivery DATETIME`);
+    }
+    if (!names.has('eta_updated_at')) {
+      db.exec(`ALTER TABLE orders ADD COLUMN eta_updated_at DATETIME`);
+    }
+  } catch (e) {
+    console.warn('Could not ensure ETA columns on orders table:', e);
+  }
+
+  // Backfill SLA column for existing databases
+  try {
+    const columns = db.prepare(`PRAGMA table_info(orders)`).all() as Array<{ name: string }>;
+    if (!columns.some(c => c.name === 'sla_status')) {
+      db.exec(`ALTER TABLE orders ADD COLUMN sla_status TEXT NOT NULL DEFAULT 'ok' CHECK (sla_status IN ('ok', 'at_risk', 'breached'))`);
+    }
+  } catch (e) {
+    console.warn('Could not ensure SLA column on orders table:', e);
+  }
+
+  // Backfill delivery attempt columns for existing databases
+  try {
+    const columns = db.prepare(`PRAGMA table_info(orders)`).all() as Array<{ name: string }>;
+    const names = new Set(columns.map(c => c.name));
+    if (!names.has('attempt_count')) {
+      db.exec(`ALTER TABLE orders ADD COLUMN attempt_count INTEGER NOT NULL DEFAULT 0`);
+    }
+    if (!names.has('rescheduled_for')) {
+      db.exec(`ALTER TABLE orders ADD COLUMN rescheduled_for DATETIME`);
+    }
+  } catch (e) {
+    console.warn('Could not ensure delivery attempt columns on orders table:', e);
+  }
+
+  // Backfill scheduling columns for existing databases
+  try {
+    const columns = db.prepare(`PRAGMA table_info(orders)`).all() as Array<{ name: string }>;
+    const names = new Set(columns.map(c => c.name));
+    for (const column of ['pickup_ready_at', 'delivery_window_start', 'delivery_window_end', 'scheduled_for', 'released_at']) {
+      if (!names.has(column)) {
+        db.exec(`ALTER TABLE orders ADD COLUMN ${column} DATETIME`);
+      }
+    }
+  } catch (e) {
+    console.warn('Could not ensure scheduling columns on orders table:', e);
+  }
+
+  // Backfill external reference column for existing databases
+  try {
+    const columns = db.prepare(`PRAGMA table_info(orders)`).all() as Array<{ name: string }>;
+    if (!columns.some(c => c.name === 'external_ref')) {
+      db.exec(`ALTER TABLE orders ADD COLUMN external_ref TEXT`);
+    }
+  } catch (e) {
+    console.warn('Could not ensure external reference column on orders table:', e);
+  }
+
+  // Rebuild orders on existing databases whose CHECK constraint predates failed deliveries.
+  // Foreign keys are off while the old table is dropped so referencing rows survive.
+  try {
+    const table = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'orders'`)
+      .get() as { sql: string } | undefined;
+    if (table && !table.sql.includes(`'returned'`)) {
+      const columns = (db.prepare(`PRAGMA table_info(orders)`).all() as Array<{ name: string }>)
+        .map(c => c.name).join(', ');
+      db.pragma('foreign_keys = OFF');
+      try {
+        db.transaction(() => {
+          db.exec(`CREATE TABLE orders_new (${ordersColumns})`);
+          db.exec(`INSERT INTO orders_new (${columns}) SELECT ${columns} FROM orders`);
+          db.exec(`DROP TABLE orders`);
+          db.exec(`ALTER TABLE orders_new RENAME TO orders`);
+        })();
+      } finally {
+        db.pragma('foreign_keys = ON');
+      }
+    }
+  } catch (e) {
+    console.warn('Could not extend order statuses:', e);
+  }
 
   // Geofences table
   db.exec(`
@@ -109,9 +223,12 @@ export const createTables = () => {
       business_id TEXT NOT NULL,
       name TEXT NOT NULL,
       type TEXT NOT NULL CHECK (type IN ('pickup', 'delivery', 'restricted', 'custom')),
+      shape TEXT NOT NULL DEFAULT 'circle' CHECK (shape IN ('circle', 'polygon', 'multipolygon')),
       center_latitude REAL NOT NULL,
       center_longitude REAL NOT NULL,
-      radius REAL NOT NULL, -- in meters
+      radius REAL NOT NULL, -- in meters; bounding radius around the center for polygon shapes
+      coordinates TEXT, -- JSON [lat, lng] ring (polygon) or array of rings (multipolygon)
+      dwell_time INTEGER, -- seconds inside before a dwell event; NULL uses the server default
       is_active BOOLEAN DEFAULT 1,
       metadata TEXT, -- JSON string for additional geofence data
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -120,6 +237,23 @@ export const createTables = () => {
     )
   `);
 
+  // Backfill polygon columns for existing databases
+  try {
+    const columns = db.prepare(`PRAGMA table_info(geofences)`).all() as Array<{ name: string }>;
+    const names = new Set(columns.map(c => c.name));
+    if (!names.has('shape')) {
+      db.exec(`ALTER TABLE geofences ADD COLUMN shape TEXT NOT NULL DEFAULT 'circle' CHECK (shape IN ('circle', 'polygon', 'multipolygon'))`);
+    }
+    if (!names.has('coordinates')) {
+      db.exec(`ALTER TABLE geofences ADD COLUMN coordinates TEXT`);
+    }
+    if (!names.has('dwell_time')) {
+      db.exec(`ALTER TABLE geofences ADD COLUMN dwell_time INTEGER`);
+    }
+  } catch (e) {
+    console.warn('Could not ensure polygon columns on geofences table:', e);
+  }
+
   // Location history table
   db.exec(`
     CREATE TABLE IF NOT EXISTS location_history (
@@ -138,19 +272,64 @@ export const createTables = () => {
   `);
 
   // Geofence events table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS geofence_events (
+  const geofenceEventsColumns = `
       id TEXT PRIMARY KEY,
       geofence_id TEXT NOT NULL,
       driver_id TEXT NOT NULL,
       order_id TEXT,
-      event_type TEXT NOT NULL CHECK (event_type IN ('enter', 'exit')),
+      event_type TEXT NOT NULL CHECK (event_type IN ('enter', 'exit', 'dwell')),
       latitude REAL NOT NULL,
       longitude REAL NOT NULL,
       timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
       FOREIGN KEY (geofence_id) REFERENCES geofences(id),
       FOREIGN KEY (driver_id) REFERENCES drivers(id),
       FOREIGN KEY (order_id) REFERENCES orders(id)
+  `;
+  db.exec(`CREATE TABLE IF NOT EXISTS geofence_events (${geofenceEventsColumns})`);
+
+  // Rebuild geofence_events on existing databases whose CHECK constraint predates 'dwell'
+  try {
+    const table = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'geofence_events'`)
+      .get() as { sql: string } | undefined;
+    if (table && !table.sql.includes(`'dwell'`)) {
+      db.transaction(() => {
+        db.exec(`ALTER TABLE geofence_events RENAME TO geofence_events_old`);
+        db.exec(`CREATE TABLE geofence_events (${geofenceEventsColumns})`);
+        db.exec(`INSERT INTO geofence_events SELECT * FROM geofence_events_old`);
+        db.exec(`DROP TABLE geofence_events_old`);
+      })();
+    }
+  } catch (e) {
+    console.warn('Could not extend geofence_events event types:', e);
+  }
+
+  // Per-driver geofence state used to derive enter/exit/dwell transitions
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS geofence_states (
+      driver_id TEXT NOT NULL,
+      geofence_id TEXT NOT NULL,
+      is_inside BOOLEAN NOT NULL DEFAULT 0,
+      entered_at DATETIME,
+      dwell_notified BOOLEAN NOT NULL DEFAULT 0,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (driver_id, geofence_id),
+      FOREIGN KEY (driver_id) REFERENCES drivers(id),
+      FOREIGN KEY (geofence_id) REFERENCES geofences(id)
+    )
+  `);
+
+  // Geofence triggers table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS geofence_triggers (
+      id TEXT PRIMARY KEY,
+      geofence_id TEXT NOT NULL,
+      event_type TEXT NOT NULL CHECK (event_type IN ('enter', 'exit', 'dwell')),
+      action_type TEXT NOT NULL CHECK (action_type IN ('webhook', 'notification', 'status_update')),
+      action_config TEXT NOT NULL DEFAULT '{}', -- JSON action parameters
+      is_active BOOLEAN DEFAULT 1,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (geofence_id) REFERENCES geofences(id)
     )
   `);
 
@@ -170,7 +349,190 @@ export const createTables = () => {
     )
   `);
 
+  // Webhook delivery log
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      webhook_id TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      payload TEXT NOT NULL, -- JSON body as sent
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      response_status INTEGER,
+      response_body TEXT,
+      error TEXT,
+      next_attempt_at DATETIME,
+      delivered_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (webhook_id) REFERENCES webhooks(id)
+    )
+  `);
+
+  // Order audit trail: status transitions, assignments and cancellations with the acting user
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS order_events (
+      id TEXT PRIMARY KEY,
+      order_id TEXT NOT NULL,
+      event_type TEXT NOT NULL, -- created, status_changed, assigned, reassigned, cancelled, released
+      from_status TEXT,
+      to_status TEXT,
+      driver_id TEXT,
+      previous_driver_id TEXT,
+      note TEXT,
+      reason TEXT, -- reason code for failed attempts and returns
+      actor_user_id TEXT, -- NULL when the system acted (triggers, auto-dispatch)
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (order_id) REFERENCES orders(id)
+    )
+  `);
+
+  // Backfill failure reason column for existing databases
+  try {
+    const columns = db.prepare(`PRAGMA table_info(order_events)`).all() as Array<{ name: string }>;
+    if (!columns.some(c => c.name === 'reason')) {
+      db.exec(`ALTER TABLE order_events ADD COLUMN reason TEXT`);
+    }
+  } catch (e) {
+    console.warn('Could not ensure reason column on order_events table:', e);
+  }
+
+  // One row per failed delivery attempt, kept after the order is re-queued
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS delivery_attempts (
+      id TEXT PRIMARY KEY,
+      order_id TEXT NOT NULL,
+      driver_id TEXT,
+      attempt_number INTEGER NOT NULL,
+      reason TEXT NOT NULL,
+      notes TEXT,
+      actor_user_id TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (order_id, attempt_number),
+      FOREIGN KEY (order_id) REFERENCES orders(id),
+      FOREIGN KEY (driver_id) REFERENCES drivers(id)
+    )
+  `);
+
+  // Trip metrics derived from location history, stored once an order is delivered
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS order_trips (
+      order_id TEXT PRIMARY KEY,
+      driver_id TEXT,
+      distance_km REAL NOT NULL DEFAULT 0,
+      duration_minutes REAL NOT NULL DEFAULT 0,
+      moving_minutes REAL NOT NULL DEFAULT 0,
+      stopped_minutes REAL NOT NULL DEFAULT 0,
+      max_speed_kmh REAL NOT NULL DEFAULT 0,
+      avg_moving_speed_kmh REAL NOT NULL DEFAULT 0,
+      stop_count INTEGER NOT NULL DEFAULT 0,
+      point_count INTEGER NOT NULL DEFAULT 0,
+      started_at DATETIME,
+      ended_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (order_id) REFERENCES orders(id),
+      FOREIGN KEY (driver_id) REFERENCES drivers(id)
+    )
+  `);
+
+  // SLA alerts: one row per order, stage and level, recorded the first time it is reached
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sla_alerts (
+      id TEXT PRIMARY KEY,
+      order_id TEXT NOT NULL,
+      business_id TEXT NOT NULL,
+      stage TEXT NOT NULL CHECK (stage IN ('assign', 'pickup', 'delivery')),
+      level TEXT NOT NULL CHECK (level IN ('at_risk', 'breached')),
+      deadline DATETIME NOT NULL,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (order_id, stage, level),
+      FOREIGN KEY (order_id) REFERENCES orders(id),
+      FOREIGN KEY (business_id) REFERENCES businesses(id)
+    )
+  `);
+
+  // Proof of delivery: recipient, files stored on disk and where the driver stood
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS delivery_proofs (
+      id TEXT PRIMARY KEY,
+      order_id TEXT NOT NULL UNIQUE,
+      business_id TEXT NOT NULL,
+      driver_id TEXT,
+      submitted_by TEXT,
+      recipient_name TEXT NOT NULL,
+      signature_file TEXT,
+      photo_files TEXT NOT NULL DEFAULT '[]',
+      latitude REAL,
+      longitude REAL,
+      accuracy REAL,
+      distance_meters REAL,
+      within_range BOOLEAN,
+      notes TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (order_id) REFERENCES orders(id),
+      FOREIGN KEY (business_id) REFERENCES businesses(id),
+      FOREIGN KEY (driver_id) REFERENCES drivers(id),
+      FOREIGN KEY (submitted_by) REFERENCES users(id)
+    )
+  `);
+
+  // Seed a created event for orders that predate the audit trail
+  db.exec(`
+    INSERT INTO order_events (id, order_id, event_type, to_status, created_at)
+    SELECT lower(hex(randomblob(16))), o.id, 'created', 'pending', o.created_at
+    FROM orders o
+    WHERE NOT EXISTS (SELECT 1 FROM order_events e WHERE e.order_id = o.id)
+  `);
+
   // Create indexes for better performance
+  // Order import runs, kept so their error reports can be downloaded later
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS order_imports (
+      id TEXT PRIMARY KEY,
+      business_id TEXT NOT NULL,
+      file_name TEXT NOT NULL,
+      dry_run BOOLEAN NOT NULL DEFAULT 0,
+      total_rows INTEGER NOT NULL,
+      created_count INTEGER NOT NULL DEFAULT 0,
+      skipped_count INTEGER NOT NULL DEFAULT 0,
+      failed_count INTEGER NOT NULL DEFAULT 0,
+      errors TEXT NOT NULL DEFAULT '[]', -- JSON list of failed rows with their values and messages
+      created_by TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (business_id) REFERENCES businesses(id),
+      FOREIGN KEY (created_by) REFERENCES users(id)
+    )
+  `);
+
+  // Idempotency keys: the first response to a keyed request, replayed to retries until it expires
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      idempotency_key TEXT NOT NULL,
+      fingerprint TEXT NOT NULL, -- SHA-256 of method, path and body
+      status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+      response_status INTEGER,
+      response_content_type TEXT,
+      response_body TEXT,
+      lease_expires_at DATETIME, -- a processing key can be reclaimed after this
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      expires_at DATETIME NOT NULL,
+      UNIQUE (user_id, idempotency_key),
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    )
+  `);
+
+  // Backfill the processing lease for existing databases
+  try {
+    const columns = db.prepare(`PRAGMA table_info(idempotency_keys)`).all() as Array<{ name: string }>;
+    if (!columns.some(c => c.name === 'lease_expires_at')) {
+      db.exec(`ALTER TABLE idempotency_keys ADD COLUMN lease_expires_at DATETIME`);
+    }
+  } catch (e) {
+    console.warn('Could not ensure lease column on idempotency_keys table:', e);
+  }
+
   db.exec(`
     CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
     CREATE INDEX IF NOT EXISTS idx_users_business_id ON users(business_id);
@@ -187,6 +549,19 @@ export const createTables = () => {
     CREATE INDEX IF NOT EXISTS idx_geofence_events_geofence_id ON geofence_events(geofence_id);
     CREATE INDEX IF NOT EXISTS idx_geofence_events_driver_id ON geofence_events(driver_id);
     CREATE INDEX IF NOT EXISTS idx_geofence_events_timestamp ON geofence_events(timestamp);
+    CREATE INDEX IF NOT EXISTS idx_geofence_triggers_geofence_id ON geofence_triggers(geofence_id);
+    CREATE INDEX IF NOT EXISTS idx_webhooks_business_id ON webhooks(business_id);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries(status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_order_events_order_id ON order_events(order_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_order_trips_driver_id ON order_trips(driver_id);
+    CREATE INDEX IF NOT EXISTS idx_orders_rescheduled_for ON orders(rescheduled_for) WHERE status = 'rescheduled';
+    CREATE INDEX IF NOT EXISTS idx_orders_scheduled_for ON orders(scheduled_for) WHERE scheduled_for IS NOT NULL AND released_at IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_sla_alerts_business_id ON sla_alerts(business_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_delivery_proofs_business_id ON delivery_proofs(business_id);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_external_ref ON orders(business_id, external_ref) WHERE external_ref IS NOT NULL;
+    CREATE INDEX IF NOT EXISTS idx_order_imports_business_id ON order_imports(business_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
   `);
 
   console.log('✅ Database tables created successfully');
@@ -194,8 +569,18 @@ export const createTables = () => {
 
 export const dropTables = () => {
   const tables = [
+    'idempotency_keys',
+    'order_imports',
+    'delivery_proofs',
+    'sla_alerts',
+    'delivery_attempts',
+    'order_trips',
+    'order_events',
+    'geofence_triggers',
+    'geofence_states',
     'geofence_events',
     'location_history', 
+    'webhook_deliveries',
     'webhooks',
     'geofences',
     'orders',
@@ -1,12 +1,44 @@
 import { serve } from '@hono/node-server';
 import dotenv from 'dotenv';
 import createApp from './app.js';
+import { WebhookService } from './services/webhook.service.js';
+import { DispatchService } from './services/dispatch.service.js';
+import { RetentionService } from './services/retention.service.js';
+import { SlaService } from './services/sla.service.js';
+import { DriverWatchdogService } from './services/driver-watchdog.service.js';
+import { DeliveryAttemptService } from './services/delivery-attempt.service.js';
+import { ScheduleService } from './services/schedule.service.js';
+import { IdempotencyService } from './services/idempotency.service.js';
 
 // Load environment variables
 dotenv.config();
 
 const app = createApp();
 
+// Deliver domain events to subscribed webhooks and retry failed deliveries
+WebhookService.startDispatcher();
+
+// Assign or propose drivers for new orders and when drivers free up, per business settings
+DispatchService.startAutoDispatch();
+
+// Downsample, archive and delete old location history for businesses that opted in
+RetentionService.startRetentionJob();
+
+// Flag orders that are at risk of or have breached their SLA, for businesses that opted in
+SlaService.startSlaMonitor();
+
+// Mark drivers that stop reporting as stale or offline and alert on those holding orders
+DriverWatchdogService.startWatchdog();
+
+// Return rescheduled delivery attempts to the dispatch queue once they are due
+DeliveryAttemptService.startRescheduleMonitor();
+
+// Release scheduled orders to dispatch once their release time arrives
+ScheduleService.startReleaseMonitor();
+
+// Forget idempotency keys once their replay window has passed
+IdempotencyService.startPurgeJob();
+
 const port = parseInt(process.env.PORT || '3000');
 
 console.log(`🚀 ZoneFlow API Server starting on port ${port}`);
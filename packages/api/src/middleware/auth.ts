@@ -5,24 +5,26 @@ import { AppContext } from '../types/context.js';
 import { ResponseHandler } from '../utils/response.js';
 
 interface JWTPayload {
+  type?: string;
   userId: string;
   email: string;
   role: string;
   businessId?: string;
 }
 
-export const authMiddleware = async (c: AppContext, next: Next) => {
+// Verify a JWT and load the active user it belongs to; scoped tokens only work where their scope is expected
+const authenticate = async (c: AppContext, next: Next, token: string | undefined, scope?: 'stream') => {
   try {
-    const authHeader = c.req.header('Authorization');
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    if (!token) {
       return ResponseHandler.unauthorized(c, 'Authorization token required');
     }
 
-    const token = authHeader.substring(7);
     const secret = process.env.JWT_SECRET!;
     
     const decoded = jwt.verify(token, secret) as JWTPayload;
+    if (decoded.type !== scope) {
+      return ResponseHandler.unauthorized(c, 'Invalid token');
+    }
     
     // Verify user still exists and is active
     const user = db.prepare(`
@@ -56,6 +58,21 @@ export const authMiddleware = async (c: AppContext, next: Next) => {
   }
 };
 
+const bearerToken = (c: AppContext) => {
+  const authHeader = c.req.header('Authorization');
+  return authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : undefined;
+};
+
+export const authMiddleware = async (c: AppContext, next: Next) => {
+  return authenticate(c, next, bearerToken(c));
+};
+
+// EventSource can't set headers, so stream endpoints also accept a short-lived stream token as ?token=
+export const streamAuthMiddleware = async (c: AppContext, next: Next) => {
+  const token = bearerToken(c);
+  return token ? authenticate(c, next, token) : authenticate(c, next, c.req.query('token'), 'stream');
+};
+
 export const requireRole = (roles: string[]) => {
   return async (c: AppContext, next: Next) => {
     const user = c.get('user');
@@ -0,0 +1,59 @@
+import { Next } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { createHash } from 'crypto';
+import { AppContext } from '../types/context.js';
+import { ConflictError } from '../types/services.js';
+import { IdempotencyService } from '../services/idempotency.service.js';
+import { ResponseHandler } from '../utils/response.js';
+
+const MAX_KEY_LENGTH = 255;
+
+// Replay the first response to a request carrying an Idempotency-Key; runs after authMiddleware
+export const idempotencyMiddleware = async (c: AppContext, next: Next) => {
+  const key = c.req.header('Idempotency-Key');
+  if (key === undefined) {
+    await next();
+    return;
+  }
+
+  if (key.trim().length === 0 || key.length > MAX_KEY_LENGTH) {
+    return ResponseHandler.badRequest(c, `Idempotency-Key must be 1 to ${MAX_KEY_LENGTH} characters`);
+  }
+
+  const user = c.get('user');
+  const body = await c.req.text();
+  const fingerprint = createHash('sha256').update(`${c.req.method} ${c.req.path}\n${body}`).digest('hex');
+
+  let claim;
+  try {
+    claim = IdempotencyService.claim(user.id, key, fingerprint);
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return ResponseHandler.conflict(c, error.message);
+    }
+    console.error('Idempotency middleware error:', error);
+    return ResponseHandler.serverError(c, 'Failed to check Idempotency-Key');
+  }
+
+  if (claim.outcome === 'replay') {
+    const { response } = claim;
+    return c.body(response.body, response.status as ContentfulStatusCode, {
+      ...(response.contentType && { 'Content-Type': response.contentType }),
+      'Idempotent-Replayed': 'true',
+    });
+  }
+
+  await next();
+
+  // Server errors may not have changed anything, so the key is freed for a retry
+  if (c.error || c.res.status >= 500) {
+    IdempotencyService.release(user.id, key);
+    return;
+  }
+
+  IdempotencyService.complete(user.id, key, {
+    status: c.res.status,
+    contentType: c.res.headers.get('Content-Type'),
+    body: await c.res.clone().text(),
+  });
+};
@@ -0,0 +1,69 @@
+import { Hono } from 'hono';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { validateRequest, updateDeliveryAttemptSettingsSchema } from '../utils/validation.js';
+import { ResponseHandler } from '../utils/response.js';
+import { DeliveryAttemptService } from '../services/delivery-attempt.service';
+import { ServiceError, NotFoundError, ValidationError } from '../types/services.js';
+
+const deliveryAttempts = new Hono<{ Variables: { user: import('../types/context.js').AuthUser } }>();
+
+// Apply auth middleware to all routes
+deliveryAttempts.use('*', authMiddleware);
+deliveryAttempts.use('*', requireRole(['admin', 'business_owner']));
+
+// Get the failed delivery policy
+deliveryAttempts.get('/settings', async (c) => {
+  try {
+    const user = c.get('user');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const settings = await DeliveryAttemptService.getSettings(user.businessId);
+    return ResponseHandler.success(c, { settings });
+
+  } catch (error: unknown) {
+    console.error('Get delivery attempt settings error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Business');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to fetch delivery attempt settings');
+  }
+});
+
+// Update the failed delivery policy
+deliveryAttempts.put('/settings', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const data = validateRequest(updateDeliveryAttemptSettingsSchema, body);
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const settings = await DeliveryAttemptService.updateSettings(user.businessId, data);
+    return ResponseHandler.success(c, { settings }, 'Delivery attempt settings updated successfully');
+
+  } catch (error: unknown) {
+    console.error('Update delivery attempt settings error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Business');
+    }
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.badRequest(c, error instanceof Error ? error.message : 'Failed to update delivery attempt settings');
+  }
+});
+
+export default deliveryAttempts;
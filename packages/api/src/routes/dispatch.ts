@@ -0,0 +1,127 @@
+import { Hono } from 'hono';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { validateRequest, updateDispatchSettingsSchema } from '../utils/validation.js';
+import { ResponseHandler } from '../utils/response.js';
+import { DispatchService } from '../services/dispatch.service';
+import { ServiceError, NotFoundError, ValidationError } from '../types/services.js';
+
+const dispatch = new Hono<{ Variables: { user: import('../types/context.js').AuthUser } }>();
+
+// Apply auth middleware to all routes
+dispatch.use('*', authMiddleware);
+dispatch.use('*', requireRole(['admin', 'business_owner']));
+
+// Get auto-dispatch settings
+dispatch.get('/settings', async (c) => {
+  try {
+    const user = c.get('user');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const settings = await DispatchService.getSettings(user.businessId);
+    return ResponseHandler.success(c, { settings });
+
+  } catch (error: unknown) {
+    console.error('Get dispatch settings error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Business');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to fetch dispatch settings');
+  }
+});
+
+// Update auto-dispatch settings
+dispatch.put('/settings', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const data = validateRequest(updateDispatchSettingsSchema, body);
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const settings = await DispatchService.updateSettings(user.businessId, data);
+    return ResponseHandler.success(c, { settings }, 'Dispatch settings updated successfully');
+
+  } catch (error: unknown) {
+    console.error('Update dispatch settings error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Business');
+    }
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.badRequest(c, error instanceof Error ? error.message : 'Failed to update dispatch settings');
+  }
+});
+
+// Rank available drivers for an order
+dispatch.get('/orders/:orderId/candidates', async (c) => {
+  try {
+    const user = c.get('user');
+    const orderId = c.req.param('orderId');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const candidates = await DispatchService.rankDrivers(orderId, user.businessId);
+    return ResponseHandler.success(c, { candidates });
+
+  } catch (error: unknown) {
+    console.error('Get dispatch candidates error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Order');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to rank drivers');
+  }
+});
+
+// Assign the best available driver to an order now
+dispatch.post('/orders/:orderId/assign', async (c) => {
+  try {
+    const user = c.get('user');
+    const orderId = c.req.param('orderId');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const result = await DispatchService.dispatchOrder(orderId, user.businessId, 'auto');
+    if (!result.assignedDriverId) {
+      return ResponseHandler.conflict(c, 'No eligible drivers available');
+    }
+    return ResponseHandler.success(c, { result });
+
+  } catch (error: unknown) {
+    console.error('Auto-assign order error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, undefined, error.message);
+    }
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to auto-assign order');
+  }
+});
+
+export default dispatch;
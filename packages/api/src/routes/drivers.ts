@@ -3,6 +3,7 @@ import { authMiddleware, requireRole } from '../middleware/auth.js';
 import { validateRequest, createDriverSchema, bulkCreateDriverSchema, updateDriverSchema } from '../utils/validation.js';
 import { ResponseHandler } from '../utils/response.js';
 import { DriverService } from '../services/driver.service.js';
+import { RouteService } from '../services/route.service.js';
 import { FileImportService } from '../utils/file-import.js';
 import { ServiceError, NotFoundError, ValidationError, ConflictError } from '../types/services.js';
 
@@ -69,6 +70,32 @@ drivers.get('/:id', async (c) => {
   }
 });
 
+// Get the optimized stop sequence for a driver's active orders
+drivers.get('/:id/route', async (c) => {
+  try {
+    const user = c.get('user');
+    const driverId = c.req.param('id');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const route = await RouteService.getDriverRoute(driverId, user.businessId);
+    return ResponseHandler.success(c, { route });
+
+  } catch (error: unknown) {
+    console.error('Get driver route error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Driver');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to plan driver route');
+  }
+});
+
 // Create a single driver
 drivers.post('/', requireRole(['admin','business_owner']), async (c) => {
   try {
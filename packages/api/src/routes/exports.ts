@@ -0,0 +1,73 @@
+import { Hono } from 'hono';
+import { stream } from 'hono/streaming';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { validateRequest, exportDatasetSchema, exportQuerySchema } from '../utils/validation.js';
+import { ResponseHandler } from '../utils/response.js';
+import { ExportService } from '../services/export.service';
+import { ServiceError, ValidationError } from '../types/services.js';
+
+// `exports` is reserved in CommonJS scope, hence the longer name
+const exportRoutes = new Hono<{ Variables: { user: import('../types/context.js').AuthUser } }>();
+
+// Apply auth middleware to all routes
+exportRoutes.use('*', authMiddleware);
+exportRoutes.use('*', requireRole(['admin', 'business_owner']));
+
+// Download orders, drivers, geofence events or location fixes as CSV, XLSX or GeoJSON
+exportRoutes.get('/:dataset', async (c) => {
+  try {
+    const user = c.get('user');
+    const dataset = exportDatasetSchema.safeParse(c.req.param('dataset'));
+    if (!dataset.success) {
+      return ResponseHandler.badRequest(c, `Unknown export; choose one of ${exportDatasetSchema.options.join(', ')}`);
+    }
+    const query = c.req.query();
+    const { format = 'csv', ...filters } = validateRequest(exportQuerySchema, Object.fromEntries(
+      Object.entries(query).filter(([, value]) => value !== '')
+    ));
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const file = await ExportService.createExport(dataset.data, user.businessId, filters, format);
+    const headers = {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.fileName}"`,
+    };
+
+    if (Buffer.isBuffer(file.body)) {
+      return c.body(new Uint8Array(file.body), 200, headers);
+    }
+
+    const chunks = file.body;
+    for (const [name, value] of Object.entries(headers)) {
+      c.header(name, value);
+    }
+    return stream(c, async (output) => {
+      for await (const chunk of chunks) {
+        if (output.aborted) break;
+        await output.write(chunk);
+      }
+    }, async (error) => {
+      // Headers are already sent, so the download is cut short rather than answered with an error
+      console.error('Export stream error:', error);
+    });
+
+  } catch (error: unknown) {
+    console.error('Export error:', error);
+
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+
+    return ResponseHandler.serverError(c, 'Failed to export data');
+  }
+});
+
+export default exportRoutes;
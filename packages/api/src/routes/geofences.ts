@@ -1,8 +1,18 @@
 import { Hono } from 'hono';
-import { authMiddleware } from '../middleware/auth.js';
-import { validateRequest, createGeofenceSchema, updateGeofenceSchema } from '../utils/validation.js';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import {
+  validateRequest,
+  createGeofenceSchema,
+  updateGeofenceSchema,
+  geofenceImportOptionsSchema,
+  geofenceExportQuerySchema,
+  createGeofenceTriggerSchema,
+  updateGeofenceTriggerSchema
+} from '../utils/validation.js';
 import { ResponseHandler } from '../utils/response.js';
 import { GeofenceService } from '../services/geofence.service';
+import { GeofenceTriggerService } from '../services/geofence-trigger.service';
+import { GeofenceImportService } from '../services/geofence-import.service';
 import { ServiceError, NotFoundError, ValidationError } from '../types/services.js';
 
 const geofences = new Hono<{ Variables: { user: import('../types/context.js').AuthUser } }>();
@@ -33,6 +43,38 @@ geofences.get('/', async (c) => {
   }
 });
 
+// Export geofences as GeoJSON or KML; registered before /:id so "export" is not taken for an id
+geofences.get('/export', async (c) => {
+  try {
+    const user = c.get('user');
+    const { format = 'geojson', type } = validateRequest(geofenceExportQuerySchema, {
+      format: c.req.query('format') || undefined,
+      type: c.req.query('type') || undefined,
+    });
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const file = await GeofenceImportService.exportGeofences(user.businessId, format, type);
+    return c.body(file.content, 200, {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.fileName}"`,
+    });
+
+  } catch (error: unknown) {
+    console.error('Export geofences error:', error);
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to export geofences');
+  }
+});
+
 // Get single geofence with recent events
 geofences.get('/:id', async (c) => {
   try {
@@ -63,8 +105,8 @@ geofences.get('/:id', async (c) => {
 geofences.post('/', async (c) => {
   try {
     const user = c.get('user');
-  const body = await c.req.json();
-  const data = validateRequest(updateGeofenceSchema, body);
+    const body = await c.req.json();
+    const data = validateRequest(createGeofenceSchema, body);
 
     // Validate businessId exists
     if (!user.businessId) {
@@ -87,13 +129,53 @@ geofences.post('/', async (c) => {
   }
 });
 
+// Import geofences from a GeoJSON or KML file (multipart: file, optional dryRun to preview)
+geofences.post('/import', requireRole(['admin','business_owner']), async (c) => {
+  try {
+    const user = c.get('user');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const formData = await c.req.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return ResponseHandler.badRequest(c, 'No file uploaded');
+    }
+
+    const dryRun = formData.get('dryRun');
+    const options = validateRequest(geofenceImportOptionsSchema, {
+      dryRun: typeof dryRun === 'string' && dryRun !== '' ? dryRun : undefined,
+    });
+
+    const result = await GeofenceImportService.importGeofences(user.businessId, {
+      name: file.name,
+      data: Buffer.from(await file.arrayBuffer()),
+    }, { dryRun: options.dryRun === 'true' });
+
+    return result.created > 0 ? ResponseHandler.created(c, result) : ResponseHandler.success(c, result);
+
+  } catch (error: unknown) {
+    console.error('Import geofences error:', error);
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to import geofences');
+  }
+});
+
 // Update geofence
 geofences.put('/:id', async (c) => {
   try {
     const user = c.get('user');
     const geofenceId = c.req.param('id');
     const body = await c.req.json();
-    const data = validateRequest(createGeofenceSchema, body);
+    const data = validateRequest(updateGeofenceSchema, body);
 
     // Validate businessId exists
     if (!user.businessId) {
@@ -207,4 +289,120 @@ geofences.post('/check', async (c) => {
   }
 });
 
+// List triggers configured on a geofence
+geofences.get('/:id/triggers', async (c) => {
+  try {
+    const user = c.get('user');
+    const geofenceId = c.req.param('id');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const triggers = await GeofenceTriggerService.getTriggers(geofenceId, user.businessId);
+    return ResponseHandler.success(c, { triggers });
+
+  } catch (error: unknown) {
+    console.error('Get geofence triggers error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Geofence');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to fetch geofence triggers');
+  }
+});
+
+// Create a trigger on a geofence
+geofences.post('/:id/triggers', async (c) => {
+  try {
+    const user = c.get('user');
+    const geofenceId = c.req.param('id');
+    const body = await c.req.json();
+    const data = validateRequest(createGeofenceTriggerSchema, body);
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const trigger = await GeofenceTriggerService.createTrigger(geofenceId, data, user.businessId);
+    return ResponseHandler.created(c, { trigger }, 'Geofence trigger created successfully');
+
+  } catch (error: unknown) {
+    console.error('Create geofence trigger error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Geofence');
+    }
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.badRequest(c, error instanceof Error ? error.message : 'Failed to create geofence trigger');
+  }
+});
+
+// Update a trigger on a geofence
+geofences.put('/:id/triggers/:triggerId', async (c) => {
+  try {
+    const user = c.get('user');
+    const geofenceId = c.req.param('id');
+    const triggerId = c.req.param('triggerId');
+    const body = await c.req.json();
+    const data = validateRequest(updateGeofenceTriggerSchema, body);
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const trigger = await GeofenceTriggerService.updateTrigger(geofenceId, triggerId, data, user.businessId);
+    return ResponseHandler.success(c, { trigger });
+
+  } catch (error: unknown) {
+    console.error('Update geofence trigger error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, undefined, error.message);
+    }
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.badRequest(c, error instanceof Error ? error.message : 'Failed to update geofence trigger');
+  }
+});
+
+// Delete a trigger from a geofence
+geofences.delete('/:id/triggers/:triggerId', async (c) => {
+  try {
+    const user = c.get('user');
+    const geofenceId = c.req.param('id');
+    const triggerId = c.req.param('triggerId');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    await GeofenceTriggerService.deleteTrigger(geofenceId, triggerId, user.businessId);
+    return ResponseHandler.success(c, null, 'Geofence trigger deleted successfully');
+
+  } catch (error: unknown) {
+    console.error('Delete geofence trigger error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, undefined, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to delete geofence trigger');
+  }
+});
+
 export default geofences;
\ No newline at end of file
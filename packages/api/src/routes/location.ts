@@ -1,9 +1,10 @@
 import { Hono } from 'hono';
+import { stream } from 'hono/streaming';
 import { authMiddleware } from '../middleware/auth.js';
-import { validateRequest, updateLocationSchema } from '../utils/validation.js';
+import { validateRequest, updateLocationSchema, locationBatchSchema } from '../utils/validation.js';
 import { ResponseHandler } from '../utils/response.js';
 import { LocationService } from '../services/location.service';
-import { ServiceError, NotFoundError, ValidationError, ForbiddenError } from '../types/services.js';
+import { ServiceError, NotFoundError, ValidationError, ForbiddenError, TrackFileFormat } from '../types/services.js';
 
 const location = new Hono<{ Variables: { user: import('../types/context.js').AuthUser } }>();
 
@@ -40,6 +41,32 @@ location.post('/update', async (c) => {
   }
 });
 
+// Ingest a batch of buffered fixes with device timestamps
+location.post('/batch', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const data = validateRequest(locationBatchSchema, body);
+
+    const result = await LocationService.ingestLocationBatch(user.id, data.fixes);
+
+    return ResponseHandler.success(c, result);
+
+  } catch (error: unknown) {
+    console.error('Location batch error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Driver profile');
+    }
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.badRequest(c, error instanceof Error ? error.message : 'Failed to ingest location batch');
+  }
+});
+
 // Get location history for current driver
 location.get('/history', async (c) => {
   try {
@@ -49,11 +76,13 @@ location.get('/history', async (c) => {
     const page = Number.isFinite(pageRaw) && pageRaw > 0 ? pageRaw : 1;
     const limit = Number.isFinite(limitRaw) ? Math.min(Math.max(limitRaw, 1), 100) : 50;
     const orderId = c.req.query('orderId');
+    const processed = c.req.query('processed') === 'true';
 
     const result = await LocationService.getLocationHistory(user.id, {
       page,
       limit,
       orderId,
+      processed,
     });
 
     return ResponseHandler.success(c, result);
@@ -99,6 +128,51 @@ location.get('/drivers', async (c) => {
   }
 });
 
+// Download the route driven for an order as track.gpx, track.kml or track.geojson
+location.get('/order/:orderId/:file', async (c) => {
+  try {
+    const user = c.get('user');
+    const orderId = c.req.param('orderId');
+
+    if (user.role !== 'business_owner' && user.role !== 'admin') {
+      return ResponseHandler.forbidden(c, 'Insufficient permissions');
+    }
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const match = c.req.param('file').match(/^track\.(gpx|kml|geojson)$/);
+    if (!match) {
+      return ResponseHandler.badRequest(c, 'Unknown track file; choose track.gpx, track.kml or track.geojson');
+    }
+
+    const file = await LocationService.getOrderTrackFile(orderId, user.businessId, match[1] as TrackFileFormat);
+    c.header('Content-Type', file.contentType);
+    c.header('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    return stream(c, async (output) => {
+      for await (const chunk of file.body) {
+        if (output.aborted) break;
+        await output.write(chunk);
+      }
+    }, async (error) => {
+      // Headers are already sent, so the download is cut short rather than answered with an error
+      console.error('Order track stream error:', error);
+    });
+
+  } catch (error: unknown) {
+    console.error('Export order track error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Order');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to export order track');
+  }
+});
+
 // Get location history for a specific order (business owner view)
 location.get('/order/:orderId', async (c) => {
   try {
@@ -114,7 +188,9 @@ location.get('/order/:orderId', async (c) => {
       return ResponseHandler.forbidden(c, 'Business access required');
     }
 
-    const result = await LocationService.getOrderLocationHistory(orderId, user.businessId);
+    const processed = c.req.query('processed') === 'true';
+
+    const result = await LocationService.getOrderLocationHistory(orderId, user.businessId, 50, processed);
     return ResponseHandler.success(c, result);
 
   } catch (error: unknown) {
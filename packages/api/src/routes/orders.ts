@@ -1,10 +1,14 @@
 import { Hono } from 'hono';
+import { bodyLimit } from 'hono/body-limit';
 import { authMiddleware, requireRole } from '../middleware/auth.js';
-import { validateRequest, createOrderSchema, updateOrderStatusSchema, orderListFilterSchema } from '../utils/validation.js';
+import { idempotencyMiddleware } from '../middleware/idempotency.js';
+import { validateRequest, createOrderSchema, updateOrderStatusSchema, orderListFilterSchema, submitProofSchema, orderImportOptionsSchema } from '../utils/validation.js';
 import { ResponseHandler } from '../utils/response.js';
 import { OrderService } from '../services/order.service';
-import { ServiceError, NotFoundError, ValidationError } from '../types/services.js';
-import type { OrderFilters, CreateOrderData, UpdateOrderStatusData } from '../types/services.js';
+import { ProofService, MAX_PROOF_UPLOAD_BYTES } from '../services/proof.service';
+import { OrderImportService } from '../services/order-import.service';
+import { ServiceError, NotFoundError, ValidationError, ForbiddenError } from '../types/services.js';
+import type { OrderFilters, CreateOrderData, UpdateOrderStatusData, ProofFile } from '../types/services.js';
 
 const orders = new Hono<{ Variables: { user: import('../types/context.js').AuthUser } }>();
 
@@ -24,6 +28,9 @@ orders.get('/', async (c) => {
       status: c.req.query('status') || undefined,
       priority: c.req.query('priority') || undefined,
       driverId: c.req.query('driverId') || undefined,
+      scheduled: c.req.query('scheduled') || undefined,
+      windowFrom: c.req.query('windowFrom') || undefined,
+      windowTo: c.req.query('windowTo') || undefined,
     });
 
     const pagination = {
@@ -44,6 +51,10 @@ orders.get('/', async (c) => {
   } catch (error: unknown) {
     console.error('Get orders error:', error);
     
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+
     if (error instanceof ServiceError) {
       return ResponseHandler.serverError(c, error.message);
     }
@@ -82,8 +93,135 @@ orders.get('/:id', async (c) => {
   }
 });
 
+// Get order audit timeline
+orders.get('/:id/timeline', async (c) => {
+  try {
+    const user = c.get('user');
+    const orderId = c.req.param('id');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const events = await OrderService.getOrderTimeline(orderId, user.businessId);
+
+    return ResponseHandler.success(c, { events });
+
+  } catch (error: unknown) {
+    console.error('Get order timeline error:', error);
+    
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Order');
+    }
+    
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    
+    return ResponseHandler.serverError(c, 'Failed to fetch order timeline');
+  }
+});
+
+// Get proof of delivery for an order
+orders.get('/:id/proof', async (c) => {
+  try {
+    const user = c.get('user');
+    const orderId = c.req.param('id');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const proof = await ProofService.getOrderProof(orderId, user.businessId);
+
+    return ResponseHandler.success(c, { proof });
+
+  } catch (error: unknown) {
+    console.error('Get proof of delivery error:', error);
+
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Proof of delivery');
+    }
+
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+
+    return ResponseHandler.serverError(c, 'Failed to fetch proof of delivery');
+  }
+});
+
+// Submit proof of delivery (multipart: recipient details, signature and photos); marks the order delivered
+orders.post('/:id/proof', bodyLimit({
+  maxSize: MAX_PROOF_UPLOAD_BYTES,
+  // Oversized uploads are refused before the body is buffered
+  onError: (c) => ResponseHandler.error(c, 'Proof of delivery upload is too large', 413, 'PAYLOAD_TOO_LARGE'),
+}), async (c) => {
+  try {
+    const user = c.get('user');
+    const orderId = c.req.param('id');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const formData = await c.req.formData();
+    const field = (name: string) => {
+      const value = formData.get(name);
+      return typeof value === 'string' && value !== '' ? value : undefined;
+    };
+    const data = validateRequest(submitProofSchema, {
+      recipientName: field('recipientName'),
+      latitude: field('latitude'),
+      longitude: field('longitude'),
+      accuracy: field('accuracy'),
+      notes: field('notes'),
+    });
+
+    const toProofFile = async (file: File): Promise<ProofFile> => ({
+      name: file.name,
+      type: file.type,
+      data: Buffer.from(await file.arrayBuffer()),
+    });
+    const signature = formData.get('signature');
+    const photos = formData.getAll('photos').filter((photo): photo is File => photo instanceof File);
+
+    const result = await ProofService.submitProof(orderId, user.businessId, user, {
+      ...data,
+      signature: signature instanceof File ? await toProofFile(signature) : undefined,
+      photos: await Promise.all(photos.map(toProofFile)),
+    });
+
+    return ResponseHandler.created(c, result);
+
+  } catch (error: unknown) {
+    console.error('Submit proof of delivery error:', error);
+
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Order');
+    }
+
+    if (error instanceof ForbiddenError) {
+      return ResponseHandler.forbidden(c, error.message);
+    }
+
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+
+    return ResponseHandler.badRequest(c, error instanceof Error ? error.message : 'Failed to submit proof of delivery');
+  }
+});
+
 // Create new order
-orders.post('/', requireRole(['admin','business_owner']), async (c) => {
+orders.post('/', requireRole(['admin','business_owner']), idempotencyMiddleware, async (c) => {
   try {
     const user = c.get('user');
     const body = await c.req.json();
@@ -94,7 +232,7 @@ orders.post('/', requireRole(['admin','business_owner']), async (c) => {
       return ResponseHandler.forbidden(c, 'Business access required');
     }
 
-    const result = await OrderService.createOrder(data, user.businessId);
+    const result = await OrderService.createOrder(data, user.businessId, user.id);
 
     return ResponseHandler.created(c, { order: result });
 
@@ -113,8 +251,96 @@ orders.post('/', requireRole(['admin','business_owner']), async (c) => {
   }
 });
 
+// Import orders from file (Excel/CSV); multipart with file, optional dryRun and a JSON column mapping
+orders.post('/import', requireRole(['admin','business_owner']), async (c) => {
+  try {
+    const user = c.get('user');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const formData = await c.req.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return ResponseHandler.badRequest(c, 'No file uploaded');
+    }
+
+    const rawMapping = formData.get('mapping');
+    let mapping: unknown;
+    if (typeof rawMapping === 'string' && rawMapping.trim() !== '') {
+      try {
+        mapping = JSON.parse(rawMapping);
+      } catch {
+        throw new ValidationError('Column mapping must be valid JSON');
+      }
+    }
+    const dryRun = formData.get('dryRun');
+    const options = validateRequest(orderImportOptionsSchema, {
+      dryRun: typeof dryRun === 'string' && dryRun !== '' ? dryRun : undefined,
+      mapping,
+    });
+
+    const result = await OrderImportService.importOrders(user.businessId, user.id, {
+      name: file.name,
+      data: Buffer.from(await file.arrayBuffer()),
+    }, {
+      dryRun: options.dryRun === 'true',
+      mapping: options.mapping,
+    });
+
+    return result.created > 0 ? ResponseHandler.created(c, result) : ResponseHandler.success(c, result);
+
+  } catch (error: unknown) {
+    console.error('Import orders error:', error);
+
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+
+    return ResponseHandler.serverError(c, 'Failed to import orders');
+  }
+});
+
+// Download the failed rows of an order import as CSV
+orders.get('/imports/:importId/errors', requireRole(['admin','business_owner']), async (c) => {
+  try {
+    const user = c.get('user');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const report = await OrderImportService.getErrorReport(c.req.param('importId'), user.businessId);
+
+    return c.body(report.csv, 200, {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${report.fileName.replace(/"/g, '')}"`,
+    });
+
+  } catch (error: unknown) {
+    console.error('Order import report error:', error);
+
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Order import');
+    }
+
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+
+    return ResponseHandler.serverError(c, 'Failed to download order import errors');
+  }
+});
+
 // Update order status
-orders.patch('/:id/status', requireRole(['admin','business_owner']), async (c) => {
+orders.patch('/:id/status', requireRole(['admin','business_owner']), idempotencyMiddleware, async (c) => {
   try {
     const user = c.get('user');
     const orderId = c.req.param('id');
@@ -126,7 +352,7 @@ orders.patch('/:id/status', requireRole(['admin','business_owner']), async (c) =
       return ResponseHandler.forbidden(c, 'Business access required');
     }
 
-    const result = await OrderService.updateOrderStatus(orderId, data, user.businessId);
+    const result = await OrderService.updateOrderStatus(orderId, data, user.businessId, user.id);
 
     return ResponseHandler.success(c, { order: result });
 
@@ -165,7 +391,7 @@ orders.patch('/:id/assign', requireRole(['admin','business_owner']), async (c) =
       return ResponseHandler.forbidden(c, 'Business access required');
     }
 
-    const result = await OrderService.assignDriver(orderId, driverId, user.businessId);
+    const result = await OrderService.assignDriver(orderId, driverId, user.businessId, user.id);
 
     return ResponseHandler.success(c, { order: result });
 
@@ -224,7 +450,7 @@ orders.patch('/:id/cancel', requireRole(['admin','business_owner']), async (c) =
       return ResponseHandler.forbidden(c, 'Business access required');
     }
 
-    const result = await OrderService.cancelOrder(orderId, user.businessId, reason);
+    const result = await OrderService.cancelOrder(orderId, user.businessId, reason, user.id);
 
     return ResponseHandler.success(c, { order: result });
 
@@ -247,4 +473,38 @@ orders.patch('/:id/cancel', requireRole(['admin','business_owner']), async (c) =
   }
 });
 
-export default orders;
\ No newline at end of file
+// Release a scheduled order to dispatch before its scheduled time
+orders.patch('/:id/release', requireRole(['admin','business_owner']), async (c) => {
+  try {
+    const user = c.get('user');
+    const orderId = c.req.param('id');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const result = await OrderService.releaseOrder(orderId, user.businessId, user.id);
+
+    return ResponseHandler.success(c, { order: result });
+
+  } catch (error: unknown) {
+    console.error('Release order error:', error);
+    
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Order');
+    }
+    
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    
+    return ResponseHandler.serverError(c, 'Failed to release order');
+  }
+});
+
+export default orders;
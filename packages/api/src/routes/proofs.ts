@@ -0,0 +1,69 @@
+import { Hono } from 'hono';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { validateRequest, updateProofSettingsSchema } from '../utils/validation.js';
+import { ResponseHandler } from '../utils/response.js';
+import { ProofService } from '../services/proof.service';
+import { ServiceError, NotFoundError, ValidationError } from '../types/services.js';
+
+const proofs = new Hono<{ Variables: { user: import('../types/context.js').AuthUser } }>();
+
+// Apply auth middleware to all routes
+proofs.use('*', authMiddleware);
+proofs.use('*', requireRole(['admin', 'business_owner']));
+
+// Get proof of delivery requirements
+proofs.get('/settings', async (c) => {
+  try {
+    const user = c.get('user');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const settings = await ProofService.getSettings(user.businessId);
+    return ResponseHandler.success(c, { settings });
+
+  } catch (error: unknown) {
+    console.error('Get proof settings error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Business');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to fetch proof of delivery settings');
+  }
+});
+
+// Update proof of delivery requirements
+proofs.put('/settings', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const data = validateRequest(updateProofSettingsSchema, body);
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const settings = await ProofService.updateSettings(user.businessId, data);
+    return ResponseHandler.success(c, { settings }, 'Proof of delivery settings updated successfully');
+
+  } catch (error: unknown) {
+    console.error('Update proof settings error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Business');
+    }
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.badRequest(c, error instanceof Error ? error.message : 'Failed to update proof of delivery settings');
+  }
+});
+
+export default proofs;
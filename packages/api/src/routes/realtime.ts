@@ -0,0 +1,65 @@
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { authMiddleware, streamAuthMiddleware, requireRole } from '../middleware/auth.js';
+import { AuthService } from '../services/auth.service.js';
+import { ResponseHandler } from '../utils/response.js';
+import { DomainEvents, DomainEvent } from '../utils/events.js';
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+const realtime = new Hono<{ Variables: { user: import('../types/context.js').AuthUser } }>();
+
+// Issue a stream token so the session token never appears in a URL; it has to be sent as a header
+realtime.post('/token', authMiddleware, requireRole(['admin', 'business_owner']), async (c) => {
+  try {
+    const user = c.get('user');
+    return ResponseHandler.success(c, AuthService.createStreamToken(user));
+
+  } catch (error: unknown) {
+    console.error('Create stream token error:', error);
+    return ResponseHandler.serverError(c, 'Failed to create stream token');
+  }
+});
+
+realtime.use('/stream', streamAuthMiddleware);
+realtime.use('/stream', requireRole(['admin', 'business_owner']));
+
+// Stream driver positions, order changes and geofence events for the user's business
+realtime.get('/stream', async (c) => {
+  const user = c.get('user');
+
+  // Validate businessId exists
+  if (!user.businessId) {
+    return ResponseHandler.forbidden(c, 'Business access required');
+  }
+  const businessId = user.businessId;
+
+  return streamSSE(c, async (stream) => {
+    // Writes are chained so events go out in publish order without interleaving
+    let pending = Promise.resolve();
+    const send = (event: string, data: unknown) => {
+      pending = pending
+        .then(() => stream.writeSSE({ event, data: JSON.stringify(data) }))
+        .catch(() => undefined);
+    };
+
+    const unsubscribe = DomainEvents.subscribe((event: DomainEvent) => {
+      if (event.businessId !== businessId) return;
+      send(event.type, { ...event.data, timestamp: event.timestamp });
+    });
+    const heartbeat = setInterval(() => send('ping', { timestamp: new Date().toISOString() }), HEARTBEAT_INTERVAL_MS);
+
+    send('ready', { businessId });
+
+    // Hold the stream open until the client disconnects
+    await new Promise<void>((resolve) => {
+      stream.onAbort(() => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        resolve();
+      });
+    });
+  });
+});
+
+export default realtime;
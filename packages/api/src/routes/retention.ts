@@ -0,0 +1,104 @@
+import { Hono } from 'hono';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { validateRequest, updateRetentionSettingsSchema, runRetentionSchema } from '../utils/validation.js';
+import { ResponseHandler } from '../utils/response.js';
+import { RetentionService } from '../services/retention.service';
+import { ServiceError, NotFoundError, ValidationError } from '../types/services.js';
+
+const retention = new Hono<{ Variables: { user: import('../types/context.js').AuthUser } }>();
+
+// Apply auth middleware to all routes
+retention.use('*', authMiddleware);
+retention.use('*', requireRole(['admin', 'business_owner']));
+
+// Get location retention settings
+retention.get('/settings', async (c) => {
+  try {
+    const user = c.get('user');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const settings = await RetentionService.getSettings(user.businessId);
+    return ResponseHandler.success(c, { settings });
+
+  } catch (error: unknown) {
+    console.error('Get retention settings error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Business');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to fetch retention settings');
+  }
+});
+
+// Update location retention settings
+retention.put('/settings', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const data = validateRequest(updateRetentionSettingsSchema, body);
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const settings = await RetentionService.updateSettings(user.businessId, data);
+    return ResponseHandler.success(c, { settings }, 'Retention settings updated successfully');
+
+  } catch (error: unknown) {
+    console.error('Update retention settings error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Business');
+    }
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.badRequest(c, error instanceof Error ? error.message : 'Failed to update retention settings');
+  }
+});
+
+// Run retention now; defaults to a dry run that only reports affected rows
+retention.post('/run', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json().catch(() => ({}));
+    const { dryRun, vacuum } = validateRequest(runRetentionSchema, body);
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    // VACUUM locks the whole database, not just this business's data
+    if (vacuum && user.role !== 'admin') {
+      return ResponseHandler.forbidden(c, 'Only admins can vacuum the database');
+    }
+
+    const report = await RetentionService.runForBusiness(user.businessId, { dryRun, vacuum });
+    return ResponseHandler.success(c, { report });
+
+  } catch (error: unknown) {
+    console.error('Run retention error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Business');
+    }
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to run location retention');
+  }
+});
+
+export default retention;
@@ -0,0 +1,116 @@
+import { Hono } from 'hono';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { validateRequest, updateSlaSettingsSchema } from '../utils/validation.js';
+import { ResponseHandler } from '../utils/response.js';
+import { SlaService } from '../services/sla.service';
+import { ServiceError, NotFoundError, ValidationError } from '../types/services.js';
+
+const sla = new Hono<{ Variables: { user: import('../types/context.js').AuthUser } }>();
+
+// Apply auth middleware to all routes
+sla.use('*', authMiddleware);
+sla.use('*', requireRole(['admin', 'business_owner']));
+
+// Get SLA rules
+sla.get('/settings', async (c) => {
+  try {
+    const user = c.get('user');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const settings = await SlaService.getSettings(user.businessId);
+    return ResponseHandler.success(c, { settings });
+
+  } catch (error: unknown) {
+    console.error('Get SLA settings error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Business');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to fetch SLA settings');
+  }
+});
+
+// Update SLA rules
+sla.put('/settings', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const data = validateRequest(updateSlaSettingsSchema, body);
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const settings = await SlaService.updateSettings(user.businessId, data);
+    return ResponseHandler.success(c, { settings }, 'SLA settings updated successfully');
+
+  } catch (error: unknown) {
+    console.error('Update SLA settings error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Business');
+    }
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.badRequest(c, error instanceof Error ? error.message : 'Failed to update SLA settings');
+  }
+});
+
+// List active orders that are at risk or have breached their SLA
+sla.get('/alerts', async (c) => {
+  try {
+    const user = c.get('user');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const alerts = await SlaService.getOpenAlerts(user.businessId);
+    return ResponseHandler.success(c, { alerts });
+
+  } catch (error: unknown) {
+    console.error('Get SLA alerts error:', error);
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to fetch SLA alerts');
+  }
+});
+
+// Evaluate SLAs now, whether or not scheduled monitoring is enabled
+sla.post('/evaluate', async (c) => {
+  try {
+    const user = c.get('user');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const result = await SlaService.evaluateBusiness(user.businessId);
+    return ResponseHandler.success(c, { result });
+
+  } catch (error: unknown) {
+    console.error('Evaluate SLAs error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Business');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to evaluate SLAs');
+  }
+});
+
+export default sla;
@@ -0,0 +1,195 @@
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { ResponseHandler } from '../utils/response.js';
+import { DomainEvents, DomainEvent } from '../utils/events.js';
+import { LocationService } from '../services/location.service';
+import { ProofService } from '../services/proof.service';
+import { ServiceError, NotFoundError } from '../types/services.js';
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+// Minimum gap between location pushes on a single stream
+const MIN_LOCATION_INTERVAL_MS = parseInt(process.env.TRACKING_LOCATION_INTERVAL_MS || '5000');
+// Decimal places kept on published coordinates; unset keeps full precision
+const COORDINATE_DECIMALS = parseInt(process.env.TRACKING_COORDINATE_DECIMALS || '');
+const MAX_STREAMS_PER_ORDER = parseInt(process.env.TRACKING_MAX_STREAMS_PER_ORDER || '5');
+
+const TERMINAL_STATUSES = ['delivered', 'cancelled', 'returned'];
+// Statuses in which the assigned driver's position is shared with the customer
+const ACTIVE_STATUSES = ['assigned', 'picked_up', 'in_transit'];
+
+// Open stream count per tracking code
+const openStreams = new Map<string, number>();
+
+const tracking = new Hono();
+
+function coarsen(value: number): number {
+  if (!Number.isFinite(COORDINATE_DECIMALS)) return value;
+  const factor = 10 ** COORDINATE_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+function publicLocation(location: { latitude: number; longitude: number; timestamp: string }) {
+  return {
+    latitude: coarsen(location.latitude),
+    longitude: coarsen(location.longitude),
+    timestamp: location.timestamp,
+  };
+}
+
+// Stream driver location and status changes for a single order (public, no auth)
+tracking.get('/:trackingCode/stream', async (c) => {
+  const trackingCode = c.req.param('trackingCode');
+
+  let snapshot: Awaited<ReturnType<typeof LocationService.getOrderTracking>>;
+  try {
+    snapshot = await LocationService.getOrderTracking(trackingCode);
+  } catch (error: unknown) {
+    console.error('Tracking stream error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Order');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to open tracking stream');
+  }
+
+  const streamCount = openStreams.get(trackingCode) || 0;
+  if (streamCount >= MAX_STREAMS_PER_ORDER) {
+    return ResponseHandler.tooManyRequests(c, 'Too many open tracking streams for this order');
+  }
+  openStreams.set(trackingCode, streamCount + 1);
+
+  const orderId = snapshot.order.id;
+  // Drivers carry several orders and tag fixes with only one of them, so locations follow the driver
+  let driverId = snapshot.driverId;
+  let status = snapshot.order.status;
+
+  return streamSSE(c, async (stream) => {
+    // Writes are chained so events go out in publish order without interleaving
+    let pending = Promise.resolve();
+    const send = (event: string, data: unknown) => {
+      pending = pending
+        .then(() => stream.writeSSE({ event, data: JSON.stringify(data) }))
+        .catch(() => undefined);
+    };
+
+    let close = () => {};
+    const closed = new Promise<void>((resolve) => { close = resolve; });
+
+    // Location pushes are throttled; the latest fix inside the window is sent when it ends
+    let lastLocationAt = 0;
+    let queuedLocation: ReturnType<typeof publicLocation> | null = null;
+    let locationTimer: ReturnType<typeof setTimeout> | undefined;
+    const flushLocation = () => {
+      locationTimer = undefined;
+      if (!queuedLocation) return;
+      send('location', queuedLocation);
+      queuedLocation = null;
+      lastLocationAt = Date.now();
+    };
+
+    const unsubscribe = DomainEvents.subscribe((event: DomainEvent) => {
+      if (
+        event.type === 'driver.location_updated' &&
+        driverId && event.data.driverId === driverId && ACTIVE_STATUSES.includes(status)
+      ) {
+        queuedLocation = publicLocation(event.data as { latitude: number; longitude: number; timestamp: string });
+        const wait = lastLocationAt + MIN_LOCATION_INTERVAL_MS - Date.now();
+        if (wait <= 0) {
+          flushLocation();
+        } else if (!locationTimer) {
+          locationTimer = setTimeout(flushLocation, wait);
+        }
+        return;
+      }
+
+      if (event.type === 'order.eta_updated' && event.data.orderId === orderId) {
+        send('eta', { predictedDelivery: event.data.predictedDelivery, timestamp: event.timestamp });
+        return;
+      }
+
+      // Reassignment and re-queueing change whose locations the customer sees
+      if (event.type === 'order.assigned' && event.data.order?.id === orderId) {
+        driverId = event.data.order.driver_id ?? null;
+        status = event.data.order.status;
+        return;
+      }
+
+      if (event.type === 'order.status_changed' && event.data.order?.id === orderId) {
+        driverId = event.data.order.driver_id ?? null;
+        status = event.data.order.status as string;
+        send('status', { status, previousStatus: event.data.previousStatus, timestamp: event.timestamp });
+        if (TERMINAL_STATUSES.includes(status)) {
+          send('closed', { status });
+          close();
+        }
+      }
+    });
+    const heartbeat = setInterval(() => send('ping', { timestamp: new Date().toISOString() }), HEARTBEAT_INTERVAL_MS);
+
+    send('snapshot', {
+      order: snapshot.order,
+      currentLocation: snapshot.currentLocation ? publicLocation(snapshot.currentLocation) : null,
+      locationHistory: snapshot.locationHistory.map(publicLocation),
+    });
+    if (TERMINAL_STATUSES.includes(snapshot.order.status)) {
+      send('closed', { status: snapshot.order.status });
+      close();
+    }
+
+    stream.onAbort(close);
+    await closed;
+
+    clearInterval(heartbeat);
+    clearTimeout(locationTimer);
+    unsubscribe();
+    await pending;
+
+    const remaining = (openStreams.get(trackingCode) || 1) - 1;
+    if (remaining > 0) {
+      openStreams.set(trackingCode, remaining);
+    } else {
+      openStreams.delete(trackingCode);
+    }
+  });
+});
+
+// Customer-facing proof of delivery for an order (public, no auth)
+tracking.get('/:trackingCode/proof', async (c) => {
+  try {
+    const proof = await ProofService.getPublicProof(c.req.param('trackingCode'));
+    return ResponseHandler.success(c, { proof });
+  } catch (error: unknown) {
+    console.error('Tracking proof error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Proof of delivery');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to fetch proof of delivery');
+  }
+});
+
+// Signature or photo attached to a proof of delivery (public, no auth)
+tracking.get('/:trackingCode/proof/files/:fileName', async (c) => {
+  try {
+    const file = await ProofService.readProofFile(c.req.param('trackingCode'), c.req.param('fileName'));
+    return c.body(new Uint8Array(file.data), 200, {
+      'Content-Type': file.contentType,
+      'Cache-Control': 'private, max-age=3600',
+    });
+  } catch (error: unknown) {
+    console.error('Tracking proof file error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Proof file');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to read proof file');
+  }
+});
+
+export default tracking;
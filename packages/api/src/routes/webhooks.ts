@@ -0,0 +1,200 @@
+import { Hono } from 'hono';
+import { authMiddleware, requireRole } from '../middleware/auth.js';
+import { validateRequest, createWebhookSchema, updateWebhookSchema } from '../utils/validation.js';
+import { ResponseHandler } from '../utils/response.js';
+import { WebhookService } from '../services/webhook.service';
+import { ServiceError, NotFoundError, ValidationError } from '../types/services.js';
+
+const webhooks = new Hono<{ Variables: { user: import('../types/context.js').AuthUser } }>();
+
+// Apply auth middleware to all routes
+webhooks.use('*', authMiddleware);
+webhooks.use('*', requireRole(['admin', 'business_owner']));
+
+// Get all webhooks
+webhooks.get('/', async (c) => {
+  try {
+    const user = c.get('user');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const webhookList = await WebhookService.getWebhooks(user.businessId);
+    return ResponseHandler.success(c, { webhooks: webhookList });
+
+  } catch (error: unknown) {
+    console.error('Get webhooks error:', error);
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to fetch webhooks');
+  }
+});
+
+// Get single webhook
+webhooks.get('/:id', async (c) => {
+  try {
+    const user = c.get('user');
+    const webhookId = c.req.param('id');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const webhook = await WebhookService.getWebhookById(webhookId, user.businessId);
+    return ResponseHandler.success(c, { webhook });
+
+  } catch (error: unknown) {
+    console.error('Get webhook error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Webhook');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to fetch webhook');
+  }
+});
+
+// Create new webhook
+webhooks.post('/', async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const data = validateRequest(createWebhookSchema, body);
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const webhook = await WebhookService.createWebhook(data, user.businessId);
+    return ResponseHandler.created(c, { webhook }, 'Webhook created successfully');
+
+  } catch (error: unknown) {
+    console.error('Create webhook error:', error);
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.badRequest(c, error instanceof Error ? error.message : 'Failed to create webhook');
+  }
+});
+
+// Update webhook
+webhooks.put('/:id', async (c) => {
+  try {
+    const user = c.get('user');
+    const webhookId = c.req.param('id');
+    const body = await c.req.json();
+    const data = validateRequest(updateWebhookSchema, body);
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const webhook = await WebhookService.updateWebhook(webhookId, data, user.businessId);
+    return ResponseHandler.success(c, { webhook });
+
+  } catch (error: unknown) {
+    console.error('Update webhook error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Webhook');
+    }
+    if (error instanceof ValidationError) {
+      return ResponseHandler.badRequest(c, error.message);
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.badRequest(c, error instanceof Error ? error.message : 'Failed to update webhook');
+  }
+});
+
+// Delete webhook
+webhooks.delete('/:id', async (c) => {
+  try {
+    const user = c.get('user');
+    const webhookId = c.req.param('id');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    await WebhookService.deleteWebhook(webhookId, user.businessId);
+    return ResponseHandler.success(c, null, 'Webhook deleted successfully');
+
+  } catch (error: unknown) {
+    console.error('Delete webhook error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Webhook');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to delete webhook');
+  }
+});
+
+// Get delivery log for a webhook
+webhooks.get('/:id/deliveries', async (c) => {
+  try {
+    const user = c.get('user');
+    const webhookId = c.req.param('id');
+    const limitRaw = parseInt(c.req.query('limit') || '50');
+    const limit = Number.isFinite(limitRaw) ? Math.min(Math.max(limitRaw, 1), 100) : 50;
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const deliveries = await WebhookService.getDeliveries(webhookId, user.businessId, limit);
+    return ResponseHandler.success(c, { deliveries });
+
+  } catch (error: unknown) {
+    console.error('Get webhook deliveries error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Webhook');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to fetch webhook deliveries');
+  }
+});
+
+// Send a test event to a webhook
+webhooks.post('/:id/test', async (c) => {
+  try {
+    const user = c.get('user');
+    const webhookId = c.req.param('id');
+
+    // Validate businessId exists
+    if (!user.businessId) {
+      return ResponseHandler.forbidden(c, 'Business access required');
+    }
+
+    const delivery = await WebhookService.sendTestEvent(webhookId, user.businessId);
+    return ResponseHandler.success(c, { delivery });
+
+  } catch (error: unknown) {
+    console.error('Test webhook error:', error);
+    if (error instanceof NotFoundError) {
+      return ResponseHandler.notFound(c, 'Webhook');
+    }
+    if (error instanceof ServiceError) {
+      return ResponseHandler.serverError(c, error.message);
+    }
+    return ResponseHandler.serverError(c, 'Failed to send test webhook');
+  }
+});
+
+export default webhooks;
@@ -12,6 +12,10 @@ import {
   UnauthorizedError,
   ServiceError
 } from '../types/services.js';
+import { AuthUser } from '../types/context.js';
+
+// Stream tokens travel in URLs, so they only need to live long enough to open the connection
+const STREAM_TOKEN_TTL_SECONDS = parseInt(process.env.STREAM_TOKEN_TTL_SECONDS || '60');
 
 export class AuthService {
   /**
@@ -321,6 +325,22 @@ export class AuthService {
     }, secret, { expiresIn: '7d' });
   }
 
+  /**
+   * Create a short-lived token that only opens event streams, for clients that cannot send headers
+   */
+  static createStreamToken(user: AuthUser): { token: string; expiresIn: number } {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) throw new ServiceError('JWT secret not configured');
+    const token = jwt.sign({
+      type: 'stream',
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      businessId: user.businessId
+    }, secret, { expiresIn: STREAM_TOKEN_TTL_SECONDS });
+    return { token, expiresIn: STREAM_TOKEN_TTL_SECONDS };
+  }
+
   /**
    * Accept invitation by setting password and activating account
    */
@@ -14,14 +14,16 @@ export class DashboardService {
    */
   static async getStats(businessId: string, period: string = '30'): Promise<DashboardStats> {
     try {
-      // Get order metrics
+      // Get order metrics; scheduled orders count as active only once released
       const orderMetrics = db.prepare(`
         SELECT 
           COUNT(*) as total_orders,
-          COUNT(CASE WHEN status IN ('pending', 'assigned', 'picked_up', 'in_transit') THEN 1 END) as active_orders,
+          COUNT(CASE WHEN status IN ('pending', 'assigned', 'picked_up', 'in_transit', 'failed_attempt', 'rescheduled')
+            AND (scheduled_for IS NULL OR released_at IS NOT NULL) THEN 1 END) as active_orders,
+          COUNT(CASE WHEN status = 'pending' AND scheduled_for IS NOT NULL AND released_at IS NULL THEN 1 END) as scheduled_orders,
           COUNT(CASE WHEN status = 'delivered' THEN 1 END) as completed_orders,
           COUNT(CASE WHEN status = 'cancelled' THEN 1 END) as cancelled_orders,
-          COUNT(CASE WHEN status = 'pending' THEN 1 END) as pending,
+          COUNT(CASE WHEN status = 'pending' AND (scheduled_for IS NULL OR released_at IS NOT NULL) THEN 1 END) as pending,
           COUNT(CASE WHEN status = 'assigned' THEN 1 END) as assigned,
           COUNT(CASE WHEN status = 'picked_up' THEN 1 END) as picked_up,
           COUNT(CASE WHEN status = 'in_transit' THEN 1 END) as in_transit,
@@ -109,6 +111,7 @@ export class DashboardService {
         activeDrivers: driverMetrics.active_drivers || 0,
         totalRevenue: revenueData.total_revenue || 0,
         avgDeliveryTime: deliveryTimeData.avg_delivery_time || 0,
+        scheduledOrders: orderMetrics.scheduled_orders || 0,
         orderMetrics: {
           pending: orderMetrics.pending || 0,
           assigned: orderMetrics.assigned || 0,
@@ -178,8 +181,29 @@ export class DashboardService {
         LIMIT ?
       `).all(businessId, Math.floor(limit / 2)) as ActivityItem[];
 
+      // Get recent SLA alerts
+      const slaActivity = db.prepare(`
+        SELECT
+          'sla' as type,
+          a.id,
+          a.stage,
+          a.level,
+          a.deadline,
+          a.created_at as timestamp,
+          o.tracking_code,
+          o.customer_name,
+          u.name as driver_name
+        FROM sla_alerts a
+        JOIN orders o ON a.order_id = o.id
+        LEFT JOIN drivers d ON o.driver_id = d.id
+        LEFT JOIN users u ON d.user_id = u.id
+        WHERE a.business_id = ?
+        ORDER BY a.created_at DESC
+        LIMIT ?
+      `).all(businessId, Math.floor(limit / 2)) as ActivityItem[];
+
       // Combine and sort activities
-      const allActivity = [...orderActivity, ...geofenceActivity]
+      const allActivity = [...orderActivity, ...geofenceActivity, ...slaActivity]
         .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
         .slice(0, limit);
 
@@ -209,6 +233,7 @@ export class DashboardService {
         LEFT JOIN drivers d ON o.driver_id = d.id
         LEFT JOIN users u ON d.user_id = u.id
         WHERE o.business_id = ? AND o.status IN ('pending', 'assigned', 'picked_up', 'in_transit')
+          AND (o.scheduled_for IS NULL OR o.released_at IS NOT NULL)
         ORDER BY o.created_at DESC
       `).all(businessId) as any[];
 
@@ -216,7 +241,7 @@ export class DashboardService {
       const drivers = db.prepare(`
         SELECT 
           d.id, d.current_latitude, d.current_longitude, d.last_location_update,
-          d.is_available, d.vehicle_type, d.license_plate,
+          d.is_available, d.connection_status, d.vehicle_type, d.license_plate,
           u.name, u.phone
         FROM drivers d
         JOIN users u ON d.user_id = u.id
@@ -226,10 +251,13 @@ export class DashboardService {
 
       // Get active geofences
       const geofences = db.prepare(`
-        SELECT id, name, type, center_latitude, center_longitude, radius
+        SELECT id, name, type, shape, center_latitude, center_longitude, radius, coordinates
         FROM geofences 
         WHERE business_id = ? AND is_active = 1
-      `).all(businessId) as any[];
+      `).all(businessId).map((g: any) => ({
+        ...g,
+        coordinates: g.coordinates ? JSON.parse(g.coordinates) : null,
+      }));
 
       return {
         activeOrders,
@@ -270,11 +298,20 @@ export class DashboardService {
               THEN (julianday(o.actual_delivery) - julianday(o.actual_pickup)) * 24 * 60
               ELSE NULL 
             END
-          ) as avg_delivery_time_minutes
+          ) as avg_delivery_time_minutes,
+          COALESCE(SUM(t.distance_km), 0) as distance_km,
+          COALESCE(SUM(t.moving_minutes), 0) as moving_minutes,
+          COALESCE(SUM(t.stopped_minutes), 0) as stopped_minutes,
+          CASE
+            WHEN SUM(t.moving_minutes) > 0 THEN SUM(t.distance_km) / (SUM(t.moving_minutes) / 60)
+            ELSE NULL
+          END as avg_moving_speed_kmh,
+          MAX(t.max_speed_kmh) as max_speed_kmh
         FROM drivers d
         JOIN users u ON d.user_id = u.id
         LEFT JOIN orders o ON d.id = o.driver_id 
           AND o.created_at >= datetime('now', '-' || ? || ' days')
+        LEFT JOIN order_trips t ON t.order_id = o.id
         WHERE d.business_id = ?
         GROUP BY d.id, u.name, u.phone, d.vehicle_type, d.is_available
         ORDER BY completed_orders DESC, avg_delay_minutes ASC
@@ -0,0 +1,138 @@
+import db from '../database/connection.js';
+import {
+  DeliveryAttemptSettings,
+  DeliveryAttempt,
+  UpdateDeliveryAttemptSettingsData,
+  OrderWithDriver,
+  NotFoundError,
+  ServiceError
+} from '../types/services.js';
+import { OrderService } from './order.service.js';
+
+const CHECK_INTERVAL_SECONDS = parseInt(process.env.RESCHEDULE_CHECK_INTERVAL_SECONDS || '60');
+
+const DEFAULT_SETTINGS: DeliveryAttemptSettings = {
+  maxAttempts: 3,
+  autoRequeue: true,
+  retryDelayMinutes: 0,
+};
+
+export class DeliveryAttemptService {
+  private static readBusinessSettings(businessId: string): Record<string, any> {
+    const business = db.prepare('SELECT settings FROM businesses WHERE id = ?')
+      .get(businessId) as { settings: string | null } | undefined;
+
+    if (!business) {
+      throw new NotFoundError('Business');
+    }
+
+    try {
+      return business.settings ? JSON.parse(business.settings) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Get the delivery attempt policy for a business, filled in with defaults
+   */
+  static async getSettings(businessId: string): Promise<DeliveryAttemptSettings> {
+    try {
+      return { ...DEFAULT_SETTINGS, ...this.readBusinessSettings(businessId).deliveryAttempts };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error fetching delivery attempt settings:', error);
+      throw new ServiceError('Failed to fetch delivery attempt settings');
+    }
+  }
+
+  /**
+   * Update the delivery attempt policy, keeping other business settings intact
+   */
+  static async updateSettings(businessId: string, data: UpdateDeliveryAttemptSettingsData): Promise<DeliveryAttemptSettings> {
+    try {
+      const settings = this.readBusinessSettings(businessId);
+      settings.deliveryAttempts = { ...DEFAULT_SETTINGS, ...settings.deliveryAttempts, ...data };
+      db.prepare('UPDATE businesses SET settings = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+        .run(JSON.stringify(settings), businessId);
+
+      return await this.getSettings(businessId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error updating delivery attempt settings:', error);
+      throw new ServiceError('Failed to update delivery attempt settings');
+    }
+  }
+
+  /**
+   * Failed attempts for an order, oldest first
+   */
+  static getOrderAttempts(orderId: string): DeliveryAttempt[] {
+    return db.prepare(`
+      SELECT a.*, u.name as driver_name
+      FROM delivery_attempts a
+      LEFT JOIN drivers d ON a.driver_id = d.id
+      LEFT JOIN users u ON d.user_id = u.id
+      WHERE a.order_id = ?
+      ORDER BY a.attempt_number
+    `).all(orderId) as DeliveryAttempt[];
+  }
+
+  /**
+   * Re-queue an order after a failed attempt, now or after the retry delay, unless its attempts are used up
+   */
+  static async applyPolicy(order: OrderWithDriver, businessId: string): Promise<OrderWithDriver> {
+    const settings = await this.getSettings(businessId);
+    if (!settings.autoRequeue || (order.attempt_count ?? 0) >= settings.maxAttempts) {
+      return order;
+    }
+
+    const note = `Re-queued after attempt ${order.attempt_count} of ${settings.maxAttempts}`;
+    if (settings.retryDelayMinutes > 0) {
+      const rescheduledFor = new Date(Date.now() + settings.retryDelayMinutes * 60000).toISOString();
+      return OrderService.updateOrderStatus(order.id, { status: 'rescheduled', rescheduledFor, notes: note }, businessId);
+    }
+    return OrderService.updateOrderStatus(order.id, { status: 'pending', notes: note }, businessId);
+  }
+
+  /**
+   * Return rescheduled orders whose time has come to the dispatch queue
+   */
+  static async requeueDue(now: Date = new Date()): Promise<OrderWithDriver[]> {
+    const due = db.prepare(`
+      SELECT id, business_id FROM orders
+      WHERE status = 'rescheduled' AND rescheduled_for <= ?
+      ORDER BY rescheduled_for
+    `).all(now.toISOString()) as Array<{ id: string; business_id: string }>;
+
+    const requeued: OrderWithDriver[] = [];
+    for (const order of due) {
+      try {
+        requeued.push(await OrderService.updateOrderStatus(
+          order.id, { status: 'pending', notes: 'Rescheduled attempt is due' }, order.business_id
+        ));
+      } catch (error) {
+        console.error(`Failed to re-queue rescheduled order ${order.id}:`, error);
+      }
+    }
+    return requeued;
+  }
+
+  /**
+   * Re-queue due rescheduled orders on an interval; returns a function that stops it
+   */
+  static startRescheduleMonitor(): () => void {
+    const timer = setInterval(() => {
+      this.requeueDue().catch(error => {
+        console.error('Error running reschedule monitor:', error);
+      });
+    }, CHECK_INTERVAL_SECONDS * 1000);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+}
@@ -0,0 +1,325 @@
+import { calculateDistance } from '@zoneflow/shared';
+import db from '../database/connection.js';
+import {
+  DispatchSettings,
+  DispatchStrategy,
+  DispatchWeights,
+  DispatchCandidate,
+  DispatchResult,
+  DispatchMode,
+  UpdateDispatchSettingsData,
+  OrderWithDriver,
+  NotFoundError,
+  ValidationError,
+  ServiceError
+} from '../types/services.js';
+import { DomainEvents, DomainEvent } from '../utils/events.js';
+import { OrderService } from './order.service.js';
+
+const STRATEGY_WEIGHTS: Record<Exclude<DispatchStrategy, 'custom'>, DispatchWeights> = {
+  nearest: { distance: 1, load: 0, vehicle: 0, freshness: 0 },
+  least_loaded: { distance: 0.3, load: 0.7, vehicle: 0, freshness: 0 },
+  balanced: { distance: 0.5, load: 0.2, vehicle: 0.15, freshness: 0.15 },
+};
+
+const DEFAULT_SETTINGS: DispatchSettings = {
+  mode: 'off',
+  strategy: 'balanced',
+  weights: STRATEGY_WEIGHTS.balanced,
+  maxDistanceKm: 25,
+  maxActiveOrders: 3,
+  maxLocationAgeMinutes: 30,
+  vehicleScores: {},
+};
+
+// Pending orders considered per dispatch run when a driver frees up
+const PENDING_BATCH_SIZE = 20;
+// Candidates included in a proposal event
+const PROPOSAL_SIZE = 3;
+
+export class DispatchService {
+  private static readBusinessSettings(businessId: string): Record<string, any> {
+    const business = db.prepare('SELECT settings FROM businesses WHERE id = ?')
+      .get(businessId) as { settings: string | null } | undefined;
+
+    if (!business) {
+      throw new NotFoundError('Business');
+    }
+
+    try {
+      return business.settings ? JSON.parse(business.settings) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Get the dispatch settings for a business, filled in with defaults
+   */
+  static async getSettings(businessId: string): Promise<DispatchSettings> {
+    try {
+      const stored = this.readBusinessSettings(businessId).dispatch || {};
+      return {
+        ...DEFAULT_SETTINGS,
+        ...stored,
+        weights: { ...DEFAULT_SETTINGS.weights, ...stored.weights },
+        vehicleScores: { ...DEFAULT_SETTINGS.vehicleScores, ...stored.vehicleScores },
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error fetching dispatch settings:', error);
+      throw new ServiceError('Failed to fetch dispatch settings');
+    }
+  }
+
+  /**
+   * Update the dispatch settings, keeping other business settings intact
+   */
+  static async updateSettings(businessId: string, data: UpdateDispatchSettingsData): Promise<DispatchSettings> {
+    try {
+      const current = await this.getSettings(businessId);
+      const settings = this.readBusinessSettings(businessId);
+      settings.dispatch = {
+        ...current,
+        ...data,
+        weights: { ...current.weights, ...data.weights },
+        vehicleScores: data.vehicleScores ?? current.vehicleScores,
+      };
+
+      db.prepare('UPDATE businesses SET settings = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+        .run(JSON.stringify(settings), businessId);
+
+      return await this.getSettings(businessId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error updating dispatch settings:', error);
+      throw new ServiceError('Failed to update dispatch settings');
+    }
+  }
+
+  /**
+   * Score available drivers for an order, best first; ineligible drivers are left out
+   */
+  static async rankDrivers(orderId: string, businessId: string): Promise<DispatchCandidate[]> {
+    try {
+      const order = db.prepare('SELECT * FROM orders WHERE id = ? AND business_id = ?')
+        .get(orderId, businessId) as OrderWithDriver | undefined;
+
+      if (!order) {
+        throw new NotFoundError('Order');
+      }
+
+      const settings = await this.getSettings(businessId);
+      const weights = settings.strategy === 'custom' ? settings.weights : STRATEGY_WEIGHTS[settings.strategy];
+      const totalWeight = weights.distance + weights.load + weights.vehicle + weights.freshness;
+
+      const drivers = db.prepare(`
+        SELECT
+          d.id, d.vehicle_type, d.current_latitude, d.current_longitude, u.name,
+          (julianday('now') - julianday(d.last_location_update)) * 1440 as location_age_minutes,
+          (
+            SELECT COUNT(*) FROM orders o
+            WHERE o.driver_id = d.id AND o.status IN ('assigned', 'picked_up', 'in_transit')
+          ) as active_orders
+        FROM drivers d
+        JOIN users u ON d.user_id = u.id
+        WHERE d.business_id = ? AND d.is_available = 1 AND u.is_active = 1
+          AND d.current_latitude IS NOT NULL AND d.current_longitude IS NOT NULL
+          AND d.last_location_update IS NOT NULL
+      `).all(businessId) as Array<{
+        id: string;
+        vehicle_type?: string;
+        current_latitude: number;
+        current_longitude: number;
+        name: string;
+        location_age_minutes: number;
+        active_orders: number;
+      }>;
+
+      const candidates: DispatchCandidate[] = [];
+      for (const driver of drivers) {
+        const distanceKm = calculateDistance(
+          driver.current_latitude,
+          driver.current_longitude,
+          order.pickup_latitude,
+          order.pickup_longitude
+        );
+        const locationAgeMinutes = Math.max(0, driver.location_age_minutes);
+        const vehicleScore = Math.min(1, settings.vehicleScores[driver.vehicle_type || ''] ?? 1);
+
+        if (
+          distanceKm > settings.maxDistanceKm ||
+          driver.active_orders >= settings.maxActiveOrders ||
+          locationAgeMinutes > settings.maxLocationAgeMinutes ||
+          vehicleScore <= 0
+        ) {
+          continue;
+        }
+
+        const breakdown: DispatchWeights = {
+          distance: 1 - distanceKm / settings.maxDistanceKm,
+          load: 1 - driver.active_orders / settings.maxActiveOrders,
+          vehicle: vehicleScore,
+          freshness: 1 - locationAgeMinutes / settings.maxLocationAgeMinutes,
+        };
+        const weighted = weights.distance * breakdown.distance + weights.load * breakdown.load
+          + weights.vehicle * breakdown.vehicle + weights.freshness * breakdown.freshness;
+
+        candidates.push({
+          driverId: driver.id,
+          name: driver.name,
+          vehicleType: driver.vehicle_type,
+          distanceKm: Math.round(distanceKm * 1000) / 1000,
+          activeOrders: driver.active_orders,
+          locationAgeMinutes: Math.round(locationAgeMinutes * 10) / 10,
+          score: totalWeight > 0 ? Math.round((weighted / totalWeight) * 10000) / 10000 : 0,
+          breakdown,
+        });
+      }
+
+      return candidates.sort((a, b) => b.score - a.score || a.distanceKm - b.distanceKm);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error ranking drivers:', error);
+      throw new ServiceError('Failed to rank drivers');
+    }
+  }
+
+  /**
+   * Whether any available driver could still take an order, wherever the order is
+   */
+  private static hasOpenDriver(businessId: string, settings: DispatchSettings): boolean {
+    const driver = db.prepare(`
+      SELECT d.id
+      FROM drivers d
+      JOIN users u ON d.user_id = u.id
+      WHERE d.business_id = ? AND d.is_available = 1 AND u.is_active = 1
+        AND d.current_latitude IS NOT NULL AND d.current_longitude IS NOT NULL
+        AND (julianday('now') - julianday(d.last_location_update)) * 1440 <= ?
+        AND (
+          SELECT COUNT(*) FROM orders o
+          WHERE o.driver_id = d.id AND o.status IN ('assigned', 'picked_up', 'in_transit')
+        ) < ?
+      LIMIT 1
+    `).get(businessId, settings.maxLocationAgeMinutes, settings.maxActiveOrders);
+    return Boolean(driver);
+  }
+
+  /**
+   * Assign the best driver to a pending order, or publish a proposal, depending on the mode
+   */
+  static async dispatchOrder(orderId: string, businessId: string, mode?: DispatchMode): Promise<DispatchResult> {
+    const order = db.prepare('SELECT status, driver_id, scheduled_for, released_at FROM orders WHERE id = ? AND business_id = ?')
+      .get(orderId, businessId) as Pick<OrderWithDriver, 'status' | 'driver_id' | 'scheduled_for' | 'released_at'> | undefined;
+
+    if (!order) {
+      throw new NotFoundError('Order');
+    }
+    if (order.status !== 'pending' || order.driver_id) {
+      throw new ValidationError('Only unassigned pending orders can be dispatched');
+    }
+    if (OrderService.isAwaitingRelease(order)) {
+      throw new ValidationError('Scheduled orders cannot be dispatched before their release time');
+    }
+
+    const dispatchMode = mode ?? (await this.getSettings(businessId)).mode;
+    const result: DispatchResult = { orderId, mode: dispatchMode, assignedDriverId: null, candidates: [] };
+    if (dispatchMode === 'off') {
+      return result;
+    }
+
+    result.candidates = await this.rankDrivers(orderId, businessId);
+    const [best] = result.candidates;
+    if (!best) {
+      return result;
+    }
+
+    if (dispatchMode === 'auto') {
+      await OrderService.assignDriver(orderId, best.driverId, businessId);
+      result.assignedDriverId = best.driverId;
+    } else {
+      DomainEvents.publish('order.dispatch_proposed', businessId, {
+        orderId,
+        candidates: result.candidates.slice(0, PROPOSAL_SIZE),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Dispatch waiting orders by priority and age, e.g. after a driver frees up
+   */
+  static async dispatchPending(businessId: string): Promise<DispatchResult[]> {
+    const settings = await this.getSettings(businessId);
+    if (settings.mode === 'off') {
+      return [];
+    }
+
+    const pending = db.prepare(`
+      SELECT id FROM orders
+      WHERE business_id = ? AND status = 'pending' AND driver_id IS NULL
+        AND (scheduled_for IS NULL OR released_at IS NOT NULL)
+      ORDER BY CASE priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END, created_at
+      LIMIT ?
+    `).all(businessId, PENDING_BATCH_SIZE) as Array<{ id: string }>;
+
+    const results: DispatchResult[] = [];
+    for (const { id } of pending) {
+      // Stop once every driver is full or gone; an order no driver can reach is skipped, not a reason to stop
+      if (!this.hasOpenDriver(businessId, settings)) break;
+      results.push(await this.dispatchOrder(id, businessId, settings.mode));
+    }
+    return results;
+  }
+
+  /**
+   * Dispatch on new orders and freed-up drivers; returns a stop function
+   */
+  static startAutoDispatch(): () => void {
+    // Runs are serialized so two events cannot hand the same driver more than their share
+    let queue = Promise.resolve();
+    const run = (work: () => Promise<unknown>) => {
+      queue = queue.then(work).then(() => undefined, (error) => {
+        console.error('Error running auto-dispatch:', error);
+      });
+    };
+
+    return DomainEvents.subscribe((event: DomainEvent) => {
+      const { businessId, data } = event;
+
+      if (event.type === 'order.created' || event.type === 'order.released') {
+        // Scheduled orders wait for their release event
+        if (OrderService.isAwaitingRelease(data.order)) return;
+        run(async () => {
+          if ((await this.getSettings(businessId)).mode === 'off') return;
+          await this.dispatchOrder(data.order.id, businessId);
+        });
+      } else if (event.type === 'driver.availability_changed' && data.isAvailable) {
+        run(() => this.dispatchPending(businessId));
+      } else if (
+        event.type === 'order.status_changed' &&
+        data.order?.status === 'pending' &&
+        !data.order.driver_id
+      ) {
+        // A re-queued order after a failed attempt
+        run(async () => {
+          if ((await this.getSettings(businessId)).mode === 'off') return;
+          await this.dispatchOrder(data.order.id, businessId);
+        });
+      } else if (
+        event.type === 'order.status_changed' &&
+        data.order?.driver_id &&
+        ['delivered', 'cancelled', 'failed_attempt', 'returned'].includes(data.order.status)
+      ) {
+        run(() => this.dispatchPending(businessId));
+      }
+    });
+  }
+}
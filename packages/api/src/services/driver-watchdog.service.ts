@@ -0,0 +1,126 @@
+import db from '../database/connection.js';
+import {
+  DriverConnectionStatus,
+  DriverConnectionChange,
+  ServiceError
+} from '../types/services.js';
+import { DomainEvents } from '../utils/events.js';
+
+const STALE_AFTER_MINUTES = parseInt(process.env.DRIVER_STALE_AFTER_MINUTES || '5');
+const OFFLINE_AFTER_MINUTES = parseInt(process.env.DRIVER_OFFLINE_AFTER_MINUTES || '30');
+const CHECK_INTERVAL_SECONDS = parseInt(process.env.DRIVER_WATCHDOG_INTERVAL_SECONDS || '60');
+
+interface WatchedDriver {
+  id: string;
+  business_id: string;
+  name: string;
+  connection_status: DriverConnectionStatus;
+  last_fix_at: string | null;
+  silent_minutes: number | null;
+}
+
+export class DriverWatchdogService {
+  /**
+   * Orders the driver is still responsible for
+   */
+  private static activeOrders(driverId: string): DriverConnectionChange['activeOrders'] {
+    return db.prepare(`
+      SELECT id, tracking_code as trackingCode, status FROM orders
+      WHERE driver_id = ? AND status IN ('assigned', 'picked_up', 'in_transit')
+      ORDER BY created_at
+    `).all(driverId) as DriverConnectionChange['activeOrders'];
+  }
+
+  /**
+   * Store a connection change and tell listeners; losing a driver with orders also raises an alert, once per loss
+   */
+  private static applyChange(driver: WatchedDriver, status: DriverConnectionStatus, now: Date): DriverConnectionChange {
+    db.prepare('UPDATE drivers SET connection_status = ?, connection_changed_at = ? WHERE id = ?')
+      .run(status, now.toISOString(), driver.id);
+
+    const change: DriverConnectionChange = {
+      driverId: driver.id,
+      name: driver.name,
+      status,
+      previousStatus: driver.connection_status,
+      lastLocationUpdate: driver.last_fix_at,
+      activeOrders: this.activeOrders(driver.id),
+    };
+
+    DomainEvents.publish('driver.connection_changed', driver.business_id, { ...change });
+    // Going from stale to offline is the same loss, so only leaving online alerts
+    if (status !== 'online' && change.previousStatus === 'online' && change.activeOrders.length > 0) {
+      DomainEvents.publish('driver.signal_lost', driver.business_id, { ...change });
+    }
+
+    return change;
+  }
+
+  /**
+   * Mark a driver online after a location report; returns the change, or null if already online
+   */
+  static markOnline(driverId: string, now: Date = new Date()): DriverConnectionChange | null {
+    const driver = db.prepare(`
+      SELECT d.id, d.business_id, d.connection_status, u.name,
+        strftime('%Y-%m-%dT%H:%M:%fZ', d.last_location_update) as last_fix_at
+      FROM drivers d
+      JOIN users u ON d.user_id = u.id
+      WHERE d.id = ?
+    `).get(driverId) as Omit<WatchedDriver, 'silent_minutes'> | undefined;
+
+    if (!driver || driver.connection_status === 'online') {
+      return null;
+    }
+    return this.applyChange({ ...driver, silent_minutes: 0 }, 'online', now);
+  }
+
+  /**
+   * Mark drivers that have stopped reporting as stale or offline
+   */
+  static async checkDrivers(now: Date = new Date()): Promise<DriverConnectionChange[]> {
+    try {
+      const drivers = db.prepare(`
+        SELECT d.id, d.business_id, d.connection_status, u.name,
+          strftime('%Y-%m-%dT%H:%M:%fZ', d.last_location_update) as last_fix_at,
+          (julianday(?) - julianday(d.last_location_update)) * 1440 as silent_minutes
+        FROM drivers d
+        JOIN users u ON d.user_id = u.id
+        WHERE d.connection_status != 'offline'
+      `).all(now.toISOString()) as WatchedDriver[];
+
+      const changes: DriverConnectionChange[] = [];
+      for (const driver of drivers) {
+        let status: DriverConnectionStatus = driver.connection_status;
+        if (driver.silent_minutes === null || driver.silent_minutes >= OFFLINE_AFTER_MINUTES) {
+          status = 'offline';
+        } else if (driver.silent_minutes >= STALE_AFTER_MINUTES) {
+          status = 'stale';
+        }
+
+        // Only reports bring a driver back online
+        if (status !== driver.connection_status) {
+          changes.push(this.applyChange(driver, status, now));
+        }
+      }
+
+      return changes;
+    } catch (error) {
+      console.error('Error checking driver connections:', error);
+      throw new ServiceError('Failed to check driver connections');
+    }
+  }
+
+  /**
+   * Check driver connections on an interval; returns a function that stops it
+   */
+  static startWatchdog(): () => void {
+    const timer = setInterval(() => {
+      this.checkDrivers().catch(error => {
+        console.error('Error running driver watchdog:', error);
+      });
+    }, CHECK_INTERVAL_SECONDS * 1000);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+}
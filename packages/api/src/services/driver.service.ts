@@ -15,6 +15,7 @@ import {
 } from '../types/services.js';
 import { AuthService } from './auth.service.js';
 import { EmailService } from './email.service.js';
+import { DomainEvents } from '../utils/events.js';
 
 export class DriverService {
   /**
@@ -79,7 +80,7 @@ export class DriverService {
         SELECT 
           d.id, d.user_id, d.business_id, d.vehicle_type, d.license_plate, 
           d.is_available, d.current_latitude, d.current_longitude, 
-          d.last_location_update, d.created_at, d.updated_at,
+          d.last_location_update, d.connection_status, d.connection_changed_at, d.created_at, d.updated_at,
           u.name, u.email, u.phone, u.role
         FROM drivers d
         JOIN users u ON d.user_id = u.id
@@ -197,7 +198,7 @@ export class DriverService {
         SELECT 
           d.id, d.user_id, d.business_id, d.vehicle_type, d.license_plate, 
           d.is_available, d.current_latitude, d.current_longitude, 
-          d.last_location_update, d.created_at, d.updated_at,
+          d.last_location_update, d.connection_status, d.connection_changed_at, d.created_at, d.updated_at,
           u.name, u.email, u.phone, u.role
         FROM drivers d
         JOIN users u ON d.user_id = u.id
@@ -240,7 +241,7 @@ export class DriverService {
         SELECT 
           d.id, d.user_id, d.business_id, d.vehicle_type, d.license_plate, 
           d.is_available, d.current_latitude, d.current_longitude, 
-          d.last_location_update, d.created_at, d.updated_at,
+          d.last_location_update, d.connection_status, d.connection_changed_at, d.created_at, d.updated_at,
           u.name, u.email, u.phone, u.role
         FROM drivers d
         JOIN users u ON d.user_id = u.id
@@ -338,6 +339,13 @@ export class DriverService {
 
       transaction();
 
+      if (updateData.isAvailable !== undefined) {
+        DomainEvents.publish('driver.availability_changed', businessId, {
+          driverId,
+          isAvailable: updateData.isAvailable,
+        });
+      }
+
       // Return updated driver
       return await this.getDriverById(driverId, businessId);
     } catch (error) {
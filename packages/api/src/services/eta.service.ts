@@ -0,0 +1,203 @@
+import { calculateDistance } from '@zoneflow/shared';
+import db from '../database/connection.js';
+import {
+  LocationHistory,
+  OrderEta,
+  ServiceError
+} from '../types/services.js';
+import { TrackProcessor } from '../utils/track.js';
+import { DomainEvents } from '../utils/events.js';
+import { RouteService } from './route.service.js';
+
+const DEFAULT_SPEED_KMH = parseInt(process.env.ROUTE_AVERAGE_SPEED_KMH || '30');
+const STOP_SERVICE_MINUTES = parseInt(process.env.ROUTE_STOP_MINUTES || '5');
+const OBSERVED_WINDOW_MINUTES = parseInt(process.env.ETA_OBSERVED_WINDOW_MINUTES || '15');
+const HISTORY_DAYS = parseInt(process.env.ETA_HISTORY_DAYS || '30');
+// How long a business's historical speed is reused before delivered orders are scanned again
+const HISTORY_CACHE_SECONDS = parseInt(process.env.ETA_HISTORY_CACHE_SECONDS || '300');
+// A fix only recomputes ETAs once this long has passed or the driver has moved this far since the last run
+const REFRESH_MIN_SECONDS = parseInt(process.env.ETA_REFRESH_MIN_SECONDS || '30');
+const REFRESH_MIN_DISTANCE_M = parseInt(process.env.ETA_REFRESH_MIN_DISTANCE_M || '100');
+
+// Moving minutes after which the driver's own recent speed fully replaces the business average
+const FULL_CONFIDENCE_MOVING_MINUTES = 10;
+// Delivered orders needed before the business average is trusted over the default speed
+const MIN_HISTORY_ORDERS = 3;
+const MIN_SPEED_KMH = 5;
+const MAX_SPEED_KMH = 120;
+// ETA changes smaller than this are written but not broadcast
+const PUBLISH_THRESHOLD_MS = 60000;
+
+export class EtaService {
+  private static historyCache = new Map<string, { speedKmh: number | null; expiresAt: number }>();
+  private static lastRefresh = new Map<string, { at: number; latitude: number; longitude: number; orders: string }>();
+
+  /**
+   * Average pickup-to-delivery speed over recently delivered orders, as the crow flies; cached per business
+   */
+  private static historicalSpeed(businessId: string, now: Date): number | null {
+    const cached = this.historyCache.get(businessId);
+    if (cached && cached.expiresAt > now.getTime()) {
+      return cached.speedKmh;
+    }
+
+    const speedKmh = this.scanHistoricalSpeed(businessId);
+    this.historyCache.set(businessId, { speedKmh, expiresAt: now.getTime() + HISTORY_CACHE_SECONDS * 1000 });
+    return speedKmh;
+  }
+
+  /**
+   * Scan delivered orders in the history window for the business average
+   */
+  private static scanHistoricalSpeed(businessId: string): number | null {
+    const orders = db.prepare(`
+      SELECT
+        pickup_latitude, pickup_longitude, delivery_latitude, delivery_longitude,
+        (julianday(actual_delivery) - julianday(actual_pickup)) * 24 as hours
+      FROM orders
+      WHERE business_id = ? AND status = 'delivered'
+        AND actual_pickup IS NOT NULL AND actual_delivery IS NOT NULL
+        AND julianday(actual_delivery) >= julianday('now', '-' || ? || ' days')
+    `).all(businessId, HISTORY_DAYS) as Array<{
+      pickup_latitude: number;
+      pickup_longitude: number;
+      delivery_latitude: number;
+      delivery_longitude: number;
+      hours: number;
+    }>;
+
+    const usable = orders.filter(order => order.hours > 0);
+    if (usable.length < MIN_HISTORY_ORDERS) {
+      return null;
+    }
+
+    const distanceKm = usable.reduce((sum, order) => sum + calculateDistance(
+      order.pickup_latitude, order.pickup_longitude, order.delivery_latitude, order.delivery_longitude
+    ), 0);
+    const hours = usable.reduce((sum, order) => sum + order.hours, 0);
+    return distanceKm / hours;
+  }
+
+  /**
+   * The driver's moving speed over the last few minutes of fixes
+   */
+  private static observedSpeed(driverId: string): { speedKmh: number; movingMinutes: number } {
+    const history = db.prepare(`
+      SELECT latitude, longitude, timestamp, accuracy, speed, heading
+      FROM location_history
+      WHERE driver_id = ? AND julianday(timestamp) >= julianday('now', '-' || ? || ' minutes')
+      ORDER BY timestamp
+    `).all(driverId, OBSERVED_WINDOW_MINUTES) as LocationHistory[];
+
+    const metrics = TrackProcessor.summarize(history);
+    return { speedKmh: metrics.avgMovingSpeedKmh, movingMinutes: metrics.movingMinutes };
+  }
+
+  /**
+   * Recompute ETAs for every active order of a driver and write them back to the orders
+   */
+  static async updateDriverEtas(driverId: string, businessId: string, now: Date = new Date()): Promise<OrderEta[]> {
+    try {
+      const route = await RouteService.getDriverRoute(driverId, businessId, now);
+      if (!route.start || route.stops.length === 0) {
+        return [];
+      }
+
+      // Blend the driver's recent pace with the business norm, trusting the driver more the longer they have moved
+      const historicalSpeedKmh = this.historicalSpeed(businessId, now);
+      const observed = this.observedSpeed(driverId);
+      const prior = historicalSpeedKmh ?? DEFAULT_SPEED_KMH;
+      const confidence = Math.min(1, observed.movingMinutes / FULL_CONFIDENCE_MOVING_MINUTES);
+      const speedKmh = Math.min(MAX_SPEED_KMH, Math.max(MIN_SPEED_KMH,
+        confidence * observed.speedKmh + (1 - confidence) * prior
+      ));
+
+      const previous = db.prepare(`
+        SELECT id, tracking_code, predicted_delivery FROM orders
+        WHERE driver_id = ? AND status IN ('assigned', 'picked_up', 'in_transit')
+      `).all(driverId) as Array<{ id: string; tracking_code: string; predicted_delivery: string | null }>;
+      const updateOrder = db.prepare('UPDATE orders SET predicted_delivery = ?, eta_updated_at = ? WHERE id = ?');
+      const updatedAt = now.toISOString();
+
+      const etas: OrderEta[] = [];
+      let remainingKm = 0;
+      route.stops.forEach((stop, index) => {
+        remainingKm += stop.legDistanceKm;
+        if (stop.type !== 'delivery') return;
+
+        const minutes = (remainingKm / speedKmh) * 60 + index * STOP_SERVICE_MINUTES;
+        etas.push({
+          orderId: stop.orderId,
+          predictedDelivery: new Date(now.getTime() + minutes * 60000).toISOString(),
+          remainingDistanceKm: Math.round(remainingKm * 1000) / 1000,
+          stopsBefore: index,
+          speedKmh: Math.round(speedKmh * 10) / 10,
+          observedSpeedKmh: observed.movingMinutes > 0 ? observed.speedKmh : null,
+          historicalSpeedKmh: historicalSpeedKmh !== null ? Math.round(historicalSpeedKmh * 10) / 10 : null,
+        });
+      });
+
+      db.transaction(() => {
+        for (const eta of etas) {
+          updateOrder.run(eta.predictedDelivery, updatedAt, eta.orderId);
+        }
+      })();
+
+      for (const eta of etas) {
+        const before = previous.find(order => order.id === eta.orderId);
+        const shift = before?.predicted_delivery
+          ? Math.abs(Date.parse(eta.predictedDelivery) - Date.parse(before.predicted_delivery))
+          : Infinity;
+        if (shift >= PUBLISH_THRESHOLD_MS) {
+          DomainEvents.publish('order.eta_updated', businessId, {
+            orderId: eta.orderId,
+            trackingCode: before?.tracking_code,
+            predictedDelivery: eta.predictedDelivery,
+            previousPrediction: before?.predicted_delivery ?? null,
+            remainingDistanceKm: eta.remainingDistanceKm,
+          });
+        }
+      }
+
+      return etas;
+    } catch (error) {
+      console.error('Error updating delivery ETAs:', error);
+      throw new ServiceError('Failed to update delivery ETAs');
+    }
+  }
+
+  /**
+   * Recompute a driver's ETAs after a fix, unless they were refreshed moments ago from about the same spot
+   * for the same orders; returns null when the refresh was skipped
+   */
+  static async refreshDriverEtas(
+    driverId: string,
+    businessId: string,
+    latitude: number,
+    longitude: number,
+    now: Date = new Date()
+  ): Promise<OrderEta[] | null> {
+    // A new, dropped or picked-up order changes the route, so it always forces a refresh
+    const orders = (db.prepare(`
+      SELECT id, status FROM orders
+      WHERE driver_id = ? AND status IN ('assigned', 'picked_up', 'in_transit')
+      ORDER BY id
+    `).all(driverId) as Array<{ id: string; status: string }>)
+      .map(order => `${order.id}:${order.status}`)
+      .join(',');
+
+    const last = this.lastRefresh.get(driverId);
+    if (
+      last &&
+      last.orders === orders &&
+      now.getTime() - last.at < REFRESH_MIN_SECONDS * 1000 &&
+      calculateDistance(last.latitude, last.longitude, latitude, longitude) * 1000 < REFRESH_MIN_DISTANCE_M
+    ) {
+      return null;
+    }
+
+    const etas = await this.updateDriverEtas(driverId, businessId, now);
+    this.lastRefresh.set(driverId, { at: now.getTime(), latitude, longitude, orders });
+    return etas;
+  }
+}
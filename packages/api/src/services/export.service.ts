@@ -0,0 +1,297 @@
+import * as XLSX from 'xlsx';
+import db from '../database/connection.js';
+import {
+  ExportDataset,
+  ExportFormat,
+  ExportFilters,
+  ExportFile,
+  ValidationError,
+  ServiceError
+} from '../types/services.js';
+import { toCsvRow } from '../utils/csv.js';
+import { OrderService } from './order.service.js';
+
+const PAGE_SIZE = parseInt(process.env.EXPORT_PAGE_SIZE || '500');
+// A workbook is held in memory several times over while it is written, so it stays small
+const XLSX_MAX_ROWS = parseInt(process.env.EXPORT_XLSX_MAX_ROWS || '10000');
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  geojson: 'application/geo+json',
+};
+
+type ExportRow = Record<string, any>;
+
+interface ExportQuery {
+  // FROM and JOIN clauses
+  source: string;
+  select: string;
+  // Paging key; rowid keeps pages stable without holding a cursor open between chunks
+  rowid: string;
+  where: string;
+  params: any[];
+  columns: string[];
+  booleans?: string[];
+  position: (row: ExportRow) => [number, number] | null;
+}
+
+// How a timestamp column is written: ISO strings from the app, or SQLite's CURRENT_TIMESTAMP
+type StoredTime = 'iso' | 'sqlite';
+
+export class ExportService {
+  /**
+   * Bound a column by from/to, written in the column's own format so the comparison can use an index
+   */
+  private static timeRange(
+    column: string,
+    stored: StoredTime,
+    filters: ExportFilters,
+    query: { where: string; params: any[] }
+  ) {
+    const format = (value: string) => {
+      const iso = new Date(value).toISOString();
+      return stored === 'iso' ? iso : iso.slice(0, 19).replace('T', ' ');
+    };
+
+    if (filters.from) {
+      query.where += ` AND ${column} >= ?`;
+      query.params.push(format(filters.from));
+    }
+    if (filters.to) {
+      query.where += ` AND ${column} <= ?`;
+      query.params.push(format(filters.to));
+    }
+  }
+
+  private static buildQuery(dataset: ExportDataset, businessId: string, filters: ExportFilters): ExportQuery {
+    switch (dataset) {
+      case 'orders': {
+        const query = OrderService.orderFilterClause(businessId, filters);
+        this.timeRange('o.created_at', 'sqlite', filters, query);
+        return {
+          ...query,
+          source: `orders o
+            LEFT JOIN drivers d ON o.driver_id = d.id
+            LEFT JOIN users u ON d.user_id = u.id`,
+          select: 'o.*, u.name as driver_name',
+          rowid: 'o.rowid',
+          columns: [
+            'id', 'tracking_code', 'external_ref', 'status', 'priority', 'sla_status',
+            'customer_name', 'customer_phone', 'customer_email',
+            'pickup_address', 'pickup_latitude', 'pickup_longitude',
+            'delivery_address', 'delivery_latitude', 'delivery_longitude',
+            'driver_id', 'driver_name', 'estimated_delivery', 'predicted_delivery',
+            'pickup_ready_at', 'delivery_window_start', 'delivery_window_end', 'scheduled_for', 'released_at',
+            'actual_pickup', 'actual_delivery', 'attempt_count', 'notes', 'created_at', 'updated_at',
+          ],
+          position: row => [row.delivery_longitude, row.delivery_latitude],
+        };
+      }
+
+      case 'drivers': {
+        const query = { where: 'd.business_id = ?', params: [businessId] as any[] };
+        if (filters.available) {
+          query.where += ' AND d.is_available = ?';
+          query.params.push(filters.available === 'true' ? 1 : 0);
+        }
+        this.timeRange('d.created_at', 'sqlite', filters, query);
+        return {
+          ...query,
+          source: 'drivers d JOIN users u ON d.user_id = u.id',
+          select: 'd.*, u.name, u.email, u.phone',
+          rowid: 'd.rowid',
+          columns: [
+            'id', 'name', 'email', 'phone', 'vehicle_type', 'license_plate', 'is_available',
+            'connection_status', 'current_latitude', 'current_longitude', 'last_location_update', 'created_at',
+          ],
+          booleans: ['is_available'],
+          position: row => row.current_latitude === null || row.current_longitude === null
+            ? null
+            : [row.current_longitude, row.current_latitude],
+        };
+      }
+
+      case 'geofence-events': {
+        const query = { where: 'g.business_id = ?', params: [businessId] as any[] };
+        if (filters.geofenceId) {
+          query.where += ' AND ge.geofence_id = ?';
+          query.params.push(filters.geofenceId);
+        }
+        if (filters.eventType) {
+          query.where += ' AND ge.event_type = ?';
+          query.params.push(filters.eventType);
+        }
+        if (filters.driverId) {
+          query.where += ' AND ge.driver_id = ?';
+          query.params.push(filters.driverId);
+        }
+        if (filters.orderId) {
+          query.where += ' AND ge.order_id = ?';
+          query.params.push(filters.orderId);
+        }
+        this.timeRange('ge.timestamp', 'iso', filters, query);
+        return {
+          ...query,
+          source: `geofence_events ge
+            JOIN geofences g ON ge.geofence_id = g.id
+            LEFT JOIN drivers d ON ge.driver_id = d.id
+            LEFT JOIN users u ON d.user_id = u.id
+            LEFT JOIN orders o ON ge.order_id = o.id`,
+          select: 'ge.*, g.name as geofence_name, u.name as driver_name, o.tracking_code',
+          rowid: 'ge.rowid',
+          columns: [
+            'id', 'geofence_id', 'geofence_name', 'event_type', 'driver_id', 'driver_name',
+            'order_id', 'tracking_code', 'latitude', 'longitude', 'timestamp',
+          ],
+          position: row => [row.longitude, row.latitude],
+        };
+      }
+
+      case 'locations': {
+        const query = { where: 'd.business_id = ?', params: [businessId] as any[] };
+        if (filters.driverId) {
+          query.where += ' AND lh.driver_id = ?';
+          query.params.push(filters.driverId);
+        }
+        if (filters.orderId) {
+          query.where += ' AND lh.order_id = ?';
+          query.params.push(filters.orderId);
+        }
+        this.timeRange('lh.timestamp', 'iso', filters, query);
+        return {
+          ...query,
+          source: `location_history lh
+            JOIN drivers d ON lh.driver_id = d.id
+            LEFT JOIN users u ON d.user_id = u.id`,
+          select: 'lh.*, u.name as driver_name',
+          rowid: 'lh.rowid',
+          columns: [
+            'id', 'driver_id', 'driver_name', 'order_id', 'latitude', 'longitude',
+            'accuracy', 'speed', 'heading', 'timestamp',
+          ],
+          position: row => [row.longitude, row.latitude],
+        };
+      }
+    }
+  }
+
+  /**
+   * Read matching rows a page at a time in insertion order
+   */
+  private static *pages(query: ExportQuery): Generator<ExportRow[]> {
+    const page = db.prepare(`
+      SELECT ${query.select}, ${query.rowid} AS export_rowid
+      FROM ${query.source}
+      WHERE ${query.where} AND ${query.rowid} > ?
+      ORDER BY ${query.rowid}
+      LIMIT ?
+    `);
+
+    let after = 0;
+    while (true) {
+      const rows = page.all(...query.params, after, PAGE_SIZE) as ExportRow[];
+      if (rows.length === 0) return;
+      yield rows;
+      after = rows[rows.length - 1].export_rowid;
+    }
+  }
+
+  private static record(query: ExportQuery, row: ExportRow): ExportRow {
+    const record: ExportRow = {};
+    for (const column of query.columns) {
+      const value = row[column] ?? null;
+      record[column] = query.booleans?.includes(column) && value !== null ? Boolean(value) : value;
+    }
+    return record;
+  }
+
+  private static async *csvChunks(query: ExportQuery): AsyncGenerator<string> {
+    yield toCsvRow(query.columns);
+    for (const rows of this.pages(query)) {
+      yield rows.map(row => {
+        const record = this.record(query, row);
+        return toCsvRow(query.columns.map(column => record[column]));
+      }).join('');
+    }
+  }
+
+  private static async *geoJsonChunks(query: ExportQuery): AsyncGenerator<string> {
+    yield '{"type":"FeatureCollection","features":[';
+    let separator = '\n';
+    for (const rows of this.pages(query)) {
+      yield rows.map(row => {
+        const position = query.position(row);
+        const feature = JSON.stringify({
+          type: 'Feature',
+          id: row.id,
+          geometry: position ? { type: 'Point', coordinates: position } : null,
+          properties: this.record(query, row),
+        });
+        const chunk = separator + feature;
+        separator = ',\n';
+        return chunk;
+      }).join('');
+    }
+    yield '\n]}\n';
+  }
+
+  /**
+   * XLSX cannot be written incrementally, so the sheet is built in memory and capped in size
+   */
+  private static buildWorkbook(dataset: ExportDataset, query: ExportQuery): Buffer {
+    const { total } = db.prepare(`SELECT COUNT(*) as total FROM ${query.source} WHERE ${query.where}`)
+      .get(...query.params) as { total: number };
+    if (total > XLSX_MAX_ROWS) {
+      throw new ValidationError(`Excel exports are limited to ${XLSX_MAX_ROWS} rows; narrow the filters or export CSV instead`);
+    }
+
+    const sheet = XLSX.utils.aoa_to_sheet([query.columns]);
+    for (const rows of this.pages(query)) {
+      XLSX.utils.sheet_add_aoa(sheet, rows.map(row => {
+        const record = this.record(query, row);
+        return query.columns.map(column => record[column]);
+      }), { origin: -1 });
+    }
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, dataset);
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+  }
+
+  /**
+   * Export a dataset for a business; CSV and GeoJSON bodies are produced lazily as they are sent
+   */
+  static async createExport(
+    dataset: ExportDataset,
+    businessId: string,
+    filters: ExportFilters,
+    format: ExportFormat
+  ): Promise<ExportFile> {
+    try {
+      const query = this.buildQuery(dataset, businessId, filters);
+      const stamp = new Date().toISOString().slice(0, 10);
+
+      let body: ExportFile['body'];
+      if (format === 'xlsx') {
+        body = this.buildWorkbook(dataset, query);
+      } else if (format === 'geojson') {
+        body = this.geoJsonChunks(query);
+      } else {
+        body = this.csvChunks(query);
+      }
+
+      return {
+        fileName: `${dataset}-${stamp}.${format}`,
+        contentType: CONTENT_TYPES[format],
+        body,
+      };
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      console.error('Error exporting data:', error);
+      throw new ServiceError('Failed to export data');
+    }
+  }
+}
@@ -0,0 +1,250 @@
+import type { GeofenceCoordinates } from '@zoneflow/shared';
+import {
+  CreateGeofenceData,
+  GeofenceFileFormat,
+  GeofenceImportFeature,
+  GeofenceImportResult,
+  GeofenceWithEvents,
+  ValidationError,
+  ServiceError
+} from '../types/services.js';
+import {
+  GeoFeature,
+  GeoGeometry,
+  parseGeoJson,
+  parseKml,
+  escapeXml,
+  toKmlCoordinates,
+  toKmlExtendedData
+} from '../utils/geo-formats.js';
+import { createGeofenceSchema } from '../utils/validation.js';
+import { GeofenceService } from './geofence.service.js';
+
+const MAX_IMPORT_FEATURES = 1000;
+
+const CONTENT_TYPES: Record<GeofenceFileFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+type Ring = Array<[number, number]>;
+
+// Swap [lng, lat] file positions to [lat, lng] geofence points and back
+const swap = (ring: unknown): unknown =>
+  Array.isArray(ring) ? ring.map(point => Array.isArray(point) ? [point[1], point[0]] : point) : ring;
+
+const optionalNumber = (value: unknown): number | undefined =>
+  value === undefined || value === null || value === '' ? undefined : Number(value);
+
+const optionalBoolean = (value: unknown): boolean | undefined =>
+  typeof value === 'boolean' ? value : value === 'true' ? true : value === 'false' ? false : undefined;
+
+export class GeofenceImportService {
+  private static formatOf(fileName: string): GeofenceFileFormat {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'geojson' || extension === 'json') return 'geojson';
+    if (extension === 'kml') return 'kml';
+    if (extension === 'kmz') {
+      throw new ValidationError('KMZ files must be unzipped to KML before importing');
+    }
+    throw new ValidationError('Unsupported file type. Please upload GeoJSON (.geojson, .json) or KML (.kml) files.');
+  }
+
+  /**
+   * Map a feature onto geofence input: points with a radius become circles, polygons stay polygons
+   */
+  private static toGeofenceInput(feature: GeoFeature): { input?: Record<string, unknown>; errors: string[] } {
+    const { properties, geometry } = feature;
+    const base = {
+      name: typeof properties.name === 'string' ? properties.name.trim() : undefined,
+      type: properties.type ?? 'custom',
+      dwellTime: optionalNumber(properties.dwellTime ?? properties.dwell_time),
+      isActive: optionalBoolean(properties.isActive ?? properties.is_active),
+    };
+
+    if (!geometry) {
+      return { errors: ['Feature has no geometry'] };
+    }
+
+    switch (geometry.type) {
+      case 'Point': {
+        const radius = optionalNumber(properties.radius);
+        if (radius === undefined) {
+          return { errors: ['Point features need a radius property (meters) to become circles'] };
+        }
+        const [longitude, latitude] = Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+        return { input: { ...base, shape: 'circle', centerLatitude: latitude, centerLongitude: longitude, radius }, errors: [] };
+      }
+      case 'Polygon': {
+        const rings = Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+        if (rings.length > 1) {
+          return { errors: ['Polygon holes are not supported'] };
+        }
+        return { input: { ...base, shape: 'polygon', coordinates: swap(rings[0]) }, errors: [] };
+      }
+      case 'MultiPolygon': {
+        const polygons = Array.isArray(geometry.coordinates) ? geometry.coordinates : [];
+        if (polygons.some((rings: unknown) => Array.isArray(rings) && rings.length > 1)) {
+          return { errors: ['Polygon holes are not supported'] };
+        }
+        return { input: { ...base, shape: 'multipolygon', coordinates: polygons.map((rings: unknown[]) => swap(rings?.[0])) }, errors: [] };
+      }
+      default:
+        return { errors: [`${geometry.type} geometries cannot be used as geofences`] };
+    }
+  }
+
+  /**
+   * Validate every feature of a GeoJSON or KML file and, unless it is a dry run, create the valid ones
+   */
+  static async importGeofences(
+    businessId: string,
+    file: { name: string; data: Buffer },
+    options: { dryRun: boolean }
+  ): Promise<GeofenceImportResult> {
+    try {
+      const text = file.data.toString('utf8');
+      const features = this.formatOf(file.name) === 'kml' ? parseKml(text) : parseGeoJson(text);
+      if (features.length === 0) {
+        throw new ValidationError('No geofences found in file');
+      }
+      if (features.length > MAX_IMPORT_FEATURES) {
+        throw new ValidationError(`Files can contain at most ${MAX_IMPORT_FEATURES} geofences`);
+      }
+
+      const results: GeofenceImportFeature[] = [];
+      for (const [position, feature] of features.entries()) {
+        const index = position + 1;
+        const name = typeof feature.properties.name === 'string' ? feature.properties.name : null;
+
+        const { input, errors } = this.toGeofenceInput(feature);
+        if (!input) {
+          results.push({ index, name, status: 'failed', errors });
+          continue;
+        }
+
+        const parsed = createGeofenceSchema.safeParse(input);
+        if (!parsed.success) {
+          results.push({
+            index, name, status: 'failed',
+            errors: parsed.error.errors.map(issue =>
+              issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+            ),
+          });
+          continue;
+        }
+
+        const geofence = parsed.data as CreateGeofenceData;
+        if (options.dryRun) {
+          results.push({ index, name, status: 'valid', geofence });
+          continue;
+        }
+
+        // One geofence failing to save is reported like an invalid feature instead of abandoning the rest
+        try {
+          const created = await GeofenceService.createGeofence(geofence, businessId);
+          results.push({ index, name, status: 'created', geofence, geofenceId: created.id });
+        } catch (error) {
+          results.push({
+            index, name, status: 'failed', geofence,
+            errors: [error instanceof Error ? error.message : 'Failed to create geofence'],
+          });
+        }
+      }
+
+      const count = (status: GeofenceImportFeature['status']) => results.filter(r => r.status === status).length;
+      return {
+        dryRun: options.dryRun,
+        total: results.length,
+        valid: count('valid') + count('created'),
+        created: count('created'),
+        failed: count('failed'),
+        features: results,
+      };
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      console.error('Error importing geofences:', error);
+      throw new ServiceError('Failed to import geofences');
+    }
+  }
+
+  /**
+   * Geofence geometry in GeoJSON terms; circles are points carrying a radius property
+   */
+  private static toGeometry(geofence: GeofenceWithEvents): GeoGeometry {
+    const coordinates = geofence.coordinates as GeofenceCoordinates;
+    switch (geofence.shape) {
+      case 'polygon':
+        return { type: 'Polygon', coordinates: [swap(coordinates)] };
+      case 'multipolygon':
+        return { type: 'MultiPolygon', coordinates: (coordinates as Ring[]).map(ring => [swap(ring)]) };
+      default:
+        return { type: 'Point', coordinates: [geofence.center_longitude, geofence.center_latitude] };
+    }
+  }
+
+  private static toProperties(geofence: GeofenceWithEvents) {
+    return {
+      name: geofence.name,
+      type: geofence.type,
+      radius: geofence.shape === 'circle' ? geofence.radius : null,
+      dwellTime: geofence.dwell_time,
+      isActive: geofence.is_active,
+    };
+  }
+
+  private static toKmlPlacemark(geofence: GeofenceWithEvents): string {
+    const { name, ...data } = this.toProperties(geofence);
+    const polygon = (ring: Ring) =>
+      `<Polygon><outerBoundaryIs><LinearRing>${toKmlCoordinates(ring)}</LinearRing></outerBoundaryIs></Polygon>`;
+
+    let geometry: string;
+    if (geofence.shape === 'polygon') {
+      geometry = polygon(geofence.coordinates as Ring);
+    } else if (geofence.shape === 'multipolygon') {
+      geometry = `<MultiGeometry>${(geofence.coordinates as Ring[]).map(polygon).join('')}</MultiGeometry>`;
+    } else {
+      geometry = `<Point>${toKmlCoordinates([[geofence.center_latitude, geofence.center_longitude]])}</Point>`;
+    }
+
+    return `  <Placemark id="${escapeXml(geofence.id)}">\n    <name>${escapeXml(name)}</name>\n    ${toKmlExtendedData(data)}\n    ${geometry}\n  </Placemark>\n`;
+  }
+
+  /**
+   * Write a business's geofences as GeoJSON or KML in the shape the importer reads back
+   */
+  static async exportGeofences(
+    businessId: string,
+    format: GeofenceFileFormat,
+    type?: string
+  ): Promise<{ fileName: string; contentType: string; content: string }> {
+    try {
+      const geofences = await GeofenceService.getGeofences(businessId, type);
+      const stamp = new Date().toISOString().slice(0, 10);
+
+      let content: string;
+      if (format === 'kml') {
+        content = '<?xml version="1.0" encoding="UTF-8"?>\n<kml xmlns="http://www.opengis.net/kml/2.2">\n<Document>\n  <name>Geofences</name>\n'
+          + geofences.map(geofence => this.toKmlPlacemark(geofence)).join('')
+          + '</Document>\n</kml>\n';
+      } else {
+        content = JSON.stringify({
+          type: 'FeatureCollection',
+          features: geofences.map(geofence => ({
+            type: 'Feature',
+            id: geofence.id,
+            geometry: this.toGeometry(geofence),
+            properties: this.toProperties(geofence),
+          })),
+        }, null, 2);
+      }
+
+      return { fileName: `geofences-${stamp}.${format}`, contentType: CONTENT_TYPES[format], content };
+    } catch (error) {
+      console.error('Error exporting geofences:', error);
+      throw new ServiceError('Failed to export geofences');
+    }
+  }
+}
@@ -0,0 +1,265 @@
+import { generateId } from '@zoneflow/shared';
+import db from '../database/connection.js';
+import {
+  CreateGeofenceTriggerData,
+  UpdateGeofenceTriggerData,
+  GeofenceTriggerRecord,
+  GeofenceWithEvents,
+  GeofenceEventType,
+  OrderWithDriver,
+  NotFoundError,
+  ValidationError,
+  ServiceError
+} from '../types/services.js';
+import { GeofenceService } from './geofence.service.js';
+import { OrderService } from './order.service.js';
+import { WebhookService } from './webhook.service.js';
+
+export class GeofenceTriggerService {
+  /**
+   * Normalize a trigger row: parse the action config and coerce booleans
+   */
+  private static toTrigger(row: any): GeofenceTriggerRecord {
+    return {
+      ...row,
+      action_config: JSON.parse(row.action_config || '{}'),
+      is_active: Boolean(row.is_active),
+    };
+  }
+
+  /**
+   * Ensure a geofence exists and belongs to the business
+   */
+  private static assertGeofence(geofenceId: string, businessId: string): void {
+    const geofence = db.prepare('SELECT id FROM geofences WHERE id = ? AND business_id = ?')
+      .get(geofenceId, businessId);
+
+    if (!geofence) {
+      throw new NotFoundError('Geofence');
+    }
+  }
+
+  /**
+   * Get all triggers configured on a geofence
+   */
+  static async getTriggers(geofenceId: string, businessId: string): Promise<GeofenceTriggerRecord[]> {
+    try {
+      this.assertGeofence(geofenceId, businessId);
+
+      const triggers = db.prepare('SELECT * FROM geofence_triggers WHERE geofence_id = ? ORDER BY created_at ASC')
+        .all(geofenceId);
+
+      return triggers.map(t => this.toTrigger(t));
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error fetching geofence triggers:', error);
+      throw new ServiceError('Failed to fetch geofence triggers');
+    }
+  }
+
+  /**
+   * Create a trigger on a geofence
+   */
+  static async createTrigger(
+    geofenceId: string,
+    triggerData: CreateGeofenceTriggerData,
+    businessId: string
+  ): Promise<GeofenceTriggerRecord> {
+    try {
+      this.assertGeofence(geofenceId, businessId);
+
+      const triggerId = generateId();
+      db.prepare(`
+        INSERT INTO geofence_triggers (id, geofence_id, event_type, action_type, action_config, is_active)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(
+        triggerId, geofenceId, triggerData.eventType, triggerData.actionType,
+        JSON.stringify(triggerData.actionConfig || {}),
+        triggerData.isActive !== false ? 1 : 0
+      );
+
+      const trigger = db.prepare('SELECT * FROM geofence_triggers WHERE id = ?').get(triggerId);
+
+      return this.toTrigger(trigger);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error creating geofence trigger:', error);
+      throw new ServiceError('Failed to create geofence trigger');
+    }
+  }
+
+  /**
+   * Update a trigger on a geofence
+   */
+  static async updateTrigger(
+    geofenceId: string,
+    triggerId: string,
+    updateData: UpdateGeofenceTriggerData,
+    businessId: string
+  ): Promise<GeofenceTriggerRecord> {
+    try {
+      this.assertGeofence(geofenceId, businessId);
+
+      const existingTrigger = db.prepare('SELECT id FROM geofence_triggers WHERE id = ? AND geofence_id = ?')
+        .get(triggerId, geofenceId);
+
+      if (!existingTrigger) {
+        throw new NotFoundError('Geofence trigger');
+      }
+
+      const updateFields: string[] = [];
+      const updateValues: any[] = [];
+
+      if (updateData.eventType !== undefined) {
+        updateFields.push('event_type = ?');
+        updateValues.push(updateData.eventType);
+      }
+
+      if (updateData.actionType !== undefined) {
+        updateFields.push('action_type = ?');
+        updateValues.push(updateData.actionType);
+      }
+
+      if (updateData.actionConfig !== undefined) {
+        updateFields.push('action_config = ?');
+        updateValues.push(JSON.stringify(updateData.actionConfig));
+      }
+
+      if (updateData.isActive !== undefined) {
+        updateFields.push('is_active = ?');
+        updateValues.push(updateData.isActive ? 1 : 0);
+      }
+
+      if (updateFields.length === 0) {
+        throw new ValidationError('No valid fields to update');
+      }
+
+      updateFields.push('updated_at = CURRENT_TIMESTAMP');
+      updateValues.push(triggerId);
+
+      db.prepare(`UPDATE geofence_triggers SET ${updateFields.join(', ')} WHERE id = ?`).run(...updateValues);
+
+      const trigger = db.prepare('SELECT * FROM geofence_triggers WHERE id = ?').get(triggerId);
+
+      return this.toTrigger(trigger);
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
+        throw error;
+      }
+      console.error('Error updating geofence trigger:', error);
+      throw new ServiceError('Failed to update geofence trigger');
+    }
+  }
+
+  /**
+   * Delete a trigger from a geofence
+   */
+  static async deleteTrigger(geofenceId: string, triggerId: string, businessId: string): Promise<void> {
+    try {
+      this.assertGeofence(geofenceId, businessId);
+
+      const result = db.prepare('DELETE FROM geofence_triggers WHERE id = ? AND geofence_id = ?')
+        .run(triggerId, geofenceId);
+
+      if (result.changes === 0) {
+        throw new NotFoundError('Geofence trigger');
+      }
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error deleting geofence trigger:', error);
+      throw new ServiceError('Failed to delete geofence trigger');
+    }
+  }
+
+  /**
+   * Run the active triggers of a geofence for a recorded transition.
+   * Each trigger runs independently so one failing action doesn't block the rest.
+   */
+  static async executeTriggers(
+    geofence: GeofenceWithEvents,
+    eventType: GeofenceEventType,
+    context: { businessId: string; driverId: string; orderId?: string }
+  ): Promise<void> {
+    const triggers = db.prepare(`
+      SELECT * FROM geofence_triggers
+      WHERE geofence_id = ? AND event_type = ? AND is_active = 1
+      ORDER BY created_at ASC
+    `).all(geofence.id, eventType).map(t => this.toTrigger(t));
+
+    for (const trigger of triggers) {
+      try {
+        switch (trigger.action_type) {
+          case 'status_update':
+            await this.applyStatusUpdate(geofence, trigger, context);
+            break;
+          case 'webhook':
+            WebhookService.deliverToWebhook(trigger.action_config.webhookId, {
+              type: `geofence.${eventType}`,
+              businessId: context.businessId,
+              data: {
+                geofence: { id: geofence.id, name: geofence.name, type: geofence.type },
+                triggerId: trigger.id,
+                driverId: context.driverId,
+                orderId: context.orderId || null,
+              },
+              timestamp: new Date().toISOString(),
+            });
+            break;
+          default:
+            console.warn(`Geofence trigger action "${trigger.action_type}" is not supported yet`);
+        }
+      } catch (error) {
+        console.error(`Error executing geofence trigger ${trigger.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Advance the driver's order through the configured statuses.
+   * Statuses the order has already reached are skipped, and the first transition
+   * OrderService rejects stops the sequence.
+   */
+  private static async applyStatusUpdate(
+    geofence: GeofenceWithEvents,
+    trigger: GeofenceTriggerRecord,
+    context: { businessId: string; driverId: string; orderId?: string }
+  ): Promise<void> {
+    if (!context.orderId) return;
+
+    const order = db.prepare('SELECT * FROM orders WHERE id = ? AND business_id = ?')
+      .get(context.orderId, context.businessId) as OrderWithDriver | undefined;
+
+    if (!order || order.driver_id !== context.driverId) return;
+
+    const { statuses, matchOrderLocation } = trigger.action_config as {
+      statuses: Array<'picked_up' | 'in_transit' | 'delivered'>;
+      matchOrderLocation?: 'pickup' | 'delivery';
+    };
+
+    // Only act when this geofence actually covers the order's pickup or drop-off point
+    if (matchOrderLocation) {
+      const [latitude, longitude] = matchOrderLocation === 'pickup'
+        ? [order.pickup_latitude, order.pickup_longitude]
+        : [order.delivery_latitude, order.delivery_longitude];
+      if (!GeofenceService.containsPoint(geofence, latitude, longitude)) return;
+    }
+
+    let currentStatus = order.status;
+    for (const status of statuses) {
+      if (status === currentStatus) continue;
+      try {
+        const updated = await OrderService.updateOrderStatus(order.id, { status }, context.businessId);
+        currentStatus = updated.status;
+      } catch (error) {
+        if (error instanceof ValidationError) return;
+        throw error;
+      }
+    }
+  }
+}
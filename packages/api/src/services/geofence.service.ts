@@ -1,15 +1,171 @@
-import { generateId, calculateDistance } from '@zoneflow/shared';
+import { generateId, calculateDistance, isPointInPolygon, toRadians } from '@zoneflow/shared';
+import type { GeofenceCoordinates } from '@zoneflow/shared';
 import db from '../database/connection.js';
 import {
   CreateGeofenceData,
   UpdateGeofenceData,
   GeofenceWithEvents,
+  GeofenceShape,
+  GeofenceEventType,
+  GeofenceCheckResult,
   NotFoundError,
   ValidationError,
   ServiceError
 } from '../types/services.js';
+import { GeofenceTriggerService } from './geofence-trigger.service.js';
+import { DomainEvents } from '../utils/events.js';
+
+// Distance (meters) a driver must move past a boundary before an exit is recorded
+const EXIT_HYSTERESIS_METERS = parseInt(process.env.GEOFENCE_HYSTERESIS_METERS || '25');
+// Time (seconds) inside a geofence before a dwell event, unless the geofence sets its own
+const DEFAULT_DWELL_SECONDS = parseInt(process.env.GEOFENCE_DWELL_SECONDS || '300');
 
 export class GeofenceService {
+  /**
+   * Normalize a geofence row: parse stored coordinates and coerce booleans
+   */
+  private static toGeofence(row: any): GeofenceWithEvents {
+    return {
+      ...row,
+      shape: row.shape || 'circle',
+      coordinates: row.coordinates ? JSON.parse(row.coordinates) : null,
+      dwell_time: row.dwell_time ?? null,
+      is_active: Boolean(row.is_active),
+    };
+  }
+
+  /**
+   * Get the rings of a polygon or multipolygon as a flat list
+   */
+  private static getRings(shape: GeofenceShape, coordinates: GeofenceCoordinates): Array<Array<[number, number]>> {
+    return shape === 'multipolygon'
+      ? coordinates as Array<Array<[number, number]>>
+      : [coordinates as Array<[number, number]>];
+  }
+
+  /**
+   * Derive the stored center and bounding radius (meters) for a polygon shape
+   */
+  private static getPolygonBounds(shape: GeofenceShape, coordinates: GeofenceCoordinates): {
+    centerLatitude: number;
+    centerLongitude: number;
+    radius: number;
+  } {
+    const vertices = this.getRings(shape, coordinates).flatMap(ring => ring.slice(0, -1));
+    const centerLatitude = vertices.reduce((sum, [lat]) => sum + lat, 0) / vertices.length;
+    const centerLongitude = vertices.reduce((sum, [, lng]) => sum + lng, 0) / vertices.length;
+    const radius = Math.max(
+      ...vertices.map(([lat, lng]) => calculateDistance(centerLatitude, centerLongitude, lat, lng) * 1000)
+    );
+
+    return { centerLatitude, centerLongitude, radius: Math.ceil(radius) };
+  }
+
+  /**
+   * Check whether a point lies inside a geofence of any shape
+   */
+  static containsPoint(geofence: GeofenceWithEvents, latitude: number, longitude: number): boolean {
+    if (geofence.shape !== 'circle' && geofence.coordinates) {
+      return this.getRings(geofence.shape, geofence.coordinates)
+        .some(ring => isPointInPolygon(latitude, longitude, ring));
+    }
+
+    const distance = calculateDistance(latitude, longitude, geofence.center_latitude, geofence.center_longitude) * 1000;
+    return distance <= geofence.radius;
+  }
+
+  /**
+   * Distance in meters from a point to the nearest edge of a polygon ring
+   */
+  private static distanceToRing(latitude: number, longitude: number, ring: Array<[number, number]>): number {
+    // Project onto a local plane centered on the point, so the point sits at the origin
+    const R = 6371000;
+    const project = ([lat, lng]: [number, number]) => [
+      toRadians(lng - longitude) * Math.cos(toRadians(latitude)) * R,
+      toRadians(lat - latitude) * R,
+    ];
+
+    let nearest = Infinity;
+    for (let i = 0; i < ring.length - 1; i++) {
+      const [ax, ay] = project(ring[i]);
+      const [bx, by] = project(ring[i + 1]);
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+      nearest = Math.min(nearest, Math.hypot(ax + t * dx, ay + t * dy));
+    }
+    return nearest;
+  }
+
+  /**
+   * Distance in meters a point lies outside a geofence boundary (0 or less when inside)
+   */
+  private static distanceOutside(geofence: GeofenceWithEvents, latitude: number, longitude: number): number {
+    if (this.containsPoint(geofence, latitude, longitude)) {
+      return 0;
+    }
+
+    if (geofence.shape !== 'circle' && geofence.coordinates) {
+      return Math.min(
+        ...this.getRings(geofence.shape, geofence.coordinates)
+          .map(ring => this.distanceToRing(latitude, longitude, ring))
+      );
+    }
+
+    const distance = calculateDistance(latitude, longitude, geofence.center_latitude, geofence.center_longitude) * 1000;
+    return distance - geofence.radius;
+  }
+
+  /**
+   * Advance a driver's state for one geofence and return the transition it produced, if any.
+   * Exits require moving past the hysteresis buffer so GPS jitter on the boundary doesn't flap.
+   */
+  private static advanceState(
+    geofence: GeofenceWithEvents,
+    driverId: string,
+    latitude: number,
+    longitude: number,
+    timestamp: string
+  ): GeofenceEventType | null {
+    const state = db.prepare('SELECT * FROM geofence_states WHERE driver_id = ? AND geofence_id = ?')
+      .get(driverId, geofence.id) as { is_inside: number; entered_at: string | null; dwell_notified: number } | undefined;
+
+    const saveState = (isInside: boolean, enteredAt: string | null, dwellNotified: boolean) => {
+      db.prepare(`
+        INSERT INTO geofence_states (driver_id, geofence_id, is_inside, entered_at, dwell_notified, updated_at)
+        VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT (driver_id, geofence_id) DO UPDATE SET
+          is_inside = excluded.is_inside,
+          entered_at = excluded.entered_at,
+          dwell_notified = excluded.dwell_notified,
+          updated_at = CURRENT_TIMESTAMP
+      `).run(driverId, geofence.id, isInside ? 1 : 0, enteredAt, dwellNotified ? 1 : 0);
+    };
+
+    if (!state?.is_inside) {
+      if (!this.containsPoint(geofence, latitude, longitude)) {
+        return null;
+      }
+      saveState(true, timestamp, false);
+      return 'enter';
+    }
+
+    if (this.distanceOutside(geofence, latitude, longitude) > EXIT_HYSTERESIS_METERS) {
+      saveState(false, null, false);
+      return 'exit';
+    }
+
+    const dwellSeconds = geofence.dwell_time ?? DEFAULT_DWELL_SECONDS;
+    const insideSeconds = state.entered_at ? (Date.parse(timestamp) - Date.parse(state.entered_at)) / 1000 : 0;
+    if (!state.dwell_notified && insideSeconds >= dwellSeconds) {
+      saveState(true, state.entered_at, true);
+      return 'dwell';
+    }
+
+    return null;
+  }
+
   /**
    * Get all geofences for a business with optional type filtering
    */
@@ -25,12 +181,9 @@ export class GeofenceService {
 
       query += ' ORDER BY created_at DESC';
 
-      const geofences = db.prepare(query).all(...params) as GeofenceWithEvents[];
+      const geofences = db.prepare(query).all(...params);
 
-      return geofences.map(g => ({
-        ...g,
-        is_active: Boolean((g as any).is_active)
-      }));
+      return geofences.map(g => this.toGeofence(g));
     } catch (error) {
       console.error('Error fetching geofences:', error);
       throw new ServiceError('Failed to fetch geofences');
@@ -52,13 +205,15 @@ export class GeofenceService {
     }>;
   }> {
     try {
-      const geofence = db.prepare('SELECT * FROM geofences WHERE id = ? AND business_id = ?')
-        .get(geofenceId, businessId) as GeofenceWithEvents | undefined;
+      const row = db.prepare('SELECT * FROM geofences WHERE id = ? AND business_id = ?')
+        .get(geofenceId, businessId);
 
-      if (!geofence) {
+      if (!row) {
         throw new NotFoundError('Geofence');
       }
 
+      const geofence = this.toGeofence(row);
+
       // Get recent events for this geofence
       const events = db.prepare(`
         SELECT ge.*, d.user_id as driver_user_id, u.name as driver_name, o.tracking_code
@@ -94,20 +249,30 @@ export class GeofenceService {
   static async createGeofence(geofenceData: CreateGeofenceData, businessId: string): Promise<GeofenceWithEvents> {
     try {
       const geofenceId = generateId();
+      const shape = geofenceData.shape || 'circle';
+      const bounds = shape === 'circle'
+        ? {
+            centerLatitude: geofenceData.centerLatitude,
+            centerLongitude: geofenceData.centerLongitude,
+            radius: geofenceData.radius,
+          }
+        : this.getPolygonBounds(shape, geofenceData.coordinates!);
 
       db.prepare(`
         INSERT INTO geofences (
-          id, business_id, name, type, center_latitude, center_longitude, radius, is_active
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          id, business_id, name, type, shape, center_latitude, center_longitude, radius, coordinates, dwell_time, is_active
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
-        geofenceId, businessId, geofenceData.name, geofenceData.type,
-        geofenceData.centerLatitude, geofenceData.centerLongitude, geofenceData.radius,
+        geofenceId, businessId, geofenceData.name, geofenceData.type, shape,
+        bounds.centerLatitude, bounds.centerLongitude, bounds.radius,
+        shape === 'circle' ? null : JSON.stringify(geofenceData.coordinates),
+        geofenceData.dwellTime ?? null,
         geofenceData.isActive !== false ? 1 : 0
       );
 
-      const newGeofence = db.prepare('SELECT * FROM geofences WHERE id = ?').get(geofenceId) as GeofenceWithEvents;
+      const newGeofence = db.prepare('SELECT * FROM geofences WHERE id = ?').get(geofenceId);
 
-      return newGeofence;
+      return this.toGeofence(newGeofence);
     } catch (error) {
       console.error('Error creating geofence:', error);
       throw new ServiceError('Failed to create geofence');
@@ -135,6 +300,22 @@ export class GeofenceService {
       const updateFields: string[] = [];
       const updateValues: any[] = [];
 
+      // Polygon geometry replaces the derived center and radius wholesale
+      if (updateData.shape !== undefined && updateData.shape !== 'circle') {
+        const bounds = this.getPolygonBounds(updateData.shape, updateData.coordinates!);
+        updateFields.push('shape = ?', 'coordinates = ?');
+        updateValues.push(updateData.shape, JSON.stringify(updateData.coordinates));
+        updateData = { ...updateData, ...bounds };
+      } else if (updateData.shape === 'circle') {
+        updateFields.push('shape = ?', 'coordinates = NULL');
+        updateValues.push('circle');
+      } else if (
+        this.toGeofence(existingGeofence).shape !== 'circle' &&
+        (updateData.centerLatitude !== undefined || updateData.centerLongitude !== undefined || updateData.radius !== undefined)
+      ) {
+        throw new ValidationError('Polygon geofences are resized by updating their coordinates');
+      }
+
       if (updateData.name !== undefined) {
         updateFields.push('name = ?');
         updateValues.push(updateData.name);
@@ -160,6 +341,11 @@ export class GeofenceService {
         updateValues.push(updateData.radius);
       }
 
+      if (updateData.dwellTime !== undefined) {
+        updateFields.push('dwell_time = ?');
+        updateValues.push(updateData.dwellTime);
+      }
+
       if (updateData.isActive !== undefined) {
         updateFields.push('is_active = ?');
         updateValues.push(updateData.isActive ? 1 : 0);
@@ -175,9 +361,9 @@ export class GeofenceService {
       const updateQuery = `UPDATE geofences SET ${updateFields.join(', ')} WHERE id = ?`;
       db.prepare(updateQuery).run(...updateValues);
 
-      const updatedGeofence = db.prepare('SELECT * FROM geofences WHERE id = ?').get(geofenceId) as GeofenceWithEvents;
+      const updatedGeofence = db.prepare('SELECT * FROM geofences WHERE id = ?').get(geofenceId);
 
-      return { ...updatedGeofence, is_active: Boolean((updatedGeofence as any).is_active) };
+      return this.toGeofence(updatedGeofence);
     } catch (error) {
       if (error instanceof NotFoundError || error instanceof ValidationError) {
         throw error;
@@ -200,8 +386,13 @@ export class GeofenceService {
         throw new NotFoundError('Geofence');
       }
 
-      // Delete the geofence (events will be cascade deleted if foreign key constraints are set)
-      const result = db.prepare('DELETE FROM geofences WHERE id = ?').run(geofenceId);
+      // Remove dependent rows first; foreign keys are enforced without cascades
+      const result = db.transaction(() => {
+        db.prepare('DELETE FROM geofence_triggers WHERE geofence_id = ?').run(geofenceId);
+        db.prepare('DELETE FROM geofence_states WHERE geofence_id = ?').run(geofenceId);
+        db.prepare('DELETE FROM geofence_events WHERE geofence_id = ?').run(geofenceId);
+        return db.prepare('DELETE FROM geofences WHERE id = ?').run(geofenceId);
+      })();
 
       if (result.changes === 0) {
         throw new ServiceError('Failed to delete geofence');
@@ -233,9 +424,9 @@ export class GeofenceService {
       db.prepare('UPDATE geofences SET is_active = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
         .run(newStatus, geofenceId);
 
-      const updatedGeofence = db.prepare('SELECT * FROM geofences WHERE id = ?').get(geofenceId) as GeofenceWithEvents;
+      const updatedGeofence = db.prepare('SELECT * FROM geofences WHERE id = ?').get(geofenceId);
 
-      return { ...updatedGeofence, is_active: Boolean((updatedGeofence as any).is_active) };
+      return this.toGeofence(updatedGeofence);
     } catch (error) {
       if (error instanceof NotFoundError) {
         throw error;
@@ -246,65 +437,78 @@ export class GeofenceService {
   }
 
   /**
-   * Check if a location is within any active geofences for a business
+   * Check a location against a business's active geofences, recording enter/exit/dwell
+   * transitions for the driver when one is given and running the matching triggers
    */
   static async checkGeofenceEntry(
     businessId: string,
     latitude: number,
     longitude: number,
     driverId?: string,
-    orderId?: string
-  ): Promise<Array<{
-    geofence: GeofenceWithEvents;
-    distance: number;
-    isInside: boolean;
-  }>> {
+    orderId?: string,
+    timestamp: string = new Date().toISOString()
+  ): Promise<GeofenceCheckResult[]> {
     try {
       // Get all active geofences for the business
       const geofences = db.prepare(`
         SELECT * FROM geofences 
         WHERE business_id = ? AND is_active = 1
-      `).all(businessId) as GeofenceWithEvents[];
+      `).all(businessId).map(row => this.toGeofence(row));
+
+      // Transitions are only tracked for drivers belonging to this business
+      const driver = driverId
+        ? db.prepare('SELECT id FROM drivers WHERE id = ? AND business_id = ?').get(driverId, businessId)
+        : undefined;
 
-      const results = [] as Array<{ geofence: GeofenceWithEvents; distance: number; isInside: boolean }>;
+      const results: GeofenceCheckResult[] = [];
 
       for (const geofence of geofences) {
+        // Distance to the geofence center in meters (the centroid for polygon shapes)
         const distance = calculateDistance(
           latitude,
           longitude,
           geofence.center_latitude,
           geofence.center_longitude
-        );
-
-        const isInside = distance <= geofence.radius;
+        ) * 1000;
+
+        const isInside = this.containsPoint(geofence, latitude, longitude);
+
+        const transition = driver
+          ? db.transaction(() => {
+              const eventType = this.advanceState(geofence, driverId!, latitude, longitude, timestamp);
+              if (eventType) {
+                db.prepare(`
+                  INSERT INTO geofence_events (
+                    id, geofence_id, driver_id, order_id, event_type, latitude, longitude, timestamp
+                  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+                `).run(generateId(), geofence.id, driverId, orderId || null, eventType, latitude, longitude, timestamp);
+              }
+              return eventType;
+            })()
+          : null;
+
+        if (transition) {
+          DomainEvents.publish(`geofence.${transition}`, businessId, {
+            geofence: { id: geofence.id, name: geofence.name, type: geofence.type },
+            driverId,
+            orderId: orderId || null,
+            latitude,
+            longitude,
+            timestamp,
+          });
+          await GeofenceTriggerService.executeTriggers(geofence, transition, {
+            businessId,
+            driverId: driverId!,
+            orderId,
+          });
+        }
 
         results.push({
-          geofence: { ...geofence, is_active: Boolean((geofence as any).is_active) },
+          geofence,
           distance,
           isInside,
+          transition,
         });
-
-        // If inside a geofence, log the event
-        if (isInside && driverId) {
-          try {
-            const eventId = generateId();
-            db.prepare(`
-              INSERT INTO geofence_events (
-                id, geofence_id, driver_id, order_id, event_type, timestamp
-              ) VALUES (?, ?, ?, ?, ?, ?)
-            `).run(
-              eventId,
-              geofence.id,
-              driverId,
-              orderId || null,
-              'entry',
-              new Date().toISOString()
-            );
-          } catch (eventError) {
-            console.error('Error logging geofence event:', eventError);
-            // Don't throw here, just log the error
-          }
-        }
       }
 
       return results;
@@ -313,4 +517,4 @@ export class GeofenceService {
       throw new ServiceError('Failed to check geofence entry');
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,114 @@
+import { generateId } from '@zoneflow/shared';
+import db from '../database/connection.js';
+import { IdempotencyClaim, StoredResponse, ConflictError } from '../types/services.js';
+
+const KEY_TTL_HOURS = parseFloat(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24');
+const PURGE_INTERVAL_MINUTES = parseInt(process.env.IDEMPOTENCY_PURGE_INTERVAL_MINUTES || '60');
+// A request that crashed or hung mid-flight holds its key no longer than this
+const PROCESSING_LEASE_SECONDS = parseInt(process.env.IDEMPOTENCY_PROCESSING_LEASE_SECONDS || '60');
+
+export class IdempotencyService {
+  /**
+   * Reserve a key for a request, or find the response an earlier request with the same key got
+   */
+  static claim(userId: string, key: string, fingerprint: string, now: Date = new Date()): IdempotencyClaim {
+    // Expired keys are free to reuse even before the purge job removes them
+    db.prepare(`
+      DELETE FROM idempotency_keys WHERE user_id = ? AND idempotency_key = ? AND expires_at <= ?
+    `).run(userId, key, now.toISOString());
+
+    const existing = db.prepare(`
+      SELECT fingerprint, status, response_status, response_content_type, response_body
+      FROM idempotency_keys
+      WHERE user_id = ? AND idempotency_key = ?
+    `).get(userId, key) as {
+      fingerprint: string;
+      status: 'processing' | 'completed';
+      response_status: number | null;
+      response_content_type: string | null;
+      response_body: string | null;
+    } | undefined;
+
+    const leaseExpiresAt = new Date(now.getTime() + PROCESSING_LEASE_SECONDS * 1000).toISOString();
+
+    if (!existing) {
+      db.prepare(`
+        INSERT INTO idempotency_keys (id, user_id, idempotency_key, fingerprint, lease_expires_at, expires_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(
+        generateId(), userId, key, fingerprint, leaseExpiresAt,
+        new Date(now.getTime() + KEY_TTL_HOURS * 3600000).toISOString()
+      );
+      return { outcome: 'claimed' };
+    }
+
+    if (existing.fingerprint !== fingerprint) {
+      throw new ConflictError('Idempotency-Key has already been used for a different request');
+    }
+    if (existing.status === 'processing') {
+      // A request that never finished gives up the key once its lease runs out, so the retry runs instead
+      const reclaimed = db.prepare(`
+        UPDATE idempotency_keys SET lease_expires_at = ?
+        WHERE user_id = ? AND idempotency_key = ? AND status = 'processing'
+          AND (lease_expires_at IS NULL OR lease_expires_at <= ?)
+      `).run(leaseExpiresAt, userId, key, now.toISOString()).changes > 0;
+
+      if (!reclaimed) {
+        throw new ConflictError('A request with this Idempotency-Key is still being processed');
+      }
+      return { outcome: 'claimed' };
+    }
+
+    return {
+      outcome: 'replay',
+      response: {
+        status: existing.response_status!,
+        contentType: existing.response_content_type,
+        body: existing.response_body ?? '',
+      },
+    };
+  }
+
+  /**
+   * Store the response to a claimed key so retries get it back
+   */
+  static complete(userId: string, key: string, response: StoredResponse): void {
+    db.prepare(`
+      UPDATE idempotency_keys
+      SET status = 'completed', response_status = ?, response_content_type = ?, response_body = ?
+      WHERE user_id = ? AND idempotency_key = ?
+    `).run(response.status, response.contentType, response.body, userId, key);
+  }
+
+  /**
+   * Give a key back after a server error so the client can retry the request for real
+   */
+  static release(userId: string, key: string): void {
+    db.prepare(`
+      DELETE FROM idempotency_keys WHERE user_id = ? AND idempotency_key = ? AND status = 'processing'
+    `).run(userId, key);
+  }
+
+  /**
+   * Delete expired keys; returns how many were removed
+   */
+  static purgeExpired(now: Date = new Date()): number {
+    return db.prepare(`DELETE FROM idempotency_keys WHERE expires_at <= ?`).run(now.toISOString()).changes;
+  }
+
+  /**
+   * Purge expired keys on an interval; returns a function that stops it
+   */
+  static startPurgeJob(): () => void {
+    const timer = setInterval(() => {
+      try {
+        this.purgeExpired();
+      } catch (error) {
+        console.error('Error purging idempotency keys:', error);
+      }
+    }, PURGE_INTERVAL_MINUTES * 60000);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+}
@@ -1,13 +1,101 @@
-import { generateId } from '@zoneflow/shared';
+import { generateId, calculateDistance } from '@zoneflow/shared';
 import db from '../database/connection.js';
 import {
   LocationData,
+  LocationFix,
+  LocationFixRejection,
+  LocationBatchResult,
   LocationHistory,
+  ProcessedTrack,
+  TrackFile,
+  TrackFileFormat,
+  TrackWaypoint,
+  GeofenceEventType,
   NotFoundError,
   ServiceError
 } from '../types/services.js';
+import { GeofenceService } from './geofence.service.js';
+import { EtaService } from './eta.service.js';
+import { DriverWatchdogService } from './driver-watchdog.service.js';
+import { DomainEvents } from '../utils/events.js';
+import { TrackProcessor } from '../utils/track.js';
+import { escapeXml, toKmlCoordinates, toKmlExtendedData } from '../utils/geo-formats.js';
+
+const MAX_SPEED_KMH = parseInt(process.env.LOCATION_MAX_SPEED_KMH || '250');
+const MAX_CLOCK_SKEW_SECONDS = parseInt(process.env.LOCATION_MAX_CLOCK_SKEW_SECONDS || '60');
+const MAX_FIX_AGE_HOURS = parseInt(process.env.LOCATION_MAX_FIX_AGE_HOURS || '24');
+// Upper bound on fixes read when cleaning a whole order track
+const MAX_TRACK_POINTS = parseInt(process.env.TRACK_MAX_POINTS || '10000');
+// Fixes read per page when streaming a route file
+const TRACK_FILE_PAGE_SIZE = parseInt(process.env.EXPORT_PAGE_SIZE || '500');
+
+type GeofenceTransition = { geofenceId: string; name: string; eventType: GeofenceEventType };
+
+const TRACK_CONTENT_TYPES: Record<TrackFileFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+};
+
+// SQLite CURRENT_TIMESTAMP values are UTC without a zone designator
+const isoTime = (timestamp: string): string =>
+  new Date(/[zZ]|[+-]\d{2}:?\d{2}$/.test(timestamp) ? timestamp : `${timestamp.replace(' ', 'T')}Z`).toISOString();
+
+const optionalXml = (tag: string, value: number | null | undefined): string =>
+  value === null || value === undefined ? '' : `<${tag}>${value}</${tag}>`;
 
 export class LocationService {
+  /**
+   * Get the order a driver is currently working on, most recently updated first
+   */
+  private static getActiveOrderId(driverId: string): string | undefined {
+    const order = db.prepare(`
+      SELECT id FROM orders
+      WHERE driver_id = ? AND status IN ('assigned', 'picked_up', 'in_transit')
+      ORDER BY updated_at DESC
+      LIMIT 1
+    `).get(driverId) as { id: string } | undefined;
+
+    return order?.id;
+  }
+
+  /**
+   * Recompute the driver's delivery ETAs from their latest position; a failure never rejects the location update
+   */
+  private static async refreshEtas(driverId: string, businessId: string, latitude: number, longitude: number): Promise<void> {
+    try {
+      await EtaService.refreshDriverEtas(driverId, businessId, latitude, longitude);
+    } catch (error) {
+      console.error('ETA refresh failed:', error);
+    }
+  }
+
+  /**
+   * Evaluate geofences for a fix; a failure here must not lose the location fix
+   */
+  private static async evaluateGeofences(
+    businessId: string,
+    driverId: string,
+    orderId: string | undefined,
+    latitude: number,
+    longitude: number,
+    timestamp: string
+  ): Promise<GeofenceTransition[]> {
+    try {
+      const results = await GeofenceService.checkGeofenceEntry(businessId, latitude, longitude, driverId, orderId, timestamp);
+      return results
+        .filter(result => result.transition)
+        .map(result => ({
+          geofenceId: result.geofence.id,
+          name: result.geofence.name,
+          eventType: result.transition!,
+        }));
+    } catch (geofenceError) {
+      console.error('Error evaluating geofences for location update:', geofenceError);
+      return [];
+    }
+  }
+
   /**
    * Update driver location and record history
    */
@@ -25,6 +113,8 @@ export class LocationService {
       user_id: string;
       business_id: string;
     };
+    orderId: string | null;
+    geofenceEvents: GeofenceTransition[];
   }> {
     try {
       // Get driver info for the current user
@@ -39,6 +129,9 @@ export class LocationService {
         throw new NotFoundError('Driver profile');
       }
 
+      const timestamp = new Date().toISOString();
+      const orderId = locationData.orderId || this.getActiveOrderId(driver.id);
+
       // Update driver's current location
       db.prepare(`
         UPDATE drivers 
@@ -53,23 +146,47 @@ export class LocationService {
           id, driver_id, order_id, latitude, longitude, accuracy, speed, heading, timestamp
         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
-        historyId, driver.id, locationData.orderId || null, 
+        historyId, driver.id, orderId || null, 
         locationData.latitude, locationData.longitude,
         locationData.accuracy || null, locationData.speed || null, 
-        locationData.heading || null, new Date().toISOString()
+        locationData.heading || null, timestamp
+      );
+
+      DomainEvents.publish('driver.location_updated', driver.business_id, {
+        driverId: driver.id,
+        orderId: orderId || null,
+        latitude: locationData.latitude,
+        longitude: locationData.longitude,
+        speed: locationData.speed ?? null,
+        heading: locationData.heading ?? null,
+        timestamp,
+      });
+
+      DriverWatchdogService.markOnline(driver.id);
+      await this.refreshEtas(driver.id, driver.business_id, locationData.latitude, locationData.longitude);
+
+      const geofenceEvents = await this.evaluateGeofences(
+        driver.business_id,
+        driver.id,
+        orderId,
+        locationData.latitude,
+        locationData.longitude,
+        timestamp
       );
 
       return {
         location: {
           latitude: locationData.latitude,
           longitude: locationData.longitude,
-          timestamp: new Date().toISOString(),
+          timestamp,
         },
         driver: {
           id: driver.id,
           user_id: driver.user_id,
           business_id: driver.business_id,
         },
+        orderId: orderId || null,
+        geofenceEvents,
       };
     } catch (error) {
       if (error instanceof NotFoundError) {
@@ -80,6 +197,146 @@ export class LocationService {
     }
   }
 
+  /**
+   * Ingest a batch of device-timestamped fixes, e.g. buffered while the driver was offline
+   */
+  static async ingestLocationBatch(userId: string, fixes: LocationFix[]): Promise<LocationBatchResult> {
+    try {
+      const driver = db.prepare(`
+        SELECT id, business_id, current_latitude, current_longitude,
+          strftime('%Y-%m-%dT%H:%M:%fZ', last_location_update) as last_fix_at
+        FROM drivers
+        WHERE user_id = ?
+      `).get(userId) as {
+        id: string;
+        business_id: string;
+        current_latitude: number | null;
+        current_longitude: number | null;
+        last_fix_at: string | null;
+      } | undefined;
+
+      if (!driver) {
+        throw new NotFoundError('Driver profile');
+      }
+
+      const now = Date.now();
+      const rejected: LocationBatchResult['rejected'] = [];
+      const reject = (index: number, timestamp: string, reason: LocationFixRejection) =>
+        rejected.push({ index, timestamp, reason });
+
+      // Sort by device time, keeping request order for fixes sharing a timestamp
+      const ordered = fixes
+        .map((fix, index) => ({ fix, index, time: Date.parse(fix.timestamp) }))
+        .sort((a, b) => a.time - b.time || a.index - b.index);
+
+      // Anchor plausibility checks on the last fix already stored for this driver
+      let previous = driver.last_fix_at && driver.current_latitude !== null && driver.current_longitude !== null
+        ? { latitude: driver.current_latitude, longitude: driver.current_longitude, time: Date.parse(driver.last_fix_at) }
+        : null;
+      const accepted: Array<LocationFix & { time: number; timestamp: string }> = [];
+
+      for (const { fix, index, time } of ordered) {
+        if (time > now + MAX_CLOCK_SKEW_SECONDS * 1000) {
+          reject(index, fix.timestamp, 'future_timestamp');
+          continue;
+        }
+        if (time < now - MAX_FIX_AGE_HOURS * 3600000) {
+          reject(index, fix.timestamp, 'too_old');
+          continue;
+        }
+        if (previous && time <= previous.time) {
+          reject(index, fix.timestamp, time === previous.time ? 'duplicate' : 'out_of_order');
+          continue;
+        }
+        if (previous) {
+          const distanceKm = calculateDistance(previous.latitude, previous.longitude, fix.latitude, fix.longitude);
+          // Floor the interval at one second so GPS jitter between near-simultaneous fixes is not flagged
+          const hours = Math.max(time - previous.time, 1000) / 3600000;
+          if (distanceKm / hours > MAX_SPEED_KMH) {
+            reject(index, fix.timestamp, 'implausible_speed');
+            continue;
+          }
+        }
+
+        accepted.push({ ...fix, time, timestamp: new Date(time).toISOString() });
+        previous = { latitude: fix.latitude, longitude: fix.longitude, time };
+      }
+
+      rejected.sort((a, b) => a.index - b.index);
+
+      const activeOrderId = this.getActiveOrderId(driver.id);
+      const latest = accepted[accepted.length - 1];
+
+      if (latest) {
+        const insertHistory = db.prepare(`
+          INSERT INTO location_history (
+            id, driver_id, order_id, latitude, longitude, accuracy, speed, heading, timestamp
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+
+        db.transaction(() => {
+          for (const fix of accepted) {
+            insertHistory.run(
+              generateId(), driver.id, fix.orderId || activeOrderId || null,
+              fix.latitude, fix.longitude,
+              fix.accuracy ?? null, fix.speed ?? null, fix.heading ?? null, fix.timestamp
+            );
+          }
+
+          // Only the newest fix describes where the driver is now
+          db.prepare(`
+            UPDATE drivers
+            SET current_latitude = ?, current_longitude = ?, last_location_update = strftime('%Y-%m-%d %H:%M:%f', ?)
+            WHERE id = ?
+          `).run(latest.latitude, latest.longitude, latest.timestamp, driver.id);
+        })();
+
+        DomainEvents.publish('driver.location_updated', driver.business_id, {
+          driverId: driver.id,
+          orderId: latest.orderId || activeOrderId || null,
+          latitude: latest.latitude,
+          longitude: latest.longitude,
+          speed: latest.speed ?? null,
+          heading: latest.heading ?? null,
+          timestamp: latest.timestamp,
+        });
+
+        DriverWatchdogService.markOnline(driver.id);
+        await this.refreshEtas(driver.id, driver.business_id, latest.latitude, latest.longitude);
+      }
+
+      // Replay geofences in device-time order so enter/exit/dwell reflect the actual path
+      const geofenceEvents: LocationBatchResult['geofenceEvents'] = [];
+      for (const fix of accepted) {
+        const transitions = await this.evaluateGeofences(
+          driver.business_id,
+          driver.id,
+          fix.orderId || activeOrderId,
+          fix.latitude,
+          fix.longitude,
+          fix.timestamp
+        );
+        geofenceEvents.push(...transitions.map(transition => ({ ...transition, timestamp: fix.timestamp })));
+      }
+
+      return {
+        accepted: accepted.length,
+        rejected,
+        location: latest
+          ? { latitude: latest.latitude, longitude: latest.longitude, timestamp: latest.timestamp }
+          : null,
+        orderId: latest ? latest.orderId || activeOrderId || null : null,
+        geofenceEvents,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error ingesting location batch:', error);
+      throw new ServiceError('Failed to ingest location batch');
+    }
+  }
+
   /**
    * Get location history for a driver or order
    */
@@ -89,9 +346,11 @@ export class LocationService {
       orderId?: string;
       limit?: number;
       page?: number;
+      processed?: boolean;
     } = {}
   ): Promise<{
     history: LocationHistory[];
+    track?: ProcessedTrack;
     pagination: {
       page: number;
       limit: number;
@@ -100,7 +359,7 @@ export class LocationService {
     };
   }> {
     try {
-      const { orderId, limit = 50, page = 1 } = options;
+      const { orderId, limit = 50, page = 1, processed = false } = options;
       const offset = (page - 1) * limit;
 
       // Get driver info for the current user
@@ -143,6 +402,7 @@ export class LocationService {
 
       return {
         history,
+        ...(processed && { track: TrackProcessor.process(history) }),
         pagination: {
           page,
           limit,
@@ -202,13 +462,36 @@ export class LocationService {
     }
   }
 
+  /**
+   * An order's fixes in time order; trips longer than MAX_TRACK_POINTS are sampled evenly from start to end
+   */
+  private static sampleOrderTrack(orderId: string): { fixes: LocationHistory[]; total: number } {
+    const { total } = db.prepare('SELECT COUNT(*) as total FROM location_history WHERE order_id = ?')
+      .get(orderId) as { total: number };
+    const step = Math.max(1, Math.ceil(total / MAX_TRACK_POINTS));
+
+    const fixes = db.prepare(`
+      SELECT latitude, longitude, timestamp, accuracy, speed, heading
+      FROM (
+        SELECT *, ROW_NUMBER() OVER (ORDER BY timestamp) - 1 AS position
+        FROM location_history
+        WHERE order_id = ?
+      )
+      WHERE position % ? = 0 OR position = ? - 1
+      ORDER BY timestamp
+    `).all(orderId, step, total) as LocationHistory[];
+
+    return { fixes, total };
+  }
+
   /**
    * Get location history for a specific order
    */
   static async getOrderLocationHistory(
     orderId: string,
     businessId: string,
-    limit: number = 50
+    limit: number = 50,
+    processed: boolean = false
   ): Promise<{
     order: {
       id: string;
@@ -217,6 +500,7 @@ export class LocationService {
       driver_name?: string;
     };
     locationHistory: LocationHistory[];
+    track?: ProcessedTrack;
   }> {
     try {
       // Verify order exists and belongs to business
@@ -246,9 +530,20 @@ export class LocationService {
         LIMIT ?
       `).all(orderId, limit) as LocationHistory[];
 
+      if (!processed) {
+        return { order, locationHistory };
+      }
+
+      // The cleaned track covers the whole trip, not just the latest page of fixes
+      const { fixes, total } = this.sampleOrderTrack(orderId);
+      const track = TrackProcessor.process(fixes);
+
       return {
         order,
         locationHistory,
+        track: fixes.length < total
+          ? { ...track, stats: { ...track.stats, rawPoints: total, downsampled: true } }
+          : track,
       };
     } catch (error) {
       if (error instanceof NotFoundError) {
@@ -259,6 +554,200 @@ export class LocationService {
     }
   }
 
+  /**
+   * An order's fixes in time order, a page at a time so long trips never sit in memory at once
+   */
+  private static *orderTrackPages(orderId: string): Generator<LocationHistory[]> {
+    const page = db.prepare(`
+      SELECT latitude, longitude, timestamp, accuracy, speed, heading, rowid AS track_rowid
+      FROM location_history
+      WHERE order_id = ? AND (timestamp, rowid) > (?, ?)
+      ORDER BY timestamp, rowid
+      LIMIT ?
+    `);
+
+    let after: [string, number] = ['', 0];
+    while (true) {
+      const rows = page.all(orderId, ...after, TRACK_FILE_PAGE_SIZE) as Array<LocationHistory & { track_rowid: number }>;
+      if (rows.length === 0) return;
+      yield rows.map(({ track_rowid: _rowid, ...point }) => ({ ...point, timestamp: isoTime(point.timestamp) }));
+      const last = rows[rows.length - 1];
+      after = [last.timestamp, last.track_rowid];
+    }
+  }
+
+  /**
+   * Render every fix of an order, joining the pieces across pages with a separator
+   */
+  private static *eachFix(orderId: string, render: (point: LocationHistory) => string, separator = ''): Generator<string> {
+    let first = true;
+    for (const points of this.orderTrackPages(orderId)) {
+      yield points.map(point => {
+        const piece = (first ? '' : separator) + render(point);
+        first = false;
+        return piece;
+      }).join('');
+    }
+  }
+
+  /**
+   * Write an order's whole recorded route as GPX, KML or GeoJSON, with geofence events as waypoints
+   */
+  static async getOrderTrackFile(
+    orderId: string,
+    businessId: string,
+    format: TrackFileFormat
+  ): Promise<TrackFile> {
+    try {
+      const order = db.prepare(`
+        SELECT o.id, o.tracking_code, o.customer_name, u.name as driver_name
+        FROM orders o
+        LEFT JOIN drivers d ON o.driver_id = d.id
+        LEFT JOIN users u ON d.user_id = u.id
+        WHERE o.id = ? AND o.business_id = ?
+      `).get(orderId, businessId) as {
+        id: string;
+        tracking_code: string;
+        customer_name: string;
+        driver_name: string | null;
+      } | undefined;
+
+      if (!order) {
+        throw new NotFoundError('Order');
+      }
+
+      const summary = db.prepare(`
+        SELECT MIN(timestamp) as startedAt, COUNT(speed) as speeds, COUNT(heading) as headings
+        FROM location_history
+        WHERE order_id = ?
+      `).get(orderId) as { startedAt: string | null; speeds: number; headings: number };
+
+      const waypoints = (db.prepare(`
+        SELECT g.name as geofenceName, ge.event_type as eventType, ge.latitude, ge.longitude, ge.timestamp
+        FROM geofence_events ge
+        JOIN geofences g ON ge.geofence_id = g.id
+        WHERE ge.order_id = ?
+        ORDER BY ge.timestamp
+      `).all(orderId) as TrackWaypoint[])
+        .map(waypoint => ({ ...waypoint, timestamp: isoTime(waypoint.timestamp) }));
+
+      const name = `Order ${order.tracking_code}`;
+      const description = [order.customer_name, order.driver_name && `Driver: ${order.driver_name}`]
+        .filter(Boolean).join(' · ');
+      const waypointName = (waypoint: TrackWaypoint) =>
+        `${waypoint.eventType[0].toUpperCase()}${waypoint.eventType.slice(1)} ${waypoint.geofenceName}`;
+      const eachFix = this.eachFix.bind(this, orderId);
+
+      let body: AsyncGenerator<string>;
+      if (format === 'gpx') {
+        body = (async function* () {
+          yield '<?xml version="1.0" encoding="UTF-8"?>\n'
+            + '<gpx version="1.1" creator="ZoneFlow" xmlns="http://www.topografix.com/GPX/1/1"'
+            + ' xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2">\n'
+            + `  <metadata><name>${escapeXml(name)}</name><desc>${escapeXml(description)}</desc>`
+            + (summary.startedAt ? `<time>${isoTime(summary.startedAt)}</time>` : '') + '</metadata>\n';
+          for (const waypoint of waypoints) {
+            yield `  <wpt lat="${waypoint.latitude}" lon="${waypoint.longitude}"><time>${waypoint.timestamp}</time>`
+              + `<name>${escapeXml(waypointName(waypoint))}</name><type>${waypoint.eventType}</type></wpt>\n`;
+          }
+          yield `  <trk>\n    <name>${escapeXml(name)}</name>\n    <trkseg>\n`;
+          // Speed (m/s) and course (degrees) go in Garmin's track point extension, as GPX 1.1 has no elements for them
+          yield* eachFix(point => {
+            const extension = optionalXml('gpxtpx:speed', point.speed) + optionalXml('gpxtpx:course', point.heading);
+            return `      <trkpt lat="${point.latitude}" lon="${point.longitude}"><time>${point.timestamp}</time>`
+              + (extension ? `<extensions><gpxtpx:TrackPointExtension>${extension}</gpxtpx:TrackPointExtension></extensions>` : '')
+              + '</trkpt>\n';
+          });
+          yield '    </trkseg>\n  </trk>\n</gpx>\n';
+        })();
+      } else if (format === 'kml') {
+        // gx:Track lists every timestamp, then every position, then per-fix speed and heading arrays
+        const fields = [
+          { name: 'speed', displayName: 'Speed (m/s)', present: summary.speeds > 0 },
+          { name: 'heading', displayName: 'Heading', present: summary.headings > 0 },
+        ].filter(field => field.present) as Array<{ name: 'speed' | 'heading'; displayName: string }>;
+
+        body = (async function* () {
+          yield '<?xml version="1.0" encoding="UTF-8"?>\n'
+            + '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">\n<Document>\n'
+            + `  <name>${escapeXml(name)}</name>\n  <description>${escapeXml(description)}</description>\n`;
+          if (fields.length > 0) {
+            yield '  <Schema id="fix" name="fix">\n'
+              + fields.map(field =>
+                `    <gx:SimpleArrayField name="${field.name}" type="float"><displayName>${field.displayName}</displayName></gx:SimpleArrayField>\n`
+              ).join('')
+              + '  </Schema>\n';
+          }
+          yield `  <Placemark>\n    <name>${escapeXml(name)}</name>\n    <gx:Track>\n`;
+          yield* eachFix(point => `      <when>${point.timestamp}</when>\n`);
+          yield* eachFix(point => `      <gx:coord>${point.longitude} ${point.latitude} 0</gx:coord>\n`);
+          if (fields.length > 0) {
+            yield '      <ExtendedData><SchemaData schemaUrl="#fix">\n';
+            for (const field of fields) {
+              yield `        <gx:SimpleArrayData name="${field.name}">`;
+              yield* eachFix(point => `<gx:value>${point[field.name] ?? ''}</gx:value>`);
+              yield '</gx:SimpleArrayData>\n';
+            }
+            yield '      </SchemaData></ExtendedData>\n';
+          }
+          yield '    </gx:Track>\n  </Placemark>\n';
+          for (const waypoint of waypoints) {
+            yield `  <Placemark>\n    <name>${escapeXml(waypointName(waypoint))}</name>\n`
+              + `    <TimeStamp><when>${waypoint.timestamp}</when></TimeStamp>\n`
+              + `    ${toKmlExtendedData({ geofence: waypoint.geofenceName, eventType: waypoint.eventType })}\n`
+              + `    <Point>${toKmlCoordinates([[waypoint.latitude, waypoint.longitude]])}</Point>\n  </Placemark>\n`;
+          }
+          yield '</Document>\n</kml>\n';
+        })();
+      } else {
+        const properties = JSON.stringify({
+          name,
+          orderId: order.id,
+          trackingCode: order.tracking_code,
+          driverName: order.driver_name,
+        });
+
+        body = (async function* () {
+          yield '{"type":"FeatureCollection","features":[\n{"type":"Feature","geometry":{"type":"LineString","coordinates":[';
+          yield* eachFix(point => JSON.stringify([point.longitude, point.latitude]), ',');
+          // Per-position arrays in the togeojson convention
+          yield `]},"properties":${properties.slice(0, -1)},"coordTimes":[`;
+          yield* eachFix(point => JSON.stringify(point.timestamp), ',');
+          yield '],"speeds":[';
+          yield* eachFix(point => JSON.stringify(point.speed ?? null), ',');
+          yield '],"headings":[';
+          yield* eachFix(point => JSON.stringify(point.heading ?? null), ',');
+          yield ']}}';
+          for (const waypoint of waypoints) {
+            yield ',\n' + JSON.stringify({
+              type: 'Feature',
+              geometry: { type: 'Point', coordinates: [waypoint.longitude, waypoint.latitude] },
+              properties: {
+                name: waypointName(waypoint),
+                geofence: waypoint.geofenceName,
+                eventType: waypoint.eventType,
+                time: waypoint.timestamp,
+              },
+            });
+          }
+          yield '\n]}\n';
+        })();
+      }
+
+      return {
+        fileName: `order-${order.tracking_code}-track.${format}`,
+        contentType: TRACK_CONTENT_TYPES[format],
+        body,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error exporting order track:', error);
+      throw new ServiceError('Failed to export order track');
+    }
+  }
+
   /**
    * Update driver availability status
    */
@@ -294,6 +783,11 @@ export class LocationService {
         WHERE user_id = ?
       `).run(isAvailable ? 1 : 0, userId);
 
+      DomainEvents.publish('driver.availability_changed', driver.business_id, {
+        driverId: driver.id,
+        isAvailable,
+      });
+
       return {
         id: driver.id,
         is_available: isAvailable,
@@ -320,9 +814,15 @@ export class LocationService {
       pickup_address: string;
       delivery_address: string;
       estimated_delivery?: string;
+      delivery_window_start?: string;
+      delivery_window_end?: string;
+      predicted_delivery?: string;
+      eta_updated_at?: string;
       actual_pickup?: string;
       actual_delivery?: string;
     };
+    // Kept out of the public order so streams can follow the driver without exposing them
+    driverId: string | null;
     currentLocation?: {
       latitude: number;
       longitude: number;
@@ -335,7 +835,8 @@ export class LocationService {
       const order = db.prepare(`
         SELECT 
           id, tracking_code, status, customer_name, pickup_address, delivery_address,
-          estimated_delivery, actual_pickup, actual_delivery
+          estimated_delivery, delivery_window_start, delivery_window_end,
+          predicted_delivery, eta_updated_at, actual_pickup, actual_delivery, driver_id
         FROM orders 
         WHERE tracking_code = ?
       `).get(trackingCode) as {
@@ -346,13 +847,19 @@ export class LocationService {
         pickup_address: string;
         delivery_address: string;
         estimated_delivery?: string;
+        delivery_window_start?: string;
+        delivery_window_end?: string;
+        predicted_delivery?: string;
+        eta_updated_at?: string;
         actual_pickup?: string;
         actual_delivery?: string;
+        driver_id: string | null;
       } | undefined;
 
       if (!order) {
         throw new NotFoundError('Order');
       }
+      const { driver_id: driverId, ...publicOrder } = order;
 
       // Get recent location updates (last 10)
       const locationHistory = db.prepare(`
@@ -371,7 +878,8 @@ export class LocationService {
       } : undefined;
 
       return {
-        order,
+        order: publicOrder,
+        driverId,
         currentLocation,
         locationHistory,
       };
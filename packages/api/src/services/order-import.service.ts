@@ -0,0 +1,225 @@
+import { generateId } from '@zoneflow/shared';
+import db from '../database/connection.js';
+import {
+  CreateOrderData,
+  OrderImportField,
+  OrderImportOptions,
+  OrderImportRow,
+  OrderImportError,
+  OrderImportResult,
+  NotFoundError,
+  ValidationError,
+  ServiceError
+} from '../types/services.js';
+import { FileImportService } from '../utils/file-import.js';
+import { toCsvRow } from '../utils/csv.js';
+import { createOrderSchema } from '../utils/validation.js';
+import { OrderService } from './order.service.js';
+
+const MAX_IMPORT_ROWS = 5000;
+
+// Column names used when the upload does not supply its own mapping
+const DEFAULT_MAPPING: Record<OrderImportField, string> = {
+  externalRef: 'external_ref',
+  customerName: 'customer_name',
+  customerPhone: 'customer_phone',
+  customerEmail: 'customer_email',
+  pickupAddress: 'pickup_address',
+  pickupLatitude: 'pickup_latitude',
+  pickupLongitude: 'pickup_longitude',
+  deliveryAddress: 'delivery_address',
+  deliveryLatitude: 'delivery_latitude',
+  deliveryLongitude: 'delivery_longitude',
+  priority: 'priority',
+  estimatedDelivery: 'estimated_delivery',
+  pickupReadyAt: 'pickup_ready_at',
+  deliveryWindowStart: 'delivery_window_start',
+  deliveryWindowEnd: 'delivery_window_end',
+  scheduledFor: 'scheduled_for',
+  notes: 'notes',
+};
+
+const REQUIRED_FIELDS: OrderImportField[] = [
+  'customerName', 'pickupAddress', 'pickupLatitude', 'pickupLongitude',
+  'deliveryAddress', 'deliveryLatitude', 'deliveryLongitude',
+];
+
+const NUMBER_FIELDS = new Set<OrderImportField>(['pickupLatitude', 'pickupLongitude', 'deliveryLatitude', 'deliveryLongitude']);
+
+interface OrderImportRecord {
+  id: string;
+  business_id: string;
+  file_name: string;
+  errors: string;
+}
+
+export class OrderImportService {
+  /**
+   * Turn one file row into order input; blank cells are left out so optional fields stay optional
+   */
+  private static toOrderInput(values: Record<string, string>, mapping: Record<OrderImportField, string>): Record<string, unknown> {
+    const input: Record<string, unknown> = {};
+    for (const [field, column] of Object.entries(mapping) as Array<[OrderImportField, string]>) {
+      const value = values[column];
+      if (value === undefined || value === '') continue;
+
+      if (NUMBER_FIELDS.has(field)) {
+        input[field] = Number(value);
+      } else if (field === 'priority') {
+        input[field] = value.toLowerCase();
+      } else {
+        input[field] = value;
+      }
+    }
+    return input;
+  }
+
+  /**
+   * Validate every row of an order file and, unless it is a dry run, create the valid ones.
+   * Rows whose external reference already exists are skipped, so a file can be imported again safely.
+   */
+  static async importOrders(
+    businessId: string,
+    actorUserId: string,
+    file: { name: string; data: Buffer },
+    options: OrderImportOptions
+  ): Promise<OrderImportResult> {
+    try {
+      const rows = await FileImportService.readRows(file.data, file.name);
+      if (rows.length === 0) {
+        throw new ValidationError('No orders found in file');
+      }
+      if (rows.length > MAX_IMPORT_ROWS) {
+        throw new ValidationError(`Files can contain at most ${MAX_IMPORT_ROWS} orders`);
+      }
+
+      const mapping = { ...DEFAULT_MAPPING, ...options.mapping } as Record<OrderImportField, string>;
+      const columns = new Set(Object.keys(rows[0]));
+      const missing = REQUIRED_FIELDS.filter(field => !columns.has(mapping[field])).map(field => mapping[field]);
+      if (missing.length > 0) {
+        throw new ValidationError(`Missing required columns: ${missing.join(', ')}`);
+      }
+
+      const existing = db.prepare('SELECT id FROM orders WHERE business_id = ? AND external_ref = ?');
+      const seenRefs = new Map<string, number>();
+      const results: OrderImportRow[] = [];
+      const errors: OrderImportError[] = [];
+
+      for (let index = 0; index < rows.length; index++) {
+        const values = rows[index];
+        const row = index + 2;
+        const externalRef = values[mapping.externalRef] || null;
+        const fail = (messages: string[]) => {
+          results.push({ row, externalRef, status: 'failed', errors: messages });
+          errors.push({ row, errors: messages, values });
+        };
+
+        // Spreadsheets often carry trailing blank lines
+        if (Object.values(values).every(value => value === '')) continue;
+
+        const parsed = createOrderSchema.safeParse(this.toOrderInput(values, mapping));
+        if (!parsed.success) {
+          fail(parsed.error.errors.map(issue => {
+            const field = issue.path[0] as OrderImportField | undefined;
+            return field ? `${mapping[field] ?? field}: ${issue.message}` : issue.message;
+          }));
+          continue;
+        }
+
+        if (externalRef) {
+          const firstRow = seenRefs.get(externalRef);
+          if (firstRow !== undefined) {
+            fail([`${mapping.externalRef}: Duplicate of row ${firstRow}`]);
+            continue;
+          }
+          seenRefs.set(externalRef, row);
+
+          const order = existing.get(businessId, externalRef) as { id: string } | undefined;
+          if (order) {
+            results.push({ row, externalRef, status: 'skipped', orderId: order.id });
+            continue;
+          }
+        }
+
+        if (options.dryRun) {
+          results.push({ row, externalRef, status: 'valid' });
+          continue;
+        }
+
+        try {
+          const order = await OrderService.createOrder(parsed.data as CreateOrderData, businessId, actorUserId);
+          results.push({ row, externalRef, status: 'created', orderId: order.id });
+        } catch (error) {
+          fail([error instanceof ValidationError ? error.message : 'Failed to create order']);
+        }
+      }
+
+      const count = (status: OrderImportRow['status']) => results.filter(r => r.status === status).length;
+      const importId = generateId();
+      const result: OrderImportResult = {
+        importId,
+        dryRun: options.dryRun,
+        totalRows: results.length,
+        valid: count('valid') + count('created'),
+        created: count('created'),
+        skipped: count('skipped'),
+        failed: count('failed'),
+        rows: results,
+        errorReportUrl: errors.length > 0 ? `/api/orders/imports/${importId}/errors` : null,
+      };
+
+      db.prepare(`
+        INSERT INTO order_imports (
+          id, business_id, file_name, dry_run, total_rows, created_count, skipped_count, failed_count, errors, created_by
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        importId, businessId, file.name, options.dryRun ? 1 : 0, result.totalRows,
+        result.created, result.skipped, result.failed, JSON.stringify(errors), actorUserId
+      );
+
+      return result;
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      console.error('Error importing orders:', error);
+      throw new ServiceError('Failed to import orders');
+    }
+  }
+
+  /**
+   * Build a CSV of an import's failed rows: the row number, what was wrong and the values as uploaded
+   */
+  static async getErrorReport(importId: string, businessId: string): Promise<{ fileName: string; csv: string }> {
+    try {
+      const record = db.prepare('SELECT id, business_id, file_name, errors FROM order_imports WHERE id = ? AND business_id = ?')
+        .get(importId, businessId) as OrderImportRecord | undefined;
+
+      if (!record) {
+        throw new NotFoundError('Order import');
+      }
+
+      const errors = JSON.parse(record.errors) as OrderImportError[];
+      const columns: string[] = [];
+      for (const error of errors) {
+        for (const column of Object.keys(error.values)) {
+          if (!columns.includes(column)) columns.push(column);
+        }
+      }
+
+      const csv = [
+        ['row', 'errors', ...columns],
+        ...errors.map(error => [error.row, error.errors.join('; '), ...columns.map(column => error.values[column])]),
+      ].map(toCsvRow).join('');
+
+      const baseName = record.file_name.replace(/\.[^.]+$/, '');
+      return { fileName: `${baseName}-errors.csv`, csv };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error building order import report:', error);
+      throw new ServiceError('Failed to build order import error report');
+    }
+  }
+}
@@ -7,24 +7,114 @@ import {
   CreateOrderData,
   UpdateOrderStatusData,
   OrderWithDriver,
+  OrderEvent,
+  OrderEventType,
+  OrderTrip,
+  DeliveryAttempt,
   LocationHistory,
   NotFoundError,
   ValidationError,
   ServiceError
 } from '../types/services.js';
+import { DomainEvents } from '../utils/events.js';
+import { TripService } from './trip.service.js';
+import { ProofService } from './proof.service.js';
+import { DeliveryAttemptService } from './delivery-attempt.service.js';
 
 export class OrderService {
   private static canTransition(from: string, to: string): boolean {
     const allowed: Record<string, string[]> = {
       pending: ['assigned', 'cancelled'],
       assigned: ['picked_up', 'cancelled'],
-      picked_up: ['in_transit', 'cancelled'],
-      in_transit: ['delivered', 'cancelled'],
+      picked_up: ['in_transit', 'failed_attempt', 'cancelled'],
+      in_transit: ['delivered', 'failed_attempt', 'cancelled'],
+      // After a failure the order is re-queued, held for a later attempt or sent back
+      failed_attempt: ['pending', 'rescheduled', 'returned', 'cancelled'],
+      rescheduled: ['pending', 'cancelled'],
       delivered: [],
-      cancelled: []
+      cancelled: [],
+      returned: []
     };
     return (allowed[from] || []).includes(to);
   }
+
+  /**
+   * Whether a scheduled order is still hidden from dispatch
+   */
+  static isAwaitingRelease(order: Pick<OrderWithDriver, 'scheduled_for' | 'released_at'>): boolean {
+    return Boolean(order.scheduled_for) && !order.released_at;
+  }
+
+  /**
+   * Append an entry to the order's audit trail; a missing actor means the system acted
+   */
+  private static recordEvent(
+    orderId: string,
+    eventType: OrderEventType,
+    details: {
+      fromStatus?: string;
+      toStatus?: string;
+      driverId?: string | null;
+      previousDriverId?: string | null;
+      note?: string | null;
+      reason?: string | null;
+      actorUserId?: string | null;
+      createdAt?: string;
+    } = {}
+  ): void {
+    db.prepare(`
+      INSERT INTO order_events (
+        id, order_id, event_type, from_status, to_status,
+        driver_id, previous_driver_id, note, reason, actor_user_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      generateId(), orderId, eventType, details.fromStatus || null, details.toStatus || null,
+      details.driverId || null, details.previousDriverId || null, details.note || null,
+      details.reason || null, details.actorUserId || null, details.createdAt || new Date().toISOString()
+    );
+  }
+  /**
+   * WHERE clause over orders aliased as `o` for a business and list filters; shared with exports
+   */
+  static orderFilterClause(businessId: string, filters: OrderFilters = {}): { where: string; params: any[] } {
+    let where = 'o.business_id = ?';
+    const params: any[] = [businessId];
+
+    if (filters.status) {
+      where += ' AND o.status = ?';
+      params.push(filters.status);
+    }
+
+    if (filters.priority) {
+      where += ' AND o.priority = ?';
+      params.push(filters.priority);
+    }
+
+    if (filters.driverId) {
+      where += ' AND o.driver_id = ?';
+      params.push(filters.driverId);
+    }
+
+    if (filters.scheduled) {
+      where += filters.scheduled === 'true'
+        ? ' AND o.scheduled_for IS NOT NULL AND o.released_at IS NULL'
+        : ' AND (o.scheduled_for IS NULL OR o.released_at IS NOT NULL)';
+    }
+
+    // A window open at one end is matched on the end it has
+    if (filters.windowFrom) {
+      where += ' AND COALESCE(o.delivery_window_end, o.delivery_window_start) >= ?';
+      params.push(new Date(filters.windowFrom).toISOString());
+    }
+
+    if (filters.windowTo) {
+      where += ' AND COALESCE(o.delivery_window_start, o.delivery_window_end) <= ?';
+      params.push(new Date(filters.windowTo).toISOString());
+    }
+
+    return { where, params };
+  }
+
   /**
    * Get orders for a business with filtering and pagination
    */
@@ -34,56 +124,21 @@ export class OrderService {
     pagination: Pagination
   ): Promise<PaginationResult<OrderWithDriver>> {
     try {
-      let query = `
+      // The same clause drives the page and the total count
+      const { where, params } = this.orderFilterClause(businessId, filters);
+
+      const orders = db.prepare(`
         SELECT o.*, d.user_id as driver_user_id, u.name as driver_name
         FROM orders o
         LEFT JOIN drivers d ON o.driver_id = d.id
         LEFT JOIN users u ON d.user_id = u.id
-        WHERE o.business_id = ?
-      `;
-      const params: any[] = [businessId];
-
-      // Apply filters
-      if (filters.status) {
-        query += ' AND o.status = ?';
-        params.push(filters.status);
-      }
-
-      if (filters.priority) {
-        query += ' AND o.priority = ?';
-        params.push(filters.priority);
-      }
-
-      if (filters.driverId) {
-        query += ' AND o.driver_id = ?';
-        params.push(filters.driverId);
-      }
-
-      query += ' ORDER BY o.created_at DESC LIMIT ? OFFSET ?';
-      params.push(pagination.limit, pagination.offset);
-
-      const orders = db.prepare(query).all(...params) as OrderWithDriver[];
+        WHERE ${where}
+        ORDER BY o.created_at DESC LIMIT ? OFFSET ?
+      `).all(...params, pagination.limit, pagination.offset) as OrderWithDriver[];
 
       // Get total count for pagination
-      let countQuery = 'SELECT COUNT(*) as total FROM orders WHERE business_id = ?';
-      const countParams: any[] = [businessId];
-
-      if (filters.status) {
-        countQuery += ' AND status = ?';
-        countParams.push(filters.status);
-      }
-
-      if (filters.priority) {
-        countQuery += ' AND priority = ?';
-        countParams.push(filters.priority);
-      }
-
-      if (filters.driverId) {
-        countQuery += ' AND driver_id = ?';
-        countParams.push(filters.driverId);
-      }
-
-      const { total } = db.prepare(countQuery).get(...countParams) as { total: number };
+      const { total } = db.prepare(`SELECT COUNT(*) as total FROM orders o WHERE ${where}`)
+        .get(...params) as { total: number };
 
       return {
         data: orders,
@@ -106,6 +161,8 @@ export class OrderService {
   static async getOrderById(orderId: string, businessId: string): Promise<{
     order: OrderWithDriver;
     locationHistory: LocationHistory[];
+    trip: OrderTrip | null;
+    attempts: DeliveryAttempt[];
   }> {
     try {
       const order = db.prepare(`
@@ -132,6 +189,8 @@ export class OrderService {
       return {
         order,
         locationHistory,
+        trip: TripService.getOrderTrip(orderId),
+        attempts: DeliveryAttemptService.getOrderAttempts(orderId),
       };
     } catch (error) {
       if (error instanceof NotFoundError) {
@@ -145,31 +204,46 @@ export class OrderService {
   /**
    * Create a new order
    */
-  static async createOrder(orderData: CreateOrderData, businessId: string): Promise<OrderWithDriver> {
+  static async createOrder(orderData: CreateOrderData, businessId: string, actorUserId?: string): Promise<OrderWithDriver> {
     try {
       const orderId = generateId();
       const trackingCode = generateTrackingCode();
 
-      db.prepare(`
-        INSERT INTO orders (
-          id, tracking_code, business_id, customer_name, customer_phone, customer_email,
-          pickup_address, pickup_latitude, pickup_longitude,
-          delivery_address, delivery_latitude, delivery_longitude,
-          status, priority, estimated_delivery, notes
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `).run(
-        orderId, trackingCode, businessId, orderData.customerName,
-        orderData.customerPhone || null, orderData.customerEmail || null,
-        orderData.pickupAddress, orderData.pickupLatitude, orderData.pickupLongitude,
-        orderData.deliveryAddress, orderData.deliveryLatitude, orderData.deliveryLongitude,
-        'pending', orderData.priority, orderData.estimatedDelivery || null, orderData.notes || null
-      );
+      // Times may arrive with any offset; store them as UTC so they compare as text
+      const toUtc = (value?: string) => value ? new Date(value).toISOString() : null;
+
+      const insertOrder = db.transaction(() => {
+        db.prepare(`
+          INSERT INTO orders (
+            id, tracking_code, business_id, customer_name, customer_phone, customer_email,
+            pickup_address, pickup_latitude, pickup_longitude,
+            delivery_address, delivery_latitude, delivery_longitude,
+            status, priority, estimated_delivery,
+            pickup_ready_at, delivery_window_start, delivery_window_end, scheduled_for, external_ref, notes
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          orderId, trackingCode, businessId, orderData.customerName,
+          orderData.customerPhone || null, orderData.customerEmail || null,
+          orderData.pickupAddress, orderData.pickupLatitude, orderData.pickupLongitude,
+          orderData.deliveryAddress, orderData.deliveryLatitude, orderData.deliveryLongitude,
+          'pending', orderData.priority, orderData.estimatedDelivery || null,
+          toUtc(orderData.pickupReadyAt), toUtc(orderData.deliveryWindowStart), toUtc(orderData.deliveryWindowEnd),
+          toUtc(orderData.scheduledFor), orderData.externalRef || null, orderData.notes || null
+        );
+        this.recordEvent(orderId, 'created', { toStatus: 'pending', note: orderData.notes, actorUserId });
+      });
+      insertOrder();
 
       const newOrder = db.prepare('SELECT * FROM orders WHERE id = ?').get(orderId) as OrderWithDriver;
 
+      DomainEvents.publish('order.created', businessId, { order: newOrder });
+
       return newOrder;
     } catch (error) {
       console.error('Create order error:', error);
+      if (error instanceof Error && error.message.includes('orders.external_ref')) {
+        throw new ValidationError('An order with this external reference already exists');
+      }
       if (error instanceof Error && error.message.includes('UNIQUE constraint')) {
         throw new ValidationError('Order with this tracking code already exists');
       }
@@ -183,7 +257,8 @@ export class OrderService {
   static async updateOrderStatus(
     orderId: string,
     statusData: UpdateOrderStatusData,
-    businessId: string
+    businessId: string,
+    actorUserId?: string
   ): Promise<OrderWithDriver> {
     try {
       // Check if order exists and belongs to user's business
@@ -199,6 +274,28 @@ export class OrderService {
         throw new ValidationError(`Invalid transition from ${order.status} to ${statusData.status}`);
       }
 
+      // Until it is released a scheduled order can only be cancelled
+      if (this.isAwaitingRelease(order) && statusData.status !== 'cancelled') {
+        throw new ValidationError(`Order is scheduled and cannot be ${statusData.status} before ${order.scheduled_for}`);
+      }
+
+      if (statusData.status === 'delivered' && await ProofService.isProofMissing(orderId, businessId)) {
+        throw new ValidationError('Proof of delivery is required before this order can be marked delivered');
+      }
+
+      // Another attempt is only allowed while the business's attempt limit has not been reached
+      if (order.status === 'failed_attempt' && ['pending', 'rescheduled'].includes(statusData.status)) {
+        const { maxAttempts } = await DeliveryAttemptService.getSettings(businessId);
+        if ((order.attempt_count ?? 0) >= maxAttempts) {
+          throw new ValidationError(`All ${maxAttempts} delivery attempts have been used; return the order to the sender`);
+        }
+      }
+
+      if (statusData.status === 'rescheduled' && statusData.rescheduledFor
+        && Date.parse(statusData.rescheduledFor) <= Date.now()) {
+        throw new ValidationError('A rescheduled attempt must be in the future');
+      }
+
       // Prepare update data
       const updateData: any = {
         status: statusData.status,
@@ -214,20 +311,70 @@ export class OrderService {
         updateData.actual_pickup = new Date().toISOString();
       } else if (statusData.status === 'delivered' && !order.actual_delivery) {
         updateData.actual_delivery = new Date().toISOString();
+      } else if (statusData.status === 'failed_attempt') {
+        updateData.attempt_count = (order.attempt_count ?? 0) + 1;
+      }
+
+      // Re-queued and rescheduled orders give up their driver so they can be assigned afresh,
+      // and the next attempt's pickup is stamped anew rather than timed from the failed one
+      if (statusData.status === 'pending' || statusData.status === 'rescheduled') {
+        updateData.driver_id = null;
+        updateData.actual_pickup = null;
+        updateData.rescheduled_for = statusData.status === 'rescheduled'
+          ? new Date(statusData.rescheduledFor as string).toISOString()
+          : null;
       }
 
       // Build dynamic update query
       const updateFields = Object.keys(updateData).map(key => `${key} = ?`).join(', ');
       const updateValues = Object.values(updateData);
 
-      db.prepare(`UPDATE orders SET ${updateFields} WHERE id = ?`)
-        .run(...updateValues, orderId);
+      db.transaction(() => {
+        db.prepare(`UPDATE orders SET ${updateFields} WHERE id = ?`)
+          .run(...updateValues, orderId);
+        this.recordEvent(orderId, 'status_changed', {
+          fromStatus: order.status,
+          toStatus: statusData.status,
+          driverId: order.driver_id,
+          note: statusData.notes,
+          reason: statusData.reason,
+          actorUserId,
+          createdAt: updateData.updated_at,
+        });
+        if (statusData.status === 'failed_attempt') {
+          db.prepare(`
+            INSERT INTO delivery_attempts (id, order_id, driver_id, attempt_number, reason, notes, actor_user_id, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+          `).run(
+            generateId(), orderId, order.driver_id || null, updateData.attempt_count, statusData.reason,
+            statusData.notes || null, actorUserId || null, updateData.updated_at
+          );
+        }
+      })();
 
       const updatedOrder = db.prepare('SELECT * FROM orders WHERE id = ?').get(orderId) as OrderWithDriver;
 
+      // Trip metrics are a summary; failing to compute them must not undo the delivery
+      if (statusData.status === 'delivered') {
+        try {
+          await TripService.recordOrderTrip(orderId);
+        } catch (tripError) {
+          console.error('Failed to record trip metrics:', tripError);
+        }
+      }
+
+      DomainEvents.publish('order.status_changed', businessId, {
+        order: updatedOrder,
+        previousStatus: order.status,
+      });
+
+      if (statusData.status === 'failed_attempt') {
+        return await DeliveryAttemptService.applyPolicy(updatedOrder, businessId);
+      }
+
       return updatedOrder;
     } catch (error) {
-      if (error instanceof NotFoundError) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
         throw error;
       }
       console.error('Update order status error:', error);
@@ -238,7 +385,7 @@ export class OrderService {
   /**
    * Assign a driver to an order
    */
-  static async assignDriver(orderId: string, driverId: string, businessId: string): Promise<OrderWithDriver> {
+  static async assignDriver(orderId: string, driverId: string, businessId: string, actorUserId?: string): Promise<OrderWithDriver> {
     try {
       // Check if order exists and belongs to user's business
       const order = db.prepare('SELECT * FROM orders WHERE id = ? AND business_id = ?')
@@ -256,12 +403,36 @@ export class OrderService {
         throw new NotFoundError('Driver');
       }
 
+      if (order.status === 'failed_attempt' || order.status === 'returned') {
+        throw new ValidationError(`Cannot assign a driver to an order that is ${order.status.replace('_', ' ')}`);
+      }
+
+      // A held attempt goes back to the queue at its rescheduled time, or earlier when set to pending by hand
+      if (order.status === 'rescheduled') {
+        throw new ValidationError(`Order is rescheduled and cannot be assigned before ${order.rescheduled_for}`);
+      }
+
+      if (this.isAwaitingRelease(order)) {
+        throw new ValidationError(`Order is scheduled and cannot be assigned before ${order.scheduled_for}`);
+      }
+
       // Update order with driver assignment
-      db.prepare(`
-        UPDATE orders 
-        SET driver_id = ?, status = 'assigned', updated_at = ?
-        WHERE id = ?
-      `).run(driverId, new Date().toISOString(), orderId);
+      const assignedAt = new Date().toISOString();
+      db.transaction(() => {
+        db.prepare(`
+          UPDATE orders 
+          SET driver_id = ?, status = 'assigned', updated_at = ?
+          WHERE id = ?
+        `).run(driverId, assignedAt, orderId);
+        this.recordEvent(orderId, order.driver_id ? 'reassigned' : 'assigned', {
+          fromStatus: order.status,
+          toStatus: 'assigned',
+          driverId,
+          previousDriverId: order.driver_id,
+          actorUserId,
+          createdAt: assignedAt,
+        });
+      })();
 
       const updatedOrder = db.prepare(`
         SELECT o.*, d.user_id as driver_user_id, u.name as driver_name, u.phone as driver_phone
@@ -271,9 +442,14 @@ export class OrderService {
         WHERE o.id = ?
       `).get(orderId) as OrderWithDriver;
 
+      DomainEvents.publish('order.assigned', businessId, {
+        order: updatedOrder,
+        previousDriverId: order.driver_id || null,
+      });
+
       return updatedOrder;
     } catch (error) {
-      if (error instanceof NotFoundError) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
         throw error;
       }
       console.error('Assign driver error:', error);
@@ -311,7 +487,7 @@ export class OrderService {
   /**
    * Cancel an order
    */
-  static async cancelOrder(orderId: string, businessId: string, reason?: string): Promise<OrderWithDriver> {
+  static async cancelOrder(orderId: string, businessId: string, reason?: string, actorUserId?: string): Promise<OrderWithDriver> {
     try {
       const order = db.prepare('SELECT * FROM orders WHERE id = ? AND business_id = ?')
         .get(orderId, businessId) as OrderWithDriver | undefined;
@@ -320,8 +496,8 @@ export class OrderService {
         throw new NotFoundError('Order');
       }
 
-      if (order.status === 'delivered') {
-        throw new ValidationError('Cannot cancel a delivered order');
+      if (order.status === 'delivered' || order.status === 'returned') {
+        throw new ValidationError(`Cannot cancel a ${order.status} order`);
       }
 
       const updateData: any = {
@@ -336,11 +512,26 @@ export class OrderService {
       const updateFields = Object.keys(updateData).map(key => `${key} = ?`).join(', ');
       const updateValues = Object.values(updateData);
 
-      db.prepare(`UPDATE orders SET ${updateFields} WHERE id = ?`)
-        .run(...updateValues, orderId);
+      db.transaction(() => {
+        db.prepare(`UPDATE orders SET ${updateFields} WHERE id = ?`)
+          .run(...updateValues, orderId);
+        this.recordEvent(orderId, 'cancelled', {
+          fromStatus: order.status,
+          toStatus: 'cancelled',
+          driverId: order.driver_id,
+          note: reason,
+          actorUserId,
+          createdAt: updateData.updated_at,
+        });
+      })();
 
       const updatedOrder = db.prepare('SELECT * FROM orders WHERE id = ?').get(orderId) as OrderWithDriver;
 
+      DomainEvents.publish('order.status_changed', businessId, {
+        order: updatedOrder,
+        previousStatus: order.status,
+      });
+
       return updatedOrder;
     } catch (error) {
       if (error instanceof NotFoundError || error instanceof ValidationError) {
@@ -350,4 +541,83 @@ export class OrderService {
       throw new ServiceError('Failed to cancel order');
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Release a scheduled order to dispatch, at its scheduled time or early by hand
+   */
+  static async releaseOrder(orderId: string, businessId: string, actorUserId?: string): Promise<OrderWithDriver> {
+    try {
+      const order = db.prepare('SELECT * FROM orders WHERE id = ? AND business_id = ?')
+        .get(orderId, businessId) as OrderWithDriver | undefined;
+
+      if (!order) {
+        throw new NotFoundError('Order');
+      }
+
+      if (!this.isAwaitingRelease(order) || order.status !== 'pending') {
+        throw new ValidationError('Only scheduled orders waiting for release can be released');
+      }
+
+      const releasedAt = new Date().toISOString();
+      db.transaction(() => {
+        db.prepare('UPDATE orders SET released_at = ?, updated_at = ? WHERE id = ?')
+          .run(releasedAt, releasedAt, orderId);
+        this.recordEvent(orderId, 'released', {
+          fromStatus: order.status,
+          toStatus: order.status,
+          note: actorUserId ? null : 'Scheduled release time reached',
+          actorUserId,
+          createdAt: releasedAt,
+        });
+      })();
+
+      const updatedOrder = db.prepare('SELECT * FROM orders WHERE id = ?').get(orderId) as OrderWithDriver;
+
+      DomainEvents.publish('order.released', businessId, { order: updatedOrder });
+
+      return updatedOrder;
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
+        throw error;
+      }
+      console.error('Release order error:', error);
+      throw new ServiceError('Failed to release order');
+    }
+  }
+
+  /**
+   * Get the audit trail for an order, oldest first
+   */
+  static async getOrderTimeline(orderId: string, businessId: string): Promise<OrderEvent[]> {
+    try {
+      const order = db.prepare('SELECT id FROM orders WHERE id = ? AND business_id = ?')
+        .get(orderId, businessId);
+
+      if (!order) {
+        throw new NotFoundError('Order');
+      }
+
+      return db.prepare(`
+        SELECT
+          e.*,
+          actor.name as actor_name,
+          du.name as driver_name,
+          pdu.name as previous_driver_name
+        FROM order_events e
+        LEFT JOIN users actor ON e.actor_user_id = actor.id
+        LEFT JOIN drivers d ON e.driver_id = d.id
+        LEFT JOIN users du ON d.user_id = du.id
+        LEFT JOIN drivers pd ON e.previous_driver_id = pd.id
+        LEFT JOIN users pdu ON pd.user_id = pdu.id
+        WHERE e.order_id = ?
+        ORDER BY e.created_at ASC, e.rowid ASC
+      `).all(orderId) as OrderEvent[];
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Get order timeline error:', error);
+      throw new ServiceError('Failed to fetch order timeline');
+    }
+  }
+}
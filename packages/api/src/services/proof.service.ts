@@ -0,0 +1,368 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { generateId, calculateDistance } from '@zoneflow/shared';
+import db from '../database/connection.js';
+import {
+  ProofSettings,
+  ProofFile,
+  SubmitProofData,
+  DeliveryProof,
+  PublicDeliveryProof,
+  UpdateProofSettingsData,
+  OrderWithDriver,
+  NotFoundError,
+  ValidationError,
+  ForbiddenError,
+  ServiceError
+} from '../types/services.js';
+import { DomainEvents } from '../utils/events.js';
+import { OrderService } from './order.service.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const MAX_FILE_BYTES = parseInt(process.env.POD_MAX_FILE_MB || '5') * 1024 * 1024;
+const MAX_PHOTOS = 5;
+// A full submission: a signature, every photo and room for the form fields
+export const MAX_PROOF_UPLOAD_BYTES = (MAX_PHOTOS + 1) * MAX_FILE_BYTES + 64 * 1024;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+const DEFAULT_SETTINGS: ProofSettings = {
+  required: false,
+  requireSignature: false,
+  requirePhoto: false,
+  maxDistanceMeters: 200,
+  rejectOutOfRange: false,
+};
+
+interface DeliveryProofRow extends Omit<DeliveryProof, 'photo_files' | 'within_range' | 'signature_url' | 'photo_urls'> {
+  photo_files: string;
+  within_range: number | null;
+  tracking_code: string;
+}
+
+export class ProofService {
+  private static readBusinessSettings(businessId: string): Record<string, any> {
+    const business = db.prepare('SELECT settings FROM businesses WHERE id = ?')
+      .get(businessId) as { settings: string | null } | undefined;
+
+    if (!business) {
+      throw new NotFoundError('Business');
+    }
+
+    try {
+      return business.settings ? JSON.parse(business.settings) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private static storageDir(): string {
+    return process.env.POD_STORAGE_DIR || path.join(__dirname, '../../data/proofs');
+  }
+
+  /**
+   * Files are served through the public tracking code so both the dashboard and customers can load them
+   */
+  private static fileUrl(trackingCode: string, fileName: string): string {
+    return `/api/tracking/${encodeURIComponent(trackingCode)}/proof/files/${encodeURIComponent(fileName)}`;
+  }
+
+  private static format(row: DeliveryProofRow): DeliveryProof {
+    const { tracking_code, ...proof } = row;
+    const photoFiles = JSON.parse(row.photo_files) as string[];
+    return {
+      ...proof,
+      photo_files: photoFiles,
+      within_range: row.within_range === null ? null : Boolean(row.within_range),
+      signature_url: row.signature_file ? this.fileUrl(tracking_code, row.signature_file) : null,
+      photo_urls: photoFiles.map(file => this.fileUrl(tracking_code, file)),
+    };
+  }
+
+  private static findProof(where: string, value: string): DeliveryProof | null {
+    const row = db.prepare(`
+      SELECT p.*, o.tracking_code
+      FROM delivery_proofs p
+      JOIN orders o ON p.order_id = o.id
+      WHERE ${where} = ?
+    `).get(value) as DeliveryProofRow | undefined;
+    return row ? this.format(row) : null;
+  }
+
+  /**
+   * Check an upload is an image within the size limit and pick its stored extension
+   */
+  private static imageExtension(file: ProofFile, label: string): string {
+    const extension = IMAGE_EXTENSIONS[file.type];
+    if (!extension) {
+      throw new ValidationError(`${label} must be a PNG, JPEG or WebP image`);
+    }
+    if (file.data.length === 0) {
+      throw new ValidationError(`${label} is empty`);
+    }
+    if (file.data.length > MAX_FILE_BYTES) {
+      throw new ValidationError(`${label} exceeds the ${MAX_FILE_BYTES / 1024 / 1024} MB limit`);
+    }
+    return extension;
+  }
+
+  /**
+   * Get the proof of delivery settings for a business, filled in with defaults
+   */
+  static async getSettings(businessId: string): Promise<ProofSettings> {
+    try {
+      return { ...DEFAULT_SETTINGS, ...this.readBusinessSettings(businessId).proofOfDelivery };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error fetching proof settings:', error);
+      throw new ServiceError('Failed to fetch proof of delivery settings');
+    }
+  }
+
+  /**
+   * Update the proof of delivery settings, keeping other business settings intact
+   */
+  static async updateSettings(businessId: string, data: UpdateProofSettingsData): Promise<ProofSettings> {
+    try {
+      const settings = this.readBusinessSettings(businessId);
+      settings.proofOfDelivery = { ...DEFAULT_SETTINGS, ...settings.proofOfDelivery, ...data };
+      db.prepare('UPDATE businesses SET settings = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+        .run(JSON.stringify(settings), businessId);
+
+      return await this.getSettings(businessId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error updating proof settings:', error);
+      throw new ServiceError('Failed to update proof of delivery settings');
+    }
+  }
+
+  /**
+   * Whether an order may not be marked delivered until proof has been submitted
+   */
+  static async isProofMissing(orderId: string, businessId: string): Promise<boolean> {
+    const settings = await this.getSettings(businessId);
+    if (!settings.required) {
+      return false;
+    }
+    return !db.prepare('SELECT 1 FROM delivery_proofs WHERE order_id = ?').get(orderId);
+  }
+
+  /**
+   * Store proof of delivery for an order and mark it delivered if it is still in transit
+   */
+  static async submitProof(
+    orderId: string,
+    businessId: string,
+    user: { id: string; role: string },
+    data: SubmitProofData
+  ): Promise<{ proof: DeliveryProof; order: OrderWithDriver }> {
+    let directory: string | null = null;
+    let proofId: string | null = null;
+    try {
+      const order = db.prepare('SELECT * FROM orders WHERE id = ? AND business_id = ?')
+        .get(orderId, businessId) as OrderWithDriver | undefined;
+
+      if (!order) {
+        throw new NotFoundError('Order');
+      }
+
+      // Drivers can only prove their own deliveries
+      if (user.role === 'driver') {
+        const driver = db.prepare('SELECT id FROM drivers WHERE user_id = ?').get(user.id) as { id: string } | undefined;
+        if (!driver || driver.id !== order.driver_id) {
+          throw new ForbiddenError('Order is not assigned to you');
+        }
+      }
+
+      if (order.status !== 'in_transit' && order.status !== 'delivered') {
+        throw new ValidationError(`Cannot submit proof for an order that is ${order.status.replace('_', ' ')}`);
+      }
+      if (db.prepare('SELECT 1 FROM delivery_proofs WHERE order_id = ?').get(orderId)) {
+        throw new ValidationError('Proof of delivery has already been submitted');
+      }
+
+      const settings = await this.getSettings(businessId);
+      if (settings.requireSignature && !data.signature) {
+        throw new ValidationError('A signature is required');
+      }
+      if (settings.requirePhoto && data.photos.length === 0) {
+        throw new ValidationError('At least one photo is required');
+      }
+      if (data.photos.length > MAX_PHOTOS) {
+        throw new ValidationError(`At most ${MAX_PHOTOS} photos can be attached`);
+      }
+
+      const distanceMeters = calculateDistance(
+        data.latitude, data.longitude, order.delivery_latitude, order.delivery_longitude
+      ) * 1000;
+      const withinRange = distanceMeters <= settings.maxDistanceMeters;
+      if (!withinRange && settings.rejectOutOfRange) {
+        throw new ValidationError(
+          `Proof was captured ${Math.round(distanceMeters)} m from the delivery address; the limit is ${settings.maxDistanceMeters} m`
+        );
+      }
+
+      // Validate every upload before anything is written
+      const files: Array<{ name: string; data: Buffer }> = [];
+      let signatureFile: string | null = null;
+      if (data.signature) {
+        signatureFile = `signature.${this.imageExtension(data.signature, 'Signature')}`;
+        files.push({ name: signatureFile, data: data.signature.data });
+      }
+      const photoFiles = data.photos.map((photo, index) => {
+        const name = `photo-${index + 1}.${this.imageExtension(photo, `Photo ${index + 1}`)}`;
+        files.push({ name, data: photo.data });
+        return name;
+      });
+
+      directory = path.join(this.storageDir(), businessId, orderId);
+      fs.mkdirSync(directory, { recursive: true });
+      for (const file of files) {
+        fs.writeFileSync(path.join(directory, file.name), file.data);
+      }
+
+      // The proof row goes in first because marking the order delivered checks for it
+      proofId = generateId();
+      db.prepare(`
+        INSERT INTO delivery_proofs (
+          id, order_id, business_id, driver_id, submitted_by, recipient_name, signature_file, photo_files,
+          latitude, longitude, accuracy, distance_meters, within_range, notes
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        proofId,
+        orderId,
+        businessId,
+        order.driver_id || null,
+        user.id,
+        data.recipientName,
+        signatureFile,
+        JSON.stringify(photoFiles),
+        data.latitude,
+        data.longitude,
+        data.accuracy ?? null,
+        Math.round(distanceMeters),
+        withinRange ? 1 : 0,
+        data.notes || null
+      );
+
+      const updatedOrder = order.status === 'in_transit'
+        ? await OrderService.updateOrderStatus(orderId, { status: 'delivered' }, businessId, user.id)
+        : order;
+      proofId = null;
+      directory = null;
+
+      const proof = this.findProof('p.order_id', orderId) as DeliveryProof;
+      DomainEvents.publish('order.proof_submitted', businessId, {
+        orderId,
+        trackingCode: order.tracking_code,
+        recipientName: proof.recipient_name,
+        distanceMeters: proof.distance_meters,
+        withinRange: proof.within_range,
+        photoCount: proof.photo_files.length,
+        hasSignature: proof.signature_file !== null,
+      });
+
+      return { proof, order: updatedOrder };
+    } catch (error) {
+      // A proof whose order could not be marked delivered is undone so the driver can submit again
+      if (proofId) {
+        db.prepare('DELETE FROM delivery_proofs WHERE id = ?').run(proofId);
+      }
+      // Files written for a proof that was never recorded are orphans
+      if (directory) {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+      if (error instanceof NotFoundError || error instanceof ValidationError || error instanceof ForbiddenError) {
+        throw error;
+      }
+      console.error('Error submitting proof of delivery:', error);
+      throw new ServiceError('Failed to submit proof of delivery');
+    }
+  }
+
+  /**
+   * Get the proof of delivery for an order
+   */
+  static async getOrderProof(orderId: string, businessId: string): Promise<DeliveryProof> {
+    try {
+      const proof = this.findProof('p.order_id', orderId);
+      if (!proof || proof.business_id !== businessId) {
+        throw new NotFoundError('Proof of delivery');
+      }
+      return proof;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error fetching proof of delivery:', error);
+      throw new ServiceError('Failed to fetch proof of delivery');
+    }
+  }
+
+  /**
+   * Get the customer-facing part of an order's proof of delivery
+   */
+  static async getPublicProof(trackingCode: string): Promise<PublicDeliveryProof> {
+    try {
+      const proof = this.findProof('o.tracking_code', trackingCode);
+      if (!proof) {
+        throw new NotFoundError('Proof of delivery');
+      }
+      return {
+        recipient_name: proof.recipient_name,
+        within_range: proof.within_range,
+        created_at: proof.created_at,
+        signature_url: proof.signature_url,
+        photo_urls: proof.photo_urls,
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error fetching public proof of delivery:', error);
+      throw new ServiceError('Failed to fetch proof of delivery');
+    }
+  }
+
+  /**
+   * Read a stored proof file; only names recorded on the proof resolve
+   */
+  static async readProofFile(trackingCode: string, fileName: string): Promise<{ data: Buffer; contentType: string }> {
+    try {
+      const proof = this.findProof('o.tracking_code', trackingCode);
+      if (!proof || (fileName !== proof.signature_file && !proof.photo_files.includes(fileName))) {
+        throw new NotFoundError('Proof file');
+      }
+
+      const file = path.join(this.storageDir(), proof.business_id, proof.order_id, fileName);
+      if (!fs.existsSync(file)) {
+        throw new NotFoundError('Proof file');
+      }
+      const extension = fileName.substring(fileName.lastIndexOf('.') + 1);
+      return { data: fs.readFileSync(file), contentType: CONTENT_TYPES[extension] || 'application/octet-stream' };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error reading proof file:', error);
+      throw new ServiceError('Failed to read proof file');
+    }
+  }
+}
@@ -0,0 +1,347 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { fileURLToPath } from 'url';
+import { generateId } from '@zoneflow/shared';
+import db from '../database/connection.js';
+import {
+  RetentionSettings,
+  RetentionReport,
+  UpdateRetentionSettingsData,
+  NotFoundError,
+  ValidationError,
+  ServiceError
+} from '../types/services.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const RUN_INTERVAL_HOURS = parseInt(process.env.LOCATION_RETENTION_INTERVAL_HOURS || '24');
+// VACUUM rewrites the whole database and blocks every other query while it runs, so scheduled runs only do it when asked
+const VACUUM_AFTER_SCHEDULED_RUN = process.env.LOCATION_RETENTION_VACUUM === 'true';
+// Rows read per query while archiving, so a large archive never holds the connection for long
+const ARCHIVE_PAGE_SIZE = 5000;
+
+const DEFAULT_SETTINGS: RetentionSettings = {
+  enabled: false,
+  downsampleAfterDays: 30,
+  downsampleIntervalSeconds: 60,
+  deleteAfterDays: 365,
+  archive: false,
+  archiveFormat: 'ndjson',
+};
+
+interface ArchivedFix {
+  id: string;
+  driver_id: string;
+  order_id: string | null;
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+  speed: number | null;
+  heading: number | null;
+  timestamp: string;
+}
+
+export class RetentionService {
+  private static readBusinessSettings(businessId: string): Record<string, any> {
+    const business = db.prepare('SELECT settings FROM businesses WHERE id = ?')
+      .get(businessId) as { settings: string | null } | undefined;
+
+    if (!business) {
+      throw new NotFoundError('Business');
+    }
+
+    try {
+      return business.settings ? JSON.parse(business.settings) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private static archiveDir(): string {
+    return process.env.LOCATION_ARCHIVE_DIR || path.join(__dirname, '../../data/archive');
+  }
+
+  /**
+   * Get the location retention settings for a business, filled in with defaults
+   */
+  static async getSettings(businessId: string): Promise<RetentionSettings> {
+    try {
+      return { ...DEFAULT_SETTINGS, ...this.readBusinessSettings(businessId).retention };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error fetching retention settings:', error);
+      throw new ServiceError('Failed to fetch retention settings');
+    }
+  }
+
+  /**
+   * Update the retention settings, keeping other business settings intact
+   */
+  static async updateSettings(businessId: string, data: UpdateRetentionSettingsData): Promise<RetentionSettings> {
+    try {
+      const current = await this.getSettings(businessId);
+      const next = { ...current, ...data };
+
+      if (next.deleteAfterDays <= next.downsampleAfterDays) {
+        throw new ValidationError('Fixes must be kept longer than the downsampling age');
+      }
+
+      const settings = this.readBusinessSettings(businessId);
+      settings.retention = next;
+      db.prepare('UPDATE businesses SET settings = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+        .run(JSON.stringify(settings), businessId);
+
+      return await this.getSettings(businessId);
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
+        throw error;
+      }
+      console.error('Error updating retention settings:', error);
+      throw new ServiceError('Failed to update retention settings');
+    }
+  }
+
+  /**
+   * Write the fixes a run is about to remove to a gzipped NDJSON or GPX file, paging by driver and time
+   */
+  private static async writeArchive(
+    businessId: string,
+    settings: RetentionSettings,
+    runId: string
+  ): Promise<string> {
+    const directory = path.join(this.archiveDir(), businessId);
+    fs.mkdirSync(directory, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const file = path.join(directory, `location-history-${stamp}.${settings.archiveFormat}.gz`);
+
+    const page = db.prepare(`
+      SELECT lh.id, lh.driver_id, lh.order_id, lh.latitude, lh.longitude,
+        lh.accuracy, lh.speed, lh.heading, lh.timestamp
+      FROM temp.retention_removals r
+      JOIN location_history lh ON lh.id = r.id
+      WHERE r.run_id = ? AND (lh.driver_id, lh.timestamp, lh.id) > (?, ?, ?)
+      ORDER BY lh.driver_id, lh.timestamp, lh.id
+      LIMIT ?
+    `);
+
+    const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;');
+    const gpx = settings.archiveFormat === 'gpx';
+
+    async function* lines() {
+      let after = ['', '', ''];
+      let track: { driverId: string; orderId: string | null } | null = null;
+
+      if (gpx) {
+        yield '<?xml version="1.0" encoding="UTF-8"?>\n<gpx version="1.1" creator="ZoneFlow" xmlns="http://www.topografix.com/GPX/1/1">\n';
+      }
+
+      while (true) {
+        const rows = page.all(runId, ...after, ARCHIVE_PAGE_SIZE) as ArchivedFix[];
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+          if (!gpx) {
+            yield JSON.stringify({
+              driverId: row.driver_id,
+              orderId: row.order_id,
+              latitude: row.latitude,
+              longitude: row.longitude,
+              accuracy: row.accuracy,
+              speed: row.speed,
+              heading: row.heading,
+              timestamp: row.timestamp,
+            }) + '\n';
+            continue;
+          }
+
+          // One track per driver, with a new segment each time the order changes
+          if (!track || track.driverId !== row.driver_id) {
+            if (track) yield '    </trkseg>\n  </trk>\n';
+            yield `  <trk>\n    <name>${escape(row.driver_id)}</name>\n    <trkseg>\n`;
+          } else if (track.orderId !== row.order_id) {
+            yield '    </trkseg>\n    <trkseg>\n';
+          }
+          track = { driverId: row.driver_id, orderId: row.order_id };
+          yield `      <trkpt lat="${row.latitude}" lon="${row.longitude}"><time>${escape(new Date(row.timestamp).toISOString())}</time></trkpt>\n`;
+        }
+
+        const last = rows[rows.length - 1];
+        after = [last.driver_id, last.timestamp, last.id];
+      }
+
+      if (gpx) {
+        if (track) yield '    </trkseg>\n  </trk>\n';
+        yield '</gpx>\n';
+      }
+    }
+
+    await pipeline(Readable.from(lines()), createGzip(), fs.createWriteStream(file));
+    return file;
+  }
+
+  /**
+   * Downsample, archive and delete old fixes for one business; a dry run only counts
+   */
+  static async runForBusiness(
+    businessId: string,
+    options: { dryRun?: boolean; vacuum?: boolean } = {}
+  ): Promise<RetentionReport> {
+    const { dryRun = false, vacuum = false } = options;
+
+    try {
+      const settings = await this.getSettings(businessId);
+      const now = Date.now();
+      // Fixes are stored as ISO strings, so the horizons compare as plain strings and can use the timestamp index
+      const downsampleCutoff = new Date(now - settings.downsampleAfterDays * 86400000).toISOString();
+      const deleteCutoff = new Date(now - settings.deleteAfterDays * 86400000).toISOString();
+
+      // Rows arriving mid-run (e.g. late batches) are left for the next run
+      const { maxRowId } = db.prepare('SELECT COALESCE(MAX(rowid), 0) as maxRowId FROM location_history')
+        .get() as { maxRowId: number };
+
+      // Keep the first fix per driver, order and interval between the two horizons
+      const thinned = `
+        SELECT id FROM (
+          SELECT lh.id, ROW_NUMBER() OVER (
+            PARTITION BY lh.driver_id, lh.order_id, CAST(strftime('%s', lh.timestamp) / ? AS INTEGER)
+            ORDER BY lh.timestamp, lh.id
+          ) as position
+          FROM location_history lh
+          JOIN drivers d ON d.id = lh.driver_id
+          WHERE d.business_id = ? AND lh.rowid <= ?
+            AND lh.timestamp < ?
+            AND lh.timestamp >= ?
+        )
+        WHERE position > 1
+      `;
+      const thinnedParams = [settings.downsampleIntervalSeconds, businessId, maxRowId, downsampleCutoff, deleteCutoff];
+
+      const expired = `
+        SELECT lh.id FROM location_history lh
+        JOIN drivers d ON d.id = lh.driver_id
+        WHERE d.business_id = ? AND lh.rowid <= ? AND lh.timestamp < ?
+      `;
+      const expiredParams = [businessId, maxRowId, deleteCutoff];
+
+      const count = (query: string, params: unknown[]) =>
+        (db.prepare(`SELECT COUNT(*) as total FROM (${query})`).get(...params) as { total: number }).total;
+
+      const report: RetentionReport = {
+        businessId,
+        dryRun,
+        downsampled: count(thinned, thinnedParams),
+        deleted: count(expired, expiredParams),
+        archived: 0,
+        archiveFile: null,
+        vacuumed: false,
+        ranAt: new Date(now).toISOString(),
+      };
+
+      // Thinned fixes are archived too, so nothing leaves the database without a copy
+      if (settings.archive) {
+        report.archived = report.downsampled + report.deleted;
+      }
+
+      if (dryRun) {
+        return report;
+      }
+
+      // Settle which fixes this run removes once, so the archive and the deletes cover exactly the same rows
+      const runId = generateId();
+      db.exec(`
+        CREATE TEMP TABLE IF NOT EXISTS retention_removals (
+          run_id TEXT NOT NULL,
+          id TEXT NOT NULL,
+          reason TEXT NOT NULL,
+          PRIMARY KEY (run_id, id)
+        )
+      `);
+
+      try {
+        db.transaction(() => {
+          db.prepare(`INSERT INTO temp.retention_removals (run_id, id, reason) SELECT ?, id, 'downsampled' FROM (${thinned})`)
+            .run(runId, ...thinnedParams);
+          db.prepare(`INSERT INTO temp.retention_removals (run_id, id, reason) SELECT ?, id, 'deleted' FROM (${expired})`)
+            .run(runId, ...expiredParams);
+        })();
+
+        if (settings.archive && report.archived > 0) {
+          report.archiveFile = await this.writeArchive(businessId, settings, runId);
+        }
+
+        const remove = db.prepare(`
+          DELETE FROM location_history
+          WHERE id IN (SELECT id FROM temp.retention_removals WHERE run_id = ? AND reason = ?)
+        `);
+        db.transaction(() => {
+          report.downsampled = remove.run(runId, 'downsampled').changes;
+          report.deleted = remove.run(runId, 'deleted').changes;
+        })();
+      } finally {
+        db.prepare('DELETE FROM temp.retention_removals WHERE run_id = ?').run(runId);
+      }
+
+      if (settings.archive) {
+        report.archived = report.downsampled + report.deleted;
+      }
+
+      if (vacuum && report.downsampled + report.deleted > 0) {
+        db.exec('VACUUM');
+        report.vacuumed = true;
+      }
+
+      return report;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error running location retention:', error);
+      throw new ServiceError('Failed to run location retention');
+    }
+  }
+
+  /**
+   * Run retention for every business that enabled it, vacuuming once at the end if configured to
+   */
+  static async runScheduled(): Promise<RetentionReport[]> {
+    const businesses = db.prepare('SELECT id FROM businesses').all() as Array<{ id: string }>;
+    const reports: RetentionReport[] = [];
+
+    for (const business of businesses) {
+      try {
+        const settings = await this.getSettings(business.id);
+        if (settings.enabled) {
+          reports.push(await this.runForBusiness(business.id, { vacuum: false }));
+        }
+      } catch (error) {
+        console.error(`Retention failed for business ${business.id}:`, error);
+      }
+    }
+
+    if (VACUUM_AFTER_SCHEDULED_RUN && reports.some(report => report.downsampled + report.deleted > 0)) {
+      db.exec('VACUUM');
+      reports.forEach(report => { report.vacuumed = true; });
+    }
+
+    return reports;
+  }
+
+  /**
+   * Run scheduled retention on an interval; returns a function that stops it
+   */
+  static startRetentionJob(): () => void {
+    const timer = setInterval(() => {
+      this.runScheduled().catch(error => {
+        console.error('Error running scheduled retention:', error);
+      });
+    }, RUN_INTERVAL_HOURS * 3600000);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+}
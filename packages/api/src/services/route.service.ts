@@ -0,0 +1,263 @@
+import { calculateDistance } from '@zoneflow/shared';
+import db from '../database/connection.js';
+import {
+  DriverRoute,
+  RouteStop,
+  RouteStopType,
+  NotFoundError,
+  ServiceError
+} from '../types/services.js';
+
+const AVERAGE_SPEED_KMH = parseInt(process.env.ROUTE_AVERAGE_SPEED_KMH || '30');
+const STOP_SERVICE_MINUTES = parseInt(process.env.ROUTE_STOP_MINUTES || '5');
+
+// Cost per minute of waiting for a drop-off, by order priority
+const PRIORITY_WEIGHTS: Record<string, number> = { low: 1, medium: 2, high: 4, urgent: 8 };
+// Extra cost per minute a drop-off lands after its deadline
+const LATE_PENALTY_PER_MINUTE = 10;
+// Small per-km cost so equally timed sequences prefer the shorter one
+const DISTANCE_TIEBREAK_PER_KM = 0.001;
+const MAX_IMPROVEMENT_PASSES = 50;
+
+interface Point {
+  latitude: number;
+  longitude: number;
+}
+
+interface PlannedStop extends Point {
+  orderId: string;
+  trackingCode: string;
+  type: RouteStopType;
+  address: string;
+  priority: string;
+  // A stop is not served before this, e.g. goods not ready or the delivery window not open
+  readyAt: number | null;
+  deadline: number | null;
+}
+
+interface Simulation {
+  cost: number;
+  distanceKm: number;
+  endsAt: number;
+  legs: Array<{ distanceKm: number; arrivesAt: number }>;
+}
+
+export class RouteService {
+  /**
+   * Drive a sequence from the start point and score it by weighted drop-off time and lateness
+   */
+  private static simulate(start: Point | null, stops: PlannedStop[], departAt: number): Simulation {
+    let position: Point | null = start;
+    let clock = departAt;
+    let cost = 0;
+    let distanceKm = 0;
+    const legs: Simulation['legs'] = [];
+
+    for (const stop of stops) {
+      const leg = position ? calculateDistance(position.latitude, position.longitude, stop.latitude, stop.longitude) : 0;
+      clock += (leg / AVERAGE_SPEED_KMH) * 3600000;
+      if (stop.readyAt !== null && clock < stop.readyAt) {
+        clock = stop.readyAt;
+      }
+      legs.push({ distanceKm: leg, arrivesAt: clock });
+
+      if (stop.type === 'delivery') {
+        cost += (PRIORITY_WEIGHTS[stop.priority] ?? 1) * ((clock - departAt) / 60000);
+        if (stop.deadline !== null && clock > stop.deadline) {
+          cost += LATE_PENALTY_PER_MINUTE * ((clock - stop.deadline) / 60000);
+        }
+      }
+
+      clock += STOP_SERVICE_MINUTES * 60000;
+      distanceKm += leg;
+      position = stop;
+    }
+
+    return { cost: cost + distanceKm * DISTANCE_TIEBREAK_PER_KM, distanceKm, endsAt: clock, legs };
+  }
+
+  /**
+   * Check every pickup in the sequence comes before its drop-off
+   */
+  private static respectsPrecedence(stops: PlannedStop[]): boolean {
+    const pickedUp = new Set<string>();
+    const pending = new Set(stops.filter(s => s.type === 'pickup').map(s => s.orderId));
+    for (const stop of stops) {
+      if (stop.type === 'pickup') {
+        pickedUp.add(stop.orderId);
+      } else if (pending.has(stop.orderId) && !pickedUp.has(stop.orderId)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Build a nearest-feasible-stop sequence, then relocate single stops while the cost drops
+   */
+  private static optimize(start: Point | null, stops: PlannedStop[], departAt: number): PlannedStop[] {
+    const remaining = [...stops];
+    let route: PlannedStop[] = [];
+    let position = start;
+
+    while (remaining.length > 0) {
+      const feasible = remaining.filter(stop =>
+        stop.type === 'pickup' || !remaining.some(r => r.orderId === stop.orderId && r.type === 'pickup')
+      );
+      const next = position
+        ? feasible.reduce((best, stop) =>
+            calculateDistance(position!.latitude, position!.longitude, stop.latitude, stop.longitude) <
+            calculateDistance(position!.latitude, position!.longitude, best.latitude, best.longitude) ? stop : best)
+        : feasible[0];
+
+      route.push(next);
+      remaining.splice(remaining.indexOf(next), 1);
+      position = next;
+    }
+
+    let bestCost = this.simulate(start, route, departAt).cost;
+    for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+      let improved = false;
+      for (let from = 0; from < route.length; from++) {
+        for (let to = 0; to < route.length; to++) {
+          if (from === to) continue;
+          const candidate = [...route];
+          const [moved] = candidate.splice(from, 1);
+          candidate.splice(to, 0, moved);
+          if (!this.respectsPrecedence(candidate)) continue;
+
+          const cost = this.simulate(start, candidate, departAt).cost;
+          if (cost < bestCost - 1e-9) {
+            route = candidate;
+            bestCost = cost;
+            improved = true;
+          }
+        }
+      }
+      if (!improved) break;
+    }
+
+    return route;
+  }
+
+  /**
+   * Plan the stop sequence for a driver's active orders, with estimated arrival times
+   */
+  static async getDriverRoute(driverId: string, businessId: string, departAt: Date = new Date()): Promise<DriverRoute> {
+    try {
+      const driver = db.prepare(`
+        SELECT id, current_latitude, current_longitude
+        FROM drivers
+        WHERE id = ? AND business_id = ?
+      `).get(driverId, businessId) as {
+        id: string;
+        current_latitude: number | null;
+        current_longitude: number | null;
+      } | undefined;
+
+      if (!driver) {
+        throw new NotFoundError('Driver');
+      }
+
+      const orders = db.prepare(`
+        SELECT
+          id, tracking_code, status, priority, estimated_delivery,
+          pickup_ready_at, delivery_window_start, delivery_window_end,
+          pickup_address, pickup_latitude, pickup_longitude,
+          delivery_address, delivery_latitude, delivery_longitude
+        FROM orders
+        WHERE driver_id = ? AND business_id = ? AND status IN ('assigned', 'picked_up', 'in_transit')
+        ORDER BY created_at
+      `).all(driverId, businessId) as Array<{
+        id: string;
+        tracking_code: string;
+        status: string;
+        priority: string;
+        estimated_delivery?: string;
+        pickup_ready_at: string | null;
+        delivery_window_start: string | null;
+        delivery_window_end: string | null;
+        pickup_address: string;
+        pickup_latitude: number;
+        pickup_longitude: number;
+        delivery_address: string;
+        delivery_latitude: number;
+        delivery_longitude: number;
+      }>;
+
+      const time = (value?: string | null) => {
+        const parsed = value ? Date.parse(value) : NaN;
+        return Number.isFinite(parsed) ? parsed : null;
+      };
+
+      const stops: PlannedStop[] = [];
+      for (const order of orders) {
+        // The customer's window closes the drop-off unless a delivery time was promised
+        const deadline = time(order.estimated_delivery) ?? time(order.delivery_window_end);
+        const base = { orderId: order.id, trackingCode: order.tracking_code, priority: order.priority };
+
+        // Orders already collected only need their drop-off
+        if (order.status === 'assigned') {
+          stops.push({
+            ...base,
+            type: 'pickup',
+            address: order.pickup_address,
+            latitude: order.pickup_latitude,
+            longitude: order.pickup_longitude,
+            readyAt: time(order.pickup_ready_at),
+            deadline: null,
+          });
+        }
+        stops.push({
+          ...base,
+          type: 'delivery',
+          address: order.delivery_address,
+          latitude: order.delivery_latitude,
+          longitude: order.delivery_longitude,
+          readyAt: time(order.delivery_window_start),
+          deadline,
+        });
+      }
+
+      const start = driver.current_latitude !== null && driver.current_longitude !== null
+        ? { latitude: driver.current_latitude, longitude: driver.current_longitude }
+        : null;
+      const departMs = departAt.getTime();
+      const sequence = this.optimize(start, stops, departMs);
+      const simulation = this.simulate(start, sequence, departMs);
+
+      const routeStops: RouteStop[] = sequence.map((stop, index) => {
+        const { distanceKm, arrivesAt } = simulation.legs[index];
+        return {
+          orderId: stop.orderId,
+          trackingCode: stop.trackingCode,
+          type: stop.type,
+          address: stop.address,
+          latitude: stop.latitude,
+          longitude: stop.longitude,
+          priority: stop.priority,
+          legDistanceKm: Math.round(distanceKm * 1000) / 1000,
+          estimatedArrival: new Date(arrivesAt).toISOString(),
+          readyAt: stop.readyAt !== null ? new Date(stop.readyAt).toISOString() : null,
+          deadline: stop.deadline !== null ? new Date(stop.deadline).toISOString() : null,
+          isLate: stop.deadline !== null && arrivesAt > stop.deadline,
+        };
+      });
+
+      return {
+        driverId,
+        start,
+        stops: routeStops,
+        totalDistanceKm: Math.round(simulation.distanceKm * 1000) / 1000,
+        totalDurationMinutes: sequence.length > 0 ? Math.round((simulation.endsAt - departMs) / 60000) : 0,
+        generatedAt: new Date(departMs).toISOString(),
+      };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error planning driver route:', error);
+      throw new ServiceError('Failed to plan driver route');
+    }
+  }
+}
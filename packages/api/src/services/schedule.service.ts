@@ -0,0 +1,42 @@
+import db from '../database/connection.js';
+import { OrderWithDriver } from '../types/services.js';
+import { OrderService } from './order.service.js';
+
+const CHECK_INTERVAL_SECONDS = parseInt(process.env.SCHEDULE_RELEASE_INTERVAL_SECONDS || '60');
+
+export class ScheduleService {
+  /**
+   * Release scheduled orders whose release time has come to dispatch
+   */
+  static async releaseDue(now: Date = new Date()): Promise<OrderWithDriver[]> {
+    const due = db.prepare(`
+      SELECT id, business_id FROM orders
+      WHERE status = 'pending' AND scheduled_for IS NOT NULL AND released_at IS NULL AND scheduled_for <= ?
+      ORDER BY scheduled_for
+    `).all(now.toISOString()) as Array<{ id: string; business_id: string }>;
+
+    const released: OrderWithDriver[] = [];
+    for (const order of due) {
+      try {
+        released.push(await OrderService.releaseOrder(order.id, order.business_id));
+      } catch (error) {
+        console.error(`Failed to release scheduled order ${order.id}:`, error);
+      }
+    }
+    return released;
+  }
+
+  /**
+   * Release due scheduled orders on an interval; returns a function that stops it
+   */
+  static startReleaseMonitor(): () => void {
+    const timer = setInterval(() => {
+      this.releaseDue().catch(error => {
+        console.error('Error running scheduled order release:', error);
+      });
+    }, CHECK_INTERVAL_SECONDS * 1000);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+}
@@ -0,0 +1,292 @@
+import { generateId } from '@zoneflow/shared';
+import db from '../database/connection.js';
+import {
+  SlaSettings,
+  SlaRule,
+  SlaStage,
+  SlaStatus,
+  SlaAlert,
+  SlaEvaluation,
+  SlaPriority,
+  UpdateSlaSettingsData,
+  NotFoundError,
+  ServiceError
+} from '../types/services.js';
+import { DomainEvents } from '../utils/events.js';
+
+const CHECK_INTERVAL_SECONDS = parseInt(process.env.SLA_CHECK_INTERVAL_SECONDS || '60');
+
+const DEFAULT_SETTINGS: SlaSettings = {
+  enabled: false,
+  atRiskMinutes: 10,
+  rules: {
+    urgent: { maxAssignMinutes: 5, maxPickupMinutes: 20, maxDeliveryMinutes: 45 },
+    high: { maxAssignMinutes: 10, maxPickupMinutes: 30, maxDeliveryMinutes: 60 },
+    medium: { maxAssignMinutes: 15, maxPickupMinutes: 45, maxDeliveryMinutes: 90 },
+    low: { maxAssignMinutes: 30, maxPickupMinutes: 90, maxDeliveryMinutes: 180 },
+  },
+};
+
+const PRIORITIES: SlaPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+// Statuses in which each stage is still outstanding
+const STAGE_STATUSES: Record<SlaStage, string[]> = {
+  assign: ['pending'],
+  pickup: ['pending', 'assigned'],
+  delivery: ['pending', 'assigned', 'picked_up', 'in_transit', 'failed_attempt', 'rescheduled'],
+};
+
+const SEVERITY: Record<SlaStatus, number> = { ok: 0, at_risk: 1, breached: 2 };
+
+interface ActiveOrder {
+  id: string;
+  tracking_code: string;
+  status: string;
+  priority: SlaPriority;
+  sla_status: SlaStatus;
+  started_at: string;
+  estimated_delivery: string | null;
+  delivery_window_end: string | null;
+  predicted_delivery: string | null;
+}
+
+export class SlaService {
+  private static readBusinessSettings(businessId: string): Record<string, any> {
+    const business = db.prepare('SELECT settings FROM businesses WHERE id = ?')
+      .get(businessId) as { settings: string | null } | undefined;
+
+    if (!business) {
+      throw new NotFoundError('Business');
+    }
+
+    try {
+      return business.settings ? JSON.parse(business.settings) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Get the SLA settings for a business, filled in with defaults
+   */
+  static async getSettings(businessId: string): Promise<SlaSettings> {
+    try {
+      const stored = this.readBusinessSettings(businessId).sla || {};
+      const rules = {} as Record<SlaPriority, SlaRule>;
+      for (const priority of PRIORITIES) {
+        rules[priority] = { ...DEFAULT_SETTINGS.rules[priority], ...stored.rules?.[priority] };
+      }
+      return { ...DEFAULT_SETTINGS, ...stored, rules };
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error fetching SLA settings:', error);
+      throw new ServiceError('Failed to fetch SLA settings');
+    }
+  }
+
+  /**
+   * Update the SLA settings, merging rules per priority and keeping other business settings intact
+   */
+  static async updateSettings(businessId: string, data: UpdateSlaSettingsData): Promise<SlaSettings> {
+    try {
+      const current = await this.getSettings(businessId);
+      const rules = { ...current.rules };
+      for (const priority of PRIORITIES) {
+        rules[priority] = { ...current.rules[priority], ...data.rules?.[priority] };
+      }
+
+      const settings = this.readBusinessSettings(businessId);
+      settings.sla = { ...current, ...data, rules };
+      db.prepare('UPDATE businesses SET settings = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+        .run(JSON.stringify(settings), businessId);
+
+      return await this.getSettings(businessId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error updating SLA settings:', error);
+      throw new ServiceError('Failed to update SLA settings');
+    }
+  }
+
+  /**
+   * Deadlines for the stages an order has not reached yet
+   */
+  private static deadlines(order: ActiveOrder, rule: SlaRule): Array<{ stage: SlaStage; deadline: number }> {
+    const startedAt = Date.parse(order.started_at);
+    const after = (minutes: number | null) => minutes === null ? null : startedAt + minutes * 60000;
+
+    // A promised delivery time, then the customer's window, wins over the priority default
+    const promised = order.estimated_delivery ?? order.delivery_window_end;
+    const limits: Record<SlaStage, number | null> = {
+      assign: after(rule.maxAssignMinutes),
+      pickup: after(rule.maxPickupMinutes),
+      delivery: promised ? Date.parse(promised) : after(rule.maxDeliveryMinutes),
+    };
+
+    return (Object.keys(limits) as SlaStage[])
+      .filter(stage => STAGE_STATUSES[stage].includes(order.status) && Number.isFinite(limits[stage]))
+      .map(stage => ({ stage, deadline: limits[stage] as number }));
+  }
+
+  /**
+   * Mark a business's active orders as at risk or breached and record new alerts
+   */
+  static async evaluateBusiness(businessId: string, now: Date = new Date()): Promise<SlaEvaluation> {
+    try {
+      const settings = await this.getSettings(businessId);
+
+      // Normalize stored timestamps to ISO so they parse as UTC.
+      // Scheduled orders are measured from their release, and not at all before it.
+      const orders = db.prepare(`
+        SELECT
+          id, tracking_code, status, priority, sla_status,
+          strftime('%Y-%m-%dT%H:%M:%fZ', COALESCE(released_at, created_at)) as started_at,
+          strftime('%Y-%m-%dT%H:%M:%fZ', estimated_delivery) as estimated_delivery,
+          strftime('%Y-%m-%dT%H:%M:%fZ', delivery_window_end) as delivery_window_end,
+          strftime('%Y-%m-%dT%H:%M:%fZ', predicted_delivery) as predicted_delivery
+        FROM orders
+        WHERE business_id = ? AND status IN ('pending', 'assigned', 'picked_up', 'in_transit', 'failed_attempt', 'rescheduled')
+          AND (scheduled_for IS NULL OR released_at IS NOT NULL)
+      `).all(businessId) as ActiveOrder[];
+
+      const insertAlert = db.prepare(`
+        INSERT OR IGNORE INTO sla_alerts (id, order_id, business_id, stage, level, deadline)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `);
+      const updateOrder = db.prepare('UPDATE orders SET sla_status = ? WHERE id = ?');
+      const atRiskMs = settings.atRiskMinutes * 60000;
+      const nowMs = now.getTime();
+
+      const recorded: Array<{ order: ActiveOrder; alertId: string }> = [];
+      const result: SlaEvaluation = {
+        businessId,
+        evaluated: orders.length,
+        atRisk: 0,
+        breached: 0,
+        alerts: [],
+        evaluatedAt: now.toISOString(),
+      };
+
+      db.transaction(() => {
+        for (const order of orders) {
+          const rule = settings.rules[order.priority] ?? settings.rules.medium;
+          // A breach stays on the order's record even after the late stage is completed
+          let status: SlaStatus = order.sla_status === 'breached' ? 'breached' : 'ok';
+
+          for (const { stage, deadline } of this.deadlines(order, rule)) {
+            const predictedLate = stage === 'delivery' && order.predicted_delivery !== null
+              && Date.parse(order.predicted_delivery) > deadline;
+            const level: SlaStatus = nowMs > deadline
+              ? 'breached'
+              : nowMs >= deadline - atRiskMs || predictedLate ? 'at_risk' : 'ok';
+
+            if (level === 'ok') continue;
+            if (SEVERITY[level] > SEVERITY[status]) {
+              status = level;
+            }
+
+            const alertId = generateId();
+            const inserted = insertAlert.run(alertId, order.id, businessId, stage, level, new Date(deadline).toISOString());
+            if (inserted.changes > 0) {
+              recorded.push({ order, alertId });
+            }
+          }
+
+          if (status !== order.sla_status) {
+            updateOrder.run(status, order.id);
+          }
+          if (status === 'at_risk') result.atRisk++;
+          if (status === 'breached') result.breached++;
+        }
+      })();
+
+      const getAlert = db.prepare('SELECT * FROM sla_alerts WHERE id = ?');
+      for (const { order, alertId } of recorded) {
+        const alert = getAlert.get(alertId) as SlaAlert;
+        result.alerts.push(alert);
+        DomainEvents.publish('order.sla_alert', businessId, {
+          orderId: order.id,
+          trackingCode: order.tracking_code,
+          stage: alert.stage,
+          level: alert.level,
+          deadline: alert.deadline,
+        });
+      }
+
+      return result;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error evaluating SLAs:', error);
+      throw new ServiceError('Failed to evaluate SLAs');
+    }
+  }
+
+  /**
+   * Get the most severe alert for each active order that is at risk or breached, worst first
+   */
+  static async getOpenAlerts(businessId: string): Promise<SlaAlert[]> {
+    try {
+      return db.prepare(`
+        SELECT
+          a.*, o.tracking_code, o.customer_name, o.priority, o.status, u.name as driver_name
+        FROM sla_alerts a
+        JOIN orders o ON a.order_id = o.id
+        LEFT JOIN drivers d ON o.driver_id = d.id
+        LEFT JOIN users u ON d.user_id = u.id
+        WHERE a.business_id = ? AND o.sla_status != 'ok'
+          AND o.status IN ('pending', 'assigned', 'picked_up', 'in_transit', 'failed_attempt', 'rescheduled')
+          AND a.id = (
+            SELECT a2.id FROM sla_alerts a2
+            WHERE a2.order_id = a.order_id
+            ORDER BY CASE a2.level WHEN 'breached' THEN 0 ELSE 1 END, a2.created_at DESC
+            LIMIT 1
+          )
+        ORDER BY CASE a.level WHEN 'breached' THEN 0 ELSE 1 END, a.deadline
+      `).all(businessId) as SlaAlert[];
+    } catch (error) {
+      console.error('Error fetching SLA alerts:', error);
+      throw new ServiceError('Failed to fetch SLA alerts');
+    }
+  }
+
+  /**
+   * Evaluate every business that enabled SLA monitoring
+   */
+  static async evaluateAll(now: Date = new Date()): Promise<SlaEvaluation[]> {
+    const businesses = db.prepare('SELECT id FROM businesses').all() as Array<{ id: string }>;
+    const results: SlaEvaluation[] = [];
+
+    for (const business of businesses) {
+      try {
+        const settings = await this.getSettings(business.id);
+        if (settings.enabled) {
+          results.push(await this.evaluateBusiness(business.id, now));
+        }
+      } catch (error) {
+        console.error(`SLA evaluation failed for business ${business.id}:`, error);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Evaluate SLAs on an interval; returns a function that stops it
+   */
+  static startSlaMonitor(): () => void {
+    const timer = setInterval(() => {
+      this.evaluateAll().catch(error => {
+        console.error('Error running SLA monitor:', error);
+      });
+    }, CHECK_INTERVAL_SECONDS * 1000);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+}
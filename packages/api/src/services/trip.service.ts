@@ -0,0 +1,60 @@
+import db from '../database/connection.js';
+import {
+  LocationHistory,
+  OrderTrip,
+  NotFoundError,
+  ServiceError
+} from '../types/services.js';
+import { TrackProcessor } from '../utils/track.js';
+
+export class TripService {
+  /**
+   * Compute and store trip metrics for an order from its location history
+   */
+  static async recordOrderTrip(orderId: string): Promise<OrderTrip> {
+    try {
+      const order = db.prepare('SELECT id, driver_id FROM orders WHERE id = ?')
+        .get(orderId) as { id: string; driver_id?: string } | undefined;
+
+      if (!order) {
+        throw new NotFoundError('Order');
+      }
+
+      const history = db.prepare(`
+        SELECT latitude, longitude, timestamp, accuracy, speed, heading
+        FROM location_history
+        WHERE order_id = ?
+        ORDER BY timestamp
+      `).all(orderId) as LocationHistory[];
+
+      const metrics = TrackProcessor.summarize(history);
+
+      db.prepare(`
+        INSERT OR REPLACE INTO order_trips (
+          order_id, driver_id, distance_km, duration_minutes, moving_minutes, stopped_minutes,
+          max_speed_kmh, avg_moving_speed_kmh, stop_count, point_count, started_at, ended_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        orderId, order.driver_id || null, metrics.distanceKm, metrics.durationMinutes,
+        metrics.movingMinutes, metrics.stoppedMinutes, metrics.maxSpeedKmh, metrics.avgMovingSpeedKmh,
+        metrics.stopCount, metrics.pointCount, metrics.startedAt, metrics.endedAt
+      );
+
+      return db.prepare('SELECT * FROM order_trips WHERE order_id = ?').get(orderId) as OrderTrip;
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Record order trip error:', error);
+      throw new ServiceError('Failed to record order trip');
+    }
+  }
+
+  /**
+   * Get the stored trip metrics for an order, if it has been delivered
+   */
+  static getOrderTrip(orderId: string): OrderTrip | null {
+    const trip = db.prepare('SELECT * FROM order_trips WHERE order_id = ?').get(orderId) as OrderTrip | undefined;
+    return trip ?? null;
+  }
+}
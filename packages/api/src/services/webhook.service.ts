@@ -0,0 +1,431 @@
+import crypto from 'crypto';
+import { generateId } from '@zoneflow/shared';
+import db from '../database/connection.js';
+import {
+  CreateWebhookData,
+  UpdateWebhookData,
+  WebhookRecord,
+  WebhookDelivery,
+  NotFoundError,
+  ValidationError,
+  ServiceError
+} from '../types/services.js';
+import { DomainEvents, DomainEvent } from '../utils/events.js';
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5');
+// Delay before the first retry; doubles after every failed attempt
+const RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '30000');
+const REQUEST_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000');
+const RETRY_POLL_INTERVAL_MS = 15000;
+
+export class WebhookService {
+  /**
+   * Normalize a webhook row; the signing secret is only exposed when asked for
+   */
+  private static toWebhook(row: any, includeSecret = false): WebhookRecord {
+    const { secret, ...rest } = row;
+    return {
+      ...rest,
+      events: JSON.parse(row.events || '[]'),
+      is_active: Boolean(row.is_active),
+      ...(includeSecret ? { secret } : {}),
+    };
+  }
+
+  private static toDelivery(row: any): WebhookDelivery {
+    return {
+      ...row,
+      payload: JSON.parse(row.payload),
+    };
+  }
+
+  /**
+   * Sign a payload as HMAC-SHA256 over "<timestamp>.<body>"
+   */
+  static sign(secret: string, timestamp: string, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  /**
+   * Get all webhooks for a business
+   */
+  static async getWebhooks(businessId: string): Promise<WebhookRecord[]> {
+    try {
+      const webhooks = db.prepare('SELECT * FROM webhooks WHERE business_id = ? ORDER BY created_at DESC')
+        .all(businessId);
+
+      return webhooks.map(w => this.toWebhook(w));
+    } catch (error) {
+      console.error('Error fetching webhooks:', error);
+      throw new ServiceError('Failed to fetch webhooks');
+    }
+  }
+
+  /**
+   * Get a single webhook by ID
+   */
+  static async getWebhookById(webhookId: string, businessId: string): Promise<WebhookRecord> {
+    try {
+      const webhook = db.prepare('SELECT * FROM webhooks WHERE id = ? AND business_id = ?')
+        .get(webhookId, businessId);
+
+      if (!webhook) {
+        throw new NotFoundError('Webhook');
+      }
+
+      return this.toWebhook(webhook);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error fetching webhook:', error);
+      throw new ServiceError('Failed to fetch webhook');
+    }
+  }
+
+  /**
+   * Create a webhook; a signing secret is generated when none is given and returned once
+   */
+  static async createWebhook(webhookData: CreateWebhookData, businessId: string): Promise<WebhookRecord> {
+    try {
+      const webhookId = generateId();
+      const secret = webhookData.secret || crypto.randomBytes(24).toString('hex');
+
+      db.prepare(`
+        INSERT INTO webhooks (id, business_id, url, events, secret, is_active)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(
+        webhookId, businessId, webhookData.url, JSON.stringify(webhookData.events), secret,
+        webhookData.isActive !== false ? 1 : 0
+      );
+
+      const webhook = db.prepare('SELECT * FROM webhooks WHERE id = ?').get(webhookId);
+
+      return this.toWebhook(webhook, true);
+    } catch (error) {
+      console.error('Error creating webhook:', error);
+      throw new ServiceError('Failed to create webhook');
+    }
+  }
+
+  /**
+   * Update a webhook
+   */
+  static async updateWebhook(
+    webhookId: string,
+    updateData: UpdateWebhookData,
+    businessId: string
+  ): Promise<WebhookRecord> {
+    try {
+      const existingWebhook = db.prepare('SELECT id FROM webhooks WHERE id = ? AND business_id = ?')
+        .get(webhookId, businessId);
+
+      if (!existingWebhook) {
+        throw new NotFoundError('Webhook');
+      }
+
+      const updateFields: string[] = [];
+      const updateValues: any[] = [];
+
+      if (updateData.url !== undefined) {
+        updateFields.push('url = ?');
+        updateValues.push(updateData.url);
+      }
+
+      if (updateData.events !== undefined) {
+        updateFields.push('events = ?');
+        updateValues.push(JSON.stringify(updateData.events));
+      }
+
+      if (updateData.secret !== undefined) {
+        updateFields.push('secret = ?');
+        updateValues.push(updateData.secret);
+      }
+
+      if (updateData.isActive !== undefined) {
+        updateFields.push('is_active = ?');
+        updateValues.push(updateData.isActive ? 1 : 0);
+      }
+
+      if (updateFields.length === 0) {
+        throw new ValidationError('No valid fields to update');
+      }
+
+      updateFields.push('updated_at = CURRENT_TIMESTAMP');
+      updateValues.push(webhookId);
+
+      db.prepare(`UPDATE webhooks SET ${updateFields.join(', ')} WHERE id = ?`).run(...updateValues);
+
+      const webhook = db.prepare('SELECT * FROM webhooks WHERE id = ?').get(webhookId);
+
+      return this.toWebhook(webhook);
+    } catch (error) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
+        throw error;
+      }
+      console.error('Error updating webhook:', error);
+      throw new ServiceError('Failed to update webhook');
+    }
+  }
+
+  /**
+   * Delete a webhook and its delivery log
+   */
+  static async deleteWebhook(webhookId: string, businessId: string): Promise<void> {
+    try {
+      const existingWebhook = db.prepare('SELECT id FROM webhooks WHERE id = ? AND business_id = ?')
+        .get(webhookId, businessId);
+
+      if (!existingWebhook) {
+        throw new NotFoundError('Webhook');
+      }
+
+      db.transaction(() => {
+        db.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?').run(webhookId);
+        db.prepare('DELETE FROM webhooks WHERE id = ?').run(webhookId);
+      })();
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error deleting webhook:', error);
+      throw new ServiceError('Failed to delete webhook');
+    }
+  }
+
+  /**
+   * Get the most recent deliveries for a webhook
+   */
+  static async getDeliveries(webhookId: string, businessId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    try {
+      const webhook = db.prepare('SELECT id FROM webhooks WHERE id = ? AND business_id = ?')
+        .get(webhookId, businessId);
+
+      if (!webhook) {
+        throw new NotFoundError('Webhook');
+      }
+
+      const deliveries = db.prepare(`
+        SELECT * FROM webhook_deliveries
+        WHERE webhook_id = ?
+        ORDER BY created_at DESC
+        LIMIT ?
+      `).all(webhookId, limit);
+
+      return deliveries.map(d => this.toDelivery(d));
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error fetching webhook deliveries:', error);
+      throw new ServiceError('Failed to fetch webhook deliveries');
+    }
+  }
+
+  /**
+   * Send a synthetic event to a webhook and wait for the first attempt to finish
+   */
+  static async sendTestEvent(webhookId: string, businessId: string): Promise<WebhookDelivery> {
+    try {
+      const webhook = db.prepare('SELECT id FROM webhooks WHERE id = ? AND business_id = ?')
+        .get(webhookId, businessId);
+
+      if (!webhook) {
+        throw new NotFoundError('Webhook');
+      }
+
+      const deliveryId = this.createDelivery(webhookId, {
+        type: 'webhook.test',
+        businessId,
+        data: { message: 'This is a test event from ZoneFlow' },
+        timestamp: new Date().toISOString(),
+      });
+
+      return await this.attemptDelivery(deliveryId);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+      console.error('Error sending test webhook:', error);
+      throw new ServiceError('Failed to send test webhook');
+    }
+  }
+
+  /**
+   * Queue an event for every active webhook of the business subscribed to it
+   */
+  static dispatch(event: DomainEvent): void {
+    const webhooks = db.prepare('SELECT * FROM webhooks WHERE business_id = ? AND is_active = 1')
+      .all(event.businessId)
+      .map(w => this.toWebhook(w));
+
+    for (const webhook of webhooks) {
+      if (!webhook.events.includes(event.type)) continue;
+      this.enqueue(webhook.id, event);
+    }
+  }
+
+  /**
+   * Queue an event for one specific webhook of the business, regardless of its subscriptions
+   */
+  static deliverToWebhook(webhookId: string, event: Omit<DomainEvent, 'type'> & { type: string }): void {
+    const webhook = db.prepare('SELECT id FROM webhooks WHERE id = ? AND business_id = ? AND is_active = 1')
+      .get(webhookId, event.businessId);
+
+    if (!webhook) {
+      console.warn(`Webhook ${webhookId} not found or inactive; event ${event.type} dropped`);
+      return;
+    }
+
+    this.enqueue(webhookId, event);
+  }
+
+  /**
+   * Send every pending delivery whose retry time has come
+   */
+  static async processDueDeliveries(now: Date = new Date()): Promise<number> {
+    const due = db.prepare(`
+      SELECT id FROM webhook_deliveries
+      WHERE status = 'pending' AND next_attempt_at <= ?
+      ORDER BY next_attempt_at ASC
+    `).all(now.toISOString()) as Array<{ id: string }>;
+
+    let processed = 0;
+    for (const { id } of due) {
+      // Claim the delivery so an overlapping poll can't send it twice
+      const claimed = db.prepare(`
+        UPDATE webhook_deliveries SET next_attempt_at = ?
+        WHERE id = ? AND status = 'pending' AND next_attempt_at <= ?
+      `).run(this.leaseUntil(), id, now.toISOString());
+      if (claimed.changes === 0) continue;
+
+      await this.attemptDelivery(id);
+      processed++;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Subscribe to domain events and start the retry poller; returns a stop function
+   */
+  static startDispatcher(): () => void {
+    const unsubscribe = DomainEvents.subscribe(event => this.dispatch(event));
+    const timer = setInterval(() => {
+      this.processDueDeliveries().catch(error => {
+        console.error('Error processing webhook retries:', error);
+      });
+    }, RETRY_POLL_INTERVAL_MS);
+    timer.unref();
+
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }
+
+  /**
+   * Retry time recorded while an attempt is in flight, so a crash mid-attempt still gets retried
+   */
+  private static leaseUntil(): string {
+    return new Date(Date.now() + REQUEST_TIMEOUT_MS * 2).toISOString();
+  }
+
+  private static enqueue(webhookId: string, event: Omit<DomainEvent, 'type'> & { type: string }): void {
+    const deliveryId = this.createDelivery(webhookId, event);
+    this.attemptDelivery(deliveryId).catch(error => {
+      console.error(`Error delivering webhook ${deliveryId}:`, error);
+    });
+  }
+
+  private static createDelivery(webhookId: string, event: Omit<DomainEvent, 'type'> & { type: string }): string {
+    const deliveryId = generateId();
+    const payload = {
+      id: deliveryId,
+      type: event.type,
+      created_at: event.timestamp,
+      business_id: event.businessId,
+      data: event.data,
+    };
+
+    db.prepare(`
+      INSERT INTO webhook_deliveries (id, webhook_id, event_type, payload, status, attempts, next_attempt_at)
+      VALUES (?, ?, ?, ?, 'pending', 0, ?)
+    `).run(deliveryId, webhookId, event.type, JSON.stringify(payload), this.leaseUntil());
+
+    return deliveryId;
+  }
+
+  /**
+   * Make one signed delivery attempt and record the outcome, scheduling a retry with
+   * exponential backoff on failure until the attempt limit is reached
+   */
+  private static async attemptDelivery(deliveryId: string): Promise<WebhookDelivery> {
+    const delivery = db.prepare(`
+      SELECT wd.*, w.url, w.secret
+      FROM webhook_deliveries wd
+      JOIN webhooks w ON wd.webhook_id = w.id
+      WHERE wd.id = ?
+    `).get(deliveryId) as { webhook_id: string; event_type: string; payload: string; attempts: number; url: string; secret: string | null };
+
+    const attempts = delivery.attempts + 1;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'ZoneFlow-Webhooks/1.0',
+      'X-ZoneFlow-Event': delivery.event_type,
+      'X-ZoneFlow-Delivery': deliveryId,
+      'X-ZoneFlow-Timestamp': timestamp,
+    };
+    if (delivery.secret) {
+      headers['X-ZoneFlow-Signature'] = `sha256=${this.sign(delivery.secret, timestamp, delivery.payload)}`;
+    }
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers,
+        body: delivery.payload,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, 1000);
+      if (!response.ok) {
+        errorMessage = `Endpoint responded with HTTP ${response.status}`;
+      }
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : 'Request failed';
+    }
+
+    const now = new Date();
+    if (!errorMessage) {
+      db.transaction(() => {
+        db.prepare(`
+          UPDATE webhook_deliveries
+          SET status = 'success', attempts = ?, response_status = ?, response_body = ?, error = NULL,
+              next_attempt_at = NULL, delivered_at = ?, updated_at = CURRENT_TIMESTAMP
+          WHERE id = ?
+        `).run(attempts, responseStatus, responseBody, now.toISOString(), deliveryId);
+        db.prepare('UPDATE webhooks SET last_triggered = ? WHERE id = ?').run(now.toISOString(), delivery.webhook_id);
+      })();
+    } else {
+      const exhausted = attempts >= MAX_ATTEMPTS;
+      const nextAttemptAt = exhausted
+        ? null
+        : new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString();
+
+      db.prepare(`
+        UPDATE webhook_deliveries
+        SET status = ?, attempts = ?, response_status = ?, response_body = ?, error = ?,
+            next_attempt_at = ?, updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `).run(exhausted ? 'failed' : 'pending', attempts, responseStatus, responseBody, errorMessage, nextAttemptAt, deliveryId);
+    }
+
+    return this.toDelivery(db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(deliveryId));
+  }
+}
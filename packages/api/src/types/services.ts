@@ -1,4 +1,5 @@
 // Service types and interfaces for better type safety
+import type { GeofenceCoordinates } from '@zoneflow/shared';
 
 export interface Pagination {
   page: number;
@@ -21,6 +22,11 @@ export interface OrderFilters {
   status?: string;
   priority?: string;
   driverId?: string;
+  // 'true' for scheduled orders not yet released to dispatch, 'false' for the rest
+  scheduled?: 'true' | 'false';
+  // Orders whose delivery window overlaps this range
+  windowFrom?: string;
+  windowTo?: string;
 }
 
 export interface CreateOrderData {
@@ -35,12 +41,27 @@ export interface CreateOrderData {
   deliveryLongitude: number;
   priority: 'low' | 'medium' | 'high';
   estimatedDelivery?: string;
+  pickupReadyAt?: string;
+  deliveryWindowStart?: string;
+  deliveryWindowEnd?: string;
+  scheduledFor?: string;
+  externalRef?: string;
   notes?: string;
 }
 
+export type OrderStatus =
+  | 'pending' | 'assigned' | 'picked_up' | 'in_transit' | 'delivered' | 'cancelled'
+  | 'failed_attempt' | 'rescheduled' | 'returned';
+
+export type FailureReason =
+  | 'customer_absent' | 'wrong_address' | 'refused' | 'access_denied' | 'damaged' | 'other';
+
 export interface UpdateOrderStatusData {
-  status: 'pending' | 'assigned' | 'picked_up' | 'in_transit' | 'delivered' | 'cancelled';
+  status: OrderStatus;
   notes?: string;
+  // Required when an attempt fails; optional when returning to sender
+  reason?: FailureReason;
+  rescheduledFor?: string;
 }
 
 export interface OrderWithDriver {
@@ -59,8 +80,19 @@ export interface OrderWithDriver {
   status: string;
   priority: string;
   estimated_delivery?: string;
+  predicted_delivery?: string;
+  eta_updated_at?: string;
+  sla_status?: SlaStatus;
   actual_pickup?: string;
   actual_delivery?: string;
+  attempt_count?: number;
+  rescheduled_for?: string | null;
+  pickup_ready_at?: string | null;
+  delivery_window_start?: string | null;
+  delivery_window_end?: string | null;
+  scheduled_for?: string | null;
+  released_at?: string | null;
+  external_ref?: string | null;
   notes?: string;
   driver_id?: string;
   driver_user_id?: string;
@@ -70,6 +102,53 @@ export interface OrderWithDriver {
   updated_at: string;
 }
 
+export type OrderEventType = 'created' | 'status_changed' | 'assigned' | 'reassigned' | 'cancelled' | 'released';
+
+export interface OrderEvent {
+  id: string;
+  order_id: string;
+  event_type: OrderEventType;
+  from_status?: string;
+  to_status?: string;
+  driver_id?: string;
+  driver_name?: string;
+  previous_driver_id?: string;
+  previous_driver_name?: string;
+  note?: string;
+  reason?: FailureReason;
+  actor_user_id?: string;
+  actor_name?: string;
+  created_at: string;
+}
+
+export interface DeliveryAttempt {
+  id: string;
+  order_id: string;
+  driver_id: string | null;
+  driver_name?: string;
+  attempt_number: number;
+  reason: FailureReason;
+  notes: string | null;
+  actor_user_id: string | null;
+  created_at: string;
+}
+
+export interface OrderTrip {
+  order_id: string;
+  driver_id?: string;
+  distance_km: number;
+  duration_minutes: number;
+  moving_minutes: number;
+  stopped_minutes: number;
+  max_speed_kmh: number;
+  avg_moving_speed_kmh: number;
+  stop_count: number;
+  point_count: number;
+  started_at?: string;
+  ended_at?: string;
+  created_at: string;
+}
+
 // Location Service Types
 export interface LocationData {
   latitude: number;
@@ -79,6 +158,34 @@ export interface LocationData {
   heading?: number;
 }
 
+export interface LocationFix extends LocationData {
+  timestamp: string;
+  orderId?: string;
+}
+
+export type LocationFixRejection = 'duplicate' | 'out_of_order' | 'future_timestamp' | 'too_old' | 'implausible_speed';
+
+export interface LocationBatchResult {
+  accepted: number;
+  rejected: Array<{
+    index: number;
+    timestamp: string;
+    reason: LocationFixRejection;
+  }>;
+  location: {
+    latitude: number;
+    longitude: number;
+    timestamp: string;
+  } | null;
+  orderId: string | null;
+  geofenceEvents: Array<{
+    geofenceId: string;
+    name: string;
+    eventType: GeofenceEventType;
+    timestamp: string;
+  }>;
+}
+
 export interface LocationHistory {
   latitude: number;
   longitude: number;
@@ -88,6 +195,52 @@ export interface LocationHistory {
   heading?: number;
 }
 
+export interface ProcessedTrack {
+  polyline: string;
+  points: Array<[number, number]>;
+  startedAt: string | null;
+  endedAt: string | null;
+  distanceKm: number;
+  stats: {
+    rawPoints: number;
+    droppedInaccurate: number;
+    droppedOutliers: number;
+    simplifiedPoints: number;
+    // Set when a trip had more fixes than are read at once and was sampled evenly
+    downsampled: boolean;
+  };
+}
+
+export type TrackFileFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface TrackWaypoint {
+  geofenceName: string;
+  eventType: GeofenceEventType;
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+}
+
+export interface TrackFile {
+  fileName: string;
+  contentType: string;
+  // Written as fixes are read, so a route of any length is complete
+  body: AsyncIterable<string>;
+}
+
+export interface TripMetrics {
+  distanceKm: number;
+  durationMinutes: number;
+  movingMinutes: number;
+  stoppedMinutes: number;
+  maxSpeedKmh: number;
+  avgMovingSpeedKmh: number;
+  stopCount: number;
+  pointCount: number;
+  startedAt: string | null;
+  endedAt: string | null;
+}
+
 // Dashboard Service Types
 export interface DashboardStats {
   totalOrders: number;
@@ -98,6 +251,8 @@ export interface DashboardStats {
   activeDrivers: number;
   totalRevenue: number;
   avgDeliveryTime: number;
+  // Scheduled orders not yet released; not counted as active
+  scheduledOrders: number;
   orderMetrics: {
     pending: number;
     assigned: number;
@@ -120,7 +275,7 @@ export interface DashboardStats {
 }
 
 export interface ActivityItem {
-  type: 'order' | 'geofence';
+  type: 'order' | 'geofence' | 'sla';
   id: string;
   timestamp: string;
   [key: string]: any;
@@ -153,6 +308,7 @@ export interface MapData {
     current_longitude?: number;
     last_location_update?: string;
     is_available: boolean;
+    connection_status: DriverConnectionStatus;
     vehicle_type: string;
     license_plate: string;
   }>;
@@ -160,9 +316,11 @@ export interface MapData {
     id: string;
     name: string;
     type: string;
+    shape: GeofenceShape;
     center_latitude: number;
     center_longitude: number;
     radius: number;
+    coordinates: GeofenceCoordinates | null;
   }>;
 }
 
@@ -177,6 +335,11 @@ export interface DriverPerformance {
   cancelled_orders: number;
   avg_delay_minutes?: number;
   avg_delivery_time_minutes?: number;
+  distance_km: number;
+  moving_minutes: number;
+  stopped_minutes: number;
+  avg_moving_speed_kmh?: number;
+  max_speed_kmh?: number;
 }
 
 // Driver Service Types
@@ -219,6 +382,8 @@ export interface DriverWithUser {
   current_latitude?: number;
   current_longitude?: number;
   last_location_update?: string;
+  connection_status?: DriverConnectionStatus;
+  connection_changed_at?: string;
   created_at: string;
   updated_at: string;
   name: string;
@@ -227,22 +392,43 @@ export interface DriverWithUser {
   role: string;
 }
 
+// Online drivers report regularly; stale and offline drivers have gone quiet for the configured windows
+export type DriverConnectionStatus = 'online' | 'stale' | 'offline';
+
+export interface DriverConnectionChange {
+  driverId: string;
+  name: string;
+  status: DriverConnectionStatus;
+  previousStatus: DriverConnectionStatus;
+  lastLocationUpdate: string | null;
+  activeOrders: Array<{ id: string; trackingCode: string; status: string }>;
+}
+
 // Geofence Service Types
+export type GeofenceShape = 'circle' | 'polygon' | 'multipolygon';
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell';
+
 export interface CreateGeofenceData {
   name: string;
   type: 'pickup' | 'delivery' | 'restricted' | 'custom';
-  centerLatitude: number;
-  centerLongitude: number;
-  radius: number;
+  shape?: GeofenceShape;
+  centerLatitude?: number;
+  centerLongitude?: number;
+  radius?: number;
+  coordinates?: GeofenceCoordinates;
+  dwellTime?: number | null;
   isActive?: boolean;
 }
 
 export interface UpdateGeofenceData {
   name?: string;
   type?: 'pickup' | 'delivery' | 'restricted' | 'custom';
+  shape?: GeofenceShape;
   centerLatitude?: number;
   centerLongitude?: number;
   radius?: number;
+  coordinates?: GeofenceCoordinates;
+  dwellTime?: number | null;
   isActive?: boolean;
 }
 
@@ -250,9 +436,12 @@ export interface GeofenceWithEvents {
   id: string;
   name: string;
   type: string;
+  shape: GeofenceShape;
   center_latitude: number;
   center_longitude: number;
   radius: number;
+  coordinates: GeofenceCoordinates | null;
+  dwell_time: number | null;
   is_active: boolean;
   business_id: string;
   created_at: string;
@@ -266,6 +455,398 @@ export interface GeofenceWithEvents {
   }>;
 }
 
+export interface GeofenceCheckResult {
+  geofence: GeofenceWithEvents;
+  distance: number;
+  isInside: boolean;
+  transition: GeofenceEventType | null;
+}
+
+export type GeofenceTriggerAction = 'webhook' | 'notification' | 'status_update';
+
+export interface CreateGeofenceTriggerData {
+  eventType: GeofenceEventType;
+  actionType: GeofenceTriggerAction;
+  actionConfig?: Record<string, any>;
+  isActive?: boolean;
+}
+
+export interface UpdateGeofenceTriggerData {
+  eventType?: GeofenceEventType;
+  actionType?: GeofenceTriggerAction;
+  actionConfig?: Record<string, any>;
+  isActive?: boolean;
+}
+
+export interface GeofenceTriggerRecord {
+  id: string;
+  geofence_id: string;
+  event_type: GeofenceEventType;
+  action_type: GeofenceTriggerAction;
+  action_config: Record<string, any>;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Geofence Import Service Types
+export type GeofenceFileFormat = 'geojson' | 'kml';
+
+export type GeofenceImportStatus = 'valid' | 'created' | 'failed';
+
+export interface GeofenceImportFeature {
+  // Position of the feature or placemark in the file, from 1
+  index: number;
+  name: string | null;
+  status: GeofenceImportStatus;
+  // The geofence as it would be created, so a preview can be drawn
+  geofence?: CreateGeofenceData;
+  geofenceId?: string;
+  errors?: string[];
+}
+
+export interface GeofenceImportResult {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  created: number;
+  failed: number;
+  features: GeofenceImportFeature[];
+}
+
+// Webhook Service Types
+export interface CreateWebhookData {
+  url: string;
+  events: string[];
+  secret?: string;
+  isActive?: boolean;
+}
+
+export interface UpdateWebhookData {
+  url?: string;
+  events?: string[];
+  secret?: string;
+  isActive?: boolean;
+}
+
+export interface WebhookRecord {
+  id: string;
+  business_id: string;
+  url: string;
+  events: string[];
+  secret?: string;
+  is_active: boolean;
+  last_triggered?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  event_type: string;
+  payload: Record<string, any>;
+  status: 'pending' | 'success' | 'failed';
+  attempts: number;
+  response_status?: number;
+  response_body?: string;
+  error?: string;
+  next_attempt_at?: string;
+  delivered_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Dispatch Service Types
+export type DispatchMode = 'off' | 'propose' | 'auto';
+export type DispatchStrategy = 'nearest' | 'least_loaded' | 'balanced' | 'custom';
+
+export interface DispatchWeights {
+  distance: number;
+  load: number;
+  vehicle: number;
+  freshness: number;
+}
+
+export interface DispatchSettings {
+  mode: DispatchMode;
+  strategy: DispatchStrategy;
+  weights: DispatchWeights;
+  maxDistanceKm: number;
+  maxActiveOrders: number;
+  maxLocationAgeMinutes: number;
+  vehicleScores: Record<string, number>;
+}
+
+export type UpdateDispatchSettingsData = Partial<Omit<DispatchSettings, 'weights'>> & {
+  weights?: Partial<DispatchWeights>;
+};
+
+export interface DispatchCandidate {
+  driverId: string;
+  name: string;
+  vehicleType?: string;
+  distanceKm: number;
+  activeOrders: number;
+  locationAgeMinutes: number;
+  score: number;
+  breakdown: DispatchWeights;
+}
+
+export interface DispatchResult {
+  orderId: string;
+  mode: DispatchMode;
+  assignedDriverId: string | null;
+  candidates: DispatchCandidate[];
+}
+
+// ETA Service Types
+export interface OrderEta {
+  orderId: string;
+  predictedDelivery: string;
+  remainingDistanceKm: number;
+  stopsBefore: number;
+  speedKmh: number;
+  observedSpeedKmh: number | null;
+  historicalSpeedKmh: number | null;
+}
+
+// SLA Service Types
+export type SlaStatus = 'ok' | 'at_risk' | 'breached';
+export type SlaStage = 'assign' | 'pickup' | 'delivery';
+export type SlaPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+// Minutes after creation by which each stage must be reached; null disables the check
+export interface SlaRule {
+  maxAssignMinutes: number | null;
+  maxPickupMinutes: number | null;
+  maxDeliveryMinutes: number | null;
+}
+
+export interface SlaSettings {
+  enabled: boolean;
+  atRiskMinutes: number;
+  rules: Record<SlaPriority, SlaRule>;
+}
+
+export type UpdateSlaSettingsData = Partial<Omit<SlaSettings, 'rules'>> & {
+  rules?: Partial<Record<SlaPriority, Partial<SlaRule>>>;
+};
+
+export interface SlaAlert {
+  id: string;
+  order_id: string;
+  business_id: string;
+  stage: SlaStage;
+  level: Exclude<SlaStatus, 'ok'>;
+  deadline: string;
+  created_at: string;
+  tracking_code?: string;
+  customer_name?: string;
+  priority?: string;
+  status?: string;
+  driver_name?: string;
+}
+
+export interface SlaEvaluation {
+  businessId: string;
+  evaluated: number;
+  atRisk: number;
+  breached: number;
+  alerts: SlaAlert[];
+  evaluatedAt: string;
+}
+
+// Delivery Attempt Service Types
+export interface DeliveryAttemptSettings {
+  maxAttempts: number;
+  autoRequeue: boolean;
+  retryDelayMinutes: number;
+}
+
+export type UpdateDeliveryAttemptSettingsData = Partial<DeliveryAttemptSettings>;
+
+// Order Import Service Types
+export type OrderImportField = keyof CreateOrderData;
+
+// Which file column feeds each order field
+export type OrderImportMapping = Partial<Record<OrderImportField, string>>;
+
+export interface OrderImportOptions {
+  dryRun: boolean;
+  mapping?: OrderImportMapping;
+}
+
+// A dry run reports rows that would be created as valid
+export type OrderImportRowStatus = 'created' | 'valid' | 'skipped' | 'failed';
+
+export interface OrderImportRow {
+  // Row number as shown in a spreadsheet, with the header on row 1
+  row: number;
+  externalRef: string | null;
+  status: OrderImportRowStatus;
+  orderId?: string;
+  errors?: string[];
+}
+
+export interface OrderImportError {
+  row: number;
+  errors: string[];
+  values: Record<string, string>;
+}
+
+export interface OrderImportResult {
+  importId: string;
+  dryRun: boolean;
+  totalRows: number;
+  valid: number;
+  created: number;
+  skipped: number;
+  failed: number;
+  rows: OrderImportRow[];
+  errorReportUrl: string | null;
+}
+
+// Export Service Types
+export type ExportDataset = 'orders' | 'drivers' | 'geofence-events' | 'locations';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'geojson';
+
+// Each dataset applies the filters that make sense for it; from/to bound its main timestamp
+export interface ExportFilters extends OrderFilters {
+  from?: string;
+  to?: string;
+  available?: 'true' | 'false';
+  geofenceId?: string;
+  eventType?: 'enter' | 'exit' | 'dwell';
+  orderId?: string;
+}
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  // XLSX is assembled in memory; CSV and GeoJSON arrive in chunks as pages are read
+  body: Buffer | AsyncIterable<string>;
+}
+
+// Idempotency Service Types
+export interface StoredResponse {
+  status: number;
+  contentType: string | null;
+  body: string;
+}
+
+// What to do with a keyed request: run it, or answer with the response already stored
+export type IdempotencyClaim =
+  | { outcome: 'claimed' }
+  | { outcome: 'replay'; response: StoredResponse };
+
+// Proof of Delivery Service Types
+export interface ProofSettings {
+  required: boolean;
+  requireSignature: boolean;
+  requirePhoto: boolean;
+  maxDistanceMeters: number;
+  rejectOutOfRange: boolean;
+}
+
+export type UpdateProofSettingsData = Partial<ProofSettings>;
+
+export interface ProofFile {
+  name: string;
+  type: string;
+  data: Buffer;
+}
+
+export interface SubmitProofData {
+  recipientName: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  notes?: string;
+  signature?: ProofFile;
+  photos: ProofFile[];
+}
+
+export interface DeliveryProof {
+  id: string;
+  order_id: string;
+  business_id: string;
+  driver_id: string | null;
+  submitted_by: string | null;
+  recipient_name: string;
+  signature_file: string | null;
+  photo_files: string[];
+  latitude: number | null;
+  longitude: number | null;
+  accuracy: number | null;
+  distance_meters: number | null;
+  within_range: boolean | null;
+  notes: string | null;
+  created_at: string;
+  signature_url: string | null;
+  photo_urls: string[];
+}
+
+// What the public tracking page may show
+export type PublicDeliveryProof = Pick<
+  DeliveryProof,
+  'recipient_name' | 'within_range' | 'created_at' | 'signature_url' | 'photo_urls'
+>;
+
+// Retention Service Types
+export type ArchiveFormat = 'ndjson' | 'gpx';
+
+export interface RetentionSettings {
+  enabled: boolean;
+  downsampleAfterDays: number;
+  downsampleIntervalSeconds: number;
+  deleteAfterDays: number;
+  archive: boolean;
+  archiveFormat: ArchiveFormat;
+}
+
+export type UpdateRetentionSettingsData = Partial<RetentionSettings>;
+
+export interface RetentionReport {
+  businessId: string;
+  dryRun: boolean;
+  downsampled: number;
+  deleted: number;
+  archived: number;
+  archiveFile: string | null;
+  vacuumed: boolean;
+  ranAt: string;
+}
+
+// Route Service Types
+export type RouteStopType = 'pickup' | 'delivery';
+
+export interface RouteStop {
+  orderId: string;
+  trackingCode: string;
+  type: RouteStopType;
+  address: string;
+  latitude: number;
+  longitude: number;
+  priority: string;
+  legDistanceKm: number;
+  // When the stop is served; includes any wait for readyAt
+  estimatedArrival: string;
+  readyAt: string | null;
+  deadline: string | null;
+  isLate: boolean;
+}
+
+export interface DriverRoute {
+  driverId: string;
+  start: { latitude: number; longitude: number } | null;
+  stops: RouteStop[];
+  totalDistanceKm: number;
+  totalDurationMinutes: number;
+  generatedAt: string;
+}
+
 // Auth Service Types
 export interface RegisterData {
   name: string;
@@ -0,0 +1,17 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+/**
+ * Quote a value when it contains a delimiter, quote or line break
+ */
+export function toCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One CSV line, terminated with CRLF as RFC 4180 expects
+ */
+export function toCsvRow(values: CsvValue[]): string {
+  return `${values.map(toCsvValue).join(',')}\r\n`;
+}
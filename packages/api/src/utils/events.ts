@@ -0,0 +1,75 @@
+import { EventEmitter } from 'events';
+
+// Domain events published by services for webhooks, realtime streams and other listeners
+export type DomainEventType =
+  | 'driver.location_updated'
+  | 'driver.availability_changed'
+  | 'driver.connection_changed'
+  | 'driver.signal_lost'
+  | 'order.created'
+  | 'order.status_changed'
+  | 'order.assigned'
+  | 'order.dispatch_proposed'
+  | 'order.eta_updated'
+  | 'order.sla_alert'
+  | 'order.proof_submitted'
+  | 'order.released'
+  | 'geofence.enter'
+  | 'geofence.exit'
+  | 'geofence.dwell';
+
+export const DOMAIN_EVENT_TYPES: DomainEventType[] = [
+  'driver.location_updated',
+  'driver.availability_changed',
+  'driver.connection_changed',
+  'driver.signal_lost',
+  'order.created',
+  'order.status_changed',
+  'order.assigned',
+  'order.dispatch_proposed',
+  'order.eta_updated',
+  'order.sla_alert',
+  'order.proof_submitted',
+  'order.released',
+  'geofence.enter',
+  'geofence.exit',
+  'geofence.dwell',
+];
+
+export interface DomainEvent<T = Record<string, any>> {
+  type: DomainEventType;
+  businessId: string;
+  data: T;
+  timestamp: string;
+}
+
+type DomainEventListener = (event: DomainEvent) => void;
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export class DomainEvents {
+  /**
+   * Publish an event to all listeners; listener failures are logged and never reach the publisher
+   */
+  static publish<T extends Record<string, any>>(type: DomainEventType, businessId: string, data: T): void {
+    const event: DomainEvent<T> = { type, businessId, data, timestamp: new Date().toISOString() };
+    for (const listener of emitter.listeners('event') as DomainEventListener[]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error handling domain event ${type}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Subscribe to all domain events; returns an unsubscribe function
+   */
+  static subscribe(listener: DomainEventListener): () => void {
+    emitter.on('event', listener);
+    return () => {
+      emitter.off('event', listener);
+    };
+  }
+}
@@ -160,6 +160,52 @@ export class FileImportService {
     return drivers;
   }
 
+  /**
+   * Read the first sheet or CSV body as objects keyed by the trimmed header row; cells are kept as text
+   */
+  static async readRows(buffer: Buffer, filename: string): Promise<Array<Record<string, string>>> {
+    if (!this.validateFileType(filename)) {
+      throw new ValidationError('Unsupported file type. Please upload Excel (.xlsx, .xls) or CSV files.');
+    }
+
+    const rows = this.getFileType(filename) === 'excel'
+      ? this.readExcelRows(buffer)
+      : await this.readCSVRows(buffer);
+
+    return rows.map(row => {
+      const cleaned: Record<string, string> = {};
+      for (const [key, value] of Object.entries(row)) {
+        cleaned[key.replace(/^\uFEFF/, '').trim()] = value === undefined || value === null ? '' : String(value).trim();
+      }
+      return cleaned;
+    });
+  }
+
+  private static readExcelRows(buffer: Buffer): Array<Record<string, unknown>> {
+    try {
+      const workbook = XLSX.read(buffer, { type: 'buffer' });
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      return XLSX.utils.sheet_to_json(worksheet, { defval: '', raw: false }) as Array<Record<string, unknown>>;
+    } catch (error) {
+      console.error('Excel parsing error:', error);
+      throw new ValidationError('Failed to parse Excel file');
+    }
+  }
+
+  private static readCSVRows(buffer: Buffer): Promise<Array<Record<string, unknown>>> {
+    return new Promise((resolve, reject) => {
+      const results: Array<Record<string, unknown>> = [];
+      Readable.from(buffer)
+        .pipe(csv())
+        .on('data', (data) => results.push(data))
+        .on('end', () => resolve(results))
+        .on('error', (error) => {
+          console.error('CSV parsing error:', error);
+          reject(new ValidationError('Failed to parse CSV file'));
+        });
+    });
+  }
+
   /**
    * Validate file type
    */
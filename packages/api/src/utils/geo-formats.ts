@@ -0,0 +1,149 @@
+import { ValidationError } from '../types/services.js';
+
+// GeoJSON and KML positions are [lng, lat]; geofence rings and tracks use [lat, lng]
+export type GeoPosition = [number, number];
+
+export interface GeoGeometry {
+  type: string;
+  coordinates: any;
+}
+
+export interface GeoFeature {
+  properties: Record<string, unknown>;
+  geometry: GeoGeometry | null;
+}
+
+/**
+ * Escape text for XML element content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function unescapeXml(value: string): string {
+  const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+/**
+ * Read the features of a GeoJSON FeatureCollection, a single Feature or a bare geometry
+ */
+export function parseGeoJson(text: string): GeoFeature[] {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ValidationError('File is not valid GeoJSON');
+  }
+
+  const toFeature = (feature: any): GeoFeature => ({
+    properties: feature && typeof feature.properties === 'object' && feature.properties !== null ? feature.properties : {},
+    geometry: feature?.geometry ?? null,
+  });
+
+  switch (json?.type) {
+    case 'FeatureCollection':
+      if (!Array.isArray(json.features)) {
+        throw new ValidationError('GeoJSON FeatureCollection has no features array');
+      }
+      return json.features.map(toFeature);
+    case 'Feature':
+      return [toFeature(json)];
+    case 'Point':
+    case 'Polygon':
+    case 'MultiPolygon':
+      return [{ properties: {}, geometry: json }];
+    default:
+      throw new ValidationError('GeoJSON must be a FeatureCollection, Feature or geometry');
+  }
+}
+
+// Pull the first <tag>…</tag> (or every one) out of a KML fragment, ignoring namespace prefixes
+function kmlElements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+function kmlPositions(xml: string): GeoPosition[] {
+  const [text] = kmlElements(xml, 'coordinates');
+  if (text === undefined) return [];
+  return text.trim().split(/\s+/).filter(Boolean).map(tuple => {
+    const [lng, lat] = tuple.split(',').map(Number);
+    return [lng, lat];
+  });
+}
+
+function kmlPolygon(xml: string): GeoPosition[][] {
+  const outer = kmlElements(xml, 'outerBoundaryIs').map(kmlPositions);
+  const inner = kmlElements(xml, 'innerBoundaryIs').map(kmlPositions);
+  return [...outer, ...inner];
+}
+
+/**
+ * Read KML placemarks as GeoJSON-shaped features; points, polygons and multi-geometries of polygons
+ */
+export function parseKml(text: string): GeoFeature[] {
+  if (!/<(?:\w+:)?kml[\s>]/.test(text)) {
+    throw new ValidationError('File is not valid KML');
+  }
+
+  return kmlElements(text, 'Placemark').map(placemark => {
+    const properties: Record<string, unknown> = {};
+
+    const [name] = kmlElements(placemark, 'name');
+    if (name !== undefined) properties.name = unescapeXml(name);
+
+    // <Data name="x"><value>…</value></Data> and schema-typed <SimpleData name="x">…</SimpleData>
+    for (const match of placemark.matchAll(/<(?:\w+:)?Data\s+name="([^"]+)"[^>]*>([\s\S]*?)<\/(?:\w+:)?Data>/g)) {
+      const [value] = kmlElements(match[2], 'value');
+      if (value !== undefined) properties[match[1]] = unescapeXml(value);
+    }
+    for (const match of placemark.matchAll(/<(?:\w+:)?SimpleData\s+name="([^"]+)"[^>]*>([\s\S]*?)<\/(?:\w+:)?SimpleData>/g)) {
+      properties[match[1]] = unescapeXml(match[2]);
+    }
+
+    const polygons = kmlElements(placemark, 'Polygon');
+    let geometry: GeoGeometry | null = null;
+    if (/<(?:\w+:)?MultiGeometry[\s>]/.test(placemark) && polygons.length > 0) {
+      geometry = { type: 'MultiPolygon', coordinates: polygons.map(kmlPolygon) };
+    } else if (polygons.length > 0) {
+      geometry = { type: 'Polygon', coordinates: kmlPolygon(polygons[0]) };
+    } else if (kmlElements(placemark, 'Point').length > 0) {
+      geometry = { type: 'Point', coordinates: kmlPositions(kmlElements(placemark, 'Point')[0])[0] };
+    } else {
+      const other = placemark.match(/<(?:\w+:)?(LineString|LinearRing|Track|Model)[\s>]/);
+      if (other) geometry = { type: other[1], coordinates: null };
+    }
+
+    return { properties, geometry };
+  });
+}
+
+/**
+ * A KML <coordinates> element for [lat, lng] points
+ */
+export function toKmlCoordinates(points: GeoPosition[]): string {
+  return `<coordinates>${points.map(([lat, lng]) => `${lng},${lat}`).join(' ')}</coordinates>`;
+}
+
+/**
+ * KML <ExtendedData> for simple properties; empty values are left out
+ */
+export function toKmlExtendedData(properties: Record<string, string | number | boolean | null | undefined>): string {
+  const data = Object.entries(properties)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([name, value]) => `<Data name="${escapeXml(name)}"><value>${escapeXml(String(value))}</value></Data>`);
+  return data.length > 0 ? `<ExtendedData>${data.join('')}</ExtendedData>` : '';
+}
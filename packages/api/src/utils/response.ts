@@ -216,6 +216,18 @@ export class ResponseHandler {
     return this.error(c, message, 409, 'CONFLICT');
   }
 
+  /**
+   * Send a rate limit error response
+   * @param c - Hono context
+   * @param message - Error message
+   */
+  static tooManyRequests(
+    c: Context,
+    message: string
+  ) {
+    return this.error(c, message, 429, 'RATE_LIMITED');
+  }
+
   /**
    * Send a bad request error response
    * @param c - Hono context
@@ -0,0 +1,263 @@
+import { calculateDistance, encodePolyline } from '@zoneflow/shared';
+import { LocationHistory, ProcessedTrack, TripMetrics } from '../types/services.js';
+
+const MAX_ACCURACY_METERS = parseInt(process.env.TRACK_MAX_ACCURACY_METERS || '50');
+const MAX_SPEED_KMH = parseInt(process.env.TRACK_MAX_SPEED_KMH || '200');
+const SIMPLIFY_TOLERANCE_METERS = parseInt(process.env.TRACK_SIMPLIFY_TOLERANCE_METERS || '10');
+const STOP_SPEED_KMH = parseInt(process.env.TRIP_STOP_SPEED_KMH || '3');
+const MIN_STOP_MINUTES = parseInt(process.env.TRIP_MIN_STOP_MINUTES || '2');
+
+// Assumed accuracy for fixes that do not report one
+const DEFAULT_ACCURACY_METERS = 20;
+// How far the true position may drift per second between fixes, in metres
+const PROCESS_NOISE_METERS_PER_SECOND = 3;
+const METERS_PER_DEGREE = 111320;
+
+export interface TrackProcessingOptions {
+  maxAccuracyMeters?: number;
+  maxSpeedKmh?: number;
+  toleranceMeters?: number;
+  smooth?: boolean;
+}
+
+interface TimedPoint {
+  latitude: number;
+  longitude: number;
+  time: number;
+  accuracy: number;
+}
+
+export class TrackProcessor {
+  /**
+   * Implied speed between two fixes in km/h, flooring the interval at one second
+   */
+  private static speedBetween(a: TimedPoint, b: TimedPoint): number {
+    const hours = Math.max(Math.abs(b.time - a.time), 1000) / 3600000;
+    return calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude) / hours;
+  }
+
+  /**
+   * Drop isolated spikes: fixes that are implausibly fast to reach and to leave again
+   */
+  static rejectOutliers(points: TimedPoint[], maxSpeedKmh: number = MAX_SPEED_KMH): TimedPoint[] {
+    const kept: TimedPoint[] = [];
+    const tooFast = (a: TimedPoint, b: TimedPoint) => this.speedBetween(a, b) > maxSpeedKmh;
+
+    points.forEach((point, index) => {
+      const previous = kept[kept.length - 1];
+      const next = points[index + 1];
+
+      let isOutlier: boolean;
+      if (previous && next) {
+        isOutlier = tooFast(previous, point) && tooFast(point, next);
+      } else if (previous) {
+        isOutlier = tooFast(previous, point);
+      } else if (next) {
+        // The first fix has no history, so trust the next two fixes agreeing with each other
+        const afterNext = points[index + 2];
+        isOutlier = tooFast(point, next) && (!afterNext || !tooFast(next, afterNext));
+      } else {
+        isOutlier = false;
+      }
+
+      if (!isOutlier) {
+        kept.push(point);
+      }
+    });
+
+    return kept;
+  }
+
+  /**
+   * Kalman-filter positions, weighting each fix by its reported accuracy
+   */
+  static smooth(points: TimedPoint[]): TimedPoint[] {
+    let variance = -1;
+    let latitude = 0;
+    let longitude = 0;
+    let time = 0;
+
+    return points.map(point => {
+      const measurementVariance = point.accuracy * point.accuracy;
+      if (variance < 0) {
+        variance = measurementVariance;
+        latitude = point.latitude;
+        longitude = point.longitude;
+      } else {
+        const seconds = Math.max(point.time - time, 0) / 1000;
+        variance += seconds * PROCESS_NOISE_METERS_PER_SECOND * PROCESS_NOISE_METERS_PER_SECOND;
+        const gain = variance / (variance + measurementVariance);
+        latitude += gain * (point.latitude - latitude);
+        longitude += gain * (point.longitude - longitude);
+        variance = (1 - gain) * variance;
+      }
+      time = point.time;
+      return { ...point, latitude, longitude };
+    });
+  }
+
+  /**
+   * Douglas–Peucker simplification with a tolerance in metres
+   */
+  static simplify(points: Array<[number, number]>, toleranceMeters: number = SIMPLIFY_TOLERANCE_METERS): Array<[number, number]> {
+    if (points.length <= 2) {
+      return [...points];
+    }
+
+    // Project onto a local plane in metres; accurate enough at track scale
+    const cosLat = Math.cos((points[0][0] * Math.PI) / 180);
+    const projected = points.map(([lat, lng]) => [lng * METERS_PER_DEGREE * cosLat, lat * METERS_PER_DEGREE]);
+    const offset = (index: number, start: number, end: number) => {
+      const [px, py] = projected[index];
+      const [ax, ay] = projected[start];
+      const [bx, by] = projected[end];
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+      return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+    };
+
+    const keep = new Array(points.length).fill(false);
+    keep[0] = true;
+    keep[points.length - 1] = true;
+    const stack: Array<[number, number]> = [[0, points.length - 1]];
+
+    while (stack.length > 0) {
+      const [start, end] = stack.pop()!;
+      let farthest = -1;
+      let farthestOffset = 0;
+      for (let i = start + 1; i < end; i++) {
+        const distance = offset(i, start, end);
+        if (distance > farthestOffset) {
+          farthest = i;
+          farthestOffset = distance;
+        }
+      }
+      if (farthest !== -1 && farthestOffset > toleranceMeters) {
+        keep[farthest] = true;
+        stack.push([start, farthest], [farthest, end]);
+      }
+    }
+
+    return points.filter((_, index) => keep[index]);
+  }
+
+  /**
+   * Order raw fixes by time and drop inaccurate ones
+   */
+  private static prepare(history: LocationHistory[], maxAccuracyMeters: number): { chronological: TimedPoint[]; accurate: TimedPoint[] } {
+    const chronological: TimedPoint[] = history
+      .map(fix => ({
+        latitude: fix.latitude,
+        longitude: fix.longitude,
+        time: Date.parse(fix.timestamp),
+        accuracy: fix.accuracy ?? DEFAULT_ACCURACY_METERS,
+      }))
+      .filter(point => Number.isFinite(point.time))
+      .sort((a, b) => a.time - b.time);
+
+    return { chronological, accurate: chronological.filter(point => point.accuracy <= maxAccuracyMeters) };
+  }
+
+  /**
+   * Summarize a trip: distance while moving, moving vs stopped time, speeds and stops
+   */
+  static summarize(history: LocationHistory[], options: Pick<TrackProcessingOptions, 'maxAccuracyMeters' | 'maxSpeedKmh'> = {}): TripMetrics {
+    const { maxAccuracyMeters = MAX_ACCURACY_METERS, maxSpeedKmh = MAX_SPEED_KMH } = options;
+    const points = this.rejectOutliers(this.prepare(history, maxAccuracyMeters).accurate, maxSpeedKmh);
+
+    let distanceKm = 0;
+    let movingMs = 0;
+    let stoppedMs = 0;
+    let topSpeedKmh = 0;
+    let stopCount = 0;
+    let currentStopMs = 0;
+
+    const closeStop = () => {
+      if (currentStopMs >= MIN_STOP_MINUTES * 60000) {
+        stopCount++;
+      }
+      currentStopMs = 0;
+    };
+
+    for (let i = 1; i < points.length; i++) {
+      const previous = points[i - 1];
+      const point = points[i];
+      const elapsedMs = point.time - previous.time;
+      if (elapsedMs <= 0) continue;
+
+      const legKm = calculateDistance(previous.latitude, previous.longitude, point.latitude, point.longitude);
+      const speedKmh = legKm / (elapsedMs / 3600000);
+
+      // Drift while parked is GPS noise, not distance travelled
+      if (speedKmh < STOP_SPEED_KMH) {
+        stoppedMs += elapsedMs;
+        currentStopMs += elapsedMs;
+      } else {
+        closeStop();
+        movingMs += elapsedMs;
+        distanceKm += legKm;
+        topSpeedKmh = Math.max(topSpeedKmh, speedKmh);
+      }
+    }
+    closeStop();
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const first = points[0];
+    const last = points[points.length - 1];
+
+    return {
+      distanceKm: Math.round(distanceKm * 1000) / 1000,
+      durationMinutes: round(first ? (last.time - first.time) / 60000 : 0),
+      movingMinutes: round(movingMs / 60000),
+      stoppedMinutes: round(stoppedMs / 60000),
+      maxSpeedKmh: round(topSpeedKmh),
+      avgMovingSpeedKmh: round(movingMs > 0 ? distanceKm / (movingMs / 3600000) : 0),
+      stopCount,
+      pointCount: points.length,
+      startedAt: first ? new Date(first.time).toISOString() : null,
+      endedAt: last ? new Date(last.time).toISOString() : null,
+    };
+  }
+
+  /**
+   * Clean raw fixes into a simplified, encoded track
+   */
+  static process(history: LocationHistory[], options: TrackProcessingOptions = {}): ProcessedTrack {
+    const {
+      maxAccuracyMeters = MAX_ACCURACY_METERS,
+      maxSpeedKmh = MAX_SPEED_KMH,
+      toleranceMeters = SIMPLIFY_TOLERANCE_METERS,
+      smooth = true,
+    } = options;
+
+    const { chronological, accurate } = this.prepare(history, maxAccuracyMeters);
+    const plausible = this.rejectOutliers(accurate, maxSpeedKmh);
+    const filtered = smooth ? this.smooth(plausible) : plausible;
+    const points = this.simplify(
+      filtered.map((point): [number, number] => [point.latitude, point.longitude]),
+      toleranceMeters
+    );
+
+    let distanceKm = 0;
+    for (let i = 1; i < points.length; i++) {
+      distanceKm += calculateDistance(points[i - 1][0], points[i - 1][1], points[i][0], points[i][1]);
+    }
+
+    return {
+      polyline: encodePolyline(points),
+      points,
+      startedAt: filtered.length > 0 ? new Date(filtered[0].time).toISOString() : null,
+      endedAt: filtered.length > 0 ? new Date(filtered[filtered.length - 1].time).toISOString() : null,
+      distanceKm: Math.round(distanceKm * 1000) / 1000,
+      stats: {
+        rawPoints: history.length,
+        droppedInaccurate: chronological.length - accurate.length,
+        droppedOutliers: accurate.length - plausible.length,
+        simplifiedPoints: points.length,
+        downsampled: false,
+      },
+    };
+  }
+}
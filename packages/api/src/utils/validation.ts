@@ -1,5 +1,7 @@
 import { z } from 'zod';
+import { isClosedRing, isSimpleRing } from '@zoneflow/shared';
 import { ValidationError } from '../types/services.js';
+import { DOMAIN_EVENT_TYPES, type DomainEventType } from './events.js';
 
 // User validation schemas
 export const registerSchema = z.object({
@@ -30,21 +32,126 @@ export const createOrderSchema = z.object({
   deliveryLongitude: z.number().min(-180).max(180, 'Invalid delivery longitude'),
   priority: z.enum(['low', 'medium', 'high', 'urgent']).default('medium'),
   estimatedDelivery: z.string().datetime().optional(),
+  pickupReadyAt: z.string().datetime({ offset: true }).optional(),
+  deliveryWindowStart: z.string().datetime({ offset: true }).optional(),
+  deliveryWindowEnd: z.string().datetime({ offset: true }).optional(),
+  scheduledFor: z.string().datetime({ offset: true }).optional(),
+  externalRef: z.string().trim().min(1).max(100, 'External reference cannot exceed 100 characters').optional(),
   notes: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const time = (value?: string) => value ? Date.parse(value) : null;
+  const windowStart = time(data.deliveryWindowStart);
+  const windowEnd = time(data.deliveryWindowEnd);
+  const pickupReady = time(data.pickupReadyAt);
+  const scheduledFor = time(data.scheduledFor);
+
+  if (windowStart !== null && windowEnd !== null && windowStart >= windowEnd) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['deliveryWindowEnd'], message: 'Delivery window must end after it starts' });
+  }
+  if (windowEnd !== null && windowEnd <= Date.now()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['deliveryWindowEnd'], message: 'Delivery window must end in the future' });
+  }
+  if (scheduledFor !== null && scheduledFor <= Date.now()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['scheduledFor'], message: 'Scheduled release time must be in the future' });
+  }
+  // The goods have to be ready, and the order released, before the window closes
+  if (pickupReady !== null && windowEnd !== null && pickupReady >= windowEnd) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pickupReadyAt'], message: 'Pickup must be ready before the delivery window ends' });
+  }
+  if (scheduledFor !== null && windowEnd !== null && scheduledFor >= windowEnd) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['scheduledFor'], message: 'Scheduled release time must be before the delivery window ends' });
+  }
 });
 
+const orderStatusSchema = z.enum([
+  'pending', 'assigned', 'picked_up', 'in_transit', 'delivered', 'cancelled',
+  'failed_attempt', 'rescheduled', 'returned',
+]);
+
+export const failureReasonSchema = z.enum(['customer_absent', 'wrong_address', 'refused', 'access_denied', 'damaged', 'other']);
+
 export const updateOrderStatusSchema = z.object({
-  status: z.enum(['pending', 'assigned', 'picked_up', 'in_transit', 'delivered', 'cancelled']),
+  status: orderStatusSchema,
   notes: z.string().optional(),
+  reason: failureReasonSchema.optional(),
+  rescheduledFor: z.string().datetime({ offset: true }).optional(),
+}).superRefine((data, ctx) => {
+  if (data.status === 'failed_attempt' && !data.reason) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['reason'], message: 'A reason is required for a failed attempt' });
+  }
+  if (data.status === 'rescheduled' && !data.rescheduledFor) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['rescheduledFor'], message: 'A new time is required to reschedule' });
+  }
 });
 
 // Geofence validation schemas
-export const createGeofenceSchema = z.object({
+const geofenceRingSchema = z.array(z.tuple([
+  z.number().min(-90).max(90, 'Invalid ring latitude'),
+  z.number().min(-180).max(180, 'Invalid ring longitude'),
+]));
+
+const geofenceFieldsSchema = z.object({
   name: z.string().min(2, 'Geofence name must be at least 2 characters'),
   type: z.enum(['pickup', 'delivery', 'restricted', 'custom']),
-  centerLatitude: z.number().min(-90).max(90, 'Invalid center latitude'),
-  centerLongitude: z.number().min(-180).max(180, 'Invalid center longitude'),
-  radius: z.number().min(10).max(10000, 'Radius must be between 10 and 10000 meters'),
+  shape: z.enum(['circle', 'polygon', 'multipolygon']).default('circle'),
+  centerLatitude: z.number().min(-90).max(90, 'Invalid center latitude').optional(),
+  centerLongitude: z.number().min(-180).max(180, 'Invalid center longitude').optional(),
+  radius: z.number().min(10).max(10000, 'Radius must be between 10 and 10000 meters').optional(),
+  coordinates: z.union([geofenceRingSchema, z.array(geofenceRingSchema)]).optional(),
+  dwellTime: z.number().int().min(1).max(86400, 'Dwell time must be between 1 and 86400 seconds').nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+type GeofenceGeometryInput = Partial<z.infer<typeof geofenceFieldsSchema>>;
+
+const refineGeofenceRing = (ring: Array<[number, number]>, path: (string | number)[], ctx: z.RefinementCtx) => {
+  if (!isClosedRing(ring)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: 'Polygon ring must be closed with at least 3 distinct points' });
+  } else if (!isSimpleRing(ring)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: 'Polygon ring must not self-intersect' });
+  }
+};
+
+const refineGeofenceGeometry = (data: GeofenceGeometryInput, ctx: z.RefinementCtx) => {
+  const { shape, coordinates } = data;
+
+  if (shape === 'circle') {
+    if (data.centerLatitude === undefined || data.centerLongitude === undefined || data.radius === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['radius'], message: 'Circle geofences require centerLatitude, centerLongitude and radius' });
+    }
+    return;
+  }
+
+  const isSingleRing = !!coordinates && coordinates.length > 0 && typeof coordinates[0][0] === 'number';
+
+  if (shape === 'polygon') {
+    if (!coordinates || !isSingleRing) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['coordinates'], message: 'Polygon geofences require a ring of [lat, lng] coordinates' });
+      return;
+    }
+    refineGeofenceRing(coordinates as Array<[number, number]>, ['coordinates'], ctx);
+    return;
+  }
+
+  if (shape === 'multipolygon') {
+    if (!coordinates || coordinates.length === 0 || isSingleRing) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['coordinates'], message: 'Multipolygon geofences require an array of [lat, lng] rings' });
+      return;
+    }
+    (coordinates as Array<Array<[number, number]>>).forEach((ring, i) => refineGeofenceRing(ring, ['coordinates', i], ctx));
+  }
+};
+
+export const createGeofenceSchema = geofenceFieldsSchema.superRefine(refineGeofenceGeometry);
+
+// Geofence file import/export schemas; multipart and query fields arrive as strings
+export const geofenceImportOptionsSchema = z.object({
+  dryRun: z.enum(['true', 'false']).optional(),
+});
+
+export const geofenceExportQuerySchema = z.object({
+  format: z.enum(['geojson', 'kml']).optional(),
+  type: z.enum(['pickup', 'delivery', 'restricted', 'custom']).optional(),
 });
 
 // Location validation schemas
@@ -57,6 +164,12 @@ export const updateLocationSchema = z.object({
   orderId: z.string().optional(),
 });
 
+export const locationBatchSchema = z.object({
+  fixes: z.array(updateLocationSchema.extend({
+    timestamp: z.string().datetime({ offset: true }),
+  })).min(1, 'At least one fix is required').max(500, 'A batch can contain at most 500 fixes'),
+});
+
 // Business validation schemas
 export const createBusinessSchema = z.object({
   name: z.string().min(2, 'Business name must be at least 2 characters'),
@@ -96,8 +209,66 @@ export const validateRequest = <T>(schema: z.ZodSchema<T>, data: unknown): T =>
 // Driver update schema (exclude password updates via this route)
 export const updateDriverSchema = createDriverSchema.omit({ password: true }).partial();
 
-// Geofence update schema (partial)
-export const updateGeofenceSchema = createGeofenceSchema.partial();
+// Geofence update schema (partial); geometry is only re-validated when the shape is sent
+export const updateGeofenceSchema = geofenceFieldsSchema.partial().superRefine((data, ctx) => {
+  if (data.coordinates !== undefined && data.shape === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['shape'], message: 'shape is required when updating coordinates' });
+    return;
+  }
+  refineGeofenceGeometry(data, ctx);
+});
+
+// Geofence trigger schemas; action config is checked per action type
+const statusUpdateActionSchema = z.object({
+  statuses: z.array(z.enum(['picked_up', 'in_transit', 'delivered'])).min(1, 'At least one status is required'),
+  matchOrderLocation: z.enum(['pickup', 'delivery']).optional(),
+});
+
+const geofenceTriggerFieldsSchema = z.object({
+  eventType: z.enum(['enter', 'exit', 'dwell']),
+  actionType: z.enum(['webhook', 'notification', 'status_update']),
+  actionConfig: z.record(z.any()).default({}),
+  isActive: z.boolean().optional(),
+});
+
+const webhookActionSchema = z.object({
+  webhookId: z.string().min(1, 'webhookId is required'),
+});
+
+const refineTriggerAction = (data: Partial<z.infer<typeof geofenceTriggerFieldsSchema>>, ctx: z.RefinementCtx) => {
+  const actionSchema = data.actionType === 'status_update' ? statusUpdateActionSchema
+    : data.actionType === 'webhook' ? webhookActionSchema
+    : undefined;
+  if (!actionSchema) return;
+  const result = actionSchema.safeParse(data.actionConfig ?? {});
+  if (!result.success) {
+    result.error.issues.forEach(issue => ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['actionConfig', ...issue.path],
+      message: issue.message,
+    }));
+  }
+};
+
+export const createGeofenceTriggerSchema = geofenceTriggerFieldsSchema.superRefine(refineTriggerAction);
+
+export const updateGeofenceTriggerSchema = geofenceTriggerFieldsSchema.partial().superRefine((data, ctx) => {
+  if (data.actionConfig !== undefined && data.actionType === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['actionType'], message: 'actionType is required when updating actionConfig' });
+    return;
+  }
+  refineTriggerAction(data, ctx);
+});
+
+// Webhook schemas
+export const createWebhookSchema = z.object({
+  url: z.string().url('Invalid webhook URL').refine(url => /^https?:\/\//.test(url), 'Webhook URL must use http or https'),
+  events: z.array(z.enum(DOMAIN_EVENT_TYPES as [DomainEventType, ...DomainEventType[]])).min(1, 'At least one event is required'),
+  secret: z.string().min(16, 'Secret must be at least 16 characters').optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateWebhookSchema = createWebhookSchema.partial();
 
 // Accept invite schema
 export const acceptInviteSchema = z.object({
@@ -107,7 +278,128 @@ export const acceptInviteSchema = z.object({
 
 // Orders list filter schema
 export const orderListFilterSchema = z.object({
-  status: z.enum(['pending','assigned','picked_up','in_transit','delivered','cancelled']).optional(),
+  status: orderStatusSchema.optional(),
   priority: z.enum(['low','medium','high','urgent']).optional(),
   driverId: z.string().optional(),
-});
\ No newline at end of file
+  scheduled: z.enum(['true', 'false']).optional(),
+  windowFrom: z.string().datetime({ offset: true }).optional(),
+  windowTo: z.string().datetime({ offset: true }).optional(),
+});
+
+// Export schemas
+export const exportDatasetSchema = z.enum(['orders', 'drivers', 'geofence-events', 'locations']);
+
+export const exportQuerySchema = orderListFilterSchema.extend({
+  format: z.enum(['csv', 'xlsx', 'geojson']).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  available: z.enum(['true', 'false']).optional(),
+  geofenceId: z.string().optional(),
+  eventType: z.enum(['enter', 'exit', 'dwell']).optional(),
+  orderId: z.string().optional(),
+});
+
+// Location retention schemas
+export const updateRetentionSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  downsampleAfterDays: z.number().int().min(1, 'Downsampling must start after at least a day').max(3650).optional(),
+  downsampleIntervalSeconds: z.number().int().min(5).max(3600, 'Downsample interval cannot exceed an hour').optional(),
+  deleteAfterDays: z.number().int().min(1).max(3650, 'Retention cannot exceed ten years').optional(),
+  archive: z.boolean().optional(),
+  archiveFormat: z.enum(['ndjson', 'gpx']).optional(),
+});
+
+export const runRetentionSchema = z.object({
+  dryRun: z.boolean().default(true),
+  vacuum: z.boolean().default(false),
+});
+
+// SLA settings schema
+const slaMinutesSchema = z.number().int().min(1, 'SLA limits must be at least a minute').max(10080, 'SLA limits cannot exceed a week').nullable();
+
+const slaRuleSchema = z.object({
+  maxAssignMinutes: slaMinutesSchema,
+  maxPickupMinutes: slaMinutesSchema,
+  maxDeliveryMinutes: slaMinutesSchema,
+}).partial();
+
+export const updateSlaSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  atRiskMinutes: z.number().int().min(0).max(1440, 'At-risk warning cannot exceed a day').optional(),
+  rules: z.object({
+    low: slaRuleSchema,
+    medium: slaRuleSchema,
+    high: slaRuleSchema,
+    urgent: slaRuleSchema,
+  }).partial().optional(),
+});
+
+// Order import schemas; the mapping names the file column for each order field
+const importColumnSchema = z.string().trim().min(1, 'Column names cannot be empty').optional();
+
+export const orderImportMappingSchema = z.object({
+  externalRef: importColumnSchema,
+  customerName: importColumnSchema,
+  customerPhone: importColumnSchema,
+  customerEmail: importColumnSchema,
+  pickupAddress: importColumnSchema,
+  pickupLatitude: importColumnSchema,
+  pickupLongitude: importColumnSchema,
+  deliveryAddress: importColumnSchema,
+  deliveryLatitude: importColumnSchema,
+  deliveryLongitude: importColumnSchema,
+  priority: importColumnSchema,
+  estimatedDelivery: importColumnSchema,
+  pickupReadyAt: importColumnSchema,
+  deliveryWindowStart: importColumnSchema,
+  deliveryWindowEnd: importColumnSchema,
+  scheduledFor: importColumnSchema,
+  notes: importColumnSchema,
+}).strict();
+
+export const orderImportOptionsSchema = z.object({
+  dryRun: z.enum(['true', 'false']).optional(),
+  mapping: orderImportMappingSchema.optional(),
+});
+
+// Delivery attempt policy schema
+export const updateDeliveryAttemptSettingsSchema = z.object({
+  maxAttempts: z.number().int().min(1, 'At least one attempt is required').max(10, 'At most 10 attempts are allowed').optional(),
+  autoRequeue: z.boolean().optional(),
+  retryDelayMinutes: z.number().int().min(0).max(10080, 'Retry delay cannot exceed a week').optional(),
+});
+
+// Proof of delivery schemas; multipart fields arrive as strings
+export const submitProofSchema = z.object({
+  recipientName: z.string().trim().min(1, 'Recipient name is required').max(200),
+  latitude: z.coerce.number().min(-90).max(90, 'Invalid latitude'),
+  longitude: z.coerce.number().min(-180).max(180, 'Invalid longitude'),
+  accuracy: z.coerce.number().min(0).optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+export const updateProofSettingsSchema = z.object({
+  required: z.boolean().optional(),
+  requireSignature: z.boolean().optional(),
+  requirePhoto: z.boolean().optional(),
+  maxDistanceMeters: z.number().int().min(10, 'Distance limit must be at least 10 meters').max(10000, 'Distance limit cannot exceed 10 km').optional(),
+  rejectOutOfRange: z.boolean().optional(),
+});
+
+// Dispatch settings schema
+const dispatchWeightSchema = z.number().min(0, 'Weight cannot be negative').max(1, 'Weight cannot exceed 1');
+
+export const updateDispatchSettingsSchema = z.object({
+  mode: z.enum(['off', 'propose', 'auto']).optional(),
+  strategy: z.enum(['nearest', 'least_loaded', 'balanced', 'custom']).optional(),
+  weights: z.object({
+    distance: dispatchWeightSchema,
+    load: dispatchWeightSchema,
+    vehicle: dispatchWeightSchema,
+    freshness: dispatchWeightSchema,
+  }).partial().optional(),
+  maxDistanceKm: z.number().positive('Max distance must be positive').max(500, 'Max distance cannot exceed 500 km').optional(),
+  maxActiveOrders: z.number().int().min(1, 'Drivers must be allowed at least one order').max(50).optional(),
+  maxLocationAgeMinutes: z.number().int().min(1).max(1440, 'Max location age cannot exceed a day').optional(),
+  vehicleScores: z.record(z.string(), z.number().min(0).max(1)).optional(),
+});
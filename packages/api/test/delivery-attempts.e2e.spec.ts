@@ -0,0 +1,166 @@
+import createApp from '../src/app';
+import { useIsolatedDb } from './helpers/db';
+import { DeliveryAttemptService } from '../src/services/delivery-attempt.service';
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+async function bootstrapDriver(app: any, ownerToken: string) {
+  const email = `driver+${Date.now()}@example.com`;
+  const create = await app.request('/api/drivers', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${ownerToken}` },
+    body: JSON.stringify({ name: 'Driver', email, phone: '5555555555', password: 'DriverPass123!', vehicleType: 'bike' })
+  });
+  return (await create.json()).data.driver.id as string;
+}
+
+describe('Failed delivery attempts E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+
+  async function setup(policy: Record<string, unknown>) {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driverId = await bootstrapDriver(app, token);
+
+    const settingsRes = await app.request('/api/delivery-attempts/settings', {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify(policy)
+    });
+    expect(settingsRes.status).toBe(200);
+
+    const orderRes = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Alice',
+        pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+        priority: 'medium'
+      })
+    });
+    const order = (await orderRes.json()).data.order;
+
+    const setStatus = (body: Record<string, unknown>) => app.request(`/api/orders/${order.id}/status`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify(body)
+    });
+    const dispatchAttempt = async () => {
+      const assigned = await app.request(`/api/orders/${order.id}/assign`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({ driverId })
+      });
+      expect(assigned.status).toBe(200);
+      await setStatus({ status: 'picked_up' });
+      await setStatus({ status: 'in_transit' });
+    };
+
+    return { headers, order, driverId, setStatus, dispatchAttempt };
+  }
+
+  it('re-queues failed orders until the attempt limit, then only allows a return', async () => {
+    const { headers, order, driverId, setStatus, dispatchAttempt } = await setup({ maxAttempts: 2 });
+
+    await dispatchAttempt();
+    const missingReason = await setStatus({ status: 'failed_attempt' });
+    expect(missingReason.status).toBe(400);
+
+    const first = await setStatus({ status: 'failed_attempt', reason: 'customer_absent', notes: 'Nobody home' });
+    expect(first.status).toBe(200);
+    expect((await first.json()).data.order).toMatchObject({ status: 'pending', driver_id: null, attempt_count: 1, actual_pickup: null });
+
+    const requeuedAt = Date.now();
+    await dispatchAttempt();
+    const secondAttempt = (await (await app.request(`/api/orders/${order.id}`, { headers })).json()).data.order;
+    expect(Date.parse(secondAttempt.actual_pickup)).toBeGreaterThanOrEqual(requeuedAt);
+    const second = await setStatus({ status: 'failed_attempt', reason: 'wrong_address' });
+    expect((await second.json()).data.order).toMatchObject({ status: 'failed_attempt', driver_id: driverId, attempt_count: 2 });
+
+    const retry = await setStatus({ status: 'pending' });
+    expect(retry.status).toBe(400);
+    expect((await retry.json()).error).toContain('All 2 delivery attempts have been used');
+    const reassign = await app.request(`/api/orders/${order.id}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId })
+    });
+    expect(reassign.status).toBe(400);
+
+    const returned = await setStatus({ status: 'returned', reason: 'wrong_address' });
+    expect((await returned.json()).data.order.status).toBe('returned');
+    const cancel = await app.request(`/api/orders/${order.id}/cancel`, { method: 'PATCH', headers, body: JSON.stringify({}) });
+    expect(cancel.status).toBe(400);
+
+    const detail = (await (await app.request(`/api/orders/${order.id}`, { headers })).json()).data;
+    expect(detail.attempts.map((a: any) => [a.attempt_number, a.reason, a.driver_id])).toEqual([
+      [1, 'customer_absent', driverId],
+      [2, 'wrong_address', driverId],
+    ]);
+
+    const { events } = (await (await app.request(`/api/orders/${order.id}/timeline`, { headers })).json()).data;
+    const failures = events.filter((e: any) => e.to_status === 'failed_attempt');
+    expect(failures.map((e: any) => [e.reason, e.note])).toEqual([['customer_absent', 'Nobody home'], ['wrong_address', null]]);
+    expect(events.find((e: any) => e.from_status === 'failed_attempt' && e.to_status === 'pending').note)
+      .toBe('Re-queued after attempt 1 of 2');
+  });
+
+  it('holds failed orders until their retry time before re-queueing them', async () => {
+    const { headers, order, driverId, setStatus, dispatchAttempt } = await setup({ maxAttempts: 3, retryDelayMinutes: 30 });
+
+    await dispatchAttempt();
+    const before = Date.now();
+    const failed = await setStatus({ status: 'failed_attempt', reason: 'access_denied' });
+    const held = (await failed.json()).data.order;
+    expect(held).toMatchObject({ status: 'rescheduled', driver_id: null, attempt_count: 1 });
+    const wait = Date.parse(held.rescheduled_for) - before;
+    expect(wait).toBeGreaterThanOrEqual(30 * 60000 - 1000);
+    expect(wait).toBeLessThanOrEqual(30 * 60000 + 5000);
+
+    const early = await DeliveryAttemptService.requeueDue(new Date(Date.now() + 10 * 60000));
+    expect(early.map(o => o.id)).not.toContain(order.id);
+    const assignEarly = await app.request(`/api/orders/${order.id}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId })
+    });
+    expect(assignEarly.status).toBe(400);
+    expect((await assignEarly.json()).error).toContain('Order is rescheduled');
+
+    const due = await DeliveryAttemptService.requeueDue(new Date(Date.now() + 31 * 60000));
+    expect(due.find(o => o.id === order.id)).toMatchObject({ status: 'pending', rescheduled_for: null });
+
+    // Without automatic re-queueing a dispatcher reschedules by hand, to a time in the future
+    await app.request('/api/delivery-attempts/settings', { method: 'PUT', headers, body: JSON.stringify({ autoRequeue: false }) });
+    await dispatchAttempt();
+    const refused = await setStatus({ status: 'failed_attempt', reason: 'refused' });
+    expect((await refused.json()).data.order.status).toBe('failed_attempt');
+    const past = await setStatus({ status: 'rescheduled', rescheduledFor: new Date(Date.now() - 60000).toISOString() });
+    expect(past.status).toBe(400);
+    const rescheduled = await setStatus({ status: 'rescheduled', rescheduledFor: new Date(Date.now() + 3600000).toISOString() });
+    expect((await rescheduled.json()).data.order).toMatchObject({ status: 'rescheduled', attempt_count: 2 });
+  });
+
+  it('rejects invalid attempt policies', async () => {
+    const { token } = await bootstrapOwner(app);
+    const res = await app.request('/api/delivery-attempts/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ maxAttempts: 0 })
+    });
+    expect(res.status).toBe(400);
+  });
+
+  afterAll(() => iso.cleanup());
+});
@@ -0,0 +1,150 @@
+import createApp from '../src/app';
+import { DispatchService } from '../src/services/dispatch.service';
+import { useIsolatedDb } from './helpers/db';
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+async function bootstrapDriver(app: any, ownerToken: string, name: string) {
+  const email = `driver+${name.toLowerCase()}+${Date.now()}@example.com`;
+  const create = await app.request('/api/drivers', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${ownerToken}` },
+    body: JSON.stringify({ name, email, phone: '5555555555', password: 'DriverPass123!', vehicleType: 'bike' })
+  });
+  const driverId = (await create.json()).data.driver.id;
+
+  const login = await app.request('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'DriverPass123!' })
+  });
+  return { driverId, token: (await login.json()).data.token };
+}
+
+describe('Dispatch E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+  let stopAutoDispatch: () => void;
+
+  beforeAll(() => {
+    stopAutoDispatch = DispatchService.startAutoDispatch();
+  });
+
+  afterAll(() => {
+    stopAutoDispatch();
+    iso.cleanup();
+  });
+
+  it('ranks drivers and auto-assigns new orders within capacity', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const near = await bootstrapDriver(app, token, 'Near');
+    const far = await bootstrapDriver(app, token, 'Far');
+
+    const locate = (driver: { token: string }, latitude: number, longitude: number) => app.request('/api/location/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ latitude, longitude })
+    });
+    await locate(near, 40.711, -74.011);
+    await locate(far, 40.76, -73.97);
+
+    const createOrder = async (customerName: string) => {
+      const res = await app.request('/api/orders', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          customerName,
+          pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+          deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+          priority: 'medium'
+        })
+      });
+      return (await res.json()).data.order;
+    };
+    const getOrder = async (id: string) => (await (await app.request(`/api/orders/${id}`, { headers })).json()).data.order;
+
+    // Dispatch is off by default, so the order waits for a dispatcher
+    const manual = await createOrder('Manual');
+    const candidates = (await (await app.request(`/api/dispatch/orders/${manual.id}/candidates`, { headers })).json()).data.candidates;
+    expect(candidates.map((c: any) => c.driverId)).toEqual([near.driverId, far.driverId]);
+    expect(candidates[0].score).toBeGreaterThan(candidates[1].score);
+    await app.request(`/api/orders/${manual.id}/cancel`, { method: 'PATCH', headers, body: JSON.stringify({}) });
+
+    const invalid = await app.request('/api/dispatch/settings', {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ mode: 'sometimes' })
+    });
+    expect(invalid.status).toBe(400);
+
+    const update = await app.request('/api/dispatch/settings', {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ mode: 'auto', strategy: 'nearest', maxActiveOrders: 1 })
+    });
+    expect((await update.json()).data.settings).toMatchObject({ mode: 'auto', strategy: 'nearest', maxActiveOrders: 1, maxDistanceKm: 25 });
+
+    const first = await createOrder('First');
+    await vi.waitFor(async () => expect((await getOrder(first.id)).driver_id).toBe(near.driverId));
+
+    // The nearest driver is at capacity, so the next order goes further out
+    const second = await createOrder('Second');
+    await vi.waitFor(async () => expect((await getOrder(second.id)).driver_id).toBe(far.driverId));
+
+    // Nobody has capacity left; the order is picked up once a driver frees up
+    const third = await createOrder('Third');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect((await getOrder(third.id)).status).toBe('pending');
+
+    await app.request(`/api/orders/${first.id}/cancel`, { method: 'PATCH', headers, body: JSON.stringify({}) });
+    await vi.waitFor(async () => expect((await getOrder(third.id)).driver_id).toBe(near.driverId));
+  });
+
+  it('keeps dispatching waiting orders past one that no driver can reach', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token, 'Solo');
+    const driverHeaders = { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` };
+
+    await app.request('/api/location/update', {
+      method: 'POST',
+      headers: driverHeaders,
+      body: JSON.stringify({ latitude: 40.711, longitude: -74.011 })
+    });
+    await app.request('/api/location/availability', { method: 'PATCH', headers: driverHeaders, body: JSON.stringify({ isAvailable: false }) });
+    await app.request('/api/dispatch/settings', { method: 'PUT', headers, body: JSON.stringify({ mode: 'auto', strategy: 'nearest' }) });
+
+    const createOrder = async (customerName: string, priority: string, pickupLatitude: number) => {
+      const res = await app.request('/api/orders', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          customerName,
+          pickupAddress: '1 Pickup St', pickupLatitude, pickupLongitude: -74.01,
+          deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+          priority
+        })
+      });
+      return (await res.json()).data.order;
+    };
+    const getOrder = async (id: string) => (await (await app.request(`/api/orders/${id}`, { headers })).json()).data.order;
+
+    // The urgent pickup is well beyond the 25 km limit and comes first in the queue
+    const unreachable = await createOrder('Far Away', 'urgent', 41.5);
+    const reachable = await createOrder('Nearby', 'medium', 40.71);
+
+    await app.request('/api/location/availability', { method: 'PATCH', headers: driverHeaders, body: JSON.stringify({ isAvailable: true }) });
+    await vi.waitFor(async () => expect((await getOrder(reachable.id)).driver_id).toBe(driver.driverId));
+    expect(await getOrder(unreachable.id)).toMatchObject({ status: 'pending', driver_id: null });
+  });
+});
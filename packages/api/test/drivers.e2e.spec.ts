@@ -1,4 +1,6 @@
 import createApp from '../src/app';
+import { DriverWatchdogService } from '../src/services/driver-watchdog.service';
+import { DomainEvents, DomainEvent } from '../src/utils/events';
 import { useIsolatedDb } from './helpers/db';
 
 async function bootstrapOwner(app: any) {
@@ -38,6 +40,141 @@ describe('Drivers E2E', () => {
     const json = await list.json();
     expect(json.data.pagination.limit).toBeLessThanOrEqual(100);
   });
+
+  it('plans a driver route that keeps pickups first and favors urgent drop-offs', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const email = `driver+${Date.now()}@example.com`;
+
+    const create = await app.request('/api/drivers', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Route Driver', email, phone: '5555555555', password: 'DriverPass123!', vehicleType: 'bike' })
+    });
+    const driverId = (await create.json()).data.driver.id;
+    const login = await app.request('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password: 'DriverPass123!' })
+    });
+    const driverToken = (await login.json()).data.token;
+
+    const createAssigned = async (priority: string, pickup: [number, number], delivery: [number, number]) => {
+      const res = await app.request('/api/orders', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          customerName: `${priority} customer`,
+          pickupAddress: '1 Pickup St', pickupLatitude: pickup[0], pickupLongitude: pickup[1],
+          deliveryAddress: '2 Delivery Ave', deliveryLatitude: delivery[0], deliveryLongitude: delivery[1],
+          priority
+        })
+      });
+      const order = (await res.json()).data.order;
+      await app.request(`/api/orders/${order.id}/assign`, { method: 'PATCH', headers, body: JSON.stringify({ driverId }) });
+      return order;
+    };
+
+    // Already collected and heading the other way, but urgent
+    const urgent = await createAssigned('urgent', [0, 0], [0, -0.02]);
+    await app.request(`/api/orders/${urgent.id}/status`, { method: 'PATCH', headers, body: JSON.stringify({ status: 'picked_up' }) });
+    const low = await createAssigned('low', [0, 0.01], [0, 0.02]);
+
+    await app.request('/api/location/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driverToken}` },
+      body: JSON.stringify({ latitude: 0, longitude: 0 })
+    });
+
+    const res = await app.request(`/api/drivers/${driverId}/route`, { headers });
+    expect(res.status).toBe(200);
+    const { route } = (await res.json()).data;
+    expect(route.stops.map((s: any) => [s.orderId, s.type])).toEqual([
+      [urgent.id, 'delivery'],
+      [low.id, 'pickup'],
+      [low.id, 'delivery']
+    ]);
+    const arrivals = route.stops.map((s: any) => Date.parse(s.estimatedArrival));
+    expect(arrivals).toEqual([...arrivals].sort((a, b) => a - b));
+    expect(route.totalDistanceKm).toBeGreaterThan(0);
+
+    const missing = await app.request('/api/drivers/unknown/route', { headers });
+    expect(missing.status).toBe(404);
+  });
+
+  it('marks silent drivers stale then offline and alerts once while they hold orders', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const email = `driver+watchdog+${Date.now()}@example.com`;
+    const create = await app.request('/api/drivers', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Quiet Driver', email, phone: '5555555555', password: 'DriverPass123!', vehicleType: 'car' })
+    });
+    const driverId = (await create.json()).data.driver.id;
+    const login = await app.request('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password: 'DriverPass123!' })
+    });
+    const driverToken = (await login.json()).data.token;
+
+    const orderRes = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Alice',
+        pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+        priority: 'medium'
+      })
+    });
+    const order = (await orderRes.json()).data.order;
+    await app.request(`/api/orders/${order.id}/assign`, { method: 'PATCH', headers, body: JSON.stringify({ driverId }) });
+
+    const events: DomainEvent[] = [];
+    const unsubscribe = DomainEvents.subscribe((event) => {
+      if (event.data.driverId === driverId && event.type.startsWith('driver.') && event.type !== 'driver.location_updated') {
+        events.push(event);
+      }
+    });
+
+    // Drivers start offline and come online with their first report
+    await app.request('/api/location/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driverToken}` },
+      body: JSON.stringify({ latitude: 40.72, longitude: -74.0 })
+    });
+    // Other test files share the database, so only this driver's changes are checked
+    const check = async (minutes: number) => (await DriverWatchdogService.checkDrivers(new Date(Date.now() + minutes * 60000)))
+      .filter(change => change.driverId === driverId);
+    expect(await check(1)).toEqual([]);
+
+    expect(await check(10)).toEqual([
+      expect.objectContaining({ status: 'stale', previousStatus: 'online', activeOrders: [expect.objectContaining({ id: order.id })] }),
+    ]);
+    await check(60);
+
+    const mapRes = await app.request('/api/dashboard/map', { headers });
+    const mapDriver = (await mapRes.json()).data.drivers.find((d: any) => d.id === driverId);
+    expect(mapDriver.connection_status).toBe('offline');
+
+    await app.request('/api/location/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driverToken}` },
+      body: JSON.stringify({ latitude: 40.73, longitude: -73.99 })
+    });
+    unsubscribe();
+
+    expect(events.map(e => `${e.type}:${e.data.status}`)).toEqual([
+      'driver.connection_changed:online',
+      'driver.connection_changed:stale',
+      'driver.signal_lost:stale',
+      'driver.connection_changed:offline',
+      'driver.connection_changed:online',
+    ]);
+  });
+
   afterAll(() => iso.cleanup());
 });
 
@@ -0,0 +1,166 @@
+import * as XLSX from 'xlsx';
+import createApp from '../src/app';
+import { useIsolatedDb } from './helpers/db';
+
+// Small pages so every export crosses page boundaries, and a workbook cap the test can reach
+vi.hoisted(() => {
+  process.env.EXPORT_PAGE_SIZE = '2';
+  process.env.EXPORT_XLSX_MAX_ROWS = '5';
+});
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+async function bootstrapDriver(app: any, ownerToken: string) {
+  const email = `driver+${Date.now()}@example.com`;
+  const create = await app.request('/api/drivers', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${ownerToken}` },
+    body: JSON.stringify({ name: 'Driver, Jr.', email, phone: '5555555555', password: 'DriverPass123!', vehicleType: 'bike' })
+  });
+  const driverId = (await create.json()).data.driver.id;
+
+  const login = await app.request('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'DriverPass123!' })
+  });
+  return { driverId, token: (await login.json()).data.token };
+}
+
+const parseCsv = (text: string) => text.trim().split('\r\n');
+
+describe('Exports E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+
+  afterAll(() => iso.cleanup());
+
+  it('exports filtered orders as CSV, XLSX and GeoJSON', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+    const priorities = ['high', 'low', 'high', 'high', 'medium'];
+    for (const [index, priority] of priorities.entries()) {
+      await app.request('/api/orders', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          customerName: `Customer ${index}`,
+          pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+          deliveryAddress: `${index} Delivery Ave, Apt "B"`, deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+          priority,
+        })
+      });
+    }
+
+    const csv = await app.request('/api/exports/orders?priority=high', { headers });
+    expect(csv.status).toBe(200);
+    expect(csv.headers.get('Content-Type')).toContain('text/csv');
+    expect(csv.headers.get('Content-Disposition')).toMatch(/attachment; filename="orders-\d{4}-\d{2}-\d{2}\.csv"/);
+    const [header, ...rows] = parseCsv(await csv.text());
+    expect(header.split(',').slice(0, 5)).toEqual(['id', 'tracking_code', 'external_ref', 'status', 'priority']);
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toContain('Customer 0');
+    expect(rows[0]).toContain('"0 Delivery Ave, Apt ""B"""');
+    expect(rows[2]).toContain('Customer 3');
+
+    const xlsx = await app.request('/api/exports/orders?format=xlsx', { headers });
+    expect(xlsx.headers.get('Content-Type')).toContain('spreadsheetml');
+    const workbook = XLSX.read(Buffer.from(await xlsx.arrayBuffer()), { type: 'buffer' });
+    const sheet = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets.orders);
+    expect(sheet.map(row => row.customer_name)).toEqual(priorities.map((_, index) => `Customer ${index}`));
+
+    // created_at is stored as SQLite time, so an offset bound is normalized before comparing
+    const hourAgo = new Date(Date.now() - 3600000);
+    const local = `${new Date(hourAgo.getTime() + 7200000).toISOString().slice(0, 19)}+02:00`;
+    expect(parseCsv(await (await app.request(`/api/exports/orders?from=${encodeURIComponent(local)}`, { headers })).text())).toHaveLength(6);
+    expect(parseCsv(await (await app.request(`/api/exports/orders?to=${encodeURIComponent(local)}`, { headers })).text())).toHaveLength(1);
+
+    const geojson = await (await app.request('/api/exports/orders?format=geojson&priority=medium', { headers })).json();
+    expect(geojson.type).toBe('FeatureCollection');
+    expect(geojson.features).toHaveLength(1);
+    expect(geojson.features[0]).toMatchObject({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [-73.98, 40.75] },
+      properties: { customer_name: 'Customer 4', priority: 'medium' },
+    });
+
+    const empty = await (await app.request('/api/exports/orders?format=geojson&status=delivered', { headers })).json();
+    expect(empty).toEqual({ type: 'FeatureCollection', features: [] });
+
+    await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Customer 5',
+        pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+        deliveryAddress: '5 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+        priority: 'low',
+      })
+    });
+    expect((await app.request('/api/exports/orders?format=xlsx', { headers })).status).toBe(400);
+    expect((await app.request('/api/exports/orders?format=csv', { headers })).status).toBe(200);
+  });
+
+  it('exports drivers, geofence events and location fixes for the business only', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+
+    await app.request('/api/geofences', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        name: 'Depot', type: 'pickup', shape: 'polygon',
+        coordinates: [[40.70, -74.02], [40.70, -74.00], [40.72, -74.00], [40.72, -74.02], [40.70, -74.02]]
+      })
+    });
+    for (const [latitude, longitude] of [[40.69, -74.01], [40.71, -74.01], [40.73, -74.01]]) {
+      await app.request('/api/location/update', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+        body: JSON.stringify({ latitude, longitude })
+      });
+    }
+
+    const drivers = await (await app.request('/api/exports/drivers?format=geojson&available=true', { headers })).json();
+    expect(drivers.features).toHaveLength(1);
+    expect(drivers.features[0].properties).toMatchObject({ id: driver.driverId, name: 'Driver, Jr.', is_available: true });
+    expect(drivers.features[0].geometry.coordinates).toEqual([-74.01, 40.73]);
+
+    const events = parseCsv(await (await app.request('/api/exports/geofence-events', { headers })).text());
+    expect(events.slice(1).map(row => row.split(',')[3])).toEqual(['enter', 'exit']);
+    const exits = parseCsv(await (await app.request('/api/exports/geofence-events?eventType=exit', { headers })).text());
+    expect(exits).toHaveLength(2);
+
+    const fixes = await (await app.request(`/api/exports/locations?format=geojson&driverId=${driver.driverId}`, { headers })).json();
+    expect(fixes.features.map((f: any) => f.geometry.coordinates[1])).toEqual([40.69, 40.71, 40.73]);
+    const future = new Date(Date.now() + 3600000).toISOString();
+    const none = parseCsv(await (await app.request(`/api/exports/locations?from=${future}`, { headers })).text());
+    expect(none).toHaveLength(1);
+
+    // Another business sees none of it
+    const other = await bootstrapOwner(app);
+    const otherHeaders = { Authorization: `Bearer ${other.token}` };
+    expect(parseCsv(await (await app.request('/api/exports/locations', { headers: otherHeaders })).text())).toHaveLength(1);
+  });
+
+  it('rejects unknown datasets, formats and filters', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { Authorization: `Bearer ${token}` };
+
+    expect((await app.request('/api/exports/invoices', { headers })).status).toBe(400);
+    expect((await app.request('/api/exports/orders?format=pdf', { headers })).status).toBe(400);
+    expect((await app.request('/api/exports/orders?from=yesterday', { headers })).status).toBe(400);
+    expect((await app.request('/api/exports/orders')).status).toBe(401);
+  });
+});
@@ -0,0 +1,153 @@
+import createApp from '../src/app';
+import { GeofenceService } from '../src/services/geofence.service';
+import { useIsolatedDb } from './helpers/db';
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+// GeoJSON positions are [lng, lat]
+const square = [[-74.02, 40.70], [-74.00, 40.70], [-74.00, 40.72], [-74.02, 40.72], [-74.02, 40.70]];
+const east = [[-73.98, 40.70], [-73.96, 40.70], [-73.96, 40.72], [-73.98, 40.72], [-73.98, 40.70]];
+
+const featureCollection = {
+  type: 'FeatureCollection',
+  features: [
+    { type: 'Feature', properties: { name: 'Depot', type: 'pickup', radius: 250 }, geometry: { type: 'Point', coordinates: [-74.01, 40.71] } },
+    { type: 'Feature', properties: { name: 'Downtown', type: 'delivery', dwellTime: 120 }, geometry: { type: 'Polygon', coordinates: [square] } },
+    { type: 'Feature', properties: { name: 'Both sides' }, geometry: { type: 'MultiPolygon', coordinates: [[square], [east]] } },
+    { type: 'Feature', properties: { name: 'No radius' }, geometry: { type: 'Point', coordinates: [-74.01, 40.71] } },
+    { type: 'Feature', properties: { name: 'Open' }, geometry: { type: 'Polygon', coordinates: [square.slice(0, -1)] } },
+    { type: 'Feature', properties: { name: 'Route' }, geometry: { type: 'LineString', coordinates: square } },
+  ],
+};
+
+const kml = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Zones</name>
+    <Placemark>
+      <name><![CDATA[Harbour & Docks]]></name>
+      <ExtendedData><Data name="type"><value>restricted</value></Data></ExtendedData>
+      <Polygon><outerBoundaryIs><LinearRing>
+        <coordinates>-74.02,40.70,0 -74.00,40.70,0 -74.00,40.72,0 -74.02,40.72,0 -74.02,40.70,0</coordinates>
+      </LinearRing></outerBoundaryIs></Polygon>
+    </Placemark>
+    <Placemark>
+      <name>Hub</name>
+      <ExtendedData><SchemaData schemaUrl="#zones"><SimpleData name="radius">400</SimpleData></SchemaData></ExtendedData>
+      <Point><coordinates>-74.01,40.71</coordinates></Point>
+    </Placemark>
+  </Document>
+</kml>`;
+
+describe('Geofence import and export E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+
+  afterAll(() => iso.cleanup());
+
+  const upload = (token: string, file: File, dryRun?: boolean) => {
+    const form = new FormData();
+    form.append('file', file);
+    if (dryRun) form.append('dryRun', 'true');
+    return app.request('/api/geofences/import', { method: 'POST', headers: { Authorization: `Bearer ${token}` }, body: form });
+  };
+  const listGeofences = async (token: string) =>
+    (await (await app.request('/api/geofences', { headers: { Authorization: `Bearer ${token}` } })).json()).data.geofences;
+
+  it('previews and imports GeoJSON features, reporting the ones that cannot be geofences', async () => {
+    const { token } = await bootstrapOwner(app);
+    const file = () => new File([JSON.stringify(featureCollection)], 'zones.geojson', { type: 'application/geo+json' });
+
+    const preview = await upload(token, file(), true);
+    expect(preview.status).toBe(200);
+    const dry = (await preview.json()).data;
+    expect(dry).toMatchObject({ dryRun: true, total: 6, valid: 3, created: 0, failed: 3 });
+    expect(dry.features[0].geofence).toMatchObject({ shape: 'circle', centerLatitude: 40.71, centerLongitude: -74.01, radius: 250 });
+    expect(dry.features[1].geofence.coordinates[0]).toEqual([40.70, -74.02]);
+    expect(dry.features[3].errors[0]).toContain('radius');
+    expect(dry.features[4].errors[0]).toContain('coordinates: Polygon ring must be closed');
+    expect(dry.features[5].errors[0]).toContain('LineString');
+    expect(await listGeofences(token)).toHaveLength(0);
+
+    const imported = await upload(token, file());
+    expect(imported.status).toBe(201);
+    expect((await imported.json()).data).toMatchObject({ created: 3, failed: 3 });
+
+    const geofences = await listGeofences(token);
+    expect(geofences.map((g: any) => [g.name, g.shape]).sort()).toEqual([
+      ['Both sides', 'multipolygon'], ['Depot', 'circle'], ['Downtown', 'polygon'],
+    ]);
+    expect(geofences.find((g: any) => g.name === 'Downtown')).toMatchObject({ type: 'delivery', dwell_time: 120 });
+  });
+
+  it('imports KML placemarks', async () => {
+    const { token } = await bootstrapOwner(app);
+
+    // A placemark that fails to save is reported while the others are still created
+    vi.spyOn(GeofenceService, 'createGeofence').mockRejectedValueOnce(new Error('Failed to create geofence'));
+    const res = await upload(token, new File([kml], 'zones.kml'));
+    expect(res.status).toBe(201);
+    const data = (await res.json()).data;
+    expect(data).toMatchObject({ created: 1, failed: 1 });
+    expect(data.features[0]).toMatchObject({ status: 'failed', errors: ['Failed to create geofence'] });
+    expect(data.features[1].status).toBe('created');
+    expect(data.features.map((f: any) => [f.name, f.geofence.shape, f.geofence.type])).toEqual([
+      ['Harbour & Docks', 'polygon', 'restricted'],
+      ['Hub', 'circle', 'custom'],
+    ]);
+    expect(data.features[1].geofence.radius).toBe(400);
+
+    expect((await upload(token, new File(['<kml>'], 'zones.kmz'))).status).toBe(400);
+    expect((await upload(token, new File(['not json'], 'zones.geojson'))).status).toBe(400);
+    expect((await upload(token, new File(['{}'], 'zones.shp'))).status).toBe(400);
+  });
+
+  it('exports geofences as GeoJSON and KML that import back unchanged', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { Authorization: `Bearer ${token}` };
+    await upload(token, new File([JSON.stringify(featureCollection)], 'zones.geojson'));
+
+    const geojsonRes = await app.request('/api/geofences/export', { headers });
+    expect(geojsonRes.status).toBe(200);
+    expect(geojsonRes.headers.get('Content-Type')).toBe('application/geo+json');
+    const exported = await geojsonRes.json();
+    const depot = exported.features.find((f: any) => f.properties.name === 'Depot');
+    expect(depot.geometry).toEqual({ type: 'Point', coordinates: [-74.01, 40.71] });
+    expect(depot.properties).toMatchObject({ type: 'pickup', radius: 250, isActive: true });
+    const downtown = exported.features.find((f: any) => f.properties.name === 'Downtown');
+    expect(downtown.geometry).toEqual({ type: 'Polygon', coordinates: [square] });
+
+    const onlyPickup = await (await app.request('/api/geofences/export?type=pickup', { headers })).json();
+    expect(onlyPickup.features).toHaveLength(1);
+
+    const kmlRes = await app.request('/api/geofences/export?format=kml', { headers });
+    expect(kmlRes.headers.get('Content-Type')).toContain('kml');
+    expect(kmlRes.headers.get('Content-Disposition')).toMatch(/geofences-.*\.kml/);
+    const kmlText = await kmlRes.text();
+    expect(kmlText).toContain('<MultiGeometry>');
+
+    // Round trip both exports into a fresh business
+    const other = await bootstrapOwner(app);
+    for (const file of [new File([JSON.stringify(exported)], 'export.geojson'), new File([kmlText], 'export.kml')]) {
+      const res = await upload(other.token, file);
+      expect((await res.json()).data).toMatchObject({ created: 3, failed: 0 });
+    }
+    const copies = await listGeofences(other.token);
+    const original = (await listGeofences(token)).find((g: any) => g.name === 'Both sides');
+    for (const copy of copies.filter((g: any) => g.name === 'Both sides')) {
+      expect(copy.coordinates).toEqual(original.coordinates);
+    }
+    expect(copies.filter((g: any) => g.name === 'Depot').map((g: any) => g.radius)).toEqual([250, 250]);
+
+    expect((await app.request('/api/geofences/export?format=shp', { headers })).status).toBe(400);
+  });
+});
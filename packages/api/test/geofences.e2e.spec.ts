@@ -0,0 +1,121 @@
+import createApp from '../src/app';
+import { useIsolatedDb } from './helpers/db';
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+describe('Geofences E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+
+  const square: Array<[number, number]> = [
+    [40.70, -74.02], [40.70, -74.00], [40.72, -74.00], [40.72, -74.02], [40.70, -74.02]
+  ];
+
+  it('creates a polygon geofence and detects points inside it', async () => {
+    const { token } = await bootstrapOwner(app);
+
+    const create = await app.request('/api/geofences', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ name: 'Downtown', type: 'delivery', shape: 'polygon', coordinates: square })
+    });
+    expect(create.status).toBe(200);
+    const { data } = await create.json();
+    expect(data.geofence.shape).toBe('polygon');
+    expect(data.geofence.coordinates).toEqual(square);
+    expect(data.geofence.center_latitude).toBeCloseTo(40.71);
+
+    const check = await app.request('/api/geofences/check', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ latitude: 40.71, longitude: -74.01, driverId: 'no-driver' })
+    });
+    const checkJson = await check.json();
+    const match = checkJson.data.triggeredGeofences.find((r: any) => r.geofence.id === data.geofence.id);
+    expect(match.isInside).toBe(true);
+  });
+
+  it('rejects open, degenerate and self-intersecting polygon rings', async () => {
+    const { token } = await bootstrapOwner(app);
+
+    const open = await app.request('/api/geofences', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({ name: 'Open', type: 'custom', shape: 'polygon', coordinates: square.slice(0, -1) })
+    });
+    expect(open.status).toBe(400);
+
+    // Closed and four points long, but only two distinct vertices
+    const sliver = await app.request('/api/geofences', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({
+        name: 'Sliver', type: 'custom', shape: 'polygon',
+        coordinates: [[40.70, -74.02], [40.72, -74.00], [40.70, -74.02], [40.70, -74.02]]
+      })
+    });
+    expect(sliver.status).toBe(400);
+    expect((await sliver.json()).error).toContain('at least 3 distinct points');
+
+    const bowtie = await app.request('/api/geofences', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({
+        name: 'Bowtie', type: 'custom', shape: 'polygon',
+        coordinates: [[40.70, -74.02], [40.72, -74.00], [40.70, -74.00], [40.72, -74.02], [40.70, -74.02]]
+      })
+    });
+    expect(bowtie.status).toBe(400);
+  });
+
+  it('emits a single enter, dwell and exit per crossing with an exit buffer', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+    const driverRes = await app.request('/api/drivers', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Zone Driver', email: `driver+${Date.now()}@example.com`, phone: '5555555555', vehicleType: 'bike' })
+    });
+    const driverId = (await driverRes.json()).data.driver.id;
+
+    await app.request('/api/geofences', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Depot', type: 'pickup', shape: 'polygon', coordinates: square, dwellTime: 1 })
+    });
+
+    const check = async (latitude: number, longitude: number) => {
+      const res = await app.request('/api/geofences/check', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ latitude, longitude, driverId })
+      });
+      const json = await res.json();
+      return json.data.triggeredGeofences.find((r: any) => r.geofence.name === 'Depot').transition;
+    };
+
+    expect(await check(40.71, -74.01)).toBe('enter');
+    expect(await check(40.711, -74.011)).toBeNull();
+    // ~10m outside the eastern edge stays within the hysteresis buffer
+    expect(await check(40.71, -73.99988)).toBeNull();
+
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    expect(await check(40.71, -74.01)).toBe('dwell');
+    expect(await check(40.71, -74.01)).toBeNull();
+
+    expect(await check(40.71, -73.99)).toBe('exit');
+    expect(await check(40.71, -73.99)).toBeNull();
+    expect(await check(40.71, -74.01)).toBe('enter');
+  });
+  afterAll(() => iso.cleanup());
+});
@@ -0,0 +1,115 @@
+import createApp from '../src/app';
+import { IdempotencyService } from '../src/services/idempotency.service';
+import { useIsolatedDb } from './helpers/db';
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+const newOrder = (customerName: string) => JSON.stringify({
+  customerName,
+  pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+  deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+  priority: 'medium'
+});
+
+describe('Idempotency keys E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+
+  afterAll(() => iso.cleanup());
+
+  const createOrder = (token: string, body: string, key?: string) => app.request('/api/orders', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+      ...(key && { 'Idempotency-Key': key })
+    },
+    body
+  });
+  const countOrders = async (token: string) =>
+    (await (await app.request('/api/orders', { headers: { Authorization: `Bearer ${token}` } })).json()).data.pagination.total;
+
+  it('replays the first response to a retried order creation instead of creating a duplicate', async () => {
+    const { token } = await bootstrapOwner(app);
+
+    const first = await createOrder(token, newOrder('Alice'), 'create-1');
+    expect(first.status).toBe(201);
+    const created = (await first.json()).data.order;
+
+    const retry = await createOrder(token, newOrder('Alice'), 'create-1');
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get('Idempotent-Replayed')).toBe('true');
+    expect((await retry.json()).data.order.id).toBe(created.id);
+    expect(await countOrders(token)).toBe(1);
+
+    // Same key with another body is a client bug, not a retry
+    const reused = await createOrder(token, newOrder('Bob'), 'create-1');
+    expect(reused.status).toBe(409);
+    expect(await countOrders(token)).toBe(1);
+
+    // Keys belong to the user who sent them, and requests without one are untouched
+    const other = await bootstrapOwner(app);
+    expect((await createOrder(other.token, newOrder('Alice'), 'create-1')).status).toBe(201);
+    await createOrder(token, newOrder('Alice'));
+    await createOrder(token, newOrder('Alice'));
+    expect(await countOrders(token)).toBe(3);
+
+    expect((await createOrder(token, newOrder('Alice'), 'x'.repeat(256))).status).toBe(400);
+  });
+
+  it('applies a keyed status change once and frees keys when they expire', async () => {
+    const { token } = await bootstrapOwner(app);
+    const orderId = (await (await createOrder(token, newOrder('Carol'))).json()).data.order.id;
+
+    const cancel = () => app.request(`/api/orders/${orderId}/status`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}`, 'Idempotency-Key': 'cancel-1' },
+      body: JSON.stringify({ status: 'cancelled' })
+    });
+
+    const first = await cancel();
+    expect(first.status).toBe(200);
+    const firstBody = await first.text();
+
+    // Cancelling twice would be rejected; the retry gets the original success back
+    const retry = await cancel();
+    expect(retry.status).toBe(200);
+    expect(await retry.text()).toBe(firstBody);
+
+    const timeline = (await (await app.request(`/api/orders/${orderId}/timeline`, {
+      headers: { Authorization: `Bearer ${token}` }
+    })).json()).data.events;
+    expect(timeline.filter((event: any) => event.to_status === 'cancelled')).toHaveLength(1);
+
+    expect(IdempotencyService.purgeExpired(new Date(Date.now() + 48 * 3600000))).toBeGreaterThanOrEqual(1);
+    const afterExpiry = await cancel();
+    expect(afterExpiry.status).toBe(400);
+    expect(afterExpiry.headers.get('Idempotent-Replayed')).toBeNull();
+  });
+
+  it('lets a retry reclaim a key whose first request never finished', async () => {
+    const { token } = await bootstrapOwner(app);
+    const userId = (await (await app.request('/api/auth/me', {
+      headers: { Authorization: `Bearer ${token}` }
+    })).json()).data.user.id;
+
+    const start = new Date();
+    expect(IdempotencyService.claim(userId, 'stuck-1', 'fingerprint', start)).toEqual({ outcome: 'claimed' });
+    expect(() => IdempotencyService.claim(userId, 'stuck-1', 'fingerprint', new Date(start.getTime() + 30000)))
+      .toThrow('still being processed');
+
+    // Past the processing lease the key goes to the retry, and only once
+    const later = new Date(start.getTime() + 61000);
+    expect(IdempotencyService.claim(userId, 'stuck-1', 'fingerprint', later)).toEqual({ outcome: 'claimed' });
+    expect(() => IdempotencyService.claim(userId, 'stuck-1', 'fingerprint', later)).toThrow('still being processed');
+  });
+});
@@ -0,0 +1,401 @@
+import { decodePolyline } from '@zoneflow/shared';
+import createApp from '../src/app';
+import { useIsolatedDb } from './helpers/db';
+
+// Small enough that a test trip has to be sampled, and a route file read over several pages
+const previousEnv = vi.hoisted(() => {
+  const previous = { TRACK_MAX_POINTS: process.env.TRACK_MAX_POINTS, EXPORT_PAGE_SIZE: process.env.EXPORT_PAGE_SIZE };
+  process.env.TRACK_MAX_POINTS = '20';
+  process.env.EXPORT_PAGE_SIZE = '7';
+  return previous;
+});
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+async function bootstrapDriver(app: any, ownerToken: string) {
+  const email = `driver+${Date.now()}@example.com`;
+  const create = await app.request('/api/drivers', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${ownerToken}` },
+    body: JSON.stringify({ name: 'Driver', email, phone: '5555555555', password: 'DriverPass123!', vehicleType: 'bike' })
+  });
+  const driverId = (await create.json()).data.driver.id;
+
+  const login = await app.request('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'DriverPass123!' })
+  });
+  return { driverId, token: (await login.json()).data.token };
+}
+
+describe('Location E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+
+  it('records geofence transitions against the active order on location updates', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+
+    const orderRes = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Alice',
+        pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+        priority: 'medium'
+      })
+    });
+    const orderId = (await orderRes.json()).data.order.id;
+    await app.request(`/api/orders/${orderId}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId: driver.driverId })
+    });
+
+    await app.request('/api/geofences', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Pickup zone', type: 'pickup', centerLatitude: 40.71, centerLongitude: -74.01, radius: 200 })
+    });
+
+    const update = (latitude: number, longitude: number) => app.request('/api/location/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ latitude, longitude })
+    });
+
+    const inside = await (await update(40.7101, -74.0101)).json();
+    expect(inside.data.orderId).toBe(orderId);
+    expect(inside.data.geofenceEvents).toEqual([
+      expect.objectContaining({ name: 'Pickup zone', eventType: 'enter' })
+    ]);
+
+    const again = await (await update(40.7102, -74.0102)).json();
+    expect(again.data.geofenceEvents).toEqual([]);
+
+    const geofences = await (await app.request('/api/geofences', { headers })).json();
+    const detail = await (await app.request(`/api/geofences/${geofences.data.geofences[0].id}`, { headers })).json();
+    expect(detail.data.events).toHaveLength(1);
+    expect(detail.data.events[0].tracking_code).toBeTruthy();
+  });
+
+  it('advances the order through geofence status triggers', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+
+    const orderRes = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Bob',
+        pickupAddress: '1 Pickup St', pickupLatitude: 41.0, pickupLongitude: -75.0,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 41.05, deliveryLongitude: -75.05,
+        priority: 'high'
+      })
+    });
+    const orderId = (await orderRes.json()).data.order.id;
+    await app.request(`/api/orders/${orderId}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId: driver.driverId })
+    });
+
+    const zones = [
+      { name: 'Warehouse', type: 'pickup', centerLatitude: 41.0, centerLongitude: -75.0, statuses: ['picked_up'], match: 'pickup' },
+      { name: 'Customer', type: 'delivery', centerLatitude: 41.05, centerLongitude: -75.05, statuses: ['in_transit', 'delivered'], match: 'delivery' }
+    ];
+    for (const zone of zones) {
+      const created = await app.request('/api/geofences', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ name: zone.name, type: zone.type, centerLatitude: zone.centerLatitude, centerLongitude: zone.centerLongitude, radius: 100 })
+      });
+      const geofenceId = (await created.json()).data.geofence.id;
+      const trigger = await app.request(`/api/geofences/${geofenceId}/triggers`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          eventType: 'enter',
+          actionType: 'status_update',
+          actionConfig: { statuses: zone.statuses, matchOrderLocation: zone.match }
+        })
+      });
+      expect(trigger.status).toBe(201);
+    }
+
+    const update = (latitude: number, longitude: number) => app.request('/api/location/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ latitude, longitude })
+    });
+    const orderStatus = async () =>
+      (await (await app.request(`/api/orders/${orderId}`, { headers })).json()).data.order.status;
+
+    await update(41.0, -75.0);
+    expect(await orderStatus()).toBe('picked_up');
+
+    await update(41.05, -75.05);
+    expect(await orderStatus()).toBe('delivered');
+  });
+
+  it('ingests buffered fixes in device-time order and rejects implausible ones', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+
+    await app.request('/api/geofences', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Depot', type: 'custom', centerLatitude: 42.0, centerLongitude: -71.0, radius: 200 })
+    });
+
+    const at = (minutesAgo: number) => new Date(Date.now() - minutesAgo * 60000).toISOString();
+    const batch = (fixes: any[]) => app.request('/api/location/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ fixes })
+    });
+
+    // Sent out of order: outside, inside, duplicate, teleport, future and the newest fix back outside
+    const inside = at(8);
+    const res = await batch([
+      { latitude: 42.0, longitude: -71.0, timestamp: inside },
+      { latitude: 42.01, longitude: -71.01, timestamp: at(10) },
+      { latitude: 42.0, longitude: -71.0, timestamp: inside },
+      { latitude: 48.0, longitude: -71.0, timestamp: at(7) },
+      { latitude: 42.0, longitude: -71.0, timestamp: at(-30) },
+      { latitude: 42.01, longitude: -71.01, timestamp: at(5) }
+    ]);
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data.accepted).toBe(3);
+    expect(json.data.rejected).toEqual([
+      expect.objectContaining({ index: 2, reason: 'duplicate' }),
+      expect.objectContaining({ index: 3, reason: 'implausible_speed' }),
+      expect.objectContaining({ index: 4, reason: 'future_timestamp' })
+    ]);
+    expect(json.data.location).toMatchObject({ latitude: 42.01, longitude: -71.01 });
+    expect(json.data.geofenceEvents.map((e: any) => e.eventType)).toEqual(['enter', 'exit']);
+
+    const drivers = await (await app.request('/api/location/drivers', { headers })).json();
+    const stored = drivers.data.drivers.find((d: any) => d.id === driver.driverId);
+    expect(stored.current_latitude).toBe(42.01);
+
+    // Replaying the same upload adds nothing
+    const replay = await (await batch([{ latitude: 42.01, longitude: -71.01, timestamp: at(6) }])).json();
+    expect(replay.data.accepted).toBe(0);
+    expect(replay.data.rejected[0].reason).toBe('out_of_order');
+
+    const history = await (await app.request('/api/location/history', {
+      headers: { Authorization: `Bearer ${driver.token}` }
+    })).json();
+    expect(history.data.history).toHaveLength(3);
+  });
+
+  it('cleans an order track into a simplified encoded polyline', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+
+    const orderRes = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Carol',
+        pickupAddress: '1 Pickup St', pickupLatitude: 42.0, pickupLongitude: -71.0,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 42.01, deliveryLongitude: -71.0,
+        priority: 'medium'
+      })
+    });
+    const orderId = (await orderRes.json()).data.order.id;
+    await app.request(`/api/orders/${orderId}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId: driver.driverId })
+    });
+
+    // A straight drive north, one fix a minute, with a GPS spike and a low-accuracy fix
+    const fixes = Array.from({ length: 11 }, (_, i) => ({
+      latitude: 42.0 + i * 0.001,
+      longitude: -71.0,
+      accuracy: 5,
+      timestamp: new Date(Date.now() - (20 - i) * 60000).toISOString()
+    }));
+    fixes[5] = { ...fixes[5], latitude: 42.038 };
+    fixes[8] = { ...fixes[8], longitude: -70.99, accuracy: 500 };
+    const batch = await (await app.request('/api/location/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ fixes })
+    })).json();
+    expect(batch.data.accepted).toBe(11);
+
+    const raw = await (await app.request(`/api/location/order/${orderId}`, { headers })).json();
+    expect(raw.data.track).toBeUndefined();
+
+    const res = await app.request(`/api/location/order/${orderId}?processed=true`, { headers });
+    expect(res.status).toBe(200);
+    const { track } = (await res.json()).data;
+    expect(track.stats).toEqual({ rawPoints: 11, droppedInaccurate: 1, droppedOutliers: 1, simplifiedPoints: 2, downsampled: false });
+    expect(decodePolyline(track.polyline)).toEqual(track.points.map(([lat, lng]: [number, number]) => [
+      Math.round(lat * 1e5) / 1e5,
+      Math.round(lng * 1e5) / 1e5
+    ]));
+    expect(track.distanceKm).toBeGreaterThan(0.9);
+    expect(track.distanceKm).toBeLessThan(1.2);
+  });
+
+  it('samples long trips across their whole length instead of dropping the end', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+
+    const orderRes = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Erin',
+        pickupAddress: '1 Pickup St', pickupLatitude: 44.0, pickupLongitude: -70.0,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 44.03, deliveryLongitude: -70.0,
+        priority: 'medium'
+      })
+    });
+    const orderId = (await orderRes.json()).data.order.id;
+    await app.request(`/api/orders/${orderId}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId: driver.driverId })
+    });
+
+    const fixes = Array.from({ length: 30 }, (_, i) => ({
+      latitude: 44.0 + i * 0.001,
+      longitude: -70.0,
+      accuracy: 5,
+      timestamp: new Date(Date.now() - (40 - i) * 60000).toISOString()
+    }));
+    await app.request('/api/location/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ fixes })
+    });
+
+    const { track } = (await (await app.request(`/api/location/order/${orderId}?processed=true`, { headers })).json()).data;
+    expect(track.stats).toMatchObject({ rawPoints: 30, downsampled: true });
+    expect(track.startedAt).toBe(fixes[0].timestamp);
+    expect(track.endedAt).toBe(fixes[29].timestamp);
+
+    const gpx = await (await app.request(`/api/location/order/${orderId}/track.gpx`, { headers })).text();
+    expect(gpx.match(/<trkpt /g)).toHaveLength(30);
+    expect(gpx).toContain(`<time>${fixes[29].timestamp}</time>`);
+    const geojson = await (await app.request(`/api/location/order/${orderId}/track.geojson`, { headers })).json();
+    expect(geojson.features[0].properties.coordTimes).toEqual(fixes.map(fix => fix.timestamp));
+  });
+
+  it('downloads an order track as GPX, KML and GeoJSON with geofence events as waypoints', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+
+    const orderRes = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Dana & Co',
+        pickupAddress: '1 Pickup St', pickupLatitude: 43.0, pickupLongitude: -72.0,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 43.01, deliveryLongitude: -72.0,
+        priority: 'medium'
+      })
+    });
+    const order = (await orderRes.json()).data.order;
+    await app.request(`/api/orders/${order.id}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId: driver.driverId })
+    });
+    await app.request('/api/geofences', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Customer <gate>', type: 'delivery', centerLatitude: 43.01, centerLongitude: -72.0, radius: 150 })
+    });
+
+    const fixes = [0, 1, 2].map(i => ({
+      latitude: 43.0 + i * 0.005,
+      longitude: -72.0,
+      speed: 8.5,
+      heading: 0,
+      timestamp: new Date(Date.now() - (10 - i) * 60000).toISOString()
+    }));
+    await app.request('/api/location/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ fixes })
+    });
+
+    const gpxRes = await app.request(`/api/location/order/${order.id}/track.gpx`, { headers });
+    expect(gpxRes.status).toBe(200);
+    expect(gpxRes.headers.get('Content-Type')).toBe('application/gpx+xml');
+    expect(gpxRes.headers.get('Content-Disposition')).toContain(`order-${order.tracking_code}-track.gpx`);
+    const gpx = await gpxRes.text();
+    expect(gpx.match(/<trkpt /g)).toHaveLength(3);
+    expect(gpx).toContain(`<trkpt lat="43.005" lon="-72"><time>${fixes[1].timestamp}</time><extensions><gpxtpx:TrackPointExtension><gpxtpx:speed>8.5</gpxtpx:speed><gpxtpx:course>0</gpxtpx:course></gpxtpx:TrackPointExtension></extensions></trkpt>`);
+    expect(gpx).toContain('xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2"');
+    expect(gpx).toContain('<wpt lat="43.01" lon="-72">');
+    expect(gpx).toContain('<name>Enter Customer &lt;gate&gt;</name><type>enter</type>');
+    expect(gpx).toContain('<desc>Dana &amp; Co · Driver: Driver</desc>');
+
+    const kml = await (await app.request(`/api/location/order/${order.id}/track.kml`, { headers })).text();
+    expect(kml.match(/<when>/g)).toHaveLength(4);
+    expect(kml).toContain('<gx:coord>-72 43.01 0</gx:coord>');
+    expect(kml).toContain('<gx:SimpleArrayData name="speed"><gx:value>8.5</gx:value>');
+    expect(kml).toContain('<Schema id="fix" name="fix">');
+    expect(kml).toContain('<gx:SimpleArrayField name="speed" type="float">');
+
+    const geojson = await (await app.request(`/api/location/order/${order.id}/track.geojson`, { headers })).json();
+    const [line, waypoint] = geojson.features;
+    expect(line.geometry.coordinates).toEqual([[-72, 43], [-72, 43.005], [-72, 43.01]]);
+    expect(line.properties).toMatchObject({ trackingCode: order.tracking_code, speeds: [8.5, 8.5, 8.5] });
+    expect(line.properties.coordTimes).toEqual(fixes.map(fix => fix.timestamp));
+    expect(waypoint.properties).toMatchObject({ geofence: 'Customer <gate>', eventType: 'enter' });
+
+    expect((await app.request(`/api/location/order/${order.id}/track.shp`, { headers })).status).toBe(400);
+    expect((await app.request('/api/location/order/missing/track.gpx', { headers })).status).toBe(404);
+  });
+
+  it('rejects status triggers without target statuses', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const created = await app.request('/api/geofences', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name: 'Zone', type: 'custom', centerLatitude: 1, centerLongitude: 1, radius: 100 })
+    });
+    const geofenceId = (await created.json()).data.geofence.id;
+
+    const trigger = await app.request(`/api/geofences/${geofenceId}/triggers`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ eventType: 'enter', actionType: 'status_update', actionConfig: {} })
+    });
+    expect(trigger.status).toBe(400);
+  });
+  afterAll(() => {
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    iso.cleanup();
+  });
+});
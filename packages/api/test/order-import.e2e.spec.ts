@@ -0,0 +1,106 @@
+import createApp from '../src/app';
+import { useIsolatedDb } from './helpers/db';
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+const HEADER = 'external_ref,customer_name,customer_email,pickup_address,pickup_latitude,pickup_longitude,delivery_address,delivery_latitude,delivery_longitude,priority';
+
+const csvFile = (lines: string[], name = 'orders.csv') =>
+  new File([lines.join('\n')], name, { type: 'text/csv' });
+
+describe('Order import E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+
+  afterAll(() => iso.cleanup());
+
+  const upload = (token: string, file: File, fields: Record<string, string> = {}) => {
+    const form = new FormData();
+    form.append('file', file);
+    for (const [name, value] of Object.entries(fields)) form.append(name, value);
+    return app.request('/api/orders/import', { method: 'POST', headers: { Authorization: `Bearer ${token}` }, body: form });
+  };
+
+  const lines = [
+    HEADER,
+    'REF-1,Alice,alice@example.com,1 Pickup St,40.71,-74.01,2 Delivery Ave,40.75,-73.98,High',
+    'REF-2,Bob,not-an-email,1 Pickup St,40.71,-74.01,3 Delivery Ave,95,-73.98,medium',
+    '"REF-3",Carol,,"1 Pickup St, Unit 4",40.71,-74.01,4 Delivery Ave,40.76,-73.97,urgent',
+    'REF-1,Alice again,,1 Pickup St,40.71,-74.01,2 Delivery Ave,40.75,-73.98,low',
+  ];
+
+  it('previews a file without creating orders, then imports it idempotently', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { Authorization: `Bearer ${token}` };
+    const countOrders = async () => (await (await app.request('/api/orders', { headers })).json()).data.pagination.total;
+
+    const preview = await upload(token, csvFile(lines), { dryRun: 'true' });
+    expect(preview.status).toBe(200);
+    const dry = (await preview.json()).data;
+    expect(dry).toMatchObject({ dryRun: true, totalRows: 4, valid: 2, created: 0, skipped: 0, failed: 2 });
+    expect(dry.rows.map((r: any) => [r.row, r.status])).toEqual([[2, 'valid'], [3, 'failed'], [4, 'valid'], [5, 'failed']]);
+    expect(dry.rows[1].errors).toEqual(expect.arrayContaining([
+      expect.stringContaining('customer_email'),
+      expect.stringContaining('delivery_latitude'),
+    ]));
+    expect(dry.rows[3].errors[0]).toContain('Duplicate of row 2');
+    expect(await countOrders()).toBe(0);
+
+    const imported = await upload(token, csvFile(lines));
+    expect(imported.status).toBe(201);
+    const result = (await imported.json()).data;
+    expect(result).toMatchObject({ dryRun: false, created: 2, failed: 2 });
+    const order = (await (await app.request(`/api/orders/${result.rows[0].orderId}`, { headers })).json()).data.order;
+    expect(order).toMatchObject({ external_ref: 'REF-1', priority: 'high', customer_name: 'Alice' });
+
+    const again = (await (await upload(token, csvFile(lines))).json()).data;
+    expect(again).toMatchObject({ created: 0, skipped: 2, failed: 2 });
+    expect(again.rows[0].orderId).toBe(result.rows[0].orderId);
+    expect(await countOrders()).toBe(2);
+
+    // The error report lists failed rows with their original values
+    const report = await app.request(result.errorReportUrl, { headers });
+    expect(report.status).toBe(200);
+    expect(report.headers.get('Content-Type')).toContain('text/csv');
+    expect(report.headers.get('Content-Disposition')).toContain('orders-errors.csv');
+    const [header, first, second] = (await report.text()).trim().split('\r\n');
+    expect(header).toBe(`row,errors,${HEADER}`);
+    expect(first).toMatch(/^3,customer_email: .*,REF-2,Bob,not-an-email,/);
+    expect(second).toMatch(/^5,/);
+  });
+
+  it('applies a custom column mapping', async () => {
+    const { token } = await bootstrapOwner(app);
+    const file = csvFile([
+      'Ref,Name,From,From lat,From lng,To,To lat,To lng',
+      'EXT-9,Dana,1 Pickup St,40.71,-74.01,2 Delivery Ave,40.75,-73.98',
+    ]);
+    const mapping = {
+      externalRef: 'Ref', customerName: 'Name',
+      pickupAddress: 'From', pickupLatitude: 'From lat', pickupLongitude: 'From lng',
+      deliveryAddress: 'To', deliveryLatitude: 'To lat', deliveryLongitude: 'To lng',
+    };
+
+    const missing = await upload(token, file);
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).error).toContain('Missing required columns');
+
+    const res = await upload(token, file, { mapping: JSON.stringify(mapping) });
+    expect(res.status).toBe(201);
+    const data = (await res.json()).data;
+    expect(data).toMatchObject({ created: 1, failed: 0, errorReportUrl: null });
+
+    expect((await upload(token, file, { mapping: '{not json' })).status).toBe(400);
+    expect((await upload(token, file, { mapping: JSON.stringify({ unknownField: 'x' }) })).status).toBe(400);
+    expect((await upload(token, csvFile(lines, 'orders.txt'))).status).toBe(400);
+  });
+});
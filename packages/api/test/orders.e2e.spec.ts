@@ -12,6 +12,23 @@ async function bootstrapOwner(app: any) {
   return { token: json.data.token, email };
 }
 
+async function bootstrapDriver(app: any, ownerToken: string) {
+  const email = `driver+${Date.now()}@example.com`;
+  const create = await app.request('/api/drivers', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${ownerToken}` },
+    body: JSON.stringify({ name: 'Driver', email, phone: '5555555555', password: 'DriverPass123!', vehicleType: 'bike' })
+  });
+  const driverId = (await create.json()).data.driver.id;
+
+  const login = await app.request('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'DriverPass123!' })
+  });
+  return { driverId, token: (await login.json()).data.token };
+}
+
 describe('Orders E2E', () => {
   const iso = useIsolatedDb();
   const app = createApp();
@@ -38,6 +55,105 @@ describe('Orders E2E', () => {
     const data = await list.json();
     expect(data.data.pagination.limit).toBeLessThanOrEqual(100);
   });
+
+  it('records an audit timeline of assignments, status changes and cancellation', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+    const createDriver = async (name: string) => {
+      const res = await app.request('/api/drivers', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ name, email: `${name.toLowerCase()}+${Date.now()}@example.com`, phone: '5555555555', vehicleType: 'bike' })
+      });
+      return (await res.json()).data.driver.id;
+    };
+    const first = await createDriver('First');
+    const second = await createDriver('Second');
+
+    const create = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Alice',
+        pickupAddress: '1 Pickup St', pickupLatitude: 1, pickupLongitude: 1,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 2, deliveryLongitude: 2,
+        priority: 'medium'
+      })
+    });
+    const orderId = (await create.json()).data.order.id;
+
+    await app.request(`/api/orders/${orderId}/assign`, { method: 'PATCH', headers, body: JSON.stringify({ driverId: first }) });
+    await app.request(`/api/orders/${orderId}/assign`, { method: 'PATCH', headers, body: JSON.stringify({ driverId: second }) });
+    await app.request(`/api/orders/${orderId}/status`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ status: 'picked_up', notes: 'Collected at the back door' })
+    });
+    await app.request(`/api/orders/${orderId}/cancel`, { method: 'PATCH', headers, body: JSON.stringify({ reason: 'Customer moved' }) });
+
+    const res = await app.request(`/api/orders/${orderId}/timeline`, { headers });
+    expect(res.status).toBe(200);
+    const { events } = (await res.json()).data;
+    expect(events.map((e: any) => [e.event_type, e.from_status, e.to_status])).toEqual([
+      ['created', null, 'pending'],
+      ['assigned', 'pending', 'assigned'],
+      ['reassigned', 'assigned', 'assigned'],
+      ['status_changed', 'assigned', 'picked_up'],
+      ['cancelled', 'picked_up', 'cancelled']
+    ]);
+    expect(events[2]).toMatchObject({ driver_name: 'Second', previous_driver_name: 'First' });
+    expect(events[3].note).toBe('Collected at the back door');
+    expect(events[4].note).toBe('Customer moved');
+    expect(events.every((e: any) => e.actor_name === 'Owner')).toBe(true);
+  });
+  it('stores trip metrics on delivery and rolls them into driver performance', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+
+    const create = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Alice',
+        pickupAddress: '1 Pickup St', pickupLatitude: 42.0, pickupLongitude: -71.0,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 42.01, deliveryLongitude: -71.0,
+        priority: 'medium'
+      })
+    });
+    const orderId = (await create.json()).data.order.id;
+    await app.request(`/api/orders/${orderId}/assign`, { method: 'PATCH', headers, body: JSON.stringify({ driverId: driver.driverId }) });
+
+    // Five minutes driving north, five minutes parked, five more minutes driving
+    const positions = [0, 1, 2, 3, 4, 5, 5, 5, 5, 5, 5, 6, 7, 8, 9, 10];
+    const fixes = positions.map((step, minute) => ({
+      latitude: 42.0 + step * 0.002,
+      longitude: -71.0,
+      accuracy: 5,
+      timestamp: new Date(Date.now() - (30 - minute) * 60000).toISOString()
+    }));
+    await app.request('/api/location/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ fixes })
+    });
+
+    for (const status of ['picked_up', 'in_transit', 'delivered']) {
+      await app.request(`/api/orders/${orderId}/status`, { method: 'PATCH', headers, body: JSON.stringify({ status }) });
+    }
+
+    const detail = await (await app.request(`/api/orders/${orderId}`, { headers })).json();
+    const { trip } = detail.data;
+    expect(trip).toMatchObject({ driver_id: driver.driverId, stop_count: 1, point_count: 16, moving_minutes: 10, stopped_minutes: 5 });
+    expect(trip.distance_km).toBeCloseTo(2.224, 1);
+    expect(trip.max_speed_kmh).toBeCloseTo(13.3, 0);
+
+    const performance = await (await app.request('/api/dashboard/drivers/performance', { headers })).json();
+    const row = performance.data.driverPerformance.find((d: any) => d.id === driver.driverId);
+    expect(row.distance_km).toBeCloseTo(trip.distance_km, 3);
+    expect(row.stopped_minutes).toBe(5);
+  });
   afterAll(() => iso.cleanup());
 });
 
@@ -0,0 +1,285 @@
+import fs from 'fs';
+import createApp from '../src/app';
+import { OrderService } from '../src/services/order.service';
+import { useIsolatedDb } from './helpers/db';
+
+const proofDir = vi.hoisted(() => {
+  const dir = `${process.env.TMPDIR || '/tmp'}/zoneflow-proofs-${Date.now()}`;
+  process.env.POD_STORAGE_DIR = dir;
+  return dir;
+});
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+async function bootstrapDriver(app: any, ownerToken: string, label: string) {
+  const email = `driver+${label}-${Date.now()}@example.com`;
+  const create = await app.request('/api/drivers', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${ownerToken}` },
+    body: JSON.stringify({ name: 'Driver', email, phone: '5555555555', password: 'DriverPass123!', vehicleType: 'bike' })
+  });
+  const driverId = (await create.json()).data.driver.id;
+
+  const login = await app.request('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'DriverPass123!' })
+  });
+  return { driverId, token: (await login.json()).data.token };
+}
+
+// Smallest valid PNG header is enough; the API checks the declared type, not the pixels
+const png = (marker: string) => new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47]), marker], { type: 'image/png' });
+
+function proofForm(fields: Record<string, string>, files: { signature?: Blob; photos?: Blob[] } = {}) {
+  const form = new FormData();
+  for (const [key, value] of Object.entries(fields)) {
+    form.append(key, value);
+  }
+  if (files.signature) form.append('signature', files.signature, 'signature.png');
+  for (const photo of files.photos || []) {
+    form.append('photos', photo, 'photo.png');
+  }
+  return form;
+}
+
+describe('Proof of delivery E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+
+  it('requires proof before delivery, checks the drop-off point and serves the files publicly', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token, 'assigned');
+    const otherDriver = await bootstrapDriver(app, token, 'other');
+
+    const settingsRes = await app.request('/api/proofs/settings', {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ required: true, requirePhoto: true, maxDistanceMeters: 100 })
+    });
+    expect(settingsRes.status).toBe(200);
+    expect((await settingsRes.json()).data.settings).toEqual({
+      required: true, requireSignature: false, requirePhoto: true, maxDistanceMeters: 100, rejectOutOfRange: false
+    });
+
+    const orderRes = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Alice',
+        pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+        priority: 'medium'
+      })
+    });
+    const order = (await orderRes.json()).data.order;
+    await app.request(`/api/orders/${order.id}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId: driver.driverId })
+    });
+    for (const status of ['picked_up', 'in_transit']) {
+      await app.request(`/api/orders/${order.id}/status`, { method: 'PATCH', headers, body: JSON.stringify({ status }) });
+    }
+
+    const blocked = await app.request(`/api/orders/${order.id}/status`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ status: 'delivered' })
+    });
+    expect(blocked.status).toBe(400);
+    expect((await blocked.json()).error).toContain('Proof of delivery is required');
+
+    const submit = (driverToken: string, form: FormData) => app.request(`/api/orders/${order.id}/proof`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${driverToken}` },
+      body: form
+    });
+    // About 55 m north of the delivery address
+    const fields = { recipientName: 'Bob at reception', latitude: '40.7505', longitude: '-73.98', accuracy: '8' };
+
+    expect((await submit(otherDriver.token, proofForm(fields, { photos: [png('a')] }))).status).toBe(403);
+    const noPhoto = await submit(driver.token, proofForm(fields, { signature: png('sig') }));
+    expect(noPhoto.status).toBe(400);
+    expect((await noPhoto.json()).error).toBe('At least one photo is required');
+
+    const created = await submit(driver.token, proofForm(fields, { signature: png('sig'), photos: [png('front'), png('door')] }));
+    expect(created.status).toBe(201);
+    const { proof, order: delivered } = (await created.json()).data;
+    expect(delivered.status).toBe('delivered');
+    expect(delivered.actual_delivery).toBeTruthy();
+    expect(proof).toMatchObject({
+      recipient_name: 'Bob at reception',
+      driver_id: driver.driverId,
+      signature_file: 'signature.png',
+      photo_files: ['photo-1.png', 'photo-2.png'],
+      within_range: true,
+    });
+    expect(proof.distance_meters).toBeGreaterThan(40);
+    expect(proof.distance_meters).toBeLessThan(70);
+
+    const duplicate = await submit(driver.token, proofForm(fields, { photos: [png('again')] }));
+    expect(duplicate.status).toBe(400);
+
+    const ownerView = await app.request(`/api/orders/${order.id}/proof`, { headers });
+    expect((await ownerView.json()).data.proof.photo_urls).toEqual([
+      `/api/tracking/${order.tracking_code}/proof/files/photo-1.png`,
+      `/api/tracking/${order.tracking_code}/proof/files/photo-2.png`,
+    ]);
+
+    // The public view leaves out where the driver stood
+    const publicRes = await app.request(`/api/tracking/${order.tracking_code}/proof`);
+    const publicProof = (await publicRes.json()).data.proof;
+    expect(publicProof).toEqual({
+      recipient_name: 'Bob at reception',
+      within_range: true,
+      created_at: proof.created_at,
+      signature_url: `/api/tracking/${order.tracking_code}/proof/files/signature.png`,
+      photo_urls: proof.photo_urls,
+    });
+
+    const photoRes = await app.request(publicProof.photo_urls[1]);
+    expect(photoRes.status).toBe(200);
+    expect(photoRes.headers.get('content-type')).toBe('image/png');
+    expect(Buffer.from(await photoRes.arrayBuffer()).toString('latin1').endsWith('door')).toBe(true);
+
+    const traversal = await app.request(`/api/tracking/${order.tracking_code}/proof/files/${encodeURIComponent('../../zoneflow.db')}`);
+    expect(traversal.status).toBe(404);
+  });
+
+  it('rejects proof captured too far away when the business enforces the distance', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+    await app.request('/api/proofs/settings', {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ maxDistanceMeters: 100, rejectOutOfRange: true })
+    });
+
+    const orderRes = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Carol',
+        pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+        priority: 'medium'
+      })
+    });
+    const order = (await orderRes.json()).data.order;
+
+    // Owners may submit proof too, but only once the order is on its way
+    const early = await app.request(`/api/orders/${order.id}/proof`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: proofForm({ recipientName: 'Carol', latitude: '40.75', longitude: '-73.98' })
+    });
+    expect(early.status).toBe(400);
+
+    const driver = await bootstrapDriver(app, token, 'far');
+    await app.request(`/api/orders/${order.id}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId: driver.driverId })
+    });
+    for (const status of ['picked_up', 'in_transit']) {
+      await app.request(`/api/orders/${order.id}/status`, { method: 'PATCH', headers, body: JSON.stringify({ status }) });
+    }
+
+    const far = await app.request(`/api/orders/${order.id}/proof`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${driver.token}` },
+      body: proofForm({ recipientName: 'Carol', latitude: '40.76', longitude: '-73.98' })
+    });
+    expect(far.status).toBe(400);
+    expect((await far.json()).error).toMatch(/m from the delivery address; the limit is 100 m$/);
+    // Nothing is left on disk for a rejected proof
+    const stored = fs.existsSync(proofDir) ? fs.readdirSync(proofDir, { recursive: true }) as string[] : [];
+    expect(stored.some(entry => entry.includes(order.id))).toBe(false);
+
+    // Without a proof requirement the status endpoint still delivers directly
+    const delivered = await app.request(`/api/orders/${order.id}/status`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ status: 'delivered' })
+    });
+    expect(delivered.status).toBe(200);
+    expect((await app.request(`/api/tracking/${order.tracking_code}/proof`)).status).toBe(404);
+  });
+
+  it('undoes a proof whose order could not be marked delivered and refuses oversized uploads', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token, 'retry');
+
+    const orderRes = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Dave',
+        pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+        priority: 'medium'
+      })
+    });
+    const order = (await orderRes.json()).data.order;
+    await app.request(`/api/orders/${order.id}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId: driver.driverId })
+    });
+    for (const status of ['picked_up', 'in_transit']) {
+      await app.request(`/api/orders/${order.id}/status`, { method: 'PATCH', headers, body: JSON.stringify({ status }) });
+    }
+
+    const submit = (body: FormData) => app.request(`/api/orders/${order.id}/proof`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${driver.token}` },
+      body
+    });
+    const fields = { recipientName: 'Dave', latitude: '40.75', longitude: '-73.98' };
+
+    vi.spyOn(OrderService, 'updateOrderStatus').mockRejectedValueOnce(new Error('database is locked'));
+    expect((await submit(proofForm(fields, { photos: [png('first')] }))).status).toBe(500);
+    expect((await app.request(`/api/orders/${order.id}/proof`, { headers })).status).toBe(404);
+    const stored = fs.existsSync(proofDir) ? fs.readdirSync(proofDir, { recursive: true }) as string[] : [];
+    expect(stored.some(entry => entry.includes(order.id))).toBe(false);
+
+    const retry = await submit(proofForm(fields, { photos: [png('second')] }));
+    expect(retry.status).toBe(201);
+    expect((await retry.json()).data.order.status).toBe('delivered');
+
+    // Uploads declare their length, so an oversized one is refused before it is read
+    const encoded = new Request('http://localhost', {
+      method: 'POST',
+      body: proofForm(fields, { photos: [new Blob([new Uint8Array(36 * 1024 * 1024)], { type: 'image/png' })] })
+    });
+    const body = await encoded.arrayBuffer();
+    const tooLarge = await app.request(`/api/orders/${order.id}/proof`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${driver.token}`,
+        'Content-Type': encoded.headers.get('Content-Type')!,
+        'Content-Length': String(body.byteLength)
+      },
+      body
+    });
+    expect(tooLarge.status).toBe(413);
+  });
+
+  afterAll(() => {
+    fs.rmSync(proofDir, { recursive: true, force: true });
+    iso.cleanup();
+  });
+});
@@ -0,0 +1,79 @@
+import createApp from '../src/app';
+import { useIsolatedDb } from './helpers/db';
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+// Read SSE chunks until one carries the wanted event name
+async function readUntil(reader: ReadableStreamDefaultReader<Uint8Array>, eventName: string) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (!buffer.includes(`event: ${eventName}\n`)) {
+    const { value, done } = await reader.read();
+    if (done) throw new Error(`Stream closed before ${eventName}`);
+    buffer += decoder.decode(value);
+  }
+  const block = buffer.slice(buffer.indexOf(`event: ${eventName}\n`));
+  return JSON.parse(block.split('\n')[1].replace(/^data: /, ''));
+}
+
+describe('Realtime E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+
+  const streamToken = async (token: string) => (await (await app.request('/api/realtime/token', {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` }
+  })).json()).data;
+
+  it('rejects stream requests without a stream token', async () => {
+    expect((await app.request('/api/realtime/stream')).status).toBe(401);
+
+    // The session token stays out of URLs, and the stream token opens nothing but streams
+    const owner = await bootstrapOwner(app);
+    expect((await app.request(`/api/realtime/stream?token=${owner.token}`)).status).toBe(401);
+    const { token, expiresIn } = await streamToken(owner.token);
+    expect(expiresIn).toBe(60);
+    expect((await app.request('/api/orders', { headers: { Authorization: `Bearer ${token}` } })).status).toBe(401);
+    expect((await app.request('/api/realtime/token', { method: 'POST', headers: { Authorization: `Bearer ${token}` } })).status).toBe(401);
+    expect((await app.request('/api/realtime/token', { method: 'POST' })).status).toBe(401);
+  });
+
+  it('streams business-scoped order events', async () => {
+    const owner = await bootstrapOwner(app);
+    const other = await bootstrapOwner(app);
+
+    const { token } = await streamToken(owner.token);
+    const res = await app.request(`/api/realtime/stream?token=${token}`);
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+    const reader = res.body!.getReader();
+    await readUntil(reader, 'ready');
+
+    const createOrder = (token: string, customerName: string) => app.request('/api/orders', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify({
+        customerName,
+        pickupAddress: '1 Pickup St', pickupLatitude: 1, pickupLongitude: 1,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 2, deliveryLongitude: 2,
+        priority: 'medium'
+      })
+    });
+
+    await createOrder(other.token, 'Other Business');
+    await createOrder(owner.token, 'Own Business');
+
+    const event = await readUntil(reader, 'order.created');
+    expect(event.order.customer_name).toBe('Own Business');
+    await reader.cancel();
+  });
+  afterAll(() => iso.cleanup());
+});
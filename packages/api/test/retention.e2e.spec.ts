@@ -0,0 +1,112 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+import createApp from '../src/app';
+import { useIsolatedDb } from './helpers/db';
+
+const archiveDir = vi.hoisted(() => {
+  // Old fixes can only be seeded through the batch endpoint if it accepts them
+  process.env.LOCATION_MAX_FIX_AGE_HOURS = String(24 * 90);
+  const dir = `${process.env.TMPDIR || '/tmp'}/zoneflow-archive-${Date.now()}`;
+  process.env.LOCATION_ARCHIVE_DIR = dir;
+  return dir;
+});
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+async function bootstrapDriver(app: any, ownerToken: string) {
+  const email = `driver+${Date.now()}@example.com`;
+  const create = await app.request('/api/drivers', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${ownerToken}` },
+    body: JSON.stringify({ name: 'Driver', email, phone: '5555555555', password: 'DriverPass123!', vehicleType: 'bike' })
+  });
+  const driverId = (await create.json()).data.driver.id;
+
+  const login = await app.request('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'DriverPass123!' })
+  });
+  return { driverId, token: (await login.json()).data.token };
+}
+
+describe('Retention E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+
+  it('reports, archives and removes old fixes per business settings', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+
+    const invalid = await app.request('/api/retention/settings', {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ downsampleAfterDays: 7, deleteAfterDays: 5 })
+    });
+    expect(invalid.status).toBe(400);
+
+    const update = await app.request('/api/retention/settings', {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ enabled: true, downsampleAfterDays: 7, deleteAfterDays: 30, downsampleIntervalSeconds: 60, archive: true, archiveFormat: 'gpx' })
+    });
+    expect(update.status).toBe(200);
+
+    // Three expired fixes, six fixes within one minute ten days ago, and two recent ones
+    const minute = (daysAgo: number) => Math.floor((Date.now() - daysAgo * 86400000) / 60000) * 60000;
+    const fix = (time: number, latitude: number) => ({ latitude, longitude: -71.0, timestamp: new Date(time).toISOString() });
+    const fixes = [
+      ...[0, 1, 2].map(i => fix(minute(40) + i * 10000, 42.0)),
+      ...[0, 1, 2, 3, 4, 5].map(i => fix(minute(10) + i * 10000, 42.001)),
+      ...[0, 1].map(i => fix(Date.now() - 3600000 + i * 60000, 42.002))
+    ];
+    const batch = await (await app.request('/api/location/batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ fixes })
+    })).json();
+    expect(batch.data.accepted).toBe(11);
+
+    const historyTotal = async () => (await (await app.request('/api/location/history', {
+      headers: { Authorization: `Bearer ${driver.token}` }
+    })).json()).data.pagination.total;
+
+    const preview = await (await app.request('/api/retention/run', { method: 'POST', headers, body: JSON.stringify({}) })).json();
+    expect(preview.data.report).toMatchObject({ dryRun: true, downsampled: 5, deleted: 3, archived: 8, archiveFile: null });
+    expect(await historyTotal()).toBe(11);
+
+    const run = await (await app.request('/api/retention/run', { method: 'POST', headers, body: JSON.stringify({ dryRun: false }) })).json();
+    expect(run.data.report).toMatchObject({ dryRun: false, downsampled: 5, deleted: 3, archived: 8, vacuumed: false });
+    expect(await historyTotal()).toBe(3);
+
+    // Thinned fixes are archived alongside expired ones
+    const gpx = gunzipSync(fs.readFileSync(run.data.report.archiveFile)).toString();
+    expect(gpx).toContain('<gpx');
+    expect(gpx.match(/<trkpt /g)).toHaveLength(8);
+    expect(gpx.match(/<trkpt lat="42.001"/g)).toHaveLength(5);
+
+    // Vacuuming stalls every business sharing the database, so owners cannot ask for it
+    const vacuum = await app.request('/api/retention/run', { method: 'POST', headers, body: JSON.stringify({ dryRun: false, vacuum: true }) });
+    expect(vacuum.status).toBe(403);
+
+    const again = await (await app.request('/api/retention/run', { method: 'POST', headers, body: JSON.stringify({ dryRun: false }) })).json();
+    expect(again.data.report).toMatchObject({ downsampled: 0, deleted: 0, vacuumed: false });
+  });
+
+  afterAll(() => {
+    fs.rmSync(archiveDir, { recursive: true, force: true });
+    iso.cleanup();
+  });
+});
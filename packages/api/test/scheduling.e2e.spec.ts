@@ -0,0 +1,163 @@
+import createApp from '../src/app';
+import { DispatchService } from '../src/services/dispatch.service';
+import { ScheduleService } from '../src/services/schedule.service';
+import { useIsolatedDb } from './helpers/db';
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+async function bootstrapDriver(app: any, ownerToken: string) {
+  const email = `driver+${Date.now()}@example.com`;
+  const create = await app.request('/api/drivers', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${ownerToken}` },
+    body: JSON.stringify({ name: 'Driver', email, phone: '5555555555', password: 'DriverPass123!', vehicleType: 'bike' })
+  });
+  const driverId = (await create.json()).data.driver.id;
+
+  const login = await app.request('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'DriverPass123!' })
+  });
+  return { driverId, token: (await login.json()).data.token };
+}
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 3600000).toISOString();
+
+describe('Scheduled orders E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+  let stopAutoDispatch: () => void;
+
+  beforeAll(() => {
+    stopAutoDispatch = DispatchService.startAutoDispatch();
+  });
+
+  afterAll(() => {
+    stopAutoDispatch();
+    iso.cleanup();
+  });
+
+  const orderBody = (extra: Record<string, unknown>) => JSON.stringify({
+    customerName: 'Alice',
+    pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+    deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+    priority: 'medium',
+    ...extra
+  });
+
+  it('rejects inconsistent delivery windows and past release times', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const create = (extra: Record<string, unknown>) => app.request('/api/orders', { method: 'POST', headers, body: orderBody(extra) });
+
+    const backwards = await create({ deliveryWindowStart: hoursFromNow(3), deliveryWindowEnd: hoursFromNow(2) });
+    expect(backwards.status).toBe(400);
+    expect((await backwards.json()).error).toContain('Delivery window must end after it starts');
+
+    expect((await create({ scheduledFor: hoursFromNow(-1) })).status).toBe(400);
+    expect((await create({ deliveryWindowEnd: hoursFromNow(2), scheduledFor: hoursFromNow(3) })).status).toBe(400);
+    expect((await create({ deliveryWindowEnd: hoursFromNow(2), pickupReadyAt: hoursFromNow(2) })).status).toBe(400);
+  });
+
+  it('keeps scheduled orders away from dispatch until they are released', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+    await app.request('/api/location/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ latitude: 40.711, longitude: -74.011 })
+    });
+    await app.request('/api/dispatch/settings', { method: 'PUT', headers, body: JSON.stringify({ mode: 'auto', strategy: 'nearest' }) });
+
+    const created = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: orderBody({
+        scheduledFor: hoursFromNow(1),
+        pickupReadyAt: hoursFromNow(1.5),
+        // Offsets are accepted and stored as UTC
+        deliveryWindowStart: new Date(Date.now() + 2 * 3600000).toISOString().replace('Z', '+00:00'),
+        deliveryWindowEnd: hoursFromNow(4),
+      })
+    });
+    expect(created.status).toBe(201);
+    const order = (await created.json()).data.order;
+    expect(order.delivery_window_start).toMatch(/Z$/);
+    const getOrder = async () => (await (await app.request(`/api/orders/${order.id}`, { headers })).json()).data.order;
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(await getOrder()).toMatchObject({ status: 'pending', driver_id: null, released_at: null });
+
+    const assign = await app.request(`/api/orders/${order.id}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId: driver.driverId })
+    });
+    expect(assign.status).toBe(400);
+    expect((await assign.json()).error).toContain('Order is scheduled');
+    expect((await app.request(`/api/dispatch/orders/${order.id}/assign`, { method: 'POST', headers })).status).toBe(400);
+    const statusChange = await app.request(`/api/orders/${order.id}/status`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ status: 'assigned' })
+    });
+    expect(statusChange.status).toBe(400);
+    expect((await statusChange.json()).error).toContain('Order is scheduled');
+
+    const list = async (query: string) =>
+      ((await (await app.request(`/api/orders?${query}`, { headers })).json()).data.data as any[]).map(o => o.id);
+    expect(await list('scheduled=true')).toEqual([order.id]);
+    expect(await list('scheduled=false')).toEqual([]);
+    expect(await list(`windowFrom=${hoursFromNow(3)}&windowTo=${hoursFromNow(5)}`)).toEqual([order.id]);
+    expect(await list(`windowFrom=${hoursFromNow(5)}`)).toEqual([]);
+    expect((await app.request('/api/orders?scheduled=maybe', { headers })).status).toBe(400);
+
+    const stats = async () => (await (await app.request('/api/dashboard/stats', { headers })).json()).data;
+    expect(await stats()).toMatchObject({ activeOrders: 0, scheduledOrders: 1 });
+
+    // Nothing is due yet
+    expect((await ScheduleService.releaseDue()).map(o => o.id)).not.toContain(order.id);
+
+    const released = await ScheduleService.releaseDue(new Date(hoursFromNow(1.1)));
+    expect(released.map(o => o.id)).toContain(order.id);
+    await vi.waitFor(async () => expect((await getOrder()).driver_id).toBe(driver.driverId));
+    expect(await stats()).toMatchObject({ activeOrders: 1, scheduledOrders: 0 });
+
+    const { events } = (await (await app.request(`/api/orders/${order.id}/timeline`, { headers })).json()).data;
+    expect(events.map((e: any) => e.event_type)).toEqual(['created', 'released', 'assigned']);
+
+    // The driver waits at pickup until the goods are ready, and the window end is the deadline
+    const route = (await (await app.request(`/api/drivers/${driver.driverId}/route`, { headers })).json()).data.route;
+    const [pickup, dropoff] = route.stops;
+    expect(Date.parse(pickup.estimatedArrival)).toBeGreaterThanOrEqual(Date.parse(pickup.readyAt));
+    expect(Date.parse(dropoff.estimatedArrival)).toBeGreaterThanOrEqual(Date.parse(order.delivery_window_start));
+    expect(dropoff.deadline).toBe(order.delivery_window_end);
+    expect(dropoff.isLate).toBe(false);
+  });
+
+  it('lets a dispatcher release a scheduled order early', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+    const created = await app.request('/api/orders', { method: 'POST', headers, body: orderBody({ scheduledFor: hoursFromNow(6) }) });
+    const order = (await created.json()).data.order;
+
+    const release = await app.request(`/api/orders/${order.id}/release`, { method: 'PATCH', headers });
+    expect(release.status).toBe(200);
+    expect((await release.json()).data.order.released_at).toBeTruthy();
+
+    const again = await app.request(`/api/orders/${order.id}/release`, { method: 'PATCH', headers });
+    expect(again.status).toBe(400);
+  });
+});
@@ -0,0 +1,96 @@
+import createApp from '../src/app';
+import { useIsolatedDb } from './helpers/db';
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+describe('SLA monitoring E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+
+  it('flags at-risk and breached orders once and surfaces them as alerts and activity', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+    const invalid = await app.request('/api/sla/settings', {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ rules: { high: { maxAssignMinutes: 0 } } })
+    });
+    expect(invalid.status).toBe(400);
+
+    // A wide warning window puts the tighter stage limits at risk right away
+    const settingsRes = await app.request('/api/sla/settings', {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ atRiskMinutes: 20, rules: { high: { maxAssignMinutes: 15, maxPickupMinutes: null } } })
+    });
+    expect(settingsRes.status).toBe(200);
+    const { settings } = (await settingsRes.json()).data;
+    expect(settings.rules.high).toEqual({ maxAssignMinutes: 15, maxPickupMinutes: null, maxDeliveryMinutes: 60 });
+    expect(settings.rules.low.maxAssignMinutes).toBe(30);
+
+    const createOrder = async (priority: string, estimatedDelivery?: string) => {
+      const res = await app.request('/api/orders', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          customerName: 'Alice',
+          pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+          deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+          priority,
+          estimatedDelivery
+        })
+      });
+      return (await res.json()).data.order;
+    };
+    const atRisk = await createOrder('high');
+    const late = await createOrder('low', new Date(Date.now() - 5 * 60000).toISOString());
+
+    const evaluate = async () => {
+      const res = await app.request('/api/sla/evaluate', { method: 'POST', headers });
+      expect(res.status).toBe(200);
+      return (await res.json()).data.result;
+    };
+
+    const first = await evaluate();
+    expect(first).toMatchObject({ evaluated: 2, atRisk: 1, breached: 1 });
+    expect(first.alerts.map((a: any) => `${a.order_id}:${a.stage}:${a.level}`).sort()).toEqual([
+      `${atRisk.id}:assign:at_risk`,
+      `${late.id}:delivery:breached`,
+    ].sort());
+
+    // Alerts are recorded once per stage and level
+    const second = await evaluate();
+    expect(second.alerts).toEqual([]);
+
+    const alertsRes = await app.request('/api/sla/alerts', { headers });
+    const { alerts } = (await alertsRes.json()).data;
+    expect(alerts.map((a: any) => [a.tracking_code, a.level])).toEqual([
+      [late.tracking_code, 'breached'],
+      [atRisk.tracking_code, 'at_risk'],
+    ]);
+
+    const orderRes = await app.request(`/api/orders/${late.id}`, { headers });
+    expect((await orderRes.json()).data.order.sla_status).toBe('breached');
+
+    const activityRes = await app.request('/api/dashboard/activity', { headers });
+    const activity = (await activityRes.json()).data.activity;
+    expect(activity.filter((item: any) => item.type === 'sla')).toHaveLength(2);
+
+    // Finished orders drop out of the open alerts
+    await app.request(`/api/orders/${late.id}/cancel`, { method: 'PATCH', headers, body: JSON.stringify({}) });
+    const remaining = (await (await app.request('/api/sla/alerts', { headers })).json()).data.alerts;
+    expect(remaining.map((a: any) => a.order_id)).toEqual([atRisk.id]);
+  });
+
+  afterAll(() => iso.cleanup());
+});
@@ -0,0 +1,251 @@
+import createApp from '../src/app';
+import { useIsolatedDb } from './helpers/db';
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+async function bootstrapDriver(app: any, ownerToken: string) {
+  const email = `driver+${Date.now()}@example.com`;
+  const create = await app.request('/api/drivers', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${ownerToken}` },
+    body: JSON.stringify({ name: 'Driver', email, phone: '5555555555', password: 'DriverPass123!', vehicleType: 'bike' })
+  });
+  const driverId = (await create.json()).data.driver.id;
+
+  const login = await app.request('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'DriverPass123!' })
+  });
+  return { driverId, token: (await login.json()).data.token };
+}
+
+// Read the whole SSE stream into a list of named events
+async function readEvents(body: ReadableStream<Uint8Array>) {
+  const text = await new Response(body).text();
+  return text.split('\n\n').filter(Boolean).map(block => {
+    const [eventLine, dataLine] = block.split('\n');
+    return { event: eventLine.replace(/^event: /, ''), data: JSON.parse(dataLine.replace(/^data: /, '')) };
+  });
+}
+
+describe('Public tracking stream E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+
+  it('returns 404 for unknown tracking codes', async () => {
+    const res = await app.request('/api/tracking/UNKNOWN/stream');
+    expect(res.status).toBe(404);
+  });
+
+  it('pushes throttled locations and status changes, then closes on cancellation', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+
+    const orderRes = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Alice',
+        pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+        priority: 'medium'
+      })
+    });
+    const order = (await orderRes.json()).data.order;
+    await app.request(`/api/orders/${order.id}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId: driver.driverId })
+    });
+
+    const res = await app.request(`/api/tracking/${order.tracking_code}/stream`);
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+    const events = readEvents(res.body!);
+
+    const update = (latitude: number, longitude: number) => app.request('/api/location/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ latitude, longitude })
+    });
+    await update(40.72, -74.0);
+    // Inside the throttle window, so it is dropped once the stream closes
+    await update(40.73, -73.99);
+
+    await app.request(`/api/orders/${order.id}/cancel`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ reason: 'Customer request' })
+    });
+
+    const received = await events;
+    // Both fixes move the ETA by minutes, so each one is pushed even though the second location is throttled
+    expect(received.map(e => e.event)).toEqual(['snapshot', 'location', 'eta', 'eta', 'status', 'closed']);
+    expect(received[0].data.order.tracking_code).toBe(order.tracking_code);
+    expect(received[1].data).toEqual({ latitude: 40.72, longitude: -74.0, timestamp: expect.any(String) });
+    expect(Date.parse(received[3].data.predictedDelivery)).toBeGreaterThan(Date.parse(received[2].data.predictedDelivery));
+    expect(received[4].data).toMatchObject({ status: 'cancelled', previousStatus: 'assigned' });
+  });
+
+  it('follows the driver for every order they carry, not only the one their fixes are tagged with', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+
+    const createAssigned = async (customerName: string) => {
+      const order = (await (await app.request('/api/orders', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          customerName,
+          pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+          deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+          priority: 'medium'
+        })
+      })).json()).data.order;
+      await app.request(`/api/orders/${order.id}/assign`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({ driverId: driver.driverId })
+      });
+      return order;
+    };
+    const first = await createAssigned('Bea');
+    // Assigned later, so the driver's fixes are tagged with this order
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await createAssigned('Cal');
+
+    const res = await app.request(`/api/tracking/${first.tracking_code}/stream`);
+    const events = readEvents(res.body!);
+
+    await app.request('/api/location/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ latitude: 40.72, longitude: -74.0 })
+    });
+    await app.request(`/api/orders/${first.id}/cancel`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ reason: 'Customer request' })
+    });
+
+    const received = await events;
+    expect(received[0].data).not.toHaveProperty('driverId');
+    expect(received.find(e => e.event === 'location')?.data).toEqual({ latitude: 40.72, longitude: -74.0, timestamp: expect.any(String) });
+    expect(received[received.length - 1].event).toBe('closed');
+  });
+
+  it('includes the predicted delivery time in the snapshot once the driver reports a location', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+
+    const orderRes = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Carol',
+        pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+        priority: 'medium'
+      })
+    });
+    const order = (await orderRes.json()).data.order;
+    await app.request(`/api/orders/${order.id}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId: driver.driverId })
+    });
+
+    const before = Date.now();
+    await app.request('/api/location/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ latitude: 40.71, longitude: -74.01 })
+    });
+    await app.request(`/api/orders/${order.id}/cancel`, { method: 'PATCH', headers, body: JSON.stringify({}) });
+
+    const res = await app.request(`/api/tracking/${order.tracking_code}/stream`);
+    const [snapshot] = await readEvents(res.body!);
+    // Straight from the pickup: about 5 km at the default 30 km/h plus one stop
+    const minutes = (Date.parse(snapshot.data.order.predicted_delivery) - before) / 60000;
+    expect(minutes).toBeGreaterThan(10);
+    expect(minutes).toBeLessThan(20);
+    expect(snapshot.data.order.eta_updated_at).toEqual(expect.any(String));
+  });
+
+  it('skips recomputing ETAs for a fix close to the last one, but not once the driver moves on', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+    const driver = await bootstrapDriver(app, token);
+
+    const order = (await (await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Dan',
+        pickupAddress: '1 Pickup St', pickupLatitude: 40.71, pickupLongitude: -74.01,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 40.75, deliveryLongitude: -73.98,
+        priority: 'medium'
+      })
+    })).json()).data.order;
+    await app.request(`/api/orders/${order.id}/assign`, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ driverId: driver.driverId })
+    });
+
+    const update = (latitude: number, longitude: number) => app.request('/api/location/update', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${driver.token}` },
+      body: JSON.stringify({ latitude, longitude })
+    });
+    const etaUpdatedAt = async () =>
+      (await (await app.request(`/api/orders/${order.id}`, { headers })).json()).data.order.eta_updated_at;
+
+    await update(40.71, -74.01);
+    const first = await etaUpdatedAt();
+    expect(first).toEqual(expect.any(String));
+
+    // About 10 m on, within the refresh interval
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await update(40.7101, -74.01);
+    expect(await etaUpdatedAt()).toBe(first);
+
+    await update(40.72, -74.0);
+    expect(await etaUpdatedAt()).not.toBe(first);
+  });
+
+  it('closes immediately for orders that are already finished', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+    const orderRes = await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Bob',
+        pickupAddress: '1 Pickup St', pickupLatitude: 1, pickupLongitude: 1,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 2, deliveryLongitude: 2,
+        priority: 'low'
+      })
+    });
+    const order = (await orderRes.json()).data.order;
+    await app.request(`/api/orders/${order.id}/cancel`, { method: 'PATCH', headers, body: JSON.stringify({}) });
+
+    const res = await app.request(`/api/tracking/${order.tracking_code}/stream`);
+    const received = await readEvents(res.body!);
+    expect(received.map(e => e.event)).toEqual(['snapshot', 'closed']);
+  });
+  afterAll(() => iso.cleanup());
+});
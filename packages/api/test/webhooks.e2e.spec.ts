@@ -0,0 +1,118 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import createApp from '../src/app';
+import { WebhookService } from '../src/services/webhook.service';
+import { useIsolatedDb } from './helpers/db';
+
+async function bootstrapOwner(app: any) {
+  const email = `owner+${Date.now()}@example.com`;
+  const res = await app.request('/api/auth/register', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password: 'StrongPass123!', name: 'Owner', role: 'business_owner' })
+  });
+  const json = await res.json();
+  return { token: json.data.token, email };
+}
+
+describe('Webhooks E2E', () => {
+  const iso = useIsolatedDb();
+  const app = createApp();
+  const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+  // Status codes the stand-in answers with, in order; defaults to 200 once exhausted
+  const responses: number[] = [];
+  let server: http.Server;
+  let url: string;
+  let stopDispatcher: () => void;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end('ok');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    stopDispatcher = WebhookService.startDispatcher();
+  });
+
+  afterAll(async () => {
+    stopDispatcher();
+    await new Promise(resolve => server.close(resolve));
+    iso.cleanup();
+  });
+
+  it('sends signed test events and logs the delivery', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+    const create = await app.request('/api/webhooks', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ url, events: ['order.created'] })
+    });
+    expect(create.status).toBe(201);
+    const webhook = (await create.json()).data.webhook;
+    expect(webhook.secret).toBeTruthy();
+
+    const list = await (await app.request('/api/webhooks', { headers })).json();
+    expect(list.data.webhooks[0].secret).toBeUndefined();
+
+    const test = await app.request(`/api/webhooks/${webhook.id}/test`, { method: 'POST', headers });
+    const delivery = (await test.json()).data.delivery;
+    expect(delivery.status).toBe('success');
+
+    const request = received.at(-1)!;
+    expect(request.headers['x-zoneflow-event']).toBe('webhook.test');
+    const expected = WebhookService.sign(webhook.secret, request.headers['x-zoneflow-timestamp'] as string, request.body);
+    expect(request.headers['x-zoneflow-signature']).toBe(`sha256=${expected}`);
+  });
+
+  it('dispatches subscribed events and retries failed deliveries', async () => {
+    const { token } = await bootstrapOwner(app);
+    const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+    const create = await app.request('/api/webhooks', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ url, events: ['order.created'] })
+    });
+    const webhookId = (await create.json()).data.webhook.id;
+
+    responses.push(500);
+    await app.request('/api/orders', {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        customerName: 'Alice',
+        pickupAddress: '1 Pickup St', pickupLatitude: 1, pickupLongitude: 1,
+        deliveryAddress: '2 Delivery Ave', deliveryLatitude: 2, deliveryLongitude: 2,
+        priority: 'medium'
+      })
+    });
+
+    const deliveries = async () =>
+      (await (await app.request(`/api/webhooks/${webhookId}/deliveries`, { headers })).json()).data.deliveries;
+
+    await vi.waitFor(async () => {
+      const [first] = await deliveries();
+      expect(first.attempts).toBe(1);
+    });
+    let [delivery] = await deliveries();
+    expect(delivery.status).toBe('pending');
+    expect(delivery.event_type).toBe('order.created');
+    expect(delivery.response_status).toBe(500);
+    expect(new Date(delivery.next_attempt_at).getTime()).toBeGreaterThan(Date.now());
+
+    // Run the retry poller as if the backoff had elapsed
+    await WebhookService.processDueDeliveries(new Date(Date.now() + 60 * 60 * 1000));
+    [delivery] = await deliveries();
+    expect(delivery.status).toBe('success');
+    expect(delivery.attempts).toBe(2);
+    expect(JSON.parse(received.at(-1)!.body).data.order.customer_name).toBe('Alice');
+  });
+});
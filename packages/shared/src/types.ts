@@ -29,6 +29,7 @@ export interface Driver {
   current_lat?: number;
   current_lng?: number;
   last_location_update?: string;
+  connection_status?: 'online' | 'stale' | 'offline';
   created_at: string;
   updated_at: string;
 }
@@ -47,24 +48,33 @@ export interface Order {
   delivery_lat: number;
   delivery_lng: number;
   driver_id?: string;
-  status: 'pending' | 'assigned' | 'picked_up' | 'in_transit' | 'delivered' | 'cancelled';
+  status: 'pending' | 'assigned' | 'picked_up' | 'in_transit' | 'delivered' | 'cancelled' | 'failed_attempt' | 'rescheduled' | 'returned';
   priority: 'low' | 'medium' | 'high' | 'urgent';
   estimated_delivery?: string;
   actual_delivery?: string;
+  pickup_ready_at?: string;
+  delivery_window_start?: string;
+  delivery_window_end?: string;
+  scheduled_for?: string;
+  released_at?: string;
+  external_ref?: string;
   notes?: string;
   created_at: string;
   updated_at: string;
 }
 
+// Polygon rings are closed lists of [lat, lng] pairs; a multipolygon is a list of rings
+export type GeofenceCoordinates = Array<[number, number]> | Array<Array<[number, number]>>;
+
 export interface Geofence {
   id: string;
   business_id: string;
   name: string;
-  type: 'circle' | 'polygon';
+  type: 'circle' | 'polygon' | 'multipolygon';
   center_lat?: number;
   center_lng?: number;
   radius?: number;
-  coordinates?: Array<[number, number]>;
+  coordinates?: GeofenceCoordinates;
   triggers: GeofenceTrigger[];
   active: boolean;
   created_at: string;
@@ -129,11 +139,11 @@ export interface CreateOrderRequest {
 
 export interface CreateGeofenceRequest {
   name: string;
-  type: 'circle' | 'polygon';
+  type: 'circle' | 'polygon' | 'multipolygon';
   center_lat?: number;
   center_lng?: number;
   radius?: number;
-  coordinates?: Array<[number, number]>;
+  coordinates?: GeofenceCoordinates;
   triggers: Omit<GeofenceTrigger, 'id'>[];
 }
 
@@ -52,6 +52,113 @@ export function isPointInPolygon(
   return inside;
 }
 
+// Check that a polygon ring is closed (first vertex repeated as the last) around at least 3 distinct vertices
+export function isClosedRing(ring: Array<[number, number]>): boolean {
+  if (ring.length < 4) return false;
+  const [firstLat, firstLng] = ring[0];
+  const [lastLat, lastLng] = ring[ring.length - 1];
+  if (firstLat !== lastLat || firstLng !== lastLng) return false;
+  const vertices = new Set(ring.slice(0, -1).map(([lat, lng]) => `${lat},${lng}`));
+  return vertices.size >= 3;
+}
+
+// Check that no two non-adjacent edges of a closed ring cross each other
+export function isSimpleRing(ring: Array<[number, number]>): boolean {
+  const edgeCount = ring.length - 1;
+  for (let i = 0; i < edgeCount; i++) {
+    for (let j = i + 1; j < edgeCount; j++) {
+      // Adjacent edges share a vertex, including the closing edge and the first edge
+      if (j === i + 1 || (i === 0 && j === edgeCount - 1)) continue;
+      if (segmentsIntersect(ring[i], ring[i + 1], ring[j], ring[j + 1])) {
+        return false;
+      }
+    }
+  }
+  return true;
+}
+
+function segmentsIntersect(
+  a: [number, number],
+  b: [number, number],
+  c: [number, number],
+  d: [number, number]
+): boolean {
+  const orientation = (p: [number, number], q: [number, number], r: [number, number]) => {
+    const value = (q[1] - p[1]) * (r[0] - q[0]) - (q[0] - p[0]) * (r[1] - q[1]);
+    return value === 0 ? 0 : value > 0 ? 1 : 2;
+  };
+  const onSegment = (p: [number, number], q: [number, number], r: [number, number]) =>
+    Math.min(p[0], r[0]) <= q[0] && q[0] <= Math.max(p[0], r[0]) &&
+    Math.min(p[1], r[1]) <= q[1] && q[1] <= Math.max(p[1], r[1]);
+
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+
+  if (o1 !== o2 && o3 !== o4) return true;
+  if (o1 === 0 && onSegment(a, c, b)) return true;
+  if (o2 === 0 && onSegment(a, d, b)) return true;
+  if (o3 === 0 && onSegment(c, a, d)) return true;
+  if (o4 === 0 && onSegment(c, b, d)) return true;
+  return false;
+}
+
+// Encode [lat, lng] points with the Google encoded polyline algorithm
+export function encodePolyline(points: Array<[number, number]>, precision: number = 5): string {
+  const factor = Math.pow(10, precision);
+  let result = '';
+  let previousLat = 0;
+  let previousLng = 0;
+
+  const encodeValue = (value: number) => {
+    let remaining = value < 0 ? ~(value << 1) : value << 1;
+    while (remaining >= 0x20) {
+      result += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+      remaining >>= 5;
+    }
+    result += String.fromCharCode(remaining + 63);
+  };
+
+  for (const [lat, lng] of points) {
+    const scaledLat = Math.round(lat * factor);
+    const scaledLng = Math.round(lng * factor);
+    encodeValue(scaledLat - previousLat);
+    encodeValue(scaledLng - previousLng);
+    previousLat = scaledLat;
+    previousLng = scaledLng;
+  }
+  return result;
+}
+
+// Decode a Google encoded polyline back into [lat, lng] points
+export function decodePolyline(encoded: string, precision: number = 5): Array<[number, number]> {
+  const factor = Math.pow(10, precision);
+  const points: Array<[number, number]> = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const decodeValue = () => {
+    let shift = 0;
+    let result = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && index < encoded.length);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += decodeValue();
+    lng += decodeValue();
+    points.push([lat / factor, lng / factor]);
+  }
+  return points;
+}
+
 // Generate unique tracking codes
 export function generateTrackingCode(): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
@@ -73,16 +180,6 @@ export function isValidCoordinate(lat: number, lng: number): boolean {
   return lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
 }
 
-// Calculate estimated delivery time based on distance and average speed
-export function estimateDeliveryTime(
-  distanceKm: number,
-  averageSpeedKmh: number = 30
-): number {
-  // Returns estimated time in minutes
-  const timeHours = distanceKm / averageSpeedKmh;
-  return Math.ceil(timeHours * 60);
-}
-
 // Validate email format
 export function isValidEmail(email: string): boolean {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -126,7 +223,10 @@ export const ORDER_STATUS_COLORS = {
   picked_up: '#8b5cf6',
   in_transit: '#06b6d4',
   delivered: '#10b981',
-  cancelled: '#ef4444'
+  cancelled: '#ef4444',
+  failed_attempt: '#f97316',
+  rescheduled: '#a855f7',
+  returned: '#6b7280'
 } as const;
 
 export const PRIORITY_COLORS = {
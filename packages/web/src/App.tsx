@@ -56,6 +56,7 @@ function App() {
               <Route path="drivers" element={<Drivers />}>
                 <Route path="create" element={<div />} />
                 <Route path="edit/:id" element={<div />} />
+                <Route path="route/:id" element={<div />} />
                 <Route path="import" element={<div />} />
               </Route>
               <Route path="settings" element={<Settings />} />
@@ -6,10 +6,13 @@ import {
   DEFAULT_MAP_ZOOM, 
   MAP_TILE_LAYER,
   mapIcons,
-  calculateBounds
+  createCustomIcon,
+  calculateBounds,
+  getGeofenceRings
 } from '../utils/map'
-import type { Order } from '@zoneflow/shared'
+import { decodePolyline, type Order } from '@zoneflow/shared'
 import type { BackendGeofence } from '../services/geofences.service'
+import type { DriverRoute } from '../services/driver-service'
 
 interface MapProps {
   orders?: Order[]
@@ -19,9 +22,12 @@ interface MapProps {
     latitude: number
     longitude: number
     is_available: boolean
+    connection_status?: 'online' | 'stale' | 'offline'
     current_order_id?: string
   }>
   geofences?: BackendGeofence[]
+  route?: DriverRoute
+  track?: string
   center?: [number, number]
   zoom?: number
   height?: string
@@ -33,6 +39,8 @@ const Map = ({
   orders = [],
   drivers = [],
   geofences = [],
+  route,
+  track,
   center = DEFAULT_MAP_CENTER,
   zoom = DEFAULT_MAP_ZOOM,
   height = '400px',
@@ -74,7 +82,7 @@ const Map = ({
 
     // Clear existing markers and layers
     map.eachLayer((layer) => {
-      if (layer instanceof L.Marker || layer instanceof L.Circle) {
+      if (layer instanceof L.Marker || layer instanceof L.Path) {
         map.removeLayer(layer)
       }
     })
@@ -116,7 +124,10 @@ const Map = ({
 
     // Add driver markers
     drivers.forEach((driver) => {
-      const icon = driver.is_available ? mapIcons.driver : mapIcons.driverUnavailable
+      // A lost signal outranks availability: the marker position may be out of date
+      const icon = driver.connection_status === 'offline' ? mapIcons.driverOffline
+        : driver.connection_status === 'stale' ? mapIcons.driverStale
+        : driver.is_available ? mapIcons.driver : mapIcons.driverUnavailable
       
       L.marker([driver.latitude, driver.longitude], { icon })
         .bindPopup(`
@@ -125,6 +136,10 @@ const Map = ({
             <p class="text-sm text-gray-600">
               Status: ${driver.is_available ? 'Available' : 'Busy'}
             </p>
+            ${driver.connection_status === 'stale' || driver.connection_status === 'offline' ?
+              `<p class="text-sm text-red-600">${driver.connection_status === 'offline' ? 'Offline, last position shown' : 'Signal lost, position may be stale'}</p>` :
+              ''
+            }
             ${driver.current_order_id ? 
               `<p class="text-xs text-gray-500">Order: ${driver.current_order_id}</p>` : 
               ''
@@ -134,7 +149,7 @@ const Map = ({
         .addTo(map)
     })
 
-    // Add geofence circles
+    // Add geofence shapes
     geofences.forEach((geofence) => {
       const color = {
         pickup: '#10b981',
@@ -143,32 +158,71 @@ const Map = ({
         custom: '#8b5cf6'
       }[geofence.type] || '#8b5cf6'
 
-      // For BackendGeofence, we render all types as circles since they have center_lat/center_lng
-      if (geofence.center_lat && geofence.center_lng) {
-        L.circle([geofence.center_lat, geofence.center_lng], {
-          radius: geofence.radius || 100,
-          color: color,
-          fillColor: color,
-          fillOpacity: 0.1,
-          weight: 2,
-          opacity: geofence.is_active ? 0.8 : 0.3
+      const style = {
+        color: color,
+        fillColor: color,
+        fillOpacity: 0.1,
+        weight: 2,
+        opacity: geofence.is_active ? 0.8 : 0.3
+      }
+
+      const rings = getGeofenceRings(geofence)
+      const layer = rings.length > 0
+        ? L.polygon(rings, style)
+        : L.circle([geofence.center_latitude, geofence.center_longitude], {
+          ...style,
+          radius: geofence.radius || 100
         })
+
+      layer
+        .bindPopup(`
+          <div class="p-2">
+            <h3 class="font-semibold">${geofence.name}</h3>
+            <p class="text-sm text-gray-600">Type: ${geofence.type}</p>
+            <p class="text-sm text-gray-600">
+              ${rings.length > 0 ? `Shape: ${geofence.shape}` : `Radius: ${geofence.radius || 100}m`}
+            </p>
+            <p class="text-xs text-gray-500">
+              Status: ${geofence.is_active ? 'Active' : 'Inactive'}
+            </p>
+          </div>
+        `)
+        .addTo(map)
+    })
+
+    // Add the planned route as a line through numbered stops
+    if (route && route.stops.length > 0) {
+      const path = [
+        ...(route.start ? [route.start] : []),
+        ...route.stops
+      ].map((point): [number, number] => [point.latitude, point.longitude])
+      L.polyline(path, { color: '#6366f1', weight: 3, opacity: 0.8, dashArray: '6 6' }).addTo(map)
+
+      route.stops.forEach((stop, index) => {
+        const color = stop.isLate ? '#ef4444' : stop.type === 'pickup' ? '#f59e0b' : '#10b981'
+        L.marker([stop.latitude, stop.longitude], { icon: createCustomIcon(color, String(index + 1)) })
           .bindPopup(`
             <div class="p-2">
-              <h3 class="font-semibold">${geofence.name}</h3>
-              <p class="text-sm text-gray-600">Type: ${geofence.type}</p>
-              <p class="text-sm text-gray-600">Radius: ${geofence.radius || 100}m</p>
-              <p class="text-xs text-gray-500">
-                Status: ${geofence.is_active ? 'Active' : 'Inactive'}
-              </p>
+              <h3 class="font-semibold">${index + 1}. ${stop.type === 'pickup' ? 'Pickup' : 'Delivery'}: ${stop.trackingCode}</h3>
+              <p class="text-sm text-gray-600">${stop.address}</p>
+              <p class="text-xs text-gray-500">ETA: ${new Date(stop.estimatedArrival).toLocaleTimeString()}</p>
             </div>
           `)
           .addTo(map)
-      }
-    })
+      })
+    }
+
+    // Add the driven track, decoded from its encoded polyline
+    const trackPoints = track ? decodePolyline(track) : []
+    if (trackPoints.length > 1) {
+      L.polyline(trackPoints, { color: '#0ea5e9', weight: 4, opacity: 0.8 }).addTo(map)
+    }
 
     // Auto-fit bounds if there are markers
     const allPoints = [
+      ...trackPoints.map(([latitude, longitude]) => ({ latitude, longitude })),
+      ...(route?.start ? [route.start] : []),
+      ...(route?.stops ?? []),
       ...orders.flatMap(order => [
         order.pickup_lat && order.pickup_lng ?
         { latitude: order.pickup_lat, longitude: order.pickup_lng } : null,
@@ -176,8 +230,12 @@ const Map = ({
         { latitude: order.delivery_lat, longitude: order.delivery_lng } : null
       ]).filter((point): point is { latitude: number; longitude: number } => point !== null),
       ...drivers.map(driver => ({ latitude: driver.latitude, longitude: driver.longitude })),
-      ...geofences.filter(geofence => geofence.center_lat && geofence.center_lng)
-        .map(geofence => ({ latitude: geofence.center_lat!, longitude: geofence.center_lng! }))
+      ...geofences.flatMap(geofence => {
+        const rings = getGeofenceRings(geofence)
+        return rings.length > 0
+          ? rings.flat().map(([latitude, longitude]) => ({ latitude, longitude }))
+          : [{ latitude: geofence.center_latitude, longitude: geofence.center_longitude }]
+      })
     ]
 
     if (allPoints.length > 0) {
@@ -186,7 +244,7 @@ const Map = ({
         map.fitBounds(bounds, { padding: [20, 20] })
       }
     }
-  }, [orders, drivers, geofences])
+  }, [orders, drivers, geofences, route, track])
 
   return (
     <div 
@@ -33,7 +33,8 @@ import {
   MapPin,
   Clock,
   Upload,
-  Filter
+  Filter,
+  Route
 } from 'lucide-react';
 import {
   DropdownMenu,
@@ -81,6 +82,10 @@ const DriverList = () => {
     navigate(`/drivers/edit/${driver.id}`);
   };
 
+  const handleViewRoute = (driver: Driver) => {
+    navigate(`/drivers/route/${driver.id}`);
+  };
+
   const handleDelete = async (driver: Driver) => {
     if (window.confirm(`Are you sure you want to delete driver ${driver.user_id}?`)) {
       try {
@@ -241,7 +246,12 @@ const DriverList = () => {
                       </div>
                     </TableCell>
                     <TableCell>
-                      {getStatusBadge(driver.is_available ? 'available' : 'offline')}
+                      <div className="flex items-center gap-1">
+                        {getStatusBadge(driver.is_available && driver.connection_status !== 'offline' ? 'available' : 'offline')}
+                        {driver.connection_status === 'stale' && (
+                          <Badge className="bg-orange-100 text-orange-800">No signal</Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2 text-sm text-muted-foreground">
@@ -275,6 +285,10 @@ const DriverList = () => {
                             <Edit className="h-4 w-4 mr-2" />
                             Edit
                           </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleViewRoute(driver)}>
+                            <Route className="h-4 w-4 mr-2" />
+                            View route
+                          </DropdownMenuItem>
                           <DropdownMenuItem 
                             onClick={() => handleDelete(driver)}
                             className="text-destructive"
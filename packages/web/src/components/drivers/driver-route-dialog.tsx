@@ -0,0 +1,100 @@
+import { useNavigate, useParams, useLocation } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { Badge } from '../ui/badge';
+import { Skeleton } from '../ui/skeleton';
+import Map from '../Map';
+import { driverService, type DriverRoute } from '../../services/driver-service';
+import { toast } from 'sonner';
+
+const DriverRouteDialog = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { id } = useParams<{ id: string }>();
+  const [route, setRoute] = useState<DriverRoute | null>(null);
+  const [isLoadingRoute, setIsLoadingRoute] = useState(true);
+
+  const isOpen = location.pathname.startsWith('/drivers/route/');
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      navigate('/drivers');
+    }
+  };
+
+  useEffect(() => {
+    const fetchRoute = async () => {
+      if (!id || !isOpen) return;
+
+      setIsLoadingRoute(true);
+      try {
+        setRoute(await driverService.getDriverRoute(id));
+      } catch (error) {
+        console.error('Failed to fetch driver route:', error);
+        toast.error('Failed to plan driver route');
+        navigate('/drivers');
+      } finally {
+        setIsLoadingRoute(false);
+      }
+    };
+
+    fetchRoute();
+  }, [id, isOpen, navigate]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px]">
+        <DialogHeader>
+          <DialogTitle>Planned Route</DialogTitle>
+        </DialogHeader>
+
+        {isLoadingRoute || !route ? (
+          <div className="space-y-4">
+            <Skeleton className="h-[360px] w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : route.stops.length === 0 ? (
+          <p className="text-sm text-muted-foreground">This driver has no active orders.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="md:col-span-3">
+              <Map route={route} height="360px" />
+            </div>
+            <div className="md:col-span-2 space-y-3">
+              <p className="text-sm text-muted-foreground">
+                {route.stops.length} stops · {route.totalDistanceKm.toFixed(1)} km · about {route.totalDurationMinutes} min
+              </p>
+              <ol className="space-y-2 max-h-[320px] overflow-y-auto">
+                {route.stops.map((stop, index) => (
+                  <li key={`${stop.orderId}-${stop.type}`} className="flex items-start gap-3 text-sm">
+                    <span className="font-semibold w-5 text-right">{index + 1}.</span>
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium capitalize">{stop.type}</span>
+                        <span className="text-muted-foreground">{stop.trackingCode}</span>
+                        {stop.isLate && <Badge variant="destructive">Late</Badge>}
+                      </div>
+                      <p className="text-muted-foreground">{stop.address}</p>
+                      <p className="text-xs text-muted-foreground">
+                        ETA {new Date(stop.estimatedArrival).toLocaleTimeString()}
+                        {stop.readyAt && ` · not before ${new Date(stop.readyAt).toLocaleTimeString()}`}
+                        {stop.deadline && ` · due by ${new Date(stop.deadline).toLocaleTimeString()}`}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DriverRouteDialog;
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Download } from 'lucide-react';
+import { Button } from '../ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+import {
+  exportsService,
+  type ExportDataset,
+  type ExportFilters,
+  type ExportFormat,
+} from '../../services/exports.service';
+
+interface ExportMenuProps {
+  // The first dataset is the page's own; any others are offered below a separator
+  datasets: Array<{ dataset: ExportDataset; label: string }>;
+  filters?: ExportFilters;
+}
+
+const FORMATS: Array<{ format: ExportFormat; label: string }> = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel' },
+  { format: 'geojson', label: 'GeoJSON' },
+];
+
+const ExportMenu = ({ datasets, filters }: ExportMenuProps) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (dataset: ExportDataset, format: ExportFormat) => {
+    try {
+      setIsExporting(true);
+      // Page filters only describe the page's own dataset
+      await exportsService.download(dataset, format, dataset === datasets[0].dataset ? filters : {});
+    } catch (error: any) {
+      console.error('Export failed:', error);
+      toast.error(error.message || 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting}>
+          <Download className="w-4 h-4 mr-2" />
+          {isExporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        {datasets.map(({ dataset, label }, index) => (
+          <div key={dataset}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{label}</DropdownMenuLabel>
+            {FORMATS.map(({ format, label: formatLabel }) => (
+              <DropdownMenuItem key={format} onSelect={() => handleExport(dataset, format)}>
+                {formatLabel}
+              </DropdownMenuItem>
+            ))}
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
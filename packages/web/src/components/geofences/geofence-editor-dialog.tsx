@@ -0,0 +1,367 @@
+import { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import { toast } from 'sonner';
+import { isSimpleRing } from '@zoneflow/shared';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select';
+import {
+  geofencesService,
+  type BackendGeofence,
+  type CreateGeofenceData,
+} from '../../services/geofences.service';
+import {
+  DEFAULT_MAP_CENTER,
+  DEFAULT_MAP_ZOOM,
+  MAP_TILE_LAYER,
+  getGeofenceRings,
+} from '../../utils/map';
+
+type LatLng = [number, number];
+type DrawMode = 'circle' | 'polygon';
+
+interface GeofenceEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  geofence?: BackendGeofence | null;
+  onSaved: () => void;
+}
+
+const vertexIcon = L.divIcon({
+  className: 'geofence-vertex',
+  html: '<div class="w-3 h-3 rounded-full bg-white border-2 border-blue-600"></div>',
+  iconSize: [12, 12],
+  iconAnchor: [6, 6],
+});
+
+// Drop the repeated closing vertex so rings can be edited point by point
+const openRing = (ring: LatLng[]): LatLng[] => ring.slice(0, -1);
+const closeRing = (ring: LatLng[]): LatLng[] => [...ring, ring[0]];
+
+const GeofenceEditorDialog = ({
+  open,
+  onOpenChange,
+  geofence,
+  onSaved,
+}: GeofenceEditorDialogProps) => {
+  const isEditMode = !!geofence;
+  const mapContainerRef = useRef<HTMLDivElement | null>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const draftLayerRef = useRef<L.LayerGroup | null>(null);
+  const clickHandlerRef = useRef<(point: LatLng) => void>(() => {});
+
+  const [name, setName] = useState('');
+  const [type, setType] = useState<BackendGeofence['type']>('delivery');
+  const [mode, setMode] = useState<DrawMode>('polygon');
+  const [center, setCenter] = useState<LatLng | null>(null);
+  const [radius, setRadius] = useState(500);
+  const [rings, setRings] = useState<LatLng[][]>([[]]);
+  const [activeRing, setActiveRing] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the draft whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    const existingRings = geofence ? getGeofenceRings(geofence) : [];
+    setName(geofence?.name || '');
+    setType(geofence?.type || 'delivery');
+    setMode(geofence && existingRings.length === 0 ? 'circle' : 'polygon');
+    setCenter(geofence ? [geofence.center_latitude, geofence.center_longitude] : null);
+    setRadius(geofence?.radius || 500);
+    setRings(existingRings.length > 0 ? existingRings.map(openRing) : [[]]);
+    setActiveRing(Math.max(existingRings.length - 1, 0));
+  }, [open, geofence]);
+
+  clickHandlerRef.current = (point: LatLng) => {
+    if (mode === 'circle') {
+      setCenter(point);
+      return;
+    }
+    setRings((current) =>
+      current.map((ring, i) => (i === activeRing ? [...ring, point] : ring))
+    );
+  };
+
+  // Mount the drawing map once the dialog content is in the DOM
+  useEffect(() => {
+    if (!open) return;
+
+    const timer = setTimeout(() => {
+      if (!mapContainerRef.current || mapRef.current) return;
+
+      const map = L.map(mapContainerRef.current).setView(
+        geofence ? [geofence.center_latitude, geofence.center_longitude] : DEFAULT_MAP_CENTER,
+        DEFAULT_MAP_ZOOM
+      );
+      L.tileLayer(MAP_TILE_LAYER.url, {
+        attribution: MAP_TILE_LAYER.attribution,
+      }).addTo(map);
+      map.on('click', (e) => clickHandlerRef.current([e.latlng.lat, e.latlng.lng]));
+
+      draftLayerRef.current = L.layerGroup().addTo(map);
+      mapRef.current = map;
+      map.invalidateSize();
+    }, 0);
+
+    return () => {
+      clearTimeout(timer);
+      mapRef.current?.remove();
+      mapRef.current = null;
+      draftLayerRef.current = null;
+    };
+  }, [open, geofence]);
+
+  // Redraw the draft shape and its draggable handles
+  useEffect(() => {
+    const layer = draftLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+
+    if (mode === 'circle') {
+      if (!center) return;
+      L.circle(center, { radius, color: '#3b82f6', weight: 2, fillOpacity: 0.1 }).addTo(layer);
+      L.marker(center, { draggable: true, icon: vertexIcon })
+        .on('dragend', (e) => {
+          const { lat, lng } = (e.target as L.Marker).getLatLng();
+          setCenter([lat, lng]);
+        })
+        .addTo(layer);
+      return;
+    }
+
+    rings.forEach((ring, ringIndex) => {
+      const color = ringIndex === activeRing ? '#3b82f6' : '#64748b';
+      if (ring.length >= 3) {
+        L.polygon(ring, { color, weight: 2, fillOpacity: 0.1 }).addTo(layer);
+      } else if (ring.length === 2) {
+        L.polyline(ring, { color, weight: 2, dashArray: '4' }).addTo(layer);
+      }
+
+      ring.forEach((vertex, vertexIndex) => {
+        L.marker(vertex, { draggable: true, icon: vertexIcon })
+          .on('dragend', (e) => {
+            const { lat, lng } = (e.target as L.Marker).getLatLng();
+            setRings((current) =>
+              current.map((r, i) =>
+                i === ringIndex
+                  ? r.map((v, j) => (j === vertexIndex ? [lat, lng] as LatLng : v))
+                  : r
+              )
+            );
+          })
+          // Right-click removes a vertex
+          .on('contextmenu', () => {
+            setRings((current) =>
+              current.map((r, i) => (i === ringIndex ? r.filter((_, j) => j !== vertexIndex) : r))
+            );
+          })
+          .addTo(layer);
+      });
+    });
+  }, [mode, center, radius, rings, activeRing, open]);
+
+  const handleUndo = () => {
+    setRings((current) =>
+      current.map((ring, i) => (i === activeRing ? ring.slice(0, -1) : ring))
+    );
+  };
+
+  const handleAddRing = () => {
+    setRings((current) => [...current, []]);
+    setActiveRing(rings.length);
+  };
+
+  const handleClear = () => {
+    setRings([[]]);
+    setActiveRing(0);
+    setCenter(null);
+  };
+
+  const buildPayload = (): CreateGeofenceData | null => {
+    if (name.trim().length < 2) {
+      toast.error('Geofence name must be at least 2 characters');
+      return null;
+    }
+
+    if (mode === 'circle') {
+      if (!center) {
+        toast.error('Click the map to place the geofence center');
+        return null;
+      }
+      return {
+        name: name.trim(),
+        type,
+        shape: 'circle',
+        centerLatitude: center[0],
+        centerLongitude: center[1],
+        radius,
+      };
+    }
+
+    const drawn = rings.filter((ring) => ring.length > 0);
+    if (drawn.length === 0 || drawn.some((ring) => ring.length < 3)) {
+      toast.error('Each zone needs at least 3 points');
+      return null;
+    }
+
+    const closed = drawn.map(closeRing);
+    if (closed.some((ring) => !isSimpleRing(ring))) {
+      toast.error('Zone edges must not cross each other');
+      return null;
+    }
+
+    return closed.length === 1
+      ? { name: name.trim(), type, shape: 'polygon', coordinates: closed[0] }
+      : { name: name.trim(), type, shape: 'multipolygon', coordinates: closed };
+  };
+
+  const handleSave = async () => {
+    const payload = buildPayload();
+    if (!payload) return;
+
+    try {
+      setIsSaving(true);
+      if (geofence) {
+        await geofencesService.updateGeofence(geofence.id, payload);
+        toast.success('Geofence updated successfully');
+      } else {
+        await geofencesService.createGeofence(payload);
+        toast.success('Geofence created successfully');
+      }
+      onSaved();
+      onOpenChange(false);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save geofence');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[800px]">
+        <DialogHeader>
+          <DialogTitle>{isEditMode ? 'Edit Geofence' : 'New Geofence'}</DialogTitle>
+          <DialogDescription>
+            {mode === 'circle'
+              ? 'Click the map to place the center, then drag it to adjust.'
+              : 'Click the map to add points. Drag a point to move it, right-click to remove it.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="geofence-name">Name</Label>
+            <Input
+              id="geofence-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Downtown delivery zone"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as BackendGeofence['type'])}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pickup">Pickup</SelectItem>
+                <SelectItem value="delivery">Delivery</SelectItem>
+                <SelectItem value="restricted">Restricted</SelectItem>
+                <SelectItem value="custom">Custom</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Shape</Label>
+            <Select value={mode} onValueChange={(value) => setMode(value as DrawMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="polygon">Polygon</SelectItem>
+                <SelectItem value="circle">Circle</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div ref={mapContainerRef} style={{ height: '400px' }} className="w-full rounded-lg" />
+
+        <div className="flex flex-wrap items-center gap-2">
+          {mode === 'circle' ? (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="geofence-radius">Radius (m)</Label>
+              <Input
+                id="geofence-radius"
+                type="number"
+                min={10}
+                max={10000}
+                className="w-32"
+                value={radius}
+                onChange={(e) => setRadius(Number(e.target.value))}
+              />
+            </div>
+          ) : (
+            <>
+              <Button type="button" variant="outline" size="sm" onClick={handleUndo}>
+                Undo point
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={handleAddRing}>
+                Add another zone
+              </Button>
+              {rings.length > 1 && (
+                <Select
+                  value={String(activeRing)}
+                  onValueChange={(value) => setActiveRing(Number(value))}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rings.map((ring, i) => (
+                      <SelectItem key={i} value={String(i)}>
+                        Zone {i + 1} ({ring.length} pts)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </>
+          )}
+          <Button type="button" variant="ghost" size="sm" onClick={handleClear}>
+            Clear
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : isEditMode ? 'Save changes' : 'Create geofence'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GeofenceEditorDialog;
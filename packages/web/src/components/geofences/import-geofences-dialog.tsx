@@ -0,0 +1,201 @@
+import { useState, useRef, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Upload, FileText, AlertCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import Map from '../Map';
+import {
+  geofencesService,
+  type BackendGeofence,
+  type GeofenceImportResult,
+} from '../../services/geofences.service';
+
+interface ImportGeofencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+// Shape the previewed features like stored geofences so the map can draw them
+const toPreviewGeofences = (result: GeofenceImportResult): BackendGeofence[] =>
+  result.features.flatMap(feature => feature.geofence ? [{
+    id: `preview-${feature.index}`,
+    name: feature.geofence.name,
+    type: feature.geofence.type,
+    shape: feature.geofence.shape,
+    center_latitude: feature.geofence.centerLatitude ?? 0,
+    center_longitude: feature.geofence.centerLongitude ?? 0,
+    radius: feature.geofence.radius ?? 0,
+    coordinates: feature.geofence.coordinates ?? null,
+    dwell_time: feature.geofence.dwellTime ?? null,
+    is_active: true,
+    business_id: '',
+    created_at: '',
+    updated_at: '',
+  }] : []);
+
+const ImportGeofencesDialog = ({ open, onOpenChange, onImported }: ImportGeofencesDialogProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [result, setResult] = useState<GeofenceImportResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Start fresh each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setSelectedFile(null);
+    setResult(null);
+  }, [open]);
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const fileExtension = file.name.toLowerCase().split('.').pop();
+    if (!['geojson', 'json', 'kml'].includes(fileExtension || '')) {
+      toast.error('Only GeoJSON and KML files are supported');
+      return;
+    }
+    setSelectedFile(file);
+    setResult(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!selectedFile) return;
+
+    try {
+      setIsLoading(true);
+      const imported = await geofencesService.importGeofences(selectedFile, dryRun);
+      setResult(imported);
+
+      if (!dryRun) {
+        toast.success(`Imported ${imported.created} geofences`);
+        if (imported.created > 0) {
+          onImported();
+        }
+      }
+    } catch (error: any) {
+      console.error('Failed to import geofences:', error);
+      toast.error(error.message || 'Failed to import geofences');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const failedFeatures = result?.features.filter(feature => feature.status === 'failed') ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Geofences</DialogTitle>
+          <DialogDescription>
+            Upload a GeoJSON or KML file from your GIS tool. Preview it on the map before creating the zones.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Polygons and multipolygons are imported as drawn. Points become circles when they carry a
+              <code className="mx-1">radius</code> property in meters. Set <code className="mx-1">name</code>
+              and <code className="mx-1">type</code> (pickup, delivery, restricted or custom) as properties too.
+            </AlertDescription>
+          </Alert>
+
+          <div className="space-y-2">
+            <Label>Upload File</Label>
+            <div className="border-2 border-dashed rounded-lg p-6 text-center border-muted-foreground/25">
+              {selectedFile ? (
+                <div className="flex items-center justify-center gap-3">
+                  <FileText className="h-6 w-6 text-primary" />
+                  <span className="font-medium">{selectedFile.name}</span>
+                  <Button variant="outline" size="sm" onClick={() => { setSelectedFile(null); setResult(null); }}>
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Choose file
+                </Button>
+              )}
+            </div>
+            <Input
+              ref={fileInputRef}
+              type="file"
+              accept=".geojson,.json,.kml"
+              onChange={handleFileInputChange}
+              className="hidden"
+            />
+          </div>
+
+          {result && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">{result.total} features</Badge>
+                <Badge variant="default">{result.dryRun ? `${result.valid} ready to import` : `${result.created} created`}</Badge>
+                {result.failed > 0 && <Badge variant="destructive">{result.failed} failed</Badge>}
+              </div>
+
+              {result.valid > 0 && (
+                <div className="rounded-md overflow-hidden border">
+                  <Map geofences={toPreviewGeofences(result)} height="300px" />
+                </div>
+              )}
+
+              {failedFeatures.length > 0 && (
+                <div className="max-h-48 overflow-y-auto border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">#</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Problems</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {failedFeatures.map(feature => (
+                        <TableRow key={feature.index}>
+                          <TableCell>{feature.index}</TableCell>
+                          <TableCell>{feature.name ?? '—'}</TableCell>
+                          <TableCell className="text-sm text-destructive">{feature.errors?.join('; ')}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+              {result && !result.dryRun ? 'Close' : 'Cancel'}
+            </Button>
+            <Button variant="outline" onClick={() => runImport(true)} disabled={!selectedFile || isLoading}>
+              Preview
+            </Button>
+            <Button onClick={() => runImport(false)} disabled={!selectedFile || isLoading || (result !== null && !result.dryRun)}>
+              {isLoading ? 'Working...' : 'Import Geofences'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportGeofencesDialog;
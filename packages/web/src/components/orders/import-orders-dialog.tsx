@@ -0,0 +1,260 @@
+import { useState, useRef, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Upload, FileText, Download, AlertCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Badge } from '../ui/badge';
+import { Alert, AlertDescription } from '../ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { ordersService, type OrderImportResult } from '../../services/orders.service';
+
+interface ImportOrdersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+// Order fields and the column each is read from unless mapped elsewhere
+const COLUMNS: Array<{ field: string; column: string; label: string }> = [
+  { field: 'externalRef', column: 'external_ref', label: 'External reference' },
+  { field: 'customerName', column: 'customer_name', label: 'Customer name' },
+  { field: 'customerPhone', column: 'customer_phone', label: 'Customer phone' },
+  { field: 'customerEmail', column: 'customer_email', label: 'Customer email' },
+  { field: 'pickupAddress', column: 'pickup_address', label: 'Pickup address' },
+  { field: 'pickupLatitude', column: 'pickup_latitude', label: 'Pickup latitude' },
+  { field: 'pickupLongitude', column: 'pickup_longitude', label: 'Pickup longitude' },
+  { field: 'deliveryAddress', column: 'delivery_address', label: 'Delivery address' },
+  { field: 'deliveryLatitude', column: 'delivery_latitude', label: 'Delivery latitude' },
+  { field: 'deliveryLongitude', column: 'delivery_longitude', label: 'Delivery longitude' },
+  { field: 'priority', column: 'priority', label: 'Priority' },
+  { field: 'estimatedDelivery', column: 'estimated_delivery', label: 'Estimated delivery' },
+  { field: 'pickupReadyAt', column: 'pickup_ready_at', label: 'Pickup ready at' },
+  { field: 'deliveryWindowStart', column: 'delivery_window_start', label: 'Delivery window start' },
+  { field: 'deliveryWindowEnd', column: 'delivery_window_end', label: 'Delivery window end' },
+  { field: 'scheduledFor', column: 'scheduled_for', label: 'Scheduled for' },
+  { field: 'notes', column: 'notes', label: 'Notes' },
+];
+
+const ImportOrdersDialog = ({ open, onOpenChange, onImported }: ImportOrdersDialogProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [showMapping, setShowMapping] = useState(false);
+  const [result, setResult] = useState<OrderImportResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Start fresh each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setSelectedFile(null);
+    setMapping({});
+    setShowMapping(false);
+    setResult(null);
+  }, [open]);
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const fileExtension = file.name.toLowerCase().split('.').pop();
+    if (!['csv', 'xlsx', 'xls'].includes(fileExtension || '')) {
+      toast.error('Only CSV and Excel files are supported');
+      return;
+    }
+    setSelectedFile(file);
+    setResult(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!selectedFile) return;
+
+    const customMapping = Object.fromEntries(
+      Object.entries(mapping).filter(([, column]) => column.trim() !== '').map(([field, column]) => [field, column.trim()])
+    );
+
+    try {
+      setIsLoading(true);
+      const imported = await ordersService.importOrders(selectedFile, {
+        dryRun,
+        mapping: Object.keys(customMapping).length > 0 ? customMapping : undefined,
+      });
+      setResult(imported);
+
+      if (!dryRun) {
+        const skipped = imported.skipped > 0 ? `, ${imported.skipped} already imported` : '';
+        toast.success(`Imported ${imported.created} orders${skipped}`);
+        if (imported.created > 0) {
+          onImported();
+        }
+      }
+    } catch (error: any) {
+      console.error('Failed to import orders:', error);
+      toast.error(error.message || 'Failed to import orders');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const downloadErrors = async () => {
+    if (!result || !selectedFile) return;
+    try {
+      await ordersService.downloadImportErrors(result, selectedFile.name);
+    } catch (error) {
+      console.error('Failed to download error report:', error);
+      toast.error('Failed to download error report');
+    }
+  };
+
+  const downloadTemplate = () => {
+    const csvContent = `${COLUMNS.map(c => c.column).join(',')}
+ORD-1001,Jane Smith,+1987654321,jane@example.com,1 Warehouse Rd,40.7128,-74.0060,22 Main St,40.7306,-73.9866,high,,,,,,Leave at reception`;
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'order-import-template.csv';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+
+  const failedRows = result?.rows.filter(row => row.status === 'failed') ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Orders</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel file. Preview it first to check every row before any orders are created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Rows with an external reference that was already imported are skipped, so the same file can be uploaded again.
+              <Button variant="link" className="p-0 h-auto ml-2" onClick={downloadTemplate}>
+                <Download className="h-4 w-4 mr-1" />
+                Download Template
+              </Button>
+            </AlertDescription>
+          </Alert>
+
+          <div className="space-y-2">
+            <Label>Upload File</Label>
+            <div className="border-2 border-dashed rounded-lg p-6 text-center border-muted-foreground/25">
+              {selectedFile ? (
+                <div className="flex items-center justify-center gap-3">
+                  <FileText className="h-6 w-6 text-primary" />
+                  <span className="font-medium">{selectedFile.name}</span>
+                  <Button variant="outline" size="sm" onClick={() => { setSelectedFile(null); setResult(null); }}>
+                    Remove
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Choose file
+                </Button>
+              )}
+            </div>
+            <Input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={handleFileInputChange}
+              className="hidden"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Button variant="link" className="p-0 h-auto" onClick={() => setShowMapping(!showMapping)}>
+              {showMapping ? 'Hide column mapping' : 'My file uses different column names'}
+            </Button>
+            {showMapping && (
+              <div className="grid grid-cols-2 gap-3">
+                {COLUMNS.map(({ field, column, label }) => (
+                  <div key={field} className="space-y-1">
+                    <Label htmlFor={`mapping-${field}`} className="text-xs">{label}</Label>
+                    <Input
+                      id={`mapping-${field}`}
+                      placeholder={column}
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => { setMapping({ ...mapping, [field]: e.target.value }); setResult(null); }}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {result && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">{result.totalRows} rows</Badge>
+                <Badge variant="default">{result.dryRun ? `${result.valid} ready to import` : `${result.created} created`}</Badge>
+                {result.skipped > 0 && <Badge variant="outline">{result.skipped} already imported</Badge>}
+                {result.failed > 0 && <Badge variant="destructive">{result.failed} failed</Badge>}
+              </div>
+
+              {failedRows.length > 0 && (
+                <>
+                  <div className="max-h-56 overflow-y-auto border rounded-md">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-16">Row</TableHead>
+                          <TableHead>Reference</TableHead>
+                          <TableHead>Problems</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {failedRows.map(row => (
+                          <TableRow key={row.row}>
+                            <TableCell>{row.row}</TableCell>
+                            <TableCell>{row.externalRef ?? '—'}</TableCell>
+                            <TableCell className="text-sm text-destructive">{row.errors?.join('; ')}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={downloadErrors}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download error report
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+              {result && !result.dryRun ? 'Close' : 'Cancel'}
+            </Button>
+            <Button variant="outline" onClick={() => runImport(true)} disabled={!selectedFile || isLoading}>
+              Preview
+            </Button>
+            <Button onClick={() => runImport(false)} disabled={!selectedFile || isLoading || (result !== null && !result.dryRun)}>
+              {isLoading ? 'Working...' : 'Import Orders'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportOrdersDialog;
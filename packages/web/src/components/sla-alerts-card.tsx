@@ -0,0 +1,63 @@
+import { Link } from 'react-router-dom';
+import { RiAlarmWarningLine, RiCheckboxCircleLine } from '@remixicon/react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { SlaAlert, SlaStage } from '@/services/sla.service';
+import { formatRelativeTime } from '@/utils/format';
+
+const STAGE_LABELS: Record<SlaStage, string> = {
+  assign: 'Assignment',
+  pickup: 'Pickup',
+  delivery: 'Delivery',
+};
+
+export function SlaAlertsCard({ alerts }: { alerts: SlaAlert[] }) {
+  const breached = alerts.filter((alert) => alert.level === 'breached').length;
+
+  return (
+    <Card className="mt-px border-x-0 border-b-0">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RiAlarmWarningLine className="h-5 w-5 text-orange-500" />
+          SLA Alerts
+        </CardTitle>
+        <CardDescription>
+          {alerts.length > 0
+            ? `${breached} breached, ${alerts.length - breached} at risk`
+            : 'Active orders that are late or about to be'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {alerts.length > 0 ? (
+          <ul className="divide-y divide-border">
+            {alerts.map((alert) => (
+              <li key={alert.id} className="flex items-center justify-between gap-4 py-2 text-sm">
+                <div className="min-w-0">
+                  <Link
+                    to={`/orders/${alert.order_id}`}
+                    className="font-medium text-blue-600 hover:text-blue-500"
+                  >
+                    {alert.tracking_code}
+                  </Link>
+                  <span className="text-muted-foreground"> · {alert.customer_name}</span>
+                  <p className="text-xs text-muted-foreground">
+                    {STAGE_LABELS[alert.stage]} due {formatRelativeTime(alert.deadline)}
+                    {alert.driver_name && ` · ${alert.driver_name}`}
+                  </p>
+                </div>
+                <Badge variant={alert.level === 'breached' ? 'destructive' : 'secondary'}>
+                  {alert.level === 'breached' ? 'Breached' : 'At risk'}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <RiCheckboxCircleLine className="h-4 w-4 text-green-600" />
+            All active orders are on track
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -11,5 +11,8 @@ export const ORDER_STATUS_COLORS = {
   picked_up: '#8b5cf6',
   in_transit: '#06b6d4',
   delivered: '#10b981',
-  cancelled: '#ef4444'
+  cancelled: '#ef4444',
+  failed_attempt: '#f97316',
+  rescheduled: '#a855f7',
+  returned: '#6b7280'
 } as const;
\ No newline at end of file
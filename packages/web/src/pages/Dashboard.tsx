@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
 import {
   RiBox3Line,
@@ -25,10 +25,13 @@ import {
 import Map from '../components/map';
 import LoadingSpinner from '../components/loading-spinner';
 import { dashboardService } from '../services/dashboard.service';
+import { slaService, type SlaAlert } from '../services/sla.service';
+import { useRealtimeEvents } from '../services/realtime.service';
 
 import { useAuthStore } from '../stores/auth.store';
 import { ChartOrderStatus } from '@/components/chart-order-status';
 import { DeliveryPerformanceChart } from '@/components/delivery-performance-chart';
+import { SlaAlertsCard } from '@/components/sla-alerts-card';
 import {
   Empty,
   EmptyContent,
@@ -47,6 +50,7 @@ interface DashboardStats {
   activeDrivers: number;
   totalRevenue: number;
   avgDeliveryTime: number;
+  scheduledOrders: number;
   orderMetrics: {
     pending: number;
     in_progress: number;
@@ -75,22 +79,85 @@ interface MapData {
 const Dashboard = () => {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [mapData, setMapData] = useState<MapData | null>(null);
+  const [slaAlerts, setSlaAlerts] = useState<SlaAlert[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const { user } = useAuthStore();
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout>>();
 
   useEffect(() => {
     loadDashboardData();
+    return () => clearTimeout(refreshTimerRef.current);
   }, []);
 
+  // Coalesce bursts of order events into a single refresh
+  const scheduleRefresh = () => {
+    clearTimeout(refreshTimerRef.current);
+    refreshTimerRef.current = setTimeout(loadDashboardData, 1000);
+  };
+
+  useRealtimeEvents((event) => {
+    switch (event.type) {
+      case 'driver.location_updated':
+        setMapData((current) => current && {
+          ...current,
+          drivers: current.drivers.map((driver) =>
+            driver.id === event.data.driverId
+              ? { ...driver, latitude: event.data.latitude, longitude: event.data.longitude }
+              : driver
+          ),
+        });
+        break;
+      case 'driver.connection_changed':
+        setMapData((current) => current && {
+          ...current,
+          drivers: current.drivers.map((driver) =>
+            driver.id === event.data.driverId
+              ? { ...driver, connection_status: event.data.status }
+              : driver
+          ),
+        });
+        break;
+      case 'driver.signal_lost': {
+        const orders = event.data.activeOrders.length;
+        toast.error(`Lost contact with ${event.data.name}, who holds ${orders} active order${orders === 1 ? '' : 's'}`);
+        break;
+      }
+      case 'geofence.enter':
+      case 'geofence.exit':
+      case 'geofence.dwell': {
+        const driver = mapData?.drivers.find((d) => d.id === event.data.driverId);
+        const action = event.type === 'geofence.enter' ? 'entered' : event.type === 'geofence.exit' ? 'left' : 'is dwelling in';
+        toast.info(`${driver?.name || 'A driver'} ${action} ${event.data.geofence.name}`);
+        break;
+      }
+      case 'order.sla_alert':
+        if (event.data.level === 'breached') {
+          toast.error(`Order ${event.data.trackingCode} missed its ${event.data.stage} deadline`);
+        }
+        scheduleRefresh();
+        break;
+      case 'order.dispatch_proposed': {
+        const [best] = event.data.candidates;
+        toast.info(`Suggested driver: ${best.name} (${best.distanceKm} km from pickup)`);
+        break;
+      }
+      default:
+        scheduleRefresh();
+    }
+  });
+
   const loadDashboardData = async () => {
     try {
-      const [statsData, mapDataResponse] = await Promise.all([
+      const [statsData, mapDataResponse, alerts] = await Promise.all([
         dashboardService.getStats(),
         dashboardService.getMapData(),
+        // SLA alerts are optional; the rest of the dashboard loads without them
+        slaService.getAlerts().catch(() => []),
       ]);
 
       setStats(statsData);
       setMapData(mapDataResponse);
+      setSlaAlerts(alerts);
     } catch (error: any) {
       toast.error('Failed to load dashboard data');
       console.error('Dashboard error:', error);
@@ -191,6 +258,11 @@ const Dashboard = () => {
               <div className="text-2xl font-semibold mb-2">
                 {stats.activeOrders}
               </div>
+              {stats.scheduledOrders > 0 && (
+                <div className="text-xs text-muted-foreground/60">
+                  {stats.scheduledOrders} scheduled for later
+                </div>
+              )}
               {/* <div className="text-xs text-muted-foreground/60">
                 <span className="font-medium text-emerald-500">↗ +42% </span>
                 vs last week
@@ -374,6 +446,9 @@ const Dashboard = () => {
         <ChartOrderStatus orderMetrics={stats.orderMetrics} />
       </div>
 
+      {/* SLA Alerts */}
+      <SlaAlertsCard alerts={slaAlerts} />
+
       {/* Top Drivers */}
       <Card className="mt-px border-x-0 border-b-0">
         <CardHeader>
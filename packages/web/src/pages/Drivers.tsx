@@ -6,6 +6,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
 import CreateDriverDialog from '../components/drivers/create-driver-dialog';
 import EditDriverDialog from '../components/drivers/edit-driver-dialog';
 import ImportDriversDialog from '../components/drivers/import-drivers-dialog';
+import DriverRouteDialog from '../components/drivers/driver-route-dialog';
+import ExportMenu from '../components/exports/export-menu';
 import { Users, UserCheck, UserX, Activity } from 'lucide-react';
 
 const DriversPage = () => {
@@ -25,6 +27,13 @@ const DriversPage = () => {
             Manage your delivery drivers and their assignments
           </p>
         </div>
+        <ExportMenu
+          datasets={[
+            { dataset: 'drivers', label: 'Drivers' },
+            { dataset: 'locations', label: 'Location history' },
+            { dataset: 'geofence-events', label: 'Geofence events' },
+          ]}
+        />
       </div>
 
       {/* Driver Statistics */}
@@ -89,6 +98,7 @@ const DriversPage = () => {
       <CreateDriverDialog />
       <EditDriverDialog />
       <ImportDriversDialog />
+      <DriverRouteDialog />
 
       {/* Outlet for nested routes */}
       <Outlet />
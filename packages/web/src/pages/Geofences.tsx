@@ -1,18 +1,24 @@
 import { useState, useEffect } from 'react'
-import { RiMapPinLine, RiAddLine, RiEditLine, RiDeleteBinLine } from '@remixicon/react'
+import { RiMapPinLine, RiAddLine, RiEditLine, RiDeleteBinLine, RiUploadLine, RiDownloadLine } from '@remixicon/react'
 import { toast } from 'sonner'
 import LoadingSpinner from '../components/loading-spinner'
 import Map from '../components/map'
-import { geofencesService, type BackendGeofence } from '../services/geofences.service'
+import GeofenceEditorDialog from '../components/geofences/geofence-editor-dialog'
+import ImportGeofencesDialog from '../components/geofences/import-geofences-dialog'
+import { geofencesService, type BackendGeofence, type GeofenceFileFormat } from '../services/geofences.service'
 import { formatDate } from '../utils/format'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
 import { Badge } from '../components/ui/badge'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../components/ui/dropdown-menu'
 
 const Geofences = () => {
   const [geofences, setGeofences] = useState<BackendGeofence[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [isEditorOpen, setIsEditorOpen] = useState(false)
+  const [editingGeofence, setEditingGeofence] = useState<BackendGeofence | null>(null)
+  const [isImportOpen, setIsImportOpen] = useState(false)
 
   useEffect(() => {
     loadGeofences()
@@ -41,6 +47,37 @@ const Geofences = () => {
     }
   }
 
+  const openEditor = (geofence: BackendGeofence | null = null) => {
+    setEditingGeofence(geofence)
+    setIsEditorOpen(true)
+  }
+
+  const handleDeleteGeofence = async (geofence: BackendGeofence) => {
+    if (!window.confirm(`Delete geofence "${geofence.name}"?`)) return
+
+    try {
+      await geofencesService.deleteGeofence(geofence.id)
+      await loadGeofences()
+      toast.success('Geofence deleted successfully')
+    } catch (error: any) {
+      toast.error('Failed to delete geofence')
+    }
+  }
+
+  const handleExport = async (format: GeofenceFileFormat) => {
+    try {
+      await geofencesService.exportGeofences(format)
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to export geofences')
+    }
+  }
+
+  const formatShape = (geofence: BackendGeofence) => {
+    if (geofence.shape === 'polygon') return 'Polygon'
+    if (geofence.shape === 'multipolygon') return 'Multipolygon'
+    return `Radius: ${geofence.radius}m`
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -57,10 +94,28 @@ const Geofences = () => {
           <h1 className="text-2xl font-bold">Geofences</h1>
           <p className="text-muted-foreground">Manage delivery zones and restricted areas</p>
         </div>
-        <Button>
-          <RiAddLine className="w-4 h-4 mr-2" />
-          New Geofence
-        </Button>
+        <div className="flex gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={geofences.length === 0}>
+                <RiDownloadLine className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => handleExport('geojson')}>GeoJSON</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleExport('kml')}>KML</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <RiUploadLine className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <Button onClick={() => openEditor()}>
+            <RiAddLine className="w-4 h-4 mr-2" />
+            New Geofence
+          </Button>
+        </div>
       </div>
 
       {/* Map */}
@@ -92,7 +147,7 @@ const Geofences = () => {
                   <TableRow>
                     <TableHead>Name</TableHead>
                     <TableHead>Type</TableHead>
-                    <TableHead>Radius</TableHead>
+                    <TableHead>Shape</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead>Actions</TableHead>
@@ -105,7 +160,7 @@ const Geofences = () => {
                         <div>
                           <p className="font-medium">{geofence.name}</p>
                           <p className="text-xs text-muted-foreground">
-                            Radius: {geofence.radius}m
+                            {formatShape(geofence)}
                           </p>
                         </div>
                       </TableCell>
@@ -120,7 +175,7 @@ const Geofences = () => {
                         </Badge>
                       </TableCell>
                       <TableCell className="text-muted-foreground">
-                        {geofence.radius}m
+                        {geofence.shape === 'circle' ? `${geofence.radius}m` : formatShape(geofence)}
                       </TableCell>
                       <TableCell>
                         <Button
@@ -138,10 +193,10 @@ const Geofences = () => {
                       </TableCell>
                       <TableCell>
                         <div className="flex gap-2">
-                          <Button variant="ghost" size="sm">
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(geofence)}>
                             <RiEditLine className="w-4 h-4" />
                           </Button>
-                          <Button variant="ghost" size="sm">
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteGeofence(geofence)}>
                             <RiDeleteBinLine className="w-4 h-4" />
                           </Button>
                         </div>
@@ -159,7 +214,7 @@ const Geofences = () => {
                 Get started by creating your first geofence.
               </p>
               <div className="mt-6">
-                <Button>
+                <Button onClick={() => openEditor()}>
                   <RiAddLine className="w-4 h-4 mr-2" />
                   Create Geofence
                 </Button>
@@ -168,6 +223,19 @@ const Geofences = () => {
           )}
         </CardContent>
       </Card>
+
+      <GeofenceEditorDialog
+        open={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        geofence={editingGeofence}
+        onSaved={loadGeofences}
+      />
+
+      <ImportGeofencesDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImported={loadGeofences}
+      />
     </div>
   )
 }
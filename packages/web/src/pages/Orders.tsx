@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react'
 import { Link } from 'react-router-dom'
-import { RiBox3Line, RiAddLine, RiSearchLine } from '@remixicon/react'
+import { RiBox3Line, RiAddLine, RiSearchLine, RiUploadLine } from '@remixicon/react'
 import { toast } from 'sonner'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
@@ -9,7 +9,9 @@ import { Badge } from '../components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table'
 import LoadingSpinner from '../components/loading-spinner'
-import { ordersService } from '../services/orders.service'
+import ImportOrdersDialog from '../components/orders/import-orders-dialog'
+import ExportMenu from '../components/exports/export-menu'
+import { ordersService, isAwaitingRelease } from '../services/orders.service'
 import { formatDate } from '../utils/format'
 import type { Order } from '@zoneflow/shared'
 
@@ -21,20 +23,26 @@ const Orders = () => {
   const [orders, setOrders] = useState<Order[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
-  const [statusFilter, setStatusFilter] = useState<OrderStatus | ''>('')
+  // 'scheduled' narrows pending orders to those not yet released to dispatch
+  const [statusFilter, setStatusFilter] = useState<OrderStatus | 'scheduled' | ''>('')
   const [priorityFilter, setPriorityFilter] = useState<OrderPriority | ''>('')
+  const [importOpen, setImportOpen] = useState(false)
 
   useEffect(() => {
     loadOrders()
   }, [statusFilter, priorityFilter])
 
+  // Shared by the list and the export so both show the same orders
+  const listFilters = {
+    status: statusFilter === 'scheduled' ? 'pending' : statusFilter || undefined,
+    scheduled: statusFilter === 'scheduled' ? 'true' as const : undefined,
+    priority: priorityFilter || undefined,
+  }
+
   const loadOrders = async () => {
     try {
       setIsLoading(true)
-      const response = await ordersService.getOrders({
-        status: statusFilter || undefined,
-        priority: priorityFilter || undefined,
-      })
+      const response = await ordersService.getOrders(listFilters)
       setOrders(response.data)
     } catch (error: any) {
       toast.error('Failed to load orders')
@@ -65,14 +73,23 @@ const Orders = () => {
           <h1 className="text-2xl font-bold">Orders</h1>
           <p className="text-muted-foreground">Manage and track all your delivery orders</p>
         </div>
-        <Button asChild>
-          <Link to="/orders/new">
-            <RiAddLine className="w-4 h-4 mr-2" />
-            New Order
-          </Link>
-        </Button>
+        <div className="flex gap-2">
+          <ExportMenu datasets={[{ dataset: 'orders', label: 'Orders' }]} filters={listFilters} />
+          <Button variant="outline" onClick={() => setImportOpen(true)}>
+            <RiUploadLine className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <Button asChild>
+            <Link to="/orders/new">
+              <RiAddLine className="w-4 h-4 mr-2" />
+              New Order
+            </Link>
+          </Button>
+        </div>
       </div>
 
+      <ImportOrdersDialog open={importOpen} onOpenChange={setImportOpen} onImported={loadOrders} />
+
       {/* Filters */}
       <Card>
         <CardContent className="pt-6">
@@ -90,18 +107,22 @@ const Orders = () => {
               </div>
             </div>
             <div className="flex gap-4">
-              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as OrderStatus | '')}>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as OrderStatus | 'scheduled' | '')}>
                 <SelectTrigger className="w-[180px]">
                   <SelectValue placeholder="All Status" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="scheduled">Scheduled</SelectItem>
                   <SelectItem value="assigned">Assigned</SelectItem>
                   <SelectItem value="picked_up">Picked Up</SelectItem>
                   <SelectItem value="in_transit">In Transit</SelectItem>
                   <SelectItem value="delivered">Delivered</SelectItem>
                   <SelectItem value="cancelled">Cancelled</SelectItem>
+                  <SelectItem value="failed_attempt">Failed Attempt</SelectItem>
+                  <SelectItem value="rescheduled">Rescheduled</SelectItem>
+                  <SelectItem value="returned">Returned</SelectItem>
                 </SelectContent>
               </Select>
               <Select value={priorityFilter} onValueChange={(value) => setPriorityFilter(value as OrderPriority | '')}>
@@ -176,10 +197,17 @@ const Orders = () => {
                           order.status === 'picked_up' ? 'outline' :
                           order.status === 'assigned' ? 'secondary' :
                           order.status === 'cancelled' ? 'destructive' :
+                          order.status === 'failed_attempt' ? 'destructive' :
+                          order.status === 'returned' ? 'secondary' :
                           'outline'
                         }>
                           {order.status.replace('_', ' ')}
                         </Badge>
+                        {isAwaitingRelease(order) && order.scheduled_for && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Releases {formatDate(order.scheduled_for)}
+                          </p>
+                        )}
                       </TableCell>
                       <TableCell>
                         <Badge variant={
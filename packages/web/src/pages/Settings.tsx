@@ -1,5 +1,5 @@
-import { useState } from 'react'
-import { RiUserLine, RiNotificationLine, RiShieldLine, RiGlobalLine, RiSaveLine } from '@remixicon/react'
+import { useEffect, useState } from 'react'
+import { RiUserLine, RiNotificationLine, RiShieldLine, RiGlobalLine, RiSaveLine, RiRouteLine, RiDatabase2Line, RiAlarmWarningLine, RiCameraLine } from '@remixicon/react'
 import { toast } from 'sonner'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
@@ -8,6 +8,18 @@ import { Label } from '../components/ui/label'
 import { Switch } from '../components/ui/switch'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select'
+import { dispatchService, type DispatchSettings } from '../services/dispatch.service'
+import { retentionService, type RetentionSettings, type RetentionReport } from '../services/retention.service'
+import { proofsService, type ProofSettings } from '../services/proofs.service'
+import { deliveryAttemptsService, type DeliveryAttemptSettings } from '../services/delivery-attempts.service'
+import { slaService, type SlaSettings, type SlaPriority, type SlaRule } from '../services/sla.service'
+
+const SLA_PRIORITIES: SlaPriority[] = ['urgent', 'high', 'medium', 'low']
+const SLA_LIMITS: Array<{ key: keyof SlaRule; label: string }> = [
+  { key: 'maxAssignMinutes', label: 'Assign within' },
+  { key: 'maxPickupMinutes', label: 'Pick up within' },
+  { key: 'maxDeliveryMinutes', label: 'Deliver within' },
+]
 
 const Settings = () => {
   const [profileData, setProfileData] = useState({
@@ -32,6 +44,108 @@ const Settings = () => {
     loginAlerts: true
   })
 
+  const [dispatch, setDispatch] = useState<DispatchSettings | null>(null)
+  const [retention, setRetention] = useState<RetentionSettings | null>(null)
+  const [retentionReport, setRetentionReport] = useState<RetentionReport | null>(null)
+  const [sla, setSla] = useState<SlaSettings | null>(null)
+  const [proof, setProof] = useState<ProofSettings | null>(null)
+  const [attempts, setAttempts] = useState<DeliveryAttemptSettings | null>(null)
+
+  useEffect(() => {
+    dispatchService.getSettings()
+      .then(setDispatch)
+      .catch((error) => console.error('Failed to load dispatch settings:', error))
+    retentionService.getSettings()
+      .then(setRetention)
+      .catch((error) => console.error('Failed to load retention settings:', error))
+    slaService.getSettings()
+      .then(setSla)
+      .catch((error) => console.error('Failed to load SLA settings:', error))
+    proofsService.getSettings()
+      .then(setProof)
+      .catch((error) => console.error('Failed to load proof of delivery settings:', error))
+    deliveryAttemptsService.getSettings()
+      .then(setAttempts)
+      .catch((error) => console.error('Failed to load delivery attempt settings:', error))
+  }, [])
+
+  const handleDispatchSave = async () => {
+    if (!dispatch) return
+    try {
+      setDispatch(await dispatchService.updateSettings({
+        mode: dispatch.mode,
+        strategy: dispatch.strategy,
+        maxDistanceKm: dispatch.maxDistanceKm,
+        maxActiveOrders: dispatch.maxActiveOrders,
+        maxLocationAgeMinutes: dispatch.maxLocationAgeMinutes,
+      }))
+      toast.success('Dispatch settings saved successfully')
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save dispatch settings')
+    }
+  }
+
+  const handleRetentionSave = async () => {
+    if (!retention) return
+    try {
+      setRetention(await retentionService.updateSettings(retention))
+      toast.success('Retention settings saved successfully')
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save retention settings')
+    }
+  }
+
+  const handleRetentionRun = async (dryRun: boolean) => {
+    try {
+      const report = await retentionService.run(dryRun)
+      setRetentionReport(report)
+      if (!dryRun) {
+        toast.success(`Removed ${report.downsampled + report.deleted} location fixes`)
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to run retention')
+    }
+  }
+
+  const handleSlaSave = async () => {
+    if (!sla) return
+    try {
+      setSla(await slaService.updateSettings(sla))
+      toast.success('SLA settings saved successfully')
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save SLA settings')
+    }
+  }
+
+  const handleProofSave = async () => {
+    if (!proof) return
+    try {
+      setProof(await proofsService.updateSettings(proof))
+      toast.success('Proof of delivery settings saved successfully')
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save proof of delivery settings')
+    }
+  }
+
+  const handleAttemptsSave = async () => {
+    if (!attempts) return
+    try {
+      setAttempts(await deliveryAttemptsService.updateSettings(attempts))
+      toast.success('Delivery attempt settings saved successfully')
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save delivery attempt settings')
+    }
+  }
+
+  // An empty field turns the limit off
+  const setSlaLimit = (priority: SlaPriority, key: keyof SlaRule, value: string) => {
+    if (!sla) return
+    setSla({
+      ...sla,
+      rules: { ...sla.rules, [priority]: { ...sla.rules[priority], [key]: value === '' ? null : Number(value) } },
+    })
+  }
+
   const handleProfileSave = () => {
     toast.success('Profile settings saved successfully')
   }
@@ -54,7 +168,7 @@ const Settings = () => {
 
       {/* Settings Tabs */}
       <Tabs defaultValue="profile" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-8">
           <TabsTrigger value="profile" className="flex items-center gap-2">
             <RiUserLine className="w-4 h-4" />
             Profile
@@ -67,6 +181,22 @@ const Settings = () => {
             <RiShieldLine className="w-4 h-4" />
             Security
           </TabsTrigger>
+          <TabsTrigger value="dispatch" className="flex items-center gap-2">
+            <RiRouteLine className="w-4 h-4" />
+            Dispatch
+          </TabsTrigger>
+          <TabsTrigger value="sla" className="flex items-center gap-2">
+            <RiAlarmWarningLine className="w-4 h-4" />
+            SLA
+          </TabsTrigger>
+          <TabsTrigger value="delivery" className="flex items-center gap-2">
+            <RiCameraLine className="w-4 h-4" />
+            Delivery
+          </TabsTrigger>
+          <TabsTrigger value="retention" className="flex items-center gap-2">
+            <RiDatabase2Line className="w-4 h-4" />
+            Data
+          </TabsTrigger>
           <TabsTrigger value="preferences" className="flex items-center gap-2">
             <RiGlobalLine className="w-4 h-4" />
             Preferences
@@ -286,6 +416,418 @@ const Settings = () => {
           </Card>
         </TabsContent>
 
+        {/* Dispatch Tab */}
+        <TabsContent value="dispatch">
+          <Card>
+            <CardHeader>
+              <CardTitle>Automatic Dispatch</CardTitle>
+              <CardDescription>
+                Pick drivers for new orders automatically, or suggest the best match to dispatchers
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {dispatch ? (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Mode</Label>
+                      <Select
+                        value={dispatch.mode}
+                        onValueChange={(value) => setDispatch({ ...dispatch, mode: value as DispatchSettings['mode'] })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="off">Off</SelectItem>
+                          <SelectItem value="propose">Suggest a driver</SelectItem>
+                          <SelectItem value="auto">Assign automatically</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Strategy</Label>
+                      <Select
+                        value={dispatch.strategy}
+                        onValueChange={(value) => setDispatch({ ...dispatch, strategy: value as DispatchSettings['strategy'] })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="nearest">Nearest driver</SelectItem>
+                          <SelectItem value="least_loaded">Least loaded driver</SelectItem>
+                          <SelectItem value="balanced">Balanced</SelectItem>
+                          <SelectItem value="custom">Custom weights</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="maxDistanceKm">Max distance to pickup (km)</Label>
+                      <Input
+                        id="maxDistanceKm"
+                        type="number"
+                        min={1}
+                        value={dispatch.maxDistanceKm}
+                        onChange={(e) => setDispatch({ ...dispatch, maxDistanceKm: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="maxActiveOrders">Max active orders per driver</Label>
+                      <Input
+                        id="maxActiveOrders"
+                        type="number"
+                        min={1}
+                        value={dispatch.maxActiveOrders}
+                        onChange={(e) => setDispatch({ ...dispatch, maxActiveOrders: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="maxLocationAgeMinutes">Ignore locations older than (minutes)</Label>
+                      <Input
+                        id="maxLocationAgeMinutes"
+                        type="number"
+                        min={1}
+                        value={dispatch.maxLocationAgeMinutes}
+                        onChange={(e) => setDispatch({ ...dispatch, maxLocationAgeMinutes: Number(e.target.value) })}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button onClick={handleDispatchSave}>
+                      <RiSaveLine className="w-4 h-4 mr-2" />
+                      Save Dispatch Settings
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Dispatch settings are unavailable.</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* SLA Tab */}
+        <TabsContent value="sla">
+          <Card>
+            <CardHeader>
+              <CardTitle>Service Levels</CardTitle>
+              <CardDescription>
+                Flag orders that are slow to be assigned, picked up or delivered, measured from when they are created
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {sla ? (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label>Monitor SLAs</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Check active orders every minute and alert dispatchers
+                      </p>
+                    </div>
+                    <Switch
+                      checked={sla.enabled}
+                      onCheckedChange={(checked) => setSla({ ...sla, enabled: checked })}
+                    />
+                  </div>
+                  <div className="space-y-2 md:w-1/3">
+                    <Label htmlFor="atRiskMinutes">Warn this many minutes before a deadline</Label>
+                    <Input
+                      id="atRiskMinutes"
+                      type="number"
+                      min={0}
+                      value={sla.atRiskMinutes}
+                      onChange={(e) => setSla({ ...sla, atRiskMinutes: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="space-y-3">
+                    {SLA_PRIORITIES.map((priority) => (
+                      <div key={priority} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                        <p className="text-sm font-medium capitalize md:pb-2">{priority}</p>
+                        {SLA_LIMITS.map(({ key, label }) => (
+                          <div key={key} className="space-y-2">
+                            <Label htmlFor={`${priority}-${key}`}>{label} (min)</Label>
+                            <Input
+                              id={`${priority}-${key}`}
+                              type="number"
+                              min={1}
+                              placeholder="No limit"
+                              value={sla.rules[priority][key] ?? ''}
+                              onChange={(e) => setSlaLimit(priority, key, e.target.value)}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Orders with a promised delivery time are held to that time instead of the delivery limit.
+                  </p>
+                  <div className="flex justify-end">
+                    <Button onClick={handleSlaSave}>
+                      <RiSaveLine className="w-4 h-4 mr-2" />
+                      Save SLA Settings
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">SLA settings are unavailable.</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Delivery Tab */}
+        <TabsContent value="delivery" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Proof of Delivery</CardTitle>
+              <CardDescription>
+                Decide what drivers must capture at the door and how close to the address they must be
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {proof ? (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label>Require proof of delivery</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Orders cannot be marked delivered until proof is submitted
+                      </p>
+                    </div>
+                    <Switch
+                      checked={proof.required}
+                      onCheckedChange={(checked) => setProof({ ...proof, required: checked })}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label>Require a signature</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Proof must include the recipient's signature
+                      </p>
+                    </div>
+                    <Switch
+                      checked={proof.requireSignature}
+                      onCheckedChange={(checked) => setProof({ ...proof, requireSignature: checked })}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label>Require a photo</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Proof must include at least one photo of the delivery
+                      </p>
+                    </div>
+                    <Switch
+                      checked={proof.requirePhoto}
+                      onCheckedChange={(checked) => setProof({ ...proof, requirePhoto: checked })}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label>Reject proof captured away from the address</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Otherwise proof outside the distance limit is accepted and flagged
+                      </p>
+                    </div>
+                    <Switch
+                      checked={proof.rejectOutOfRange}
+                      onCheckedChange={(checked) => setProof({ ...proof, rejectOutOfRange: checked })}
+                    />
+                  </div>
+                  <div className="space-y-2 md:w-1/3">
+                    <Label htmlFor="maxDistanceMeters">Distance limit (m)</Label>
+                    <Input
+                      id="maxDistanceMeters"
+                      type="number"
+                      min={10}
+                      value={proof.maxDistanceMeters}
+                      onChange={(e) => setProof({ ...proof, maxDistanceMeters: Number(e.target.value) })}
+                    />
+                  </div>
+                  <div className="flex justify-end">
+                    <Button onClick={handleProofSave}>
+                      <RiSaveLine className="w-4 h-4 mr-2" />
+                      Save Proof Settings
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Proof of delivery settings are unavailable.</p>
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle>Failed Deliveries</CardTitle>
+              <CardDescription>
+                How many times an order is attempted before it goes back to the sender
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {attempts ? (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label>Re-queue failed orders</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Put the order back up for assignment after a failed attempt
+                      </p>
+                    </div>
+                    <Switch
+                      checked={attempts.autoRequeue}
+                      onCheckedChange={(checked) => setAttempts({ ...attempts, autoRequeue: checked })}
+                    />
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="maxAttempts">Maximum attempts</Label>
+                      <Input
+                        id="maxAttempts"
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={attempts.maxAttempts}
+                        onChange={(e) => setAttempts({ ...attempts, maxAttempts: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="retryDelayMinutes">Wait before retrying (min)</Label>
+                      <Input
+                        id="retryDelayMinutes"
+                        type="number"
+                        min={0}
+                        value={attempts.retryDelayMinutes}
+                        onChange={(e) => setAttempts({ ...attempts, retryDelayMinutes: Number(e.target.value) })}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button onClick={handleAttemptsSave}>
+                      <RiSaveLine className="w-4 h-4 mr-2" />
+                      Save Attempt Settings
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Delivery attempt settings are unavailable.</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Retention Tab */}
+        <TabsContent value="retention">
+          <Card>
+            <CardHeader>
+              <CardTitle>Location History Retention</CardTitle>
+              <CardDescription>
+                Thin out and eventually remove old driver locations to keep the database small
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {retention ? (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label>Run automatically</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Apply this policy on the daily maintenance run
+                      </p>
+                    </div>
+                    <Switch
+                      checked={retention.enabled}
+                      onCheckedChange={(checked) => setRetention({ ...retention, enabled: checked })}
+                    />
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="downsampleAfterDays">Downsample after (days)</Label>
+                      <Input
+                        id="downsampleAfterDays"
+                        type="number"
+                        min={1}
+                        value={retention.downsampleAfterDays}
+                        onChange={(e) => setRetention({ ...retention, downsampleAfterDays: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="downsampleIntervalSeconds">Keep one fix every (seconds)</Label>
+                      <Input
+                        id="downsampleIntervalSeconds"
+                        type="number"
+                        min={5}
+                        value={retention.downsampleIntervalSeconds}
+                        onChange={(e) => setRetention({ ...retention, downsampleIntervalSeconds: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="deleteAfterDays">Delete after (days)</Label>
+                      <Input
+                        id="deleteAfterDays"
+                        type="number"
+                        min={1}
+                        value={retention.deleteAfterDays}
+                        onChange={(e) => setRetention({ ...retention, deleteAfterDays: Number(e.target.value) })}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label>Archive before deleting</Label>
+                      <p className="text-sm text-muted-foreground">
+                        Write deleted tracks to a compressed file on the server
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <Select
+                        value={retention.archiveFormat}
+                        onValueChange={(value) => setRetention({ ...retention, archiveFormat: value as RetentionSettings['archiveFormat'] })}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="ndjson">NDJSON</SelectItem>
+                          <SelectItem value="gpx">GPX</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Switch
+                        checked={retention.archive}
+                        onCheckedChange={(checked) => setRetention({ ...retention, archive: checked })}
+                      />
+                    </div>
+                  </div>
+                  {retentionReport && (
+                    <p className="text-sm text-muted-foreground">
+                      {retentionReport.dryRun ? 'Would downsample' : 'Downsampled'} {retentionReport.downsampled} and
+                      {retentionReport.dryRun ? ' delete' : ' deleted'} {retentionReport.deleted} fixes
+                      {retentionReport.archived > 0 && `, archiving ${retentionReport.archived}`}
+                    </p>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => handleRetentionRun(true)}>
+                      Preview
+                    </Button>
+                    <Button variant="outline" onClick={() => handleRetentionRun(false)}>
+                      Run Now
+                    </Button>
+                    <Button onClick={handleRetentionSave}>
+                      <RiSaveLine className="w-4 h-4 mr-2" />
+                      Save Retention Settings
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Retention settings are unavailable.</p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         {/* Preferences Tab */}
         <TabsContent value="preferences">
           <Card>
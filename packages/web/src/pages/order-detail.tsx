@@ -1,20 +1,403 @@
-import { useParams } from 'react-router-dom'
+import { useEffect, useState } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import { RiArrowLeftLine, RiBox3Line, RiDownloadLine } from '@remixicon/react'
+import { toast } from 'sonner'
+import type { Order } from '@zoneflow/shared'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
+import { Badge } from '../components/ui/badge'
+import { Button } from '../components/ui/button'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '../components/ui/dropdown-menu'
+import Map from '../components/Map'
+import LoadingSpinner from '../components/loading-spinner'
+import { ordersService, proofFileUrl, isAwaitingRelease, type DeliveryProof, type FailureReason, type OrderDetailResponse, type OrderEvent, type ProcessedTrack, type TrackFileFormat } from '../services/orders.service'
+import { formatDate, formatTimeWindow } from '../utils/format'
+
+const formatStatus = (status?: string) => (status || '').replace('_', ' ')
+
+const FAILURE_REASONS: Record<FailureReason, string> = {
+  customer_absent: 'customer absent',
+  wrong_address: 'wrong address',
+  refused: 'refused by customer',
+  access_denied: 'no access',
+  damaged: 'damaged',
+  other: 'other reason',
+}
+
+const TRACK_FORMATS: Array<{ format: TrackFileFormat; label: string }> = [
+  { format: 'gpx', label: 'GPX' },
+  { format: 'kml', label: 'KML (Google Earth)' },
+  { format: 'geojson', label: 'GeoJSON' },
+]
+
+// One-line description of an audit event
+const describeEvent = (event: OrderEvent) => {
+  switch (event.event_type) {
+    case 'created':
+      return 'Order created'
+    case 'assigned':
+      return `Assigned to ${event.driver_name || 'a driver'}`
+    case 'reassigned':
+      return `Reassigned from ${event.previous_driver_name || 'a driver'} to ${event.driver_name || 'a driver'}`
+    case 'cancelled':
+      return 'Order cancelled'
+    case 'released':
+      return 'Released for dispatch'
+    case 'status_changed':
+      if (event.to_status === 'failed_attempt') {
+        return `Delivery attempt failed${event.reason ? ` (${FAILURE_REASONS[event.reason]})` : ''}`
+      }
+      if (event.to_status === 'returned') {
+        return 'Returned to sender'
+      }
+      return `Status changed from ${formatStatus(event.from_status)} to ${formatStatus(event.to_status)}`
+    default:
+      return `Status changed from ${formatStatus(event.from_status)} to ${formatStatus(event.to_status)}`
+  }
+}
 
 const OrderDetail = () => {
   const { id } = useParams()
+  const [detail, setDetail] = useState<OrderDetailResponse | null>(null)
+  const [events, setEvents] = useState<OrderEvent[]>([])
+  const [track, setTrack] = useState<ProcessedTrack | null>(null)
+  const [proof, setProof] = useState<DeliveryProof | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isReleasing, setIsReleasing] = useState(false)
+
+  useEffect(() => {
+    if (id) {
+      loadOrder(id)
+    }
+  }, [id])
+
+  const loadOrder = async (orderId: string) => {
+    try {
+      setIsLoading(true)
+      const [orderData, timeline] = await Promise.all([
+        ordersService.getOrder(orderId),
+        ordersService.getOrderTimeline(orderId),
+      ])
+      setDetail(orderData)
+      setEvents(timeline)
+      // The driven path is optional; the page still works without it
+      ordersService.getOrderTrack(orderId).then(setTrack).catch(() => setTrack(null))
+      if (orderData.order.status === 'delivered') {
+        ordersService.getOrderProof(orderId).then(setProof).catch(() => setProof(null))
+      }
+    } catch (error: any) {
+      toast.error('Failed to load order')
+      console.error('Order detail error:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleRelease = async () => {
+    if (!id) return
+    try {
+      setIsReleasing(true)
+      await ordersService.releaseOrder(id)
+      toast.success('Order released for dispatch')
+      await loadOrder(id)
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to release order')
+    } finally {
+      setIsReleasing(false)
+    }
+  }
+
+  const handleDownloadTrack = async (format: TrackFileFormat) => {
+    if (!detail) return
+    try {
+      await ordersService.downloadOrderTrack(detail.order, format)
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to download track')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <LoadingSpinner size="lg" />
+      </div>
+    )
+  }
+
+  if (!detail) {
+    return (
+      <div className="text-center py-12">
+        <RiBox3Line className="mx-auto h-12 w-12 text-muted-foreground" />
+        <h3 className="mt-2 text-sm font-medium">Order not found</h3>
+        <Button variant="ghost" size="sm" className="mt-4" asChild>
+          <Link to="/orders">Back to orders</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  const { order, trip, attempts } = detail
+  // The map component reads the shared Order shape
+  const mapOrder = {
+    ...order,
+    pickup_lat: order.pickup_latitude,
+    pickup_lng: order.pickup_longitude,
+    delivery_lat: order.delivery_latitude,
+    delivery_lng: order.delivery_longitude,
+  } as unknown as Order
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold text-gray-900">Order Details</h1>
-        <p className="text-gray-600">Order ID: {id}</p>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/orders">
+              <RiArrowLeftLine className="w-4 h-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Order {order.tracking_code}</h1>
+            <p className="text-muted-foreground">Created {formatDate(order.created_at)}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {isAwaitingRelease(order) && order.status === 'pending' && (
+            <Button variant="outline" size="sm" onClick={handleRelease} disabled={isReleasing}>
+              Release now
+            </Button>
+          )}
+          {order.sla_status && order.sla_status !== 'ok' && (
+            <Badge variant={order.sla_status === 'breached' ? 'destructive' : 'outline'}>
+              {order.sla_status === 'breached' ? 'SLA breached' : 'SLA at risk'}
+            </Badge>
+          )}
+          <Badge variant={order.status === 'cancelled' ? 'destructive' : order.status === 'delivered' ? 'default' : 'secondary'}>
+            {formatStatus(order.status)}
+          </Badge>
+        </div>
       </div>
-      
-      <div className="card">
-        <p className="text-gray-500">Order detail page coming soon...</p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1 space-y-6">
+          {/* Details */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <div>
+                <p className="font-medium">{order.customer_name}</p>
+                <p className="text-muted-foreground">{order.customer_phone}</p>
+                <p className="text-muted-foreground">{order.customer_email}</p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Pickup</p>
+                <p>{order.pickup_address}</p>
+              </div>
+              <div>
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Delivery</p>
+                <p>{order.delivery_address}</p>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Priority</span>
+                <Badge variant={order.priority === 'urgent' || order.priority === 'high' ? 'destructive' : 'outline'}>
+                  {order.priority}
+                </Badge>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Driver</span>
+                <span>{order.driver_name || 'Unassigned'}</span>
+              </div>
+              {isAwaitingRelease(order) && order.scheduled_for && (
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Scheduled release</span>
+                  <span>{formatDate(order.scheduled_for)}</span>
+                </div>
+              )}
+              {order.pickup_ready_at && (
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Pickup ready</span>
+                  <span>{formatDate(order.pickup_ready_at)}</span>
+                </div>
+              )}
+              {(order.delivery_window_start || order.delivery_window_end) && (
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Delivery window</span>
+                  <span>{formatTimeWindow(order.delivery_window_start, order.delivery_window_end)}</span>
+                </div>
+              )}
+              {order.status === 'rescheduled' && order.rescheduled_for && (
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Next attempt</span>
+                  <span>{formatDate(order.rescheduled_for)}</span>
+                </div>
+              )}
+              {order.predicted_delivery && !order.actual_delivery && (
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Predicted delivery</span>
+                  <span>{formatDate(order.predicted_delivery)}</span>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Trip */}
+          {trip && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Trip</CardTitle>
+                <CardDescription>Measured from the driver's location history</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Distance</span>
+                  <span>{trip.distance_km.toFixed(1)} km</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Moving / stopped</span>
+                  <span>{Math.round(trip.moving_minutes)} / {Math.round(trip.stopped_minutes)} min</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Average / max speed</span>
+                  <span>{Math.round(trip.avg_moving_speed_kmh)} / {Math.round(trip.max_speed_kmh)} km/h</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Stops</span>
+                  <span>{trip.stop_count}</span>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Failed attempts */}
+          {attempts.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Delivery attempts</CardTitle>
+                <CardDescription>{attempts.length} failed so far</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {attempts.map((attempt) => (
+                  <div key={attempt.id}>
+                    <p className="font-medium">
+                      Attempt {attempt.attempt_number}: {FAILURE_REASONS[attempt.reason]}
+                    </p>
+                    {attempt.notes && <p className="text-muted-foreground">“{attempt.notes}”</p>}
+                    <p className="text-xs text-muted-foreground">
+                      {formatDate(attempt.created_at)} · {attempt.driver_name || 'No driver'}
+                    </p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Proof of delivery */}
+          {proof && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Proof of delivery</CardTitle>
+                <CardDescription>Captured {formatDate(proof.created_at)}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Received by</span>
+                  <span>{proof.recipient_name}</span>
+                </div>
+                {proof.distance_meters !== undefined && proof.distance_meters !== null && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-muted-foreground">Distance from address</span>
+                    <span className="flex items-center gap-2">
+                      {proof.distance_meters} m
+                      {proof.within_range === false && <Badge variant="destructive">Out of range</Badge>}
+                    </span>
+                  </div>
+                )}
+                {proof.notes && <p className="text-muted-foreground">“{proof.notes}”</p>}
+                {proof.signature_url && (
+                  <div>
+                    <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Signature</p>
+                    <img src={proofFileUrl(proof.signature_url)} alt="Recipient signature" className="mt-1 max-h-24 rounded border bg-white" />
+                  </div>
+                )}
+                {proof.photo_urls.length > 0 && (
+                  <div className="grid grid-cols-3 gap-2">
+                    {proof.photo_urls.map((url, index) => (
+                      <a key={url} href={proofFileUrl(url)} target="_blank" rel="noreferrer">
+                        <img src={proofFileUrl(url)} alt={`Delivery photo ${index + 1}`} className="aspect-square w-full rounded object-cover" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Timeline */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Timeline</CardTitle>
+              <CardDescription>Every change made to this order</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-4">
+                {events.map((event) => (
+                  <li key={event.id} className="flex gap-3">
+                    <div className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${event.event_type === 'cancelled' || event.to_status === 'failed_attempt' ? 'bg-red-500' : 'bg-green-500'}`} />
+                    <div className="text-sm">
+                      <p className="font-medium">{describeEvent(event)}</p>
+                      {event.note && <p className="text-muted-foreground">“{event.note}”</p>}
+                      <p className="text-xs text-muted-foreground">
+                        {formatDate(event.created_at)} · {event.actor_name || 'System'}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Map */}
+        <div className="lg:col-span-2">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Route</CardTitle>
+                {track && track.points.length > 1 && (
+                  <CardDescription>
+                    {track.distanceKm.toFixed(1)} km driven
+                    {track.stats.droppedOutliers + track.stats.droppedInaccurate > 0 &&
+                      ` · ${track.stats.droppedOutliers + track.stats.droppedInaccurate} noisy fixes removed`}
+                  </CardDescription>
+                )}
+              </div>
+              {track && track.stats.rawPoints > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      <RiDownloadLine className="w-4 h-4 mr-2" />
+                      Download track
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {TRACK_FORMATS.map(({ format, label }) => (
+                      <DropdownMenuItem key={format} onSelect={() => handleDownloadTrack(format)}>
+                        {label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </CardHeader>
+            <CardContent>
+              <Map orders={[mapOrder]} track={track?.polyline} height="500px" />
+            </CardContent>
+          </Card>
+        </div>
       </div>
     </div>
   )
 }
 
-export default OrderDetail
\ No newline at end of file
+export default OrderDetail
@@ -4,13 +4,16 @@ import { RiBox3Line, RiTruckLine } from '@remixicon/react'
 import { toast } from 'sonner'
 import Map from '../components/map'
 import LoadingSpinner from '../components/loading-spinner'
-import { ordersService } from '../services/orders.service'
-import { formatDate } from '../utils/format'
+import { ordersService, proofFileUrl, type PublicDeliveryProof } from '../services/orders.service'
+import { useTrackingStream, type TrackingLocation } from '../services/realtime.service'
+import { formatDate, formatTimeWindow } from '../utils/format'
 
 const PublicTracking = () => {
   const { trackingCode } = useParams()
   const [trackingData, setTrackingData] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [driverLocation, setDriverLocation] = useState<TrackingLocation | null>(null)
+  const [proof, setProof] = useState<PublicDeliveryProof | null>(null)
 
   useEffect(() => {
     if (trackingCode) {
@@ -18,6 +21,25 @@ const PublicTracking = () => {
     }
   }, [trackingCode])
 
+  useTrackingStream(trackingCode, {
+    onLocation: setDriverLocation,
+    onStatus: ({ status, timestamp }) => {
+      setTrackingData((current: any) => current && {
+        ...current,
+        order: { ...current.order, status, updated_at: timestamp },
+      })
+      if (status === 'delivered') {
+        loadProof()
+      }
+    },
+    onEta: ({ predictedDelivery, timestamp }) => {
+      setTrackingData((current: any) => current && {
+        ...current,
+        order: { ...current.order, predicted_delivery: predictedDelivery, eta_updated_at: timestamp },
+      })
+    },
+  })
+
   const loadTrackingData = async () => {
     if (!trackingCode) return
 
@@ -25,6 +47,9 @@ const PublicTracking = () => {
       setIsLoading(true)
       const data = await ordersService.trackOrder(trackingCode)
       setTrackingData(data)
+      if (data.order.status === 'delivered') {
+        loadProof()
+      }
     } catch (error: any) {
       toast.error('Order not found or tracking code is invalid')
       console.error('Tracking error:', error)
@@ -33,6 +58,12 @@ const PublicTracking = () => {
     }
   }
 
+  // Not every delivery comes with proof
+  const loadProof = () => {
+    if (!trackingCode) return
+    ordersService.getPublicProof(trackingCode).then(setProof).catch(() => setProof(null))
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -89,6 +120,18 @@ const PublicTracking = () => {
                     {order.status.replace('_', ' ')}
                   </span>
                 </div>
+                {order.predicted_delivery && !order.actual_delivery && order.status !== 'cancelled' && (
+                  <div className="text-center">
+                    <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Estimated Arrival</p>
+                    <p className="text-lg font-semibold text-gray-900">{formatDate(order.predicted_delivery)}</p>
+                  </div>
+                )}
+                {(order.delivery_window_start || order.delivery_window_end) && !order.actual_delivery && (
+                  <div className="text-center">
+                    <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">Delivery Window</p>
+                    <p className="text-sm text-gray-900">{formatTimeWindow(order.delivery_window_start, order.delivery_window_end)}</p>
+                  </div>
+                )}
                 <div className="text-center text-sm text-gray-600">
                   Last updated: {formatDate(order.updated_at)}
                 </div>
@@ -149,6 +192,32 @@ const PublicTracking = () => {
                 )}
               </div>
             </div>
+            {/* Proof of Delivery */}
+            {proof && (
+              <div className="card">
+                <div className="card-header">
+                  <h3 className="text-lg font-medium text-gray-900">Proof of Delivery</h3>
+                </div>
+                <div className="space-y-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">Received by {proof.recipient_name}</p>
+                    <p className="text-xs text-gray-500">{formatDate(proof.created_at)}</p>
+                  </div>
+                  {proof.signature_url && (
+                    <img src={proofFileUrl(proof.signature_url)} alt="Recipient signature" className="max-h-24 rounded border bg-white" />
+                  )}
+                  {proof.photo_urls.length > 0 && (
+                    <div className="grid grid-cols-3 gap-2">
+                      {proof.photo_urls.map((url, index) => (
+                        <a key={url} href={proofFileUrl(url)} target="_blank" rel="noreferrer">
+                          <img src={proofFileUrl(url)} alt={`Delivery photo ${index + 1}`} className="aspect-square w-full rounded object-cover" />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Map */}
@@ -162,6 +231,13 @@ const PublicTracking = () => {
               </div>
               <Map
                 orders={[order]}
+                drivers={driverLocation ? [{
+                  id: order.driver_id || 'driver',
+                  name: order.driver_name || 'Your driver',
+                  latitude: driverLocation.latitude,
+                  longitude: driverLocation.longitude,
+                  is_available: false,
+                }] : []}
                 height="600px"
               />
             </div>
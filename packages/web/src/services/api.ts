@@ -138,6 +138,42 @@ class ApiService {
     return response.data.data;
   }
 
+  // Multipart upload; the JSON default content type has to be replaced
+  async upload<T>(url: string, data: FormData): Promise<T> {
+    const response: AxiosResponse<ApiSuccessResponse<T>> = await this.api.post(
+      url,
+      data,
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    );
+    return response.data.data;
+  }
+
+  // Fetch a file and hand it to the browser as a download
+  async download(url: string, fileName: string, params?: any): Promise<void> {
+    let response: AxiosResponse<Blob>;
+    try {
+      response = await this.api.get(url, { params, responseType: 'blob' });
+    } catch (error: any) {
+      // Error bodies arrive as blobs too, so the API message has to be read out here
+      const body = error.response?.data;
+      if (body instanceof Blob) {
+        const apiError = JSON.parse(await body.text()) as ApiErrorResponse;
+        const customError = new Error(apiError.error || 'Download failed');
+        customError.name = 'ApiError';
+        throw customError;
+      }
+      throw error;
+    }
+    const objectUrl = window.URL.createObjectURL(response.data);
+    const a = document.createElement('a');
+    a.href = objectUrl;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(objectUrl);
+  }
+
   // Public API calls (without auth)
   async publicGet<T>(url: string, params?: any): Promise<T> {
     try {
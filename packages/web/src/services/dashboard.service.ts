@@ -10,6 +10,7 @@ interface DashboardStats {
   activeDrivers: number
   totalRevenue: number
   avgDeliveryTime: number
+  scheduledOrders: number
   orderMetrics: {
     pending: number
     in_progress: number
@@ -29,9 +30,11 @@ interface DashboardStats {
   }>
 }
 
+export type DriverConnectionStatus = 'online' | 'stale' | 'offline'
+
 interface ActivityItem {
   id: string
-  type: 'order' | 'geofence'
+  type: 'order' | 'geofence' | 'sla'
   title: string
   description: string
   timestamp: string
@@ -51,11 +54,40 @@ interface MapData {
     latitude: number
     longitude: number
     is_available: boolean
+    connection_status: DriverConnectionStatus
     current_order_id?: string
   }>
   geofences: Geofence[]
 }
 
+// Raw /api/dashboard/map payload, before it is shaped for the Map component
+interface MapDataResponse {
+  activeOrders: Array<{
+    id: string
+    tracking_code: string
+    status: Order['status']
+    priority: Order['priority']
+    customer_name: string
+    pickup_address: string
+    pickup_latitude: number
+    pickup_longitude: number
+    delivery_address: string
+    delivery_latitude: number
+    delivery_longitude: number
+    estimated_delivery?: string
+    driver_id?: string
+  }>
+  drivers: Array<{
+    id: string
+    name: string
+    current_latitude: number | null
+    current_longitude: number | null
+    is_available: number | boolean
+    connection_status: DriverConnectionStatus
+  }>
+  geofences: Geofence[]
+}
+
 interface DriverPerformance {
   driver_id: string
   driver_name: string
@@ -64,6 +96,11 @@ interface DriverPerformance {
   cancelled_orders: number
   average_delay: number
   average_delivery_time: number
+  distance_km: number
+  moving_minutes: number
+  stopped_minutes: number
+  avg_moving_speed_kmh?: number
+  max_speed_kmh?: number
 }
 
 class DashboardService {
@@ -76,7 +113,29 @@ class DashboardService {
   }
 
   async getMapData(): Promise<MapData> {
-    return apiService.get('/api/dashboard/map')
+    const data: MapDataResponse = await apiService.get('/api/dashboard/map')
+
+    return {
+      orders: data.activeOrders.map((order) => ({
+        ...order,
+        pickup_lat: order.pickup_latitude,
+        pickup_lng: order.pickup_longitude,
+        delivery_lat: order.delivery_latitude,
+        delivery_lng: order.delivery_longitude,
+      })) as unknown as MapData['orders'],
+      drivers: data.drivers
+        .filter((driver) => driver.current_latitude !== null && driver.current_longitude !== null)
+        .map((driver) => ({
+          id: driver.id,
+          name: driver.name,
+          latitude: driver.current_latitude as number,
+          longitude: driver.current_longitude as number,
+          is_available: Boolean(driver.is_available),
+          connection_status: driver.connection_status,
+          current_order_id: data.activeOrders.find((order) => order.driver_id === driver.id)?.id,
+        })),
+      geofences: data.geofences,
+    }
   }
 
   async getDriverPerformance(period: string = '7d'): Promise<DriverPerformance[]> {
@@ -0,0 +1,21 @@
+import { apiService } from './api'
+
+export interface DeliveryAttemptSettings {
+  maxAttempts: number
+  autoRequeue: boolean
+  retryDelayMinutes: number
+}
+
+class DeliveryAttemptsService {
+  async getSettings(): Promise<DeliveryAttemptSettings> {
+    const { settings } = await apiService.get<{ settings: DeliveryAttemptSettings }>('/api/delivery-attempts/settings')
+    return settings
+  }
+
+  async updateSettings(data: Partial<DeliveryAttemptSettings>): Promise<DeliveryAttemptSettings> {
+    const { settings } = await apiService.put<{ settings: DeliveryAttemptSettings }>('/api/delivery-attempts/settings', data)
+    return settings
+  }
+}
+
+export const deliveryAttemptsService = new DeliveryAttemptsService()
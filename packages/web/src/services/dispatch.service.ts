@@ -0,0 +1,55 @@
+import { apiService } from './api'
+
+export type DispatchMode = 'off' | 'propose' | 'auto'
+export type DispatchStrategy = 'nearest' | 'least_loaded' | 'balanced' | 'custom'
+
+export interface DispatchWeights {
+  distance: number
+  load: number
+  vehicle: number
+  freshness: number
+}
+
+export interface DispatchSettings {
+  mode: DispatchMode
+  strategy: DispatchStrategy
+  weights: DispatchWeights
+  maxDistanceKm: number
+  maxActiveOrders: number
+  maxLocationAgeMinutes: number
+  vehicleScores: Record<string, number>
+}
+
+export interface DispatchCandidate {
+  driverId: string
+  name: string
+  vehicleType?: string
+  distanceKm: number
+  activeOrders: number
+  locationAgeMinutes: number
+  score: number
+  breakdown: DispatchWeights
+}
+
+class DispatchService {
+  async getSettings(): Promise<DispatchSettings> {
+    const { settings } = await apiService.get<{ settings: DispatchSettings }>('/api/dispatch/settings')
+    return settings
+  }
+
+  async updateSettings(data: Partial<DispatchSettings>): Promise<DispatchSettings> {
+    const { settings } = await apiService.put<{ settings: DispatchSettings }>('/api/dispatch/settings', data)
+    return settings
+  }
+
+  async getCandidates(orderId: string): Promise<DispatchCandidate[]> {
+    const { candidates } = await apiService.get<{ candidates: DispatchCandidate[] }>(`/api/dispatch/orders/${orderId}/candidates`)
+    return candidates
+  }
+
+  async autoAssign(orderId: string): Promise<void> {
+    await apiService.post(`/api/dispatch/orders/${orderId}/assign`)
+  }
+}
+
+export const dispatchService = new DispatchService()
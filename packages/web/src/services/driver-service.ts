@@ -27,6 +27,30 @@ export interface BulkCreateDriverRequest {
   drivers: CreateDriverRequest[];
 }
 
+export interface RouteStop {
+  orderId: string;
+  trackingCode: string;
+  type: 'pickup' | 'delivery';
+  address: string;
+  latitude: number;
+  longitude: number;
+  priority: string;
+  legDistanceKm: number;
+  estimatedArrival: string;
+  readyAt: string | null;
+  deadline: string | null;
+  isLate: boolean;
+}
+
+export interface DriverRoute {
+  driverId: string;
+  start: { latitude: number; longitude: number } | null;
+  stops: RouteStop[];
+  totalDistanceKm: number;
+  totalDurationMinutes: number;
+  generatedAt: string;
+}
+
 export interface DriverFilters {
   status?: 'available' | 'busy' | 'offline';
   search?: string;
@@ -61,6 +85,12 @@ class DriverService {
     return apiService.get<Driver>(`${this.baseUrl}/${id}`);
   }
 
+  // Get the optimized stop sequence for a driver's active orders
+  async getDriverRoute(id: string): Promise<DriverRoute> {
+    const { route } = await apiService.get<{ route: DriverRoute }>(`${this.baseUrl}/${id}/route`);
+    return route;
+  }
+
   // Create new driver
   async createDriver(data: CreateDriverRequest): Promise<Driver> {
     return apiService.post<Driver>(this.baseUrl, data);
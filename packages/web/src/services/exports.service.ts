@@ -0,0 +1,27 @@
+import { apiService } from './api'
+
+export type ExportDataset = 'orders' | 'drivers' | 'geofence-events' | 'locations'
+export type ExportFormat = 'csv' | 'xlsx' | 'geojson'
+
+// Filters the export endpoint understands; each dataset ignores the ones that do not apply
+export interface ExportFilters {
+  status?: string
+  priority?: string
+  driverId?: string
+  scheduled?: 'true' | 'false'
+  available?: 'true' | 'false'
+  geofenceId?: string
+  eventType?: 'enter' | 'exit' | 'dwell'
+  orderId?: string
+  from?: string
+  to?: string
+}
+
+class ExportsService {
+  async download(dataset: ExportDataset, format: ExportFormat, filters: ExportFilters = {}): Promise<void> {
+    const stamp = new Date().toISOString().slice(0, 10)
+    await apiService.download(`/api/exports/${dataset}`, `${dataset}-${stamp}.${format}`, { ...filters, format })
+  }
+}
+
+export const exportsService = new ExportsService()
@@ -1,14 +1,18 @@
-import type { Geofence } from '@zoneflow/shared'
+import type { Geofence, GeofenceCoordinates } from '@zoneflow/shared'
 import { apiService } from './api'
 
+export type GeofenceShape = 'circle' | 'polygon' | 'multipolygon'
+
+// Payload accepted by POST /api/geofences; polygon rings are closed [lat, lng] lists
 export interface CreateGeofenceData {
   name: string
-  type: 'circle' | 'polygon'
-  center_lat?: number
-  center_lng?: number
+  type: BackendGeofence['type']
+  shape: GeofenceShape
+  centerLatitude?: number
+  centerLongitude?: number
   radius?: number
-  coordinates?: Array<{ lat: number; lng: number }>
-  triggers: string[]
+  coordinates?: GeofenceCoordinates
+  dwellTime?: number | null
 }
 
 // Backend geofence type that matches the actual API response
@@ -16,17 +20,38 @@ export interface BackendGeofence {
   id: string
   name: string
   type: 'pickup' | 'delivery' | 'restricted' | 'custom'
-  center_lat: number
-  center_lng: number
+  shape: GeofenceShape
+  center_latitude: number
+  center_longitude: number
   radius: number
-  coordinates: Array<{ lat: number; lng: number }> | null
-  triggers: string[]
+  coordinates: GeofenceCoordinates | null
+  dwell_time: number | null
   is_active: boolean
   business_id: string
   created_at: string
   updated_at: string
 }
 
+export type GeofenceFileFormat = 'geojson' | 'kml'
+
+export interface GeofenceImportFeature {
+  index: number
+  name: string | null
+  status: 'valid' | 'created' | 'failed'
+  geofence?: CreateGeofenceData
+  geofenceId?: string
+  errors?: string[]
+}
+
+export interface GeofenceImportResult {
+  dryRun: boolean
+  total: number
+  valid: number
+  created: number
+  failed: number
+  features: GeofenceImportFeature[]
+}
+
 export interface GeofenceWithEvents extends Geofence {
   events?: Array<{
     id: string
@@ -47,12 +72,14 @@ class GeofencesService {
     return apiService.get(`/api/geofences/${id}`)
   }
 
-  async createGeofence(data: CreateGeofenceData): Promise<Geofence> {
-    return apiService.post('/api/geofences', data)
+  async createGeofence(data: CreateGeofenceData): Promise<BackendGeofence> {
+    const response = await apiService.post('/api/geofences', data) as { geofence: BackendGeofence }
+    return response.geofence
   }
 
-  async updateGeofence(id: string, data: Partial<CreateGeofenceData>): Promise<Geofence> {
-    return apiService.put(`/api/geofences/${id}`, data)
+  async updateGeofence(id: string, data: Partial<CreateGeofenceData>): Promise<BackendGeofence> {
+    const response = await apiService.put(`/api/geofences/${id}`, data) as { geofence: BackendGeofence }
+    return response.geofence
   }
 
   async deleteGeofence(id: string): Promise<void> {
@@ -63,6 +90,19 @@ class GeofencesService {
     return apiService.patch(`/api/geofences/${id}/toggle`)
   }
 
+  // Pass dryRun to validate and preview the file without creating anything
+  async importGeofences(file: File, dryRun: boolean): Promise<GeofenceImportResult> {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('dryRun', String(dryRun))
+    return apiService.upload('/api/geofences/import', formData)
+  }
+
+  async exportGeofences(format: GeofenceFileFormat): Promise<void> {
+    const stamp = new Date().toISOString().slice(0, 10)
+    await apiService.download('/api/geofences/export', `geofences-${stamp}.${format}`, { format })
+  }
+
   async checkGeofences(latitude: number, longitude: number, driverId: string, orderId?: string): Promise<void> {
     return apiService.post('/api/geofences/check', {
       latitude,
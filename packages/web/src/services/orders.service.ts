@@ -1,6 +1,8 @@
 import type { Order } from '@zoneflow/shared'
 import { apiService } from './api'
 
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
 // Define types that are used in the service
 type OrderStatus = Order['status']
 type OrderPriority = Order['priority']
@@ -34,6 +36,7 @@ interface CreateOrderData {
 interface OrderFilters {
   status?: OrderStatus
   priority?: OrderPriority
+  scheduled?: 'true' | 'false'
   page?: number
   limit?: number
 }
@@ -50,15 +53,190 @@ interface TrackingResponse {
   }>
 }
 
+// Backend order type that matches the actual API response
+export interface BackendOrder {
+  id: string
+  tracking_code: string
+  business_id: string
+  customer_name: string
+  customer_phone?: string
+  customer_email?: string
+  pickup_address: string
+  pickup_latitude: number
+  pickup_longitude: number
+  delivery_address: string
+  delivery_latitude: number
+  delivery_longitude: number
+  status: OrderStatus
+  priority: OrderPriority
+  estimated_delivery?: string
+  predicted_delivery?: string
+  eta_updated_at?: string
+  sla_status?: 'ok' | 'at_risk' | 'breached'
+  actual_pickup?: string
+  actual_delivery?: string
+  attempt_count?: number
+  rescheduled_for?: string
+  pickup_ready_at?: string
+  delivery_window_start?: string
+  delivery_window_end?: string
+  scheduled_for?: string
+  released_at?: string
+  external_ref?: string
+  notes?: string
+  driver_id?: string
+  driver_name?: string
+  driver_phone?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface OrderTrip {
+  order_id: string
+  driver_id?: string
+  distance_km: number
+  duration_minutes: number
+  moving_minutes: number
+  stopped_minutes: number
+  max_speed_kmh: number
+  avg_moving_speed_kmh: number
+  stop_count: number
+  point_count: number
+  started_at?: string
+  ended_at?: string
+}
+
+export type FailureReason = 'customer_absent' | 'wrong_address' | 'refused' | 'access_denied' | 'damaged' | 'other'
+
+export interface DeliveryAttempt {
+  id: string
+  order_id: string
+  driver_id?: string
+  driver_name?: string
+  attempt_number: number
+  reason: FailureReason
+  notes?: string
+  created_at: string
+}
+
+export interface OrderDetailResponse {
+  order: BackendOrder
+  locationHistory: Array<{
+    latitude: number
+    longitude: number
+    timestamp: string
+  }>
+  trip: OrderTrip | null
+  attempts: DeliveryAttempt[]
+}
+
+export type OrderEventType = 'created' | 'status_changed' | 'assigned' | 'reassigned' | 'cancelled' | 'released'
+
+export interface OrderEvent {
+  id: string
+  order_id: string
+  event_type: OrderEventType
+  from_status?: string
+  to_status?: string
+  driver_id?: string
+  driver_name?: string
+  previous_driver_id?: string
+  previous_driver_name?: string
+  note?: string
+  reason?: FailureReason
+  actor_user_id?: string
+  actor_name?: string
+  created_at: string
+}
+
+export interface ProcessedTrack {
+  polyline: string
+  points: Array<[number, number]>
+  startedAt: string | null
+  endedAt: string | null
+  distanceKm: number
+  stats: {
+    rawPoints: number
+    droppedInaccurate: number
+    droppedOutliers: number
+    simplifiedPoints: number
+    downsampled: boolean
+  }
+}
+
+export type TrackFileFormat = 'gpx' | 'kml' | 'geojson'
+
+export interface DeliveryProof {
+  id: string
+  order_id: string
+  driver_id?: string
+  recipient_name: string
+  signature_file?: string
+  photo_files: string[]
+  latitude?: number
+  longitude?: number
+  accuracy?: number
+  distance_meters?: number
+  within_range?: boolean
+  notes?: string
+  created_at: string
+  signature_url?: string
+  photo_urls: string[]
+}
+
+// What the public tracking page receives
+export type PublicDeliveryProof = Pick<DeliveryProof, 'recipient_name' | 'within_range' | 'created_at' | 'signature_url' | 'photo_urls'>
+
+// Scheduled orders stay out of dispatch until they are released
+export interface OrderImportRow {
+  row: number
+  externalRef: string | null
+  status: 'created' | 'valid' | 'skipped' | 'failed'
+  orderId?: string
+  errors?: string[]
+}
+
+export interface OrderImportResult {
+  importId: string
+  dryRun: boolean
+  totalRows: number
+  valid: number
+  created: number
+  skipped: number
+  failed: number
+  rows: OrderImportRow[]
+  errorReportUrl: string | null
+}
+
+export const isAwaitingRelease = (order: Pick<BackendOrder, 'scheduled_for' | 'released_at'>) =>
+  Boolean(order.scheduled_for) && !order.released_at
+
+// Proof files are served by the API, not the web app
+export const proofFileUrl = (url: string) => `${API_BASE_URL}${url}`
+
 class OrdersService {
   async getOrders(filters: OrderFilters = {}): Promise<OrdersResponse> {
     return apiService.get('/api/orders', filters)
   }
 
-  async getOrder(id: string): Promise<Order> {
+  async getOrder(id: string): Promise<OrderDetailResponse> {
     return apiService.get(`/api/orders/${id}`)
   }
 
+  async getOrderTimeline(id: string): Promise<OrderEvent[]> {
+    const { events } = await apiService.get<{ events: OrderEvent[] }>(`/api/orders/${id}/timeline`)
+    return events
+  }
+
+  async getOrderTrack(id: string): Promise<ProcessedTrack> {
+    const { track } = await apiService.get<{ track: ProcessedTrack }>(`/api/location/order/${id}`, { processed: true })
+    return track
+  }
+
+  async downloadOrderTrack(order: Pick<Order, 'id' | 'tracking_code'>, format: TrackFileFormat): Promise<void> {
+    await apiService.download(`/api/location/order/${order.id}/track.${format}`, `order-${order.tracking_code}-track.${format}`)
+  }
+
   async createOrder(data: CreateOrderData): Promise<Order> {
     return apiService.post('/api/orders', data)
   }
@@ -71,9 +249,40 @@ class OrdersService {
     return apiService.patch(`/api/orders/${id}/assign`, { driver_id: driverId })
   }
 
+  async releaseOrder(id: string): Promise<BackendOrder> {
+    const { order } = await apiService.patch<{ order: BackendOrder }>(`/api/orders/${id}/release`)
+    return order
+  }
+
+  // Pass dryRun to validate the file without creating anything
+  async importOrders(file: File, options: { dryRun: boolean; mapping?: Record<string, string> }): Promise<OrderImportResult> {
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('dryRun', String(options.dryRun))
+    if (options.mapping) {
+      formData.append('mapping', JSON.stringify(options.mapping))
+    }
+    return apiService.upload('/api/orders/import', formData)
+  }
+
+  async downloadImportErrors(result: OrderImportResult, fileName: string): Promise<void> {
+    if (!result.errorReportUrl) return
+    await apiService.download(result.errorReportUrl, `${fileName.replace(/\.[^.]+$/, '')}-errors.csv`)
+  }
+
   async trackOrder(trackingCode: string): Promise<TrackingResponse> {
     return apiService.publicGet(`/api/orders/track/${trackingCode}`)
   }
+
+  async getOrderProof(id: string): Promise<DeliveryProof> {
+    const { proof } = await apiService.get<{ proof: DeliveryProof }>(`/api/orders/${id}/proof`)
+    return proof
+  }
+
+  async getPublicProof(trackingCode: string): Promise<PublicDeliveryProof> {
+    const { proof } = await apiService.publicGet<{ proof: PublicDeliveryProof }>(`/api/tracking/${trackingCode}/proof`)
+    return proof
+  }
 }
 
 export const ordersService = new OrdersService()
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { apiService } from './api'
+
+export interface ProofSettings {
+  required: boolean
+  requireSignature: boolean
+  requirePhoto: boolean
+  maxDistanceMeters: number
+  rejectOutOfRange: boolean
+}
+
+class ProofsService {
+  async getSettings(): Promise<ProofSettings> {
+    const { settings } = await apiService.get<{ settings: ProofSettings }>('/api/proofs/settings')
+    return settings
+  }
+
+  async updateSettings(data: Partial<ProofSettings>): Promise<ProofSettings> {
+    const { settings } = await apiService.put<{ settings: ProofSettings }>('/api/proofs/settings', data)
+    return settings
+  }
+}
+
+export const proofsService = new ProofsService()
@@ -0,0 +1,130 @@
+import { useEffect, useRef } from 'react'
+import { useAuthStore } from '../stores/auth.store'
+import { apiService } from './api'
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+const RECONNECT_DELAY_MS = 3000
+
+export type RealtimeEventType =
+  | 'driver.location_updated'
+  | 'driver.availability_changed'
+  | 'driver.connection_changed'
+  | 'driver.signal_lost'
+  | 'order.created'
+  | 'order.status_changed'
+  | 'order.assigned'
+  | 'order.dispatch_proposed'
+  | 'order.sla_alert'
+  | 'order.released'
+  | 'geofence.enter'
+  | 'geofence.exit'
+  | 'geofence.dwell'
+
+const REALTIME_EVENT_TYPES: RealtimeEventType[] = [
+  'driver.location_updated',
+  'driver.availability_changed',
+  'driver.connection_changed',
+  'driver.signal_lost',
+  'order.created',
+  'order.status_changed',
+  'order.assigned',
+  'order.dispatch_proposed',
+  'order.sla_alert',
+  'order.released',
+  'geofence.enter',
+  'geofence.exit',
+  'geofence.dwell',
+]
+
+export interface RealtimeEvent<T = any> {
+  type: RealtimeEventType
+  data: T & { timestamp: string }
+}
+
+// Subscribe to the dispatcher push stream for the signed-in business.
+// Each connection opens with a fresh short-lived stream token, since EventSource cannot send the
+// session token as a header; the stream is reopened when the session token changes.
+export function useRealtimeEvents(onEvent: (event: RealtimeEvent) => void) {
+  const token = useAuthStore((state) => state.token)
+  const handlerRef = useRef(onEvent)
+  handlerRef.current = onEvent
+
+  useEffect(() => {
+    if (!token) return
+
+    let source: EventSource | null = null
+    let retry: ReturnType<typeof setTimeout> | undefined
+    let stopped = false
+
+    const reconnect = () => {
+      source?.close()
+      source = null
+      if (!stopped) retry = setTimeout(connect, RECONNECT_DELAY_MS)
+    }
+
+    async function connect() {
+      try {
+        const stream = await apiService.post<{ token: string }>('/api/realtime/token')
+        if (stopped) return
+
+        source = new EventSource(`${API_BASE_URL}/api/realtime/stream?token=${encodeURIComponent(stream.token)}`)
+        REALTIME_EVENT_TYPES.forEach((type) => {
+          source!.addEventListener(type, (message: MessageEvent) => {
+            try {
+              handlerRef.current({ type, data: JSON.parse(message.data) })
+            } catch (error) {
+              console.error('Realtime event error:', error)
+            }
+          })
+        })
+        // EventSource would retry with the same, soon expired, token; fetch a new one instead
+        source.onerror = reconnect
+      } catch (error) {
+        console.error('Realtime connection error:', error)
+        reconnect()
+      }
+    }
+
+    connect()
+
+    return () => {
+      stopped = true
+      clearTimeout(retry)
+      source?.close()
+    }
+  }, [token])
+}
+
+export interface TrackingLocation {
+  latitude: number
+  longitude: number
+  timestamp: string
+}
+
+export interface TrackingStreamHandlers {
+  onLocation?: (location: TrackingLocation) => void
+  onStatus?: (update: { status: string; previousStatus: string; timestamp: string }) => void
+  onEta?: (update: { predictedDelivery: string; timestamp: string }) => void
+}
+
+// Subscribe to the public tracking stream for one order; no sign-in required.
+// The server ends the stream once the order is delivered or cancelled.
+export function useTrackingStream(trackingCode: string | undefined, handlers: TrackingStreamHandlers) {
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!trackingCode) return
+
+    const source = new EventSource(`${API_BASE_URL}/api/tracking/${encodeURIComponent(trackingCode)}/stream`)
+    const parse = (message: MessageEvent) => JSON.parse(message.data)
+
+    source.addEventListener('location', (message) => handlersRef.current.onLocation?.(parse(message)))
+    source.addEventListener('status', (message) => handlersRef.current.onStatus?.(parse(message)))
+    source.addEventListener('eta', (message) => handlersRef.current.onEta?.(parse(message)))
+    // Stop EventSource from reconnecting after the server closes a finished order
+    source.addEventListener('closed', () => source.close())
+
+    return () => source.close()
+  }, [trackingCode])
+}
@@ -0,0 +1,42 @@
+import { apiService } from './api'
+
+export type ArchiveFormat = 'ndjson' | 'gpx'
+
+export interface RetentionSettings {
+  enabled: boolean
+  downsampleAfterDays: number
+  downsampleIntervalSeconds: number
+  deleteAfterDays: number
+  archive: boolean
+  archiveFormat: ArchiveFormat
+}
+
+export interface RetentionReport {
+  businessId: string
+  dryRun: boolean
+  downsampled: number
+  deleted: number
+  archived: number
+  archiveFile: string | null
+  vacuumed: boolean
+  ranAt: string
+}
+
+class RetentionService {
+  async getSettings(): Promise<RetentionSettings> {
+    const { settings } = await apiService.get<{ settings: RetentionSettings }>('/api/retention/settings')
+    return settings
+  }
+
+  async updateSettings(data: Partial<RetentionSettings>): Promise<RetentionSettings> {
+    const { settings } = await apiService.put<{ settings: RetentionSettings }>('/api/retention/settings', data)
+    return settings
+  }
+
+  async run(dryRun: boolean = true): Promise<RetentionReport> {
+    const { report } = await apiService.post<{ report: RetentionReport }>('/api/retention/run', { dryRun })
+    return report
+  }
+}
+
+export const retentionService = new RetentionService()
@@ -0,0 +1,50 @@
+import { apiService } from './api'
+
+export type SlaPriority = 'low' | 'medium' | 'high' | 'urgent'
+export type SlaStage = 'assign' | 'pickup' | 'delivery'
+export type SlaLevel = 'at_risk' | 'breached'
+
+export interface SlaRule {
+  maxAssignMinutes: number | null
+  maxPickupMinutes: number | null
+  maxDeliveryMinutes: number | null
+}
+
+export interface SlaSettings {
+  enabled: boolean
+  atRiskMinutes: number
+  rules: Record<SlaPriority, SlaRule>
+}
+
+export interface SlaAlert {
+  id: string
+  order_id: string
+  stage: SlaStage
+  level: SlaLevel
+  deadline: string
+  created_at: string
+  tracking_code: string
+  customer_name: string
+  priority: SlaPriority
+  status: string
+  driver_name?: string
+}
+
+class SlaService {
+  async getSettings(): Promise<SlaSettings> {
+    const { settings } = await apiService.get<{ settings: SlaSettings }>('/api/sla/settings')
+    return settings
+  }
+
+  async updateSettings(data: Partial<SlaSettings>): Promise<SlaSettings> {
+    const { settings } = await apiService.put<{ settings: SlaSettings }>('/api/sla/settings', data)
+    return settings
+  }
+
+  async getAlerts(): Promise<SlaAlert[]> {
+    const { alerts } = await apiService.get<{ alerts: SlaAlert[] }>('/api/sla/alerts')
+    return alerts
+  }
+}
+
+export const slaService = new SlaService()
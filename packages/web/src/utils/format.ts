@@ -14,6 +14,19 @@ export const formatDate = (date: string | Date): string => {
   return format(dateObj, 'MMM d, yyyy HH:mm')
 }
 
+export const formatTimeWindow = (start?: string | null, end?: string | null): string => {
+  if (start && end) {
+    const startDate = new Date(start)
+    const endDate = new Date(end)
+    const sameDay = startDate.toDateString() === endDate.toDateString()
+    return `${formatDate(startDate)} – ${sameDay ? format(endDate, 'HH:mm') : formatDate(endDate)}`
+  }
+  if (start) {
+    return `From ${formatDate(start)}`
+  }
+  return end ? `By ${formatDate(end)}` : ''
+}
+
 export const formatRelativeTime = (date: string | Date): string => {
   const dateObj = typeof date === 'string' ? new Date(date) : date
   return formatDistanceToNow(dateObj, { addSuffix: true })
@@ -1,4 +1,5 @@
 import L from 'leaflet'
+import type { GeofenceCoordinates } from '@zoneflow/shared'
 
 // Fix for default markers in Leaflet with Vite
 delete (L.Icon.Default.prototype as any)._getIconUrl
@@ -29,6 +30,8 @@ export const mapIcons = {
   delivery: createCustomIcon('#10b981', 'D'),
   driver: createCustomIcon('#3b82f6', '🚗'),
   driverUnavailable: createCustomIcon('#6b7280', '🚗'),
+  driverStale: createCustomIcon('#f97316', '🚗'),
+  driverOffline: createCustomIcon('#ef4444', '🚗'),
   geofencePickup: createCustomIcon('#f59e0b'),
   geofenceDelivery: createCustomIcon('#10b981'),
   geofenceRestricted: createCustomIcon('#ef4444'),
@@ -85,6 +88,17 @@ export const isPointInGeofence = (
   return distance <= geofence.radius
 }
 
+// Polygon rings of a geofence as [lat, lng] lists (empty for circles)
+export const getGeofenceRings = (geofence: {
+  shape?: string
+  coordinates?: GeofenceCoordinates | null
+}): Array<Array<[number, number]>> => {
+  if (!geofence.coordinates || geofence.shape === 'circle') return []
+  return geofence.shape === 'multipolygon'
+    ? geofence.coordinates as Array<Array<[number, number]>>
+    : [geofence.coordinates as Array<[number, number]>]
+}
+
 // Default map center (can be customized based on business location)
 export const DEFAULT_MAP_CENTER: [number, number] = [40.7128, -74.0060] // New York City
 export const DEFAULT_MAP_ZOOM = 13